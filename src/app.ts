@@ -13,11 +13,13 @@ import authRoutes from "./routes/authRoutes";
 import profileRoutes from "./routes/profileRoutes";
 import profilePictureRoutes from "./routes/profilePictureRoutes";
 import searchRoutes from "./routes/searchRoutes";
+import savedItemRoutes from "./routes/savedItemRoutes";
 import userRoutes from "./routes/userRoutes";
 import postRoutes from "./routes/postRoutes";
 import commentRoutes from "./routes/commentRoutes";
 import standaloneCommentRoutes from "./routes/standaloneCommentRoutes";
 import friendshipRoutes from "./routes/friendshipRoutes";
+import followRoutes from "./routes/followRoutes";
 import debugRoutes from "./debug/vercelAuth";
 import privacySettingsRoutes from "./routes/privacySettingsRoutes";
 import messageRoutes from "./routes/messageRoutes";
@@ -30,9 +32,15 @@ import paymentRoutes from "./routes/payment.route";
 import subscriptionRoutes from "./routes/subscription.routes";
 import transactionRoutes from "./routes/transactionRoutes";
 import statsRoutes from "./routes/statsRoutes";
+import dataExportRoutes from "./routes/dataExportRoutes";
+import auditLogRoutes from "./routes/auditLogRoutes";
 import { setupMessageRetentionJob } from "./jobs/messageRetentionJob";
 import { setupSubscriptionStatusJob } from "./jobs/subscriptionStatusJob";
 import { setupAiEngagementJob } from "./jobs/aiEngagementJob";
+import { setupAccountDeletionJob } from "./jobs/accountDeletionJob";
+import { setupDataExportJob } from "./jobs/dataExportJob";
+import { setupScheduledPostJob } from "./jobs/scheduledPostJob";
+import { setupPostViewFlushJob } from "./jobs/postViewFlushJob";
 import { redisService } from "./services/redis.service";
 import { BehaviorPlannerService } from "./services/simulation/behaviorPlanner.service";
 import { AiPresenceService } from "./services/simulation/aiPresenceService";
@@ -136,6 +144,22 @@ bootLog("message retention job scheduled");
 setupSubscriptionStatusJob();
 bootLog("subscription status job scheduled");
 
+// Initialize the scheduled account deletion job when server starts
+setupAccountDeletionJob();
+bootLog("account deletion job scheduled");
+
+// Initialize the data export job when server starts
+setupDataExportJob();
+bootLog("data export job scheduled");
+
+// Initialize the scheduled post job when server starts
+setupScheduledPostJob();
+bootLog("scheduled post job scheduled");
+
+// Initialize the post view flush job when server starts
+setupPostViewFlushJob();
+bootLog("post view flush job scheduled");
+
 // Initialize the AI Engagement job when server starts
 setupAiEngagementJob();
 bootLog("AI engagement job scheduled");
@@ -158,16 +182,20 @@ app.use(`${apiPrefix}/posts`, postRoutes);
 app.use(`${apiPrefix}/posts`, commentRoutes);
 app.use(`${apiPrefix}/comments`, standaloneCommentRoutes);
 app.use(`${apiPrefix}/friendships`, friendshipRoutes);
+app.use(`${apiPrefix}/follows`, followRoutes);
 app.use(`${apiPrefix}/privacy-settings`, privacySettingsRoutes);
 app.use(`${apiPrefix}/messages`, messageRoutes);
 app.use(`${apiPrefix}/chats`, chatRoutes);
 app.use(`${apiPrefix}/photos`, photoRoutes);
 app.use(`${apiPrefix}/notifications`, notificationRoutes);
 app.use(`${apiPrefix}/marketplace`, marketplaceRoutes);
+app.use(`${apiPrefix}/saved-items`, savedItemRoutes);
 app.use(`${apiPrefix}/stories`, storyRoutes);
 app.use(`${apiPrefix}/subscriptions`, subscriptionRoutes);
 app.use(`${apiPrefix}/transactions`, transactionRoutes);
 app.use(`${apiPrefix}/stats`, statsRoutes);
+app.use(`${apiPrefix}/data-exports`, dataExportRoutes);
+app.use(`${apiPrefix}/audit-logs`, auditLogRoutes);
 
 // Test endpoint for chat availability (to run in the context of the active server process)
 app.post(`${apiPrefix}/test/chat-availability`, async (req: Request, res: Response) => {
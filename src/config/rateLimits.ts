@@ -0,0 +1,28 @@
+export type RateLimitPolicyName =
+  | "postCreate"
+  | "commentCreate"
+  | "friendRequest"
+  | "follow"
+  | "search"
+  | "checkout";
+
+export interface RateLimitPolicy {
+  /** Requests allowed per window */
+  limit: number;
+  /** Window length in seconds */
+  windowSeconds: number;
+}
+
+/**
+ * Named HTTP rate limit policies, attached per route with rateLimit(name).
+ * Counters are per user when authenticated, otherwise per IP.
+ */
+export const RATE_LIMIT_POLICIES: Record<RateLimitPolicyName, RateLimitPolicy> =
+  {
+    postCreate: { limit: 30, windowSeconds: 60 * 60 },
+    commentCreate: { limit: 60, windowSeconds: 10 * 60 },
+    friendRequest: { limit: 50, windowSeconds: 24 * 60 * 60 },
+    follow: { limit: 200, windowSeconds: 24 * 60 * 60 },
+    search: { limit: 60, windowSeconds: 60 },
+    checkout: { limit: 10, windowSeconds: 10 * 60 },
+  };
@@ -0,0 +1,51 @@
+/**
+ * Tables whose rows belong to a single user through a `user_id` column.
+ * Account deletion wipes them and the data export copies them, so a table
+ * added here is covered by both.
+ */
+export const USER_OWNED_TABLES = [
+  "user_devices",
+  "user_locations",
+  "user_sessions",
+  "user_two_factor",
+  "two_factor_recovery_codes",
+  "personal_access_tokens",
+  "account_deactivations",
+  "data_exports",
+  "user_privacy_settings",
+  "user_subscriptions",
+  "profiles",
+  "save_collections",
+  "saved_items",
+  "feed_feedback",
+  "post_drafts",
+  "posts",
+  "comments",
+  "stories",
+  "story_views",
+  "reactions",
+  "post_poll_votes",
+  "notifications",
+  "payments",
+  "invoices",
+  "post_boosts",
+  "marketplace_listings",
+  "seller_ratings",
+  "reports",
+] as const;
+
+export type UserOwnedTable = (typeof USER_OWNED_TABLES)[number];
+
+/**
+ * How the data export treats a table: skipped entirely, or exported without
+ * columns that hold secrets or server-side bookkeeping
+ */
+export const DATA_EXPORT_RULES: Partial<
+  Record<UserOwnedTable, { skip?: boolean; omitColumns?: string[] }>
+> = {
+  user_sessions: { omitColumns: ["refresh_token_jti"] },
+  user_two_factor: { omitColumns: ["secret_encrypted", "last_used_counter"] },
+  two_factor_recovery_codes: { skip: true },
+  personal_access_tokens: { omitColumns: ["token_hash"] },
+  data_exports: { skip: true },
+};
@@ -0,0 +1,56 @@
+// src/controllers/accessTokenController.ts
+import { Request, Response } from "express";
+import { controllerHandler } from "../utils/controllerHandler";
+import { AccessTokenService } from "../services/accessTokenService";
+
+export class AccessTokenController {
+  /**
+   * List the current user's personal access tokens
+   * @route GET /api/v1/auth/tokens
+   */
+  static listTokens = controllerHandler(async (req: Request, res: Response) => {
+    const tokens = await AccessTokenService.listTokens(req.user!.id);
+
+    res.status(200).json({
+      status: "success",
+      data: { tokens },
+    });
+  });
+
+  /**
+   * Create a personal access token; the token value is only returned here
+   * @route POST /api/v1/auth/tokens
+   */
+  static createToken = controllerHandler(
+    async (req: Request, res: Response) => {
+      const { name, scopes, expiresInDays } = req.body;
+
+      const issued = await AccessTokenService.createToken(req.user!.id, {
+        name,
+        scopes,
+        expiresInDays,
+      });
+
+      res.status(201).json({
+        status: "success",
+        message: "Copy this token now; it won't be shown again",
+        data: issued,
+      });
+    }
+  );
+
+  /**
+   * Revoke a personal access token
+   * @route DELETE /api/v1/auth/tokens/:tokenId
+   */
+  static revokeToken = controllerHandler(
+    async (req: Request, res: Response) => {
+      await AccessTokenService.revokeToken(req.user!.id, req.params.tokenId);
+
+      res.status(200).json({
+        status: "success",
+        message: "Access token revoked",
+      });
+    }
+  );
+}
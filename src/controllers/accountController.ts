@@ -0,0 +1,49 @@
+// src/controllers/accountController.ts
+import { Request, Response } from "express";
+import { controllerHandler } from "../utils/controllerHandler";
+import { AccountDeactivationService } from "../services/accountDeactivationService";
+
+export class AccountController {
+  /**
+   * Deactivate the current user's account; logging in again offers restore
+   * @route POST /api/v1/auth/deactivate
+   */
+  static deactivate = controllerHandler(async (req: Request, res: Response) => {
+    const { password, reason } = req.body;
+
+    await AccountDeactivationService.deactivate(req.user!.id, {
+      password,
+      reason,
+      scheduleDeletion: false,
+    });
+
+    res.status(200).json({
+      status: "success",
+      message:
+        "Your account has been deactivated. Log in at any time to restore it",
+    });
+  });
+
+  /**
+   * Deactivate the current user's account and schedule its deletion after
+   * the grace period
+   * @route POST /api/v1/auth/delete-account
+   */
+  static requestDeletion = controllerHandler(
+    async (req: Request, res: Response) => {
+      const { password, reason } = req.body;
+
+      const deactivation = await AccountDeactivationService.deactivate(
+        req.user!.id,
+        { password, reason, scheduleDeletion: true }
+      );
+
+      res.status(200).json({
+        status: "success",
+        message:
+          "Your account will be deleted at the end of the grace period. Log in before then to restore it",
+        data: { deletionScheduledFor: deactivation.deletion_scheduled_for },
+      });
+    }
+  );
+}
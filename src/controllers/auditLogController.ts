@@ -0,0 +1,41 @@
+// src/controllers/auditLogController.ts
+import { Request, Response } from "express";
+import { controllerHandler } from "../utils/controllerHandler";
+import { AuditLogService } from "../services/auditLogService";
+
+export class AuditLogController {
+  /**
+   * Browse the admin audit log
+   * @route GET /api/v1/audit-logs
+   */
+  static listEntries = controllerHandler(
+    async (req: Request, res: Response) => {
+      const page = req.query.page ? Number(req.query.page) : 1;
+      const limit = req.query.limit ? Number(req.query.limit) : 50;
+
+      const { entries, total } = await AuditLogService.list({
+        actorId: req.query.actorId as string,
+        action: req.query.action as string,
+        targetType: req.query.targetType as string,
+        targetId: req.query.targetId as string,
+        from: req.query.from as string,
+        to: req.query.to as string,
+        page,
+        limit,
+      });
+
+      res.status(200).json({
+        status: "success",
+        data: {
+          entries,
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages: Math.ceil(total / limit),
+          },
+        },
+      });
+    }
+  );
+}
@@ -1,26 +1,31 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 import { Request, Response } from "express";
 import bcrypt from "bcryptjs";
-import jwt from "jsonwebtoken";
 import { UserService } from "../services/userService";
 import { logger } from "../utils/logger";
 import { AppError } from "../middlewares/errorHandler";
-import { LocationSource, UserRole } from "../types/models";
+import { LocationSource, User, UserRole } from "../types/models";
 import { config } from "dotenv";
 import { IpLocationService } from "../services/ipLocationService";
 import { ProfileService } from "../services/profileService";
 import { getActiveSubscriptionForUser } from "../services/subscriptionService";
 import { EmailService } from "../services/emailService";
+import { SessionService } from "../services/sessionService";
+import { DeviceSessionService } from "../services/deviceSessionService";
+import { TwoFactorService } from "../services/twoFactorService";
+import { EmailVerificationService } from "../services/emailVerificationService";
+import { LoginAlertService } from "../services/loginAlertService";
+import { AccountDeactivationService } from "../services/accountDeactivationService";
+import {
+  BruteForceScope,
+  BruteForceService,
+  BruteForceSubject,
+} from "../services/bruteForceService";
+import { SessionRevocationReason } from "../models/session.model";
 import crypto from "crypto";
 
 config();
 
-const JWT_SECRET = process.env.JWT_SECRET || "your_jwt_secret_key_here";
-const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || "7d";
-const JWT_REFRESH_SECRET =
-  process.env.JWT_REFRESH_SECRET || "your_refresh_token_secret_here";
-const JWT_REFRESH_EXPIRES_IN = process.env.JWT_REFRESH_EXPIRES_IN || "30d";
-
 /**
  * Authentication controller
  */
@@ -65,15 +70,13 @@ export class AuthController {
         profile: {},
       });
 
-      // Generate token
-      const token = jwt.sign(
-        { id: newUser.id },
-        process.env.JWT_SECRET || "default_secret",
-        { expiresIn: "7d" }
-      );
-
       // Track user device and location
-      const clientInfo = (req as any).clientInfo;
+      const clientInfo = res.locals.clientInfo;
+
+      // Start a server-side session for the new account
+      const { token, refreshToken, accessTokenExpires } =
+        await SessionService.createSession(newUser, clientInfo);
+
       if (clientInfo) {
         IpLocationService.trackLoginLocation(
           newUser.id,
@@ -86,6 +89,11 @@ export class AuthController {
         });
       }
 
+      // Send the verification link without holding up the signup response
+      EmailVerificationService.sendVerificationEmail(newUser).catch(err => {
+        logger.error("Error sending verification email:", err);
+      });
+
       res.status(201).json({
         status: "success",
         token,
@@ -97,6 +105,8 @@ export class AuthController {
             first_name: newUser.first_name,
             last_name: newUser.last_name,
           },
+          refreshToken,
+          accessTokenExpires,
         },
       });
     } catch (error) {
@@ -120,91 +130,265 @@ export class AuthController {
   static async login(req: Request, res: Response) {
     try {
       const { email, password, locationData } = req.body;
+      const attempt = res.locals.bruteForce;
 
       // Find user by email
       const user = await UserService.findUserByEmail(email);
       if (!user) {
+        await AuthController.recordLoginFailure(attempt);
         throw new AppError("Invalid credentials", 401);
       }
 
-      // Check if user is active
-      if (!user.is_active) {
-        throw new AppError("Your account has been deactivated", 403);
-      }
-
       // Verify password
       const isPasswordValid = await bcrypt.compare(
         password,
         user.password_hash
       );
       if (!isPasswordValid) {
+        await AuthController.recordLoginFailure(attempt);
         throw new AppError("Invalid Password", 401);
       }
 
-      // Generate JWT token
-      const token = jwt.sign(
-        {
-          id: user.id,
-          email: user.email,
-          role: user.role,
-        },
-        JWT_SECRET,
-        { algorithm: "HS256", expiresIn: "30d" }
-      );
-      // 30 days in milliseconds to match JWT expiry
-      const accessTokenExpires = Date.now() + 30 * 24 * 60 * 60 * 1000;
+      if (attempt) {
+        await BruteForceService.recordSuccess(BruteForceScope.LOGIN, attempt);
+      }
 
-      // Generate refresh token
-      const refreshToken = jwt.sign(
-        {
-          id: user.id,
-        },
-        JWT_REFRESH_SECRET,
-        { expiresIn: "45d" }
-      );
+      // Check if user is active; users who deactivated their own account
+      // are offered restoration instead
+      if (!user.is_active) {
+        const restoreOffer =
+          await AccountDeactivationService.createRestoreOffer(user.id);
+        if (!restoreOffer) {
+          throw new AppError("Your account has been deactivated", 403);
+        }
 
-      // Track user's device and location if provided
-      const clientInfo = res.locals.clientInfo;
+        return res.status(403).json({
+          status: "fail",
+          message: restoreOffer.deletionScheduledFor
+            ? "Your account is scheduled for deletion. Restore it to log in"
+            : "Your account is deactivated. Restore it to log in",
+          data: restoreOffer,
+        });
+      }
 
-      if (clientInfo) {
-        // Skip geolocation API call for local IPs in development
-        if (clientInfo.isLocalIp && process.env.NODE_ENV === "development") {
-          logger.info(
-            "Skipping geolocation API call for local IP in development environment"
+      // Accounts with 2FA get a short-lived challenge instead of tokens
+      if (await TwoFactorService.isEnabled(user.id)) {
+        const challenge = TwoFactorService.createLoginChallenge(user.id);
+        return res.status(200).json({
+          status: "success",
+          message: "Two-factor authentication required",
+          data: {
+            twoFactorRequired: true,
+            ...challenge,
+          },
+        });
+      }
+
+      await AuthController.completeLogin(res, user, locationData);
+    } catch (error) {
+      logger.error("Error in login controller:", error);
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          status: error.status,
+          message: error.message,
+        });
+      } else {
+        res.status(500).json({
+          status: "error",
+          message: "Something went wrong during login",
+        });
+      }
+    }
+  }
+
+  /**
+   * Restore a self-deactivated account with the token offered at login,
+   * cancel any scheduled deletion and log the user in
+   */
+  static async restoreAccount(req: Request, res: Response) {
+    try {
+      const { restoreToken, locationData } = req.body;
+
+      const user =
+        await AccountDeactivationService.restoreWithToken(restoreToken);
+
+      // The restore token only proves the password; 2FA still applies
+      if (await TwoFactorService.isEnabled(user.id)) {
+        const challenge = TwoFactorService.createLoginChallenge(user.id);
+        return res.status(200).json({
+          status: "success",
+          message: "Account restored. Two-factor authentication required",
+          data: {
+            twoFactorRequired: true,
+            ...challenge,
+          },
+        });
+      }
+
+      await AuthController.completeLogin(res, user, locationData);
+    } catch (error) {
+      logger.error("Error in restoreAccount controller:", error);
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          status: error.status,
+          message: error.message,
+        });
+      } else {
+        res.status(500).json({
+          status: "error",
+          message: "Something went wrong while restoring your account",
+        });
+      }
+    }
+  }
+
+  /**
+   * Verify the second factor of a login and issue tokens
+   */
+  static async verifyTwoFactorLogin(req: Request, res: Response) {
+    try {
+      const { challengeToken, code, locationData } = req.body;
+      const attempt = res.locals.bruteForce;
+
+      let userId: string;
+      try {
+        userId = await TwoFactorService.verifyLoginChallenge(
+          challengeToken,
+          code
+        );
+      } catch (error) {
+        if (attempt && error instanceof AppError && error.statusCode === 401) {
+          await BruteForceService.recordFailure(
+            BruteForceScope.TWO_FACTOR,
+            attempt
           );
-        } else {
-          IpLocationService.trackLoginLocation(
-            user.id,
-            clientInfo.ipAddress,
-            clientInfo.deviceToken,
-            clientInfo.deviceType,
-            locationData
-          ).catch(err => {
-            logger.error("Error tracking location during login:", err);
-          });
         }
+        throw error;
       }
-      // Remove sensitive information
-      const { password_hash, ...userWithoutPassword } = user;
 
-      // Check if user is premium (has active subscription)
-      const subscription = await getActiveSubscriptionForUser(user.id);
-      const isPremium = !!subscription;
+      if (attempt) {
+        await BruteForceService.recordSuccess(
+          BruteForceScope.TWO_FACTOR,
+          attempt
+        );
+      }
+
+      const user = await UserService.findUserById(userId);
+      if (!user) {
+        throw new AppError("Invalid credentials", 401);
+      }
+
+      if (!user.is_active) {
+        throw new AppError("Your account has been deactivated", 403);
+      }
+
+      await AuthController.completeLogin(res, user, locationData);
+    } catch (error) {
+      logger.error("Error in verifyTwoFactorLogin controller:", error);
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          status: error.status,
+          message: error.message,
+        });
+      } else {
+        res.status(500).json({
+          status: "error",
+          message: "Something went wrong during login",
+        });
+      }
+    }
+  }
+
+  /**
+   * Complete a login: start a session, track location and send the tokens.
+   * Shared by password login and the two-factor verification step.
+   */
+  private static async completeLogin(
+    res: Response,
+    user: User,
+    locationData?: any
+  ) {
+    // Track user's device and location if provided
+    const clientInfo = res.locals.clientInfo;
+
+    // Start a new session (refresh token family) for this login
+    const { sessionId, token, refreshToken, accessTokenExpires } =
+      await SessionService.createSession(user, clientInfo);
+
+    if (clientInfo) {
+      // Skip geolocation API call for local IPs in development
+      if (clientInfo.isLocalIp && process.env.NODE_ENV === "development") {
+        logger.info(
+          "Skipping geolocation API call for local IP in development environment"
+        );
+      } else {
+        IpLocationService.trackLoginLocation(
+          user.id,
+          clientInfo.ipAddress,
+          clientInfo.deviceToken,
+          clientInfo.deviceType,
+          locationData,
+          sessionId
+        ).catch(err => {
+          logger.error("Error tracking location during login:", err);
+        });
+      }
+    }
+    // Remove sensitive information
+    const { password_hash, ...userWithoutPassword } = user;
+
+    // Check if user is premium (has active subscription)
+    const subscription = await getActiveSubscriptionForUser(user.id);
+    const isPremium = !!subscription;
+
+    res.status(200).json({
+      status: "success",
+      message: "Logged in successfully",
+      data: {
+        user: userWithoutPassword,
+        token,
+        refreshToken,
+        isPremium,
+        subscription,
+        accessTokenExpires,
+      },
+    });
+  }
+
+  /**
+   * Count a failed password check; the failure that locks the account also
+   * emails the owner an unlock link
+   */
+  private static async recordLoginFailure(
+    attempt: BruteForceSubject | undefined
+  ) {
+    if (!attempt) return;
+
+    const { locked } = await BruteForceService.recordFailure(
+      BruteForceScope.LOGIN,
+      attempt
+    );
+
+    if (locked && attempt.account) {
+      BruteForceService.sendUnlockEmail(attempt.account).catch(err => {
+        logger.error("Error sending account unlock email:", err);
+      });
+    }
+  }
+
+  /**
+   * Unlock an account using the link from the lockout email
+   */
+  static async unlockAccount(req: Request, res: Response) {
+    try {
+      await BruteForceService.unlockWithToken(req.body.token);
 
       res.status(200).json({
         status: "success",
-        message: "Logged in successfully",
-        data: {
-          user: userWithoutPassword,
-          token,
-          refreshToken,
-          isPremium,
-          subscription,
-          accessTokenExpires,
-        },
+        message: "Your account has been unlocked. You can now log in.",
       });
     } catch (error) {
-      logger.error("Error in login controller:", error);
+      logger.error("Error in unlockAccount controller:", error);
       if (error instanceof AppError) {
         res.status(error.statusCode).json({
           status: error.status,
@@ -213,7 +397,7 @@ export class AuthController {
       } else {
         res.status(500).json({
           status: "error",
-          message: "Something went wrong during login",
+          message: "Something went wrong. Please try again later.",
         });
       }
     }
@@ -230,50 +414,21 @@ export class AuthController {
         throw new AppError("No refresh token provided", 400);
       }
 
-      // Verify refresh token
-      const decoded = jwt.verify(refreshToken, JWT_REFRESH_SECRET) as {
-        id: string;
-      };
-
-      // Find user
-      const user = await UserService.findUserById(decoded.id);
-      if (!user) {
-        throw new AppError("Invalid refresh token", 401);
-      }
-
-      // Check if user is active
-      if (!user.is_active) {
-        throw new AppError("Your account has been deactivated", 403);
-      }
-
-      const newToken = jwt.sign(
-        {
-          id: user.id,
-          email: user.email,
-          role: user.role,
-        },
-        JWT_SECRET,
-        { expiresIn: "7d" }
-      );
-      // 7 days in milliseconds to match JWT expiry
-      const accessTokenExpires = Date.now() + 7 * 24 * 60 * 60 * 1000;
+      // Rotate the refresh token; a reused token revokes the whole session
+      const { tokens } = await SessionService.rotateRefreshToken(refreshToken);
 
       res.status(200).json({
         status: "success",
         message: "Token refreshed successfully",
         data: {
-          token: newToken,
-          accessTokenExpires,
+          token: tokens.token,
+          refreshToken: tokens.refreshToken,
+          accessTokenExpires: tokens.accessTokenExpires,
         },
       });
     } catch (error) {
       logger.error("Error in refreshToken controller:", error);
-      if (error instanceof jwt.JsonWebTokenError) {
-        res.status(401).json({
-          status: "fail",
-          message: "Invalid refresh token",
-        });
-      } else if (error instanceof AppError) {
+      if (error instanceof AppError) {
         res.status(error.statusCode).json({
           status: error.status,
           message: error.message,
@@ -334,8 +489,16 @@ export class AuthController {
    */
   static async logout(req: Request, res: Response) {
     try {
-      // In a stateless JWT setup, the client is responsible for discarding the token
-      // We could implement a token blacklist here if needed
+      // Revoke the session behind this access token
+      if (req.sessionId) {
+        await SessionService.revokeSession(
+          req.sessionId,
+          SessionRevocationReason.LOGOUT
+        );
+        if (req.user?.id) {
+          DeviceSessionService.disconnectSessions(req.user.id, [req.sessionId]);
+        }
+      }
 
       // Update user's device if provided
       if (req.user?.id && req.body.device_token) {
@@ -358,6 +521,146 @@ export class AuthController {
     }
   }
 
+  /**
+   * Logout user from every device
+   */
+  static async logoutAll(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError("Not authenticated", 401);
+      }
+
+      const revokedSessionIds = await SessionService.revokeAllUserSessions(
+        userId,
+        SessionRevocationReason.LOGOUT_ALL
+      );
+      DeviceSessionService.disconnectSessions(userId, revokedSessionIds);
+
+      res.status(200).json({
+        status: "success",
+        message: "Logged out from all devices",
+        data: {
+          revokedSessions: revokedSessionIds.length,
+        },
+      });
+    } catch (error) {
+      logger.error("Error in logoutAll controller:", error);
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          status: error.status,
+          message: error.message,
+        });
+      } else {
+        res.status(500).json({
+          status: "error",
+          message: "Something went wrong during logout",
+        });
+      }
+    }
+  }
+
+  /**
+   * Verify email address using the token from the verification email
+   */
+  static async verifyEmail(req: Request, res: Response) {
+    try {
+      const { token } = req.body;
+
+      const user = await EmailVerificationService.verifyEmail(token);
+
+      res.status(200).json({
+        status: "success",
+        message: "Email verified successfully",
+        data: {
+          email: user.email,
+          is_verified: true,
+        },
+      });
+    } catch (error) {
+      logger.error("Error in verifyEmail controller:", error);
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          status: error.status,
+          message: error.message,
+        });
+      } else {
+        res.status(500).json({
+          status: "error",
+          message: "Something went wrong. Please try again later.",
+        });
+      }
+    }
+  }
+
+  /**
+   * Resend the verification email to the current user
+   */
+  static async resendVerificationEmail(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError("Not authenticated", 401);
+      }
+
+      await EmailVerificationService.resendVerificationEmail(userId);
+
+      res.status(200).json({
+        status: "success",
+        message: "Verification email sent",
+      });
+    } catch (error) {
+      logger.error("Error in resendVerificationEmail controller:", error);
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          status: error.status,
+          message: error.message,
+        });
+      } else {
+        res.status(500).json({
+          status: "error",
+          message: "Something went wrong. Please try again later.",
+        });
+      }
+    }
+  }
+
+  /**
+   * Revoke a login the user didn't recognize ("this wasn't me" link)
+   */
+  static async revokeUnrecognizedLogin(req: Request, res: Response) {
+    try {
+      const { token } = req.body;
+
+      const revokedSessions =
+        await LoginAlertService.revokeUnrecognizedLogin(token);
+
+      res.status(200).json({
+        status: "success",
+        message:
+          "The device has been signed out. We recommend resetting your password.",
+        data: {
+          revokedSessions,
+        },
+      });
+    } catch (error) {
+      logger.error("Error in revokeUnrecognizedLogin controller:", error);
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          status: error.status,
+          message: error.message,
+        });
+      } else {
+        res.status(500).json({
+          status: "error",
+          message: "Something went wrong. Please try again later.",
+        });
+      }
+    }
+  }
+
   /**
    * Forgot password - Send reset token via email
    */
@@ -365,6 +668,15 @@ export class AuthController {
     try {
       const { email } = req.body;
 
+      // Every request counts: this endpoint sends mail, so it is limited
+      // whether or not the account exists
+      if (res.locals.bruteForce) {
+        await BruteForceService.recordFailure(
+          BruteForceScope.FORGOT_PASSWORD,
+          res.locals.bruteForce
+        );
+      }
+
       // Find user by email
       const user = await UserService.findUserByEmail(email);
 
@@ -472,6 +784,12 @@ export class AuthController {
       const user = await UserService.findUserByResetToken(hashedToken);
 
       if (!user) {
+        if (res.locals.bruteForce) {
+          await BruteForceService.recordFailure(
+            BruteForceScope.RESET_PASSWORD,
+            res.locals.bruteForce
+          );
+        }
         throw new AppError("Invalid or expired password reset token", 400);
       }
 
@@ -492,6 +810,15 @@ export class AuthController {
       await UserService.updatePassword(user.id, hashedPassword);
       await UserService.updatePasswordResetToken(user.id, null, null);
 
+      // Sign out every existing session now that the password changed
+      await SessionService.revokeAllUserSessions(
+        user.id,
+        SessionRevocationReason.PASSWORD_RESET
+      );
+
+      // A new password also lifts any login lockout
+      await BruteForceService.unlockAccount(user.email.toLowerCase());
+
       // Send confirmation email
       try {
         await EmailService.sendPasswordResetConfirmation(
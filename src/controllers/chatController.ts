@@ -5,6 +5,7 @@ import { UUID } from "crypto";
 import { MemberRole } from "../models/group-page.model";
 import { AppError } from "../middlewares/errorHandler";
 import { enhancedMessageService } from "../services/enhancedMessageService";
+import { EmailVerificationService } from "../services/emailVerificationService";
 
 export class ChatController {
   /**
@@ -24,6 +25,14 @@ export class ChatController {
       context_id, // marketplace_item_id if context_type = 'marketplace'
     } = req.body;
 
+    // Unverified accounts can only open one-to-one chats with friends
+    if (context_type !== "group") {
+      await EmailVerificationService.assertCanMessageUsers(
+        userId,
+        participants
+      );
+    }
+
     // Create chat data
     const chatData = {
       context_type,
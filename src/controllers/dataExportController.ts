@@ -0,0 +1,54 @@
+// src/controllers/dataExportController.ts
+import { Request, Response } from "express";
+import { controllerHandler } from "../utils/controllerHandler";
+import { DataExportService } from "../services/dataExportService";
+
+export class DataExportController {
+  /**
+   * Request an export of the current user's data
+   * @route POST /api/v1/data-exports
+   */
+  static requestExport = controllerHandler(
+    async (req: Request, res: Response) => {
+      const dataExport = await DataExportService.requestExport(req.user!.id);
+
+      res.status(202).json({
+        status: "success",
+        message:
+          "We're preparing your data. You'll be notified when it's ready to download",
+        data: { export: dataExport },
+      });
+    }
+  );
+
+  /**
+   * List the current user's data exports
+   * @route GET /api/v1/data-exports
+   */
+  static listExports = controllerHandler(
+    async (req: Request, res: Response) => {
+      const exports = await DataExportService.listExports(req.user!.id);
+
+      res.status(200).json({
+        status: "success",
+        data: { exports },
+      });
+    }
+  );
+
+  /**
+   * Download a finished export archive
+   * @route GET /api/v1/data-exports/:exportId/download?token=
+   */
+  static downloadExport = controllerHandler(
+    async (req: Request, res: Response) => {
+      const { filePath, fileName } = await DataExportService.resolveDownload(
+        req.params.exportId,
+        req.query.token as string
+      );
+
+      res.setHeader("Cache-Control", "no-store");
+      res.download(filePath, fileName);
+    }
+  );
+}
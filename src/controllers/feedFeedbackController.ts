@@ -0,0 +1,112 @@
+// src/controllers/feedFeedbackController.ts
+import { Request, Response } from "express";
+import { controllerHandler } from "../utils/controllerHandler";
+import { AppError } from "../middlewares/errorHandler";
+import { FeedFeedbackService } from "../services/feedFeedbackService";
+import { PostService } from "../services/postService";
+import { Post } from "../models/post.model";
+import { FeedFeedbackKind } from "../models/feed-feedback.model";
+
+/**
+ * The post feedback is given on; only posts the user can see qualify
+ */
+const getVisiblePost = async (req: Request): Promise<Post> => {
+  const post = await PostService.getPostById(req.params.id, req.user!.id);
+
+  if (!post) {
+    throw new AppError("Post not found", 404);
+  }
+
+  return post;
+};
+
+export class FeedFeedbackController {
+  /**
+   * Hide a post from the current user's feed
+   * @route POST /api/v1/posts/:id/hide
+   */
+  static hidePost = controllerHandler(async (req: Request, res: Response) => {
+    const post = await getVisiblePost(req);
+    const feedback = await FeedFeedbackService.hidePost(req.user!.id, post);
+
+    res.status(201).json({
+      status: "success",
+      data: { feedback },
+    });
+  });
+
+  /**
+   * Snooze a post's author for 30 days
+   * @route POST /api/v1/posts/:id/snooze-author
+   */
+  static snoozeAuthor = controllerHandler(
+    async (req: Request, res: Response) => {
+      const post = await getVisiblePost(req);
+      const feedback = await FeedFeedbackService.snoozeAuthor(
+        req.user!.id,
+        post
+      );
+
+      res.status(201).json({
+        status: "success",
+        data: { feedback },
+      });
+    }
+  );
+
+  /**
+   * Hide a post and see less of its topic or source
+   * @route POST /api/v1/posts/:id/not-interested
+   */
+  static markNotInterested = controllerHandler(
+    async (req: Request, res: Response) => {
+      const post = await getVisiblePost(req);
+      const feedback = await FeedFeedbackService.markNotInterested(
+        req.user!.id,
+        post,
+        req.body.topic
+      );
+
+      res.status(201).json({
+        status: "success",
+        data: { feedback },
+      });
+    }
+  );
+
+  /**
+   * List the current user's active feed feedback
+   * @route GET /api/v1/posts/feed/feedback
+   */
+  static getFeedback = controllerHandler(
+    async (req: Request, res: Response) => {
+      const feedback = await FeedFeedbackService.getFeedback(
+        req.user!.id,
+        req.query.kind as FeedFeedbackKind | undefined
+      );
+
+      res.status(200).json({
+        status: "success",
+        data: { feedback },
+      });
+    }
+  );
+
+  /**
+   * Undo feed feedback
+   * @route DELETE /api/v1/posts/feed/feedback/:feedbackId
+   */
+  static removeFeedback = controllerHandler(
+    async (req: Request, res: Response) => {
+      await FeedFeedbackService.removeFeedback(
+        req.user!.id,
+        req.params.feedbackId
+      );
+
+      res.status(200).json({
+        status: "success",
+        message: "Feedback removed",
+      });
+    }
+  );
+}
@@ -0,0 +1,180 @@
+// src/controllers/followController.ts
+import { Request, Response } from "express";
+import { controllerHandler } from "../utils/controllerHandler";
+import { FollowService } from "../services/followService";
+
+const paginationOf = (req: Request) => ({
+  page: req.query.page ? Number(req.query.page) : 1,
+  limit: req.query.limit ? Number(req.query.limit) : 20,
+});
+
+export class FollowController {
+  /**
+   * Follow a user, or ask to follow them
+   * @route POST /api/v1/follows/:userId
+   */
+  static follow = controllerHandler(async (req: Request, res: Response) => {
+    const follow = await FollowService.follow(req.user!.id, req.params.userId);
+
+    res.status(201).json({
+      status: "success",
+      data: { follow },
+    });
+  });
+
+  /**
+   * Unfollow a user, or withdraw a follow request
+   * @route DELETE /api/v1/follows/:userId
+   */
+  static unfollow = controllerHandler(async (req: Request, res: Response) => {
+    await FollowService.unfollow(req.user!.id, req.params.userId);
+
+    res.status(200).json({
+      status: "success",
+      message: "User unfollowed",
+    });
+  });
+
+  /**
+   * Get a user's follower counts and how the current user follows them
+   * @route GET /api/v1/follows/:userId
+   */
+  static getFollowStatus = controllerHandler(
+    async (req: Request, res: Response) => {
+      const [counts, relationship] = await Promise.all([
+        FollowService.getFollowCounts(req.params.userId),
+        FollowService.getRelationship(req.user!.id, req.params.userId),
+      ]);
+
+      res.status(200).json({
+        status: "success",
+        data: { counts, relationship },
+      });
+    }
+  );
+
+  /**
+   * List a user's followers
+   * @route GET /api/v1/follows/:userId/followers
+   */
+  static getFollowers = controllerHandler(
+    async (req: Request, res: Response) => {
+      const { page, limit } = paginationOf(req);
+      const { users, total } = await FollowService.getFollowers(
+        req.user!.id,
+        req.params.userId,
+        { page, limit }
+      );
+
+      res.status(200).json({
+        status: "success",
+        data: {
+          followers: users,
+          total,
+          page,
+          totalPages: Math.ceil(total / limit),
+          limit,
+        },
+      });
+    }
+  );
+
+  /**
+   * List the users someone follows
+   * @route GET /api/v1/follows/:userId/following
+   */
+  static getFollowing = controllerHandler(
+    async (req: Request, res: Response) => {
+      const { page, limit } = paginationOf(req);
+      const { users, total } = await FollowService.getFollowing(
+        req.user!.id,
+        req.params.userId,
+        { page, limit }
+      );
+
+      res.status(200).json({
+        status: "success",
+        data: {
+          following: users,
+          total,
+          page,
+          totalPages: Math.ceil(total / limit),
+          limit,
+        },
+      });
+    }
+  );
+
+  /**
+   * List pending requests to follow the current user
+   * @route GET /api/v1/follows/requests
+   */
+  static getFollowRequests = controllerHandler(
+    async (req: Request, res: Response) => {
+      const { page, limit } = paginationOf(req);
+      const { users, total } = await FollowService.getFollowRequests(
+        req.user!.id,
+        { page, limit }
+      );
+
+      res.status(200).json({
+        status: "success",
+        data: {
+          requests: users,
+          total,
+          page,
+          totalPages: Math.ceil(total / limit),
+          limit,
+        },
+      });
+    }
+  );
+
+  /**
+   * Accept a request to follow the current user
+   * @route POST /api/v1/follows/requests/:userId/accept
+   */
+  static acceptFollowRequest = controllerHandler(
+    async (req: Request, res: Response) => {
+      const follow = await FollowService.acceptFollowRequest(
+        req.user!.id,
+        req.params.userId
+      );
+
+      res.status(200).json({
+        status: "success",
+        data: { follow },
+      });
+    }
+  );
+
+  /**
+   * Decline a request to follow the current user
+   * @route DELETE /api/v1/follows/requests/:userId
+   */
+  static rejectFollowRequest = controllerHandler(
+    async (req: Request, res: Response) => {
+      await FollowService.rejectFollowRequest(req.user!.id, req.params.userId);
+
+      res.status(200).json({
+        status: "success",
+        message: "Follow request declined",
+      });
+    }
+  );
+
+  /**
+   * Remove a follower from the current user's followers
+   * @route DELETE /api/v1/follows/followers/:userId
+   */
+  static removeFollower = controllerHandler(
+    async (req: Request, res: Response) => {
+      await FollowService.removeFollower(req.user!.id, req.params.userId);
+
+      res.status(200).json({
+        status: "success",
+        message: "Follower removed",
+      });
+    }
+  );
+}
@@ -0,0 +1,70 @@
+// src/controllers/hashtagController.ts
+import { Request, Response } from "express";
+import { controllerHandler } from "../utils/controllerHandler";
+import { AppError } from "../middlewares/errorHandler";
+import { HashtagService } from "../services/hashtagService";
+import { PostService } from "../services/postService";
+import { normalizeHashtag } from "../utils/hashtags";
+
+export class HashtagController {
+  /**
+   * List trending hashtags over a sliding window, with a per-country split
+   * @route GET /api/v1/posts/hashtags
+   */
+  static getTrending = controllerHandler(
+    async (req: Request, res: Response) => {
+      const hours = req.query.hours ? Number(req.query.hours) : 24;
+      const limit = req.query.limit ? Number(req.query.limit) : 10;
+      const country = (req.query.country as string | undefined)?.trim();
+
+      const hashtags = await HashtagService.getTrending({
+        hours,
+        country: country || undefined,
+        limit,
+      });
+
+      res.status(200).json({
+        status: "success",
+        data: {
+          hashtags,
+          window: { hours, country: country || null },
+        },
+      });
+    }
+  );
+
+  /**
+   * Get the posts tagged with a hashtag that the user may see
+   * @route GET /api/v1/posts/hashtags/:tag
+   */
+  static getHashtagPosts = controllerHandler(
+    async (req: Request, res: Response) => {
+      const tag = normalizeHashtag(req.params.tag);
+      if (!tag) {
+        throw new AppError("Invalid hashtag", 400);
+      }
+
+      const page = req.query.page ? Number(req.query.page) : 1;
+      const limit = req.query.limit ? Number(req.query.limit) : 10;
+
+      const { posts, total } = await PostService.getHashtagPosts(
+        tag,
+        req.user?.id,
+        page,
+        limit
+      );
+
+      res.status(200).json({
+        status: "success",
+        data: {
+          tag,
+          posts,
+          total,
+          page,
+          totalPages: Math.ceil(total / limit),
+          limit,
+        },
+      });
+    }
+  );
+}
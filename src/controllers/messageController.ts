@@ -9,6 +9,7 @@ import { supabase } from "../config/supabase";
 import { getIO } from "../socketio";
 import { getUserSocketIds } from "../socketio/handlers/connectionHandler";
 import { messageService } from "../services/messageService";
+import { EmailVerificationService } from "../services/emailVerificationService";
 
 export class MessageController {
   /**
@@ -28,6 +29,8 @@ export class MessageController {
         throw new AppError("Message cannot be empty", 400);
       }
 
+      await EmailVerificationService.assertCanMessageChat(userId, chatId);
+
       // Get the retention policy from the middleware
       const autoDeleteAt = res.locals.messageAutoDeleteAt;
 
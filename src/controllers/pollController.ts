@@ -0,0 +1,62 @@
+// src/controllers/pollController.ts
+import { Request, Response } from "express";
+import { controllerHandler } from "../utils/controllerHandler";
+import { AppError } from "../middlewares/errorHandler";
+import { PollService } from "../services/pollService";
+import { PostService } from "../services/postService";
+
+export class PollController {
+  /**
+   * Vote in a post's poll
+   * @route POST /api/v1/posts/:id/poll/votes
+   */
+  static vote = controllerHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const post = await PostService.getPostById(req.params.id, userId);
+
+    if (!post) {
+      throw new AppError("Post not found", 404);
+    }
+
+    if (!post.poll) {
+      throw new AppError("This post has no poll", 404);
+    }
+
+    const poll = await PollService.vote(post, userId, req.body.option_ids);
+
+    res.status(201).json({
+      status: "success",
+      data: {
+        poll,
+      },
+    });
+  });
+
+  /**
+   * List who voted in a post's poll
+   * @route GET /api/v1/posts/:id/poll/votes
+   */
+  static getVoters = controllerHandler(async (req: Request, res: Response) => {
+    const post = await PostService.getPostById(req.params.id, req.user?.id);
+
+    if (!post) {
+      throw new AppError("Post not found", 404);
+    }
+
+    const page = req.query.page ? Number(req.query.page) : 1;
+    const limit = req.query.limit ? Number(req.query.limit) : 20;
+
+    const { voters, total } = await PollService.getVoters(post, page, limit);
+
+    res.status(200).json({
+      status: "success",
+      data: {
+        voters,
+        total,
+        page,
+        totalPages: Math.ceil(total / limit),
+        limit,
+      },
+    });
+  });
+}
@@ -2,11 +2,13 @@
 // src/controllers/postController.ts
 import { Request, Response } from "express";
 import { PostService } from "../services/postService";
+import { PostDraftService } from "../services/postDraftService";
 import { controllerHandler } from "../utils/controllerHandler";
 import { AppError } from "../middlewares/errorHandler";
 import { MediaType, PostVisibility } from "../models";
 import { StorageService } from "../services/storageService";
 import { BoostStatus } from "../models/boost.model";
+import { UserRole } from "../types/models";
 
 export class PostController {
   /**
@@ -33,6 +35,26 @@ export class PostController {
       }));
     }
 
+    // Drafts and scheduled posts are published later by the scheduled post job
+    if (PostDraftService.isDeferred(postData)) {
+      const draft = await PostDraftService.createDraft(
+        postData,
+        mediaItems.map(({ media_url, media_type, order }: any) => ({
+          media_url,
+          media_type,
+          order,
+        }))
+      );
+
+      res.status(201).json({
+        status: "success",
+        data: {
+          draft,
+        },
+      });
+      return;
+    }
+
     // Process post creation
     const post = await PostService.createPost(postData);
 
@@ -115,19 +137,13 @@ export class PostController {
       }));
     }
 
-    // Handle media updates if needed
-    if (shouldUpdateMedia) {
-      // First delete existing media
-      await PostService.deletePostMedia(postId);
-
-      // Then add the new media
-      if (mediaItems.length > 0) {
-        await PostService.addPostMedia(mediaItems);
-      }
-    }
-
-    // Update the post data
-    const updatedPost = await PostService.updatePost(postId, userId, req.body);
+    // Update the post data, replacing its media if new media was sent
+    const updatedPost = await PostService.updatePost(
+      postId,
+      userId,
+      req.body,
+      shouldUpdateMedia ? mediaItems : undefined
+    );
 
     res.status(200).json({
       status: "success",
@@ -158,6 +174,53 @@ export class PostController {
     });
   });
 
+  /**
+   * Reshare a post, or quote it when content is given
+   * @route POST /api/v1/posts/:id/share
+   */
+  static sharePost = controllerHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const share = await PostService.sharePost(req.params.id, userId, {
+      content: req.body.content,
+      visibility: req.body.visibility,
+    });
+
+    await PostService.invalidateRelevantFeeds(share.user_id, share.location);
+
+    const post = await PostService.getPostById(share.id, userId);
+
+    res.status(201).json({
+      status: "success",
+      data: {
+        post,
+      },
+    });
+  });
+
+  /**
+   * Get the edit history of a post
+   * @route GET /api/v1/posts/:id/revisions
+   */
+  static getPostRevisions = controllerHandler(
+    async (req: Request, res: Response) => {
+      const revisions = await PostService.getPostRevisions(
+        req.params.id,
+        req.user?.id
+      );
+
+      if (!revisions) {
+        throw new AppError("Post not found", 404);
+      }
+
+      res.status(200).json({
+        status: "success",
+        data: {
+          revisions,
+        },
+      });
+    }
+  );
+
   /**
    * Get posts for a user
    * @route GET /api/v1/posts/user/:userId
@@ -191,21 +254,55 @@ export class PostController {
 
   /**
    * Get posts for the current user's feed
+   * Pages by number unless the client opts into cursor paging with
+   * mode=cursor or a cursor; the page-numbered response stays the default
+   * for existing clients. Admins can pass debug=true to get each post's
+   * ranking explanation.
    * @route GET /api/v1/posts/feed
    */
   static getFeed = controllerHandler(async (req: Request, res: Response) => {
     const userId = req.user!.id;
-    const page = req.query.page
-      ? Math.max(1, parseInt(req.query.page as string))
-      : 1;
     const limit = req.query.limit
       ? Math.min(50, Math.max(1, parseInt(req.query.limit as string)))
       : 10;
 
+    const debug = req.query.debug === "true";
+    if (
+      debug &&
+      ![UserRole.ADMIN, UserRole.SUPER_ADMIN].includes(
+        req.user!.role as UserRole
+      )
+    ) {
+      throw new AppError(
+        "Ranking explanations are only available to admins",
+        403
+      );
+    }
+
+    if (req.query.mode === "cursor" || req.query.cursor !== undefined) {
+      const feedPage = await PostService.getFeedPage(
+        userId,
+        req.query.cursor as string | undefined,
+        limit,
+        debug
+      );
+
+      res.status(200).json({
+        status: "success",
+        data: { ...feedPage, limit },
+      });
+      return;
+    }
+
+    const page = req.query.page
+      ? Math.max(1, parseInt(req.query.page as string))
+      : 1;
+
     const { posts, total, composition } = await PostService.getFeedPosts(
       userId,
       page,
-      limit
+      limit,
+      debug
     );
 
     res.status(200).json({
@@ -221,6 +318,24 @@ export class PostController {
     });
   });
 
+  /**
+   * Count posts that arrived since the feed behind a cursor was loaded
+   * @route GET /api/v1/posts/feed/new-count
+   */
+  static getNewFeedPostsCount = controllerHandler(
+    async (req: Request, res: Response) => {
+      const newPostsCount = await PostService.getNewFeedPostsCount(
+        req.user!.id,
+        req.query.cursor as string
+      );
+
+      res.status(200).json({
+        status: "success",
+        data: { newPostsCount },
+      });
+    }
+  );
+
   /**
    * Delete a post
    * @route DELETE /api/v1/posts/:id
@@ -0,0 +1,85 @@
+// src/controllers/postDraftController.ts
+import { Request, Response } from "express";
+import { controllerHandler } from "../utils/controllerHandler";
+import { PostDraftService } from "../services/postDraftService";
+import { PostDraftStatus, PostDraftUpdate } from "../models/post.model";
+
+export class PostDraftController {
+  /**
+   * List the user's drafts and scheduled posts
+   * @route GET /api/v1/posts/drafts
+   */
+  static listDrafts = controllerHandler(async (req: Request, res: Response) => {
+    const drafts = await PostDraftService.listDrafts(
+      req.user!.id,
+      req.query.status as PostDraftStatus | undefined
+    );
+
+    res.status(200).json({
+      status: "success",
+      data: { drafts },
+    });
+  });
+
+  /**
+   * Get a draft or scheduled post
+   * @route GET /api/v1/posts/drafts/:id
+   */
+  static getDraft = controllerHandler(async (req: Request, res: Response) => {
+    const draft = await PostDraftService.getDraft(req.user!.id, req.params.id);
+
+    res.status(200).json({
+      status: "success",
+      data: { draft },
+    });
+  });
+
+  /**
+   * Edit, schedule or unschedule a draft
+   * @route PATCH /api/v1/posts/drafts/:id
+   */
+  static updateDraft = controllerHandler(
+    async (req: Request, res: Response) => {
+      const { content, media, feeling, visibility, location, publish_at } =
+        req.body;
+
+      const changes: PostDraftUpdate = {
+        content,
+        feeling,
+        visibility,
+        location,
+        publish_at,
+        media: Array.isArray(media)
+          ? media.map((item: any, index: number) => ({
+              media_url: item.url,
+              media_type: item.media_type,
+              order: item.order ?? index,
+            }))
+          : undefined,
+      };
+
+      const draft = await PostDraftService.updateDraft(
+        req.user!.id,
+        req.params.id,
+        changes
+      );
+
+      res.status(200).json({
+        status: "success",
+        data: { draft },
+      });
+    }
+  );
+
+  /**
+   * Discard a draft or cancel a scheduled post
+   * @route DELETE /api/v1/posts/drafts/:id
+   */
+  static cancelDraft = controllerHandler(
+    async (req: Request, res: Response) => {
+      await PostDraftService.cancelDraft(req.user!.id, req.params.id);
+
+      res.status(204).send();
+    }
+  );
+}
@@ -0,0 +1,197 @@
+// src/controllers/savedItemController.ts
+import { Request, Response } from "express";
+import { UUID } from "crypto";
+import { controllerHandler } from "../utils/controllerHandler";
+import { SavedItemService } from "../services/savedItemService";
+import { ItemType } from "../models/saved-item.model";
+
+export class SavedItemController {
+  /**
+   * List the current user's saved items
+   * @route GET /api/v1/saved-items
+   */
+  static getSavedItems = controllerHandler(
+    async (req: Request, res: Response) => {
+      const page = req.query.page ? Number(req.query.page) : 1;
+      const limit = req.query.limit ? Number(req.query.limit) : 20;
+      const collection = req.query.collection_id as string | undefined;
+
+      const { items, total } = await SavedItemService.getSavedItems(
+        req.user!.id,
+        {
+          itemType: req.query.type as ItemType | undefined,
+          // "none" lists items that aren't in any collection
+          collectionId: collection === "none" ? null : collection,
+          page,
+          limit,
+        }
+      );
+
+      res.status(200).json({
+        status: "success",
+        data: {
+          items,
+          total,
+          page,
+          totalPages: Math.ceil(total / limit),
+          limit,
+        },
+      });
+    }
+  );
+
+  /**
+   * Save a post or marketplace listing
+   * @route POST /api/v1/saved-items
+   */
+  static saveItem = controllerHandler(async (req: Request, res: Response) => {
+    const { item_type, item_id, collection_id } = req.body;
+    const item = await SavedItemService.saveItem(
+      req.user!.id,
+      item_type,
+      item_id,
+      collection_id
+    );
+
+    res.status(201).json({
+      status: "success",
+      data: { item },
+    });
+  });
+
+  /**
+   * Unsave a post or marketplace listing
+   * @route DELETE /api/v1/saved-items/:itemType/:itemId
+   */
+  static unsaveItem = controllerHandler(async (req: Request, res: Response) => {
+    await SavedItemService.unsaveItem(
+      req.user!.id,
+      req.params.itemType as ItemType,
+      req.params.itemId
+    );
+
+    res.status(200).json({
+      status: "success",
+      message: "Item removed from saved items",
+    });
+  });
+
+  /**
+   * Move saved items into a collection, or out of any with null
+   * @route PATCH /api/v1/saved-items/move
+   */
+  static moveItems = controllerHandler(async (req: Request, res: Response) => {
+    const moved = await SavedItemService.moveItems(
+      req.user!.id,
+      req.body.item_ids,
+      req.body.collection_id ?? null
+    );
+
+    res.status(200).json({
+      status: "success",
+      data: { moved },
+    });
+  });
+
+  /**
+   * List the current user's collections
+   * @route GET /api/v1/saved-items/collections
+   */
+  static getCollections = controllerHandler(
+    async (req: Request, res: Response) => {
+      const collections = await SavedItemService.getCollections(req.user!.id);
+
+      res.status(200).json({
+        status: "success",
+        data: { collections },
+      });
+    }
+  );
+
+  /**
+   * Get a collection with its items
+   * @route GET /api/v1/saved-items/collections/:collectionId
+   */
+  static getCollection = controllerHandler(
+    async (req: Request, res: Response) => {
+      const page = req.query.page ? Number(req.query.page) : 1;
+      const limit = req.query.limit ? Number(req.query.limit) : 20;
+
+      const collection = await SavedItemService.getCollection(
+        req.user!.id,
+        req.params.collectionId,
+        page,
+        limit
+      );
+
+      res.status(200).json({
+        status: "success",
+        data: {
+          collection,
+          page,
+          totalPages: Math.ceil(collection.items_count / limit),
+          limit,
+        },
+      });
+    }
+  );
+
+  /**
+   * Create a collection
+   * @route POST /api/v1/saved-items/collections
+   */
+  static createCollection = controllerHandler(
+    async (req: Request, res: Response) => {
+      const collection = await SavedItemService.createCollection({
+        user_id: req.user!.id as UUID,
+        name: req.body.name,
+        description: req.body.description,
+      });
+
+      res.status(201).json({
+        status: "success",
+        data: { collection },
+      });
+    }
+  );
+
+  /**
+   * Rename a collection or change its description
+   * @route PATCH /api/v1/saved-items/collections/:collectionId
+   */
+  static updateCollection = controllerHandler(
+    async (req: Request, res: Response) => {
+      const collection = await SavedItemService.updateCollection(
+        req.user!.id,
+        req.params.collectionId,
+        {
+          name: req.body.name,
+          description: req.body.description,
+        }
+      );
+
+      res.status(200).json({
+        status: "success",
+        data: { collection },
+      });
+    }
+  );
+
+  /**
+   * Delete a collection; its items stay saved
+   * @route DELETE /api/v1/saved-items/collections/:collectionId
+   */
+  static deleteCollection = controllerHandler(
+    async (req: Request, res: Response) => {
+      await SavedItemService.deleteCollection(
+        req.user!.id,
+        req.params.collectionId
+      );
+
+      res.status(200).json({
+        status: "success",
+        message: "Collection deleted",
+      });
+    }
+  );
+}
@@ -3,6 +3,7 @@ import { Request, Response } from "express";
 import { logger } from "../utils/logger";
 import { AppError } from "../middlewares/errorHandler";
 import { SearchService } from "../services/searchService";
+import { PostFeelingType } from "../models/post.model";
 
 export class SearchController {
   /**
@@ -103,6 +104,56 @@ export class SearchController {
     }
   }
 
+  /**
+   * Full-text search over posts the authenticated user may see
+   * GET /api/v1/search/posts?q={query}&author={userId}&from={date}&to={date}&hasMedia={bool}&feeling={feeling}&location={place}&sortBy={sort}&page={page}&limit={limit}
+   */
+  static async searchPosts(req: Request, res: Response) {
+    try {
+      if (!req.user) {
+        throw new AppError("Authentication required", 401);
+      }
+
+      const query = req.query.q as string;
+      if (!query) {
+        throw new AppError("Search query is required", 400);
+      }
+
+      const result = await SearchService.searchPosts(req.user.id, query, {
+        authorId: req.query.author as string | undefined,
+        from: req.query.from as string | undefined,
+        to: req.query.to as string | undefined,
+        hasMedia:
+          req.query.hasMedia === undefined
+            ? undefined
+            : req.query.hasMedia === "true",
+        feeling: req.query.feeling as PostFeelingType | undefined,
+        location: req.query.location as string | undefined,
+        sortBy: (req.query.sortBy as "relevance" | "newest") || "relevance",
+        page: parseInt(req.query.page as string) || 1,
+        limit: parseInt(req.query.limit as string) || 10,
+      });
+
+      res.status(200).json({
+        status: "success",
+        ...result,
+      });
+    } catch (error) {
+      logger.error("Error in searchPosts controller:", error);
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          status: error.status,
+          message: error.message,
+        });
+      } else {
+        res.status(500).json({
+          status: "error",
+          message: "Failed to search posts",
+        });
+      }
+    }
+  }
+
   /**
    * Search for users near the authenticated user
    * GET /api/v1/search/users/nearby?radius={km}&page={page}&limit={limit}
@@ -0,0 +1,62 @@
+// src/controllers/sessionController.ts
+import { Request, Response } from "express";
+import { controllerHandler } from "../utils/controllerHandler";
+import { DeviceSessionService } from "../services/deviceSessionService";
+
+export class SessionController {
+  /**
+   * List the devices the current user is signed in on
+   * @route GET /api/v1/auth/sessions
+   */
+  static getSessions = controllerHandler(
+    async (req: Request, res: Response) => {
+      const devices = await DeviceSessionService.listActiveDevices(
+        req.user!.id,
+        req.sessionId
+      );
+
+      res.status(200).json({
+        status: "success",
+        data: { devices },
+      });
+    }
+  );
+
+  /**
+   * Sign out the device a session belongs to
+   * @route DELETE /api/v1/auth/sessions/:sessionId
+   */
+  static revokeSession = controllerHandler(
+    async (req: Request, res: Response) => {
+      const revokedSessions = await DeviceSessionService.signOutDevice(
+        req.user!.id,
+        req.params.sessionId
+      );
+
+      res.status(200).json({
+        status: "success",
+        message: "Device signed out",
+        data: { revokedSessions },
+      });
+    }
+  );
+
+  /**
+   * Sign out every device except the current one
+   * @route DELETE /api/v1/auth/sessions
+   */
+  static revokeOtherSessions = controllerHandler(
+    async (req: Request, res: Response) => {
+      const revokedSessions = await DeviceSessionService.signOutOtherDevices(
+        req.user!.id,
+        req.sessionId
+      );
+
+      res.status(200).json({
+        status: "success",
+        message: "Signed out of all other devices",
+        data: { revokedSessions },
+      });
+    }
+  );
+}
@@ -204,6 +204,11 @@ export class TransactionController {
         throw new AppError("Status is required", 400);
       }
 
+      const previous = await TransactionService.getPaymentById(paymentId);
+      if (!previous) {
+        throw new AppError("Payment not found", 404);
+      }
+
       const payment = await TransactionService.updatePaymentStatus(
         paymentId,
         status,
@@ -211,6 +216,14 @@ export class TransactionController {
         completedAt
       );
 
+      res.locals.audit = {
+        action: "payment.status_update",
+        targetType: "payment",
+        targetId: paymentId,
+        before: previous,
+        after: payment,
+      };
+
       res.status(200).json({
         success: true,
         data: payment,
@@ -0,0 +1,80 @@
+// src/controllers/twoFactorController.ts
+import { Request, Response } from "express";
+import { controllerHandler } from "../utils/controllerHandler";
+import { TwoFactorService } from "../services/twoFactorService";
+
+export class TwoFactorController {
+  /**
+   * Get the current user's two-factor status
+   * @route GET /api/v1/auth/2fa/status
+   */
+  static getStatus = controllerHandler(async (req: Request, res: Response) => {
+    const status = await TwoFactorService.getStatus(req.user!.id);
+
+    res.status(200).json({
+      status: "success",
+      data: status,
+    });
+  });
+
+  /**
+   * Start enrollment and return the secret / otpauth URI to show as a QR code
+   * @route POST /api/v1/auth/2fa/setup
+   */
+  static setup = controllerHandler(async (req: Request, res: Response) => {
+    const enrollment = await TwoFactorService.startEnrollment(req.user!);
+
+    res.status(200).json({
+      status: "success",
+      data: enrollment,
+    });
+  });
+
+  /**
+   * Confirm enrollment with a code from the authenticator app
+   * @route POST /api/v1/auth/2fa/confirm
+   */
+  static confirm = controllerHandler(async (req: Request, res: Response) => {
+    const recoveryCodes = await TwoFactorService.confirmEnrollment(
+      req.user!.id,
+      req.body.code
+    );
+
+    res.status(200).json({
+      status: "success",
+      message: "Two-factor authentication enabled",
+      data: { recoveryCodes },
+    });
+  });
+
+  /**
+   * Disable two-factor authentication
+   * @route POST /api/v1/auth/2fa/disable
+   */
+  static disable = controllerHandler(async (req: Request, res: Response) => {
+    await TwoFactorService.disable(req.user!.id, req.body.code);
+
+    res.status(200).json({
+      status: "success",
+      message: "Two-factor authentication disabled",
+    });
+  });
+
+  /**
+   * Replace the current user's recovery codes
+   * @route POST /api/v1/auth/2fa/recovery-codes
+   */
+  static regenerateRecoveryCodes = controllerHandler(
+    async (req: Request, res: Response) => {
+      const recoveryCodes = await TwoFactorService.regenerateRecoveryCodes(
+        req.user!.id,
+        req.body.code
+      );
+
+      res.status(200).json({
+        status: "success",
+        data: { recoveryCodes },
+      });
+    }
+  );
+}
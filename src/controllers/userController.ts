@@ -35,6 +35,13 @@ export class UserController {
           ...rest,
         });
 
+      res.locals.audit = {
+        action: "user.create",
+        targetType: "user",
+        targetId: newUser.id,
+        after: newUser,
+      };
+
       // Remove sensitive information
       const { password_hash: _, ...userWithoutPassword } = newUser;
 
@@ -348,6 +355,17 @@ export class UserController {
       // Update user
       const updatedUser = await UserService.updateUser(id, updateData);
 
+      res.locals.audit = {
+        action:
+          updatedUser.role !== existingUser.role
+            ? "user.role_change"
+            : "user.update",
+        targetType: "user",
+        targetId: id,
+        before: existingUser,
+        after: updatedUser,
+      };
+
       // Remove sensitive information
       // eslint-disable-next-line @typescript-eslint/no-unused-vars
       const { password_hash, ...userWithoutPassword } = updatedUser;
@@ -391,6 +409,13 @@ export class UserController {
       // Delete user and all associated data
       await UserService.deleteUserCompletely(id);
 
+      res.locals.audit = {
+        action: "user.delete_completely",
+        targetType: "user",
+        targetId: id,
+        before: existingUser,
+      };
+
       res.status(200).json({
         status: "success",
         message: "User and all associated data deleted successfully",
@@ -428,6 +453,13 @@ export class UserController {
       // Delete user
       await UserService.deleteUser(id);
 
+      res.locals.audit = {
+        action: "user.delete",
+        targetType: "user",
+        targetId: id,
+        before: existingUser,
+      };
+
       res.status(204).send();
     } catch (error) {
       logger.error("Error in deleteUser controller:", error);
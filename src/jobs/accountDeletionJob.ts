@@ -0,0 +1,32 @@
+import { CronJob } from "cron";
+import { logger } from "../utils/logger";
+import { AccountDeactivationService } from "../services/accountDeactivationService";
+
+/**
+ * Job to permanently delete accounts whose deletion grace period has ended
+ */
+export function setupAccountDeletionJob(): void {
+  // Run daily; a deletion is due at most a day after its scheduled time
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const job = new CronJob(
+    "0 3 * * *", // Every day at 03:00
+    async () => {
+      try {
+        logger.info("Starting scheduled account deletion job");
+
+        const deleted = await AccountDeactivationService.processDueDeletions();
+
+        logger.info(
+          `Scheduled account deletion job deleted ${deleted} account(s)`,
+        );
+      } catch (error) {
+        logger.error("Scheduled account deletion job failed:", error);
+      }
+    },
+    null, // onComplete callback
+    true, // start immediately
+    "UTC", // timezone
+  );
+
+  logger.info("Account deletion job scheduled to run daily at 03:00 UTC");
+}
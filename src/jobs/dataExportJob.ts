@@ -0,0 +1,40 @@
+import { CronJob } from "cron";
+import { logger } from "../utils/logger";
+import { DataExportService } from "../services/dataExportService";
+
+/**
+ * Job to build queued "download my data" archives and remove expired ones
+ */
+export function setupDataExportJob(): void {
+  let running = false;
+
+  // Run every 5 minutes; a run that overlaps the previous one is skipped
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const job = new CronJob(
+    "*/5 * * * *", // Every 5 minutes
+    async () => {
+      if (running) return;
+      running = true;
+
+      try {
+        const completed = await DataExportService.processPendingExports();
+        const expired = await DataExportService.purgeExpiredExports();
+
+        if (completed > 0 || expired > 0) {
+          logger.info(
+            `Data export job built ${completed} and expired ${expired} export(s)`,
+          );
+        }
+      } catch (error) {
+        logger.error("Data export job failed:", error);
+      } finally {
+        running = false;
+      }
+    },
+    null, // onComplete callback
+    true, // start immediately
+    "UTC", // timezone
+  );
+
+  logger.info("Data export job scheduled to run every 5 minutes");
+}
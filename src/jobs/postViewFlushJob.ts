@@ -0,0 +1,37 @@
+import { CronJob } from "cron";
+import { logger } from "../utils/logger";
+import { PostViewService } from "../services/postViewService";
+
+/**
+ * Job to write pending post views and feed impressions to the database
+ */
+export function setupPostViewFlushJob(): void {
+  let running = false;
+
+  // Run every minute; a run that overlaps the previous one is skipped
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const job = new CronJob(
+    "* * * * *", // Every minute
+    async () => {
+      if (running) return;
+      running = true;
+
+      try {
+        const updated = await PostViewService.flushCounts();
+
+        if (updated > 0) {
+          logger.info(`Post view flush job updated ${updated} post(s)`);
+        }
+      } catch (error) {
+        logger.error("Post view flush job failed:", error);
+      } finally {
+        running = false;
+      }
+    },
+    null, // onComplete callback
+    true, // start immediately
+    "UTC", // timezone
+  );
+
+  logger.info("Post view flush job scheduled to run every minute");
+}
@@ -0,0 +1,37 @@
+import { CronJob } from "cron";
+import { logger } from "../utils/logger";
+import { PostDraftService } from "../services/postDraftService";
+
+/**
+ * Job to publish scheduled posts once their publish time arrives
+ */
+export function setupScheduledPostJob(): void {
+  let running = false;
+
+  // Run every minute; a run that overlaps the previous one is skipped
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const job = new CronJob(
+    "* * * * *", // Every minute
+    async () => {
+      if (running) return;
+      running = true;
+
+      try {
+        const published = await PostDraftService.publishDueDrafts();
+
+        if (published > 0) {
+          logger.info(`Scheduled post job published ${published} post(s)`);
+        }
+      } catch (error) {
+        logger.error("Scheduled post job failed:", error);
+      } finally {
+        running = false;
+      }
+    },
+    null, // onComplete callback
+    true, // start immediately
+    "UTC", // timezone
+  );
+
+  logger.info("Scheduled post job scheduled to run every minute");
+}
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from "express";
 import { AppError } from "./errorHandler";
 import { UserRole } from "../types/models";
+import { auditPrivilegedRequest } from "./auditLog";
 
 /**
  * Middleware to check if user has admin privileges
@@ -18,6 +19,7 @@ export const requireAdmin = (req: Request, res: Response, next: NextFunction) =>
       throw new AppError("Admin privileges required", 403);
     }
 
+    auditPrivilegedRequest(req, res);
     next();
   } catch (error) {
     next(error);
@@ -39,6 +41,7 @@ export const requireSuperAdmin = (req: Request, res: Response, next: NextFunctio
       throw new AppError("Super admin privileges required", 403);
     }
 
+    auditPrivilegedRequest(req, res);
     next();
   } catch (error) {
     next(error);
@@ -61,6 +64,7 @@ export const requireModerator = (req: Request, res: Response, next: NextFunction
       throw new AppError("Moderator privileges required", 403);
     }
 
+    auditPrivilegedRequest(req, res);
     next();
   } catch (error) {
     next(error);
@@ -83,6 +87,7 @@ export const requireRoles = (allowedRoles: UserRole[]) => {
         throw new AppError(`Access denied. Required roles: ${allowedRoles.join(', ')}`, 403);
       }
 
+      auditPrivilegedRequest(req, res);
       next();
     } catch (error) {
       next(error);
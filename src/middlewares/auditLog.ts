@@ -0,0 +1,43 @@
+// src/middlewares/auditLog.ts
+import { UUID } from "crypto";
+import { Request, Response } from "express";
+import { AuditContext } from "../models/audit-log.model";
+import { AuditLogService } from "../services/auditLogService";
+import { diffSnapshots } from "../utils/auditDiff";
+
+/**
+ * Write an audit log entry once the response for a privileged request has
+ * been sent. Called by the role guards after they let a request through;
+ * controllers describe what they did by setting res.locals.audit.
+ */
+export const auditPrivilegedRequest = (req: Request, res: Response) => {
+  // Several guards can sit on one route; record the request once
+  if (res.locals.auditRegistered || !req.user) return;
+  res.locals.auditRegistered = true;
+
+  const actor = req.user;
+  const path = req.route
+    ? `${req.baseUrl}${req.route.path}`
+    : req.originalUrl.split("?")[0];
+  const params = { ...req.params };
+
+  res.once("finish", () => {
+    const audit: AuditContext = res.locals.audit || {};
+    const changes = diffSnapshots(audit.before, audit.after);
+
+    void AuditLogService.record({
+      actor_id: actor.id as UUID,
+      actor_role: actor.role,
+      action: audit.action || `${req.method} ${path}`,
+      target_type: audit.targetType || null,
+      target_id: audit.targetId || Object.values(params)[0] || null,
+      method: req.method,
+      path,
+      status_code: res.statusCode,
+      before: changes?.before ?? null,
+      after: changes?.after ?? null,
+      ip_address: res.locals.clientInfo?.ipAddress || req.ip || null,
+      user_agent: req.headers["user-agent"] || null,
+    });
+  });
+};
@@ -4,17 +4,34 @@ import jwt from "jsonwebtoken";
 import { config } from "dotenv";
 import { logger } from "../utils/logger";
 import { UserService } from "../services/userService";
+import { SessionService } from "../services/sessionService";
+import { AccessTokenService } from "../services/accessTokenService";
+import { AccessTokenScope } from "../models/access-token.model";
 import { User, UserRole } from "../types/models";
 
 config();
 
 const JWT_SECRET = process.env.JWT_SECRET || "your_jwt_secret_key_here";
+const API_PREFIX = process.env.API_PREFIX || "/api/v1";
+
+// API areas that accept personal access tokens; every route in them
+// declares its scope with requireScope. Everything else is JWT-only.
+const ACCESS_TOKEN_AREAS = [
+  "/posts",
+  "/comments",
+  "/messages",
+  "/chats",
+  "/marketplace",
+];
 
 // Extend Express Request interface to include user property
 declare global {
   namespace Express {
     interface Request {
       user?: User;
+      sessionId?: string;
+      // Set only for personal access token requests
+      tokenScopes?: AccessTokenScope[];
     }
   }
 }
@@ -41,13 +58,35 @@ export const authenticate = async (
 
     const token = authHeader.split(" ")[1];
 
+    if (AccessTokenService.isAccessToken(token)) {
+      return await authenticateAccessToken(token, req, res, next);
+    }
+
     // Verify token
     const decoded = jwt.verify(token, JWT_SECRET) as {
       id: string;
       email: string;
       role: UserRole;
+      sid?: string;
+      iat?: number;
     };
 
+    // Tokens without a session can't be revoked, so they expire early
+    if (!decoded.sid && !SessionService.isSessionlessTokenUsable(decoded)) {
+      return res.status(401).json({
+        status: "fail",
+        message: "Your token has expired. Please log in again",
+      });
+    }
+
+    // Reject access tokens whose session was revoked (logout, token reuse)
+    if (decoded.sid && !(await SessionService.isSessionActive(decoded.sid))) {
+      return res.status(401).json({
+        status: "fail",
+        message: "Your session has been revoked. Please log in again",
+      });
+    }
+
     // Check if user exists
     const user = await UserService.findUserById(decoded.id);
     if (!user) {
@@ -67,6 +106,7 @@ export const authenticate = async (
 
     // Attach user to request object
     req.user = user;
+    req.sessionId = decoded.sid;
 
     next();
   } catch (error) {
@@ -93,6 +133,53 @@ export const authenticate = async (
   }
 };
 
+/**
+ * Authenticate a request made with a personal access token
+ */
+const authenticateAccessToken = async (
+  token: string,
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  if (
+    !ACCESS_TOKEN_AREAS.some(area => req.baseUrl === `${API_PREFIX}${area}`)
+  ) {
+    return res.status(403).json({
+      status: "fail",
+      message: "API tokens cannot be used for this endpoint",
+    });
+  }
+
+  const identity = await AccessTokenService.verifyToken(token);
+  if (!identity) {
+    return res.status(401).json({
+      status: "fail",
+      message: "Invalid, expired or revoked API token",
+    });
+  }
+
+  const user = await UserService.findUserById(identity.userId);
+  if (!user) {
+    return res.status(401).json({
+      status: "fail",
+      message: "User belonging to this token no longer exists",
+    });
+  }
+
+  if (!user.is_active) {
+    return res.status(403).json({
+      status: "fail",
+      message: "Your account has been deactivated",
+    });
+  }
+
+  req.user = user;
+  req.tokenScopes = identity.scopes;
+
+  next();
+};
+
 /**
  * Authorization middleware
  * Restricts access to specific roles
@@ -116,3 +203,72 @@ export const authorize = (...roles: UserRole[]) => {
     next();
   };
 };
+
+/**
+ * Verified email middleware
+ * Restricts an action to users who have confirmed their email address
+ */
+export const requireVerifiedEmail = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  if (!req.user) {
+    return res.status(401).json({
+      status: "fail",
+      message: "Not authenticated. Please log in",
+    });
+  }
+
+  if (!req.user.is_verified) {
+    return res.status(403).json({
+      status: "fail",
+      message: "Please verify your email address to perform this action",
+    });
+  }
+
+  next();
+};
+
+/**
+ * Scope middleware
+ * Requires personal access tokens to carry every listed scope;
+ * JWT sessions are unscoped and always pass
+ */
+export const requireScope = (...scopes: AccessTokenScope[]) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.tokenScopes) {
+      return next();
+    }
+
+    const missing = scopes.filter(scope => !req.tokenScopes!.includes(scope));
+    if (missing.length > 0) {
+      return res.status(403).json({
+        status: "fail",
+        message: `This token is missing the required scope: ${missing.join(", ")}`,
+      });
+    }
+
+    next();
+  };
+};
+
+/**
+ * Session-only middleware
+ * Refuses personal access tokens on routes inside token-enabled areas
+ * that integrations should not reach (payments, admin tools)
+ */
+export const requireSession = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  if (req.tokenScopes) {
+    return res.status(403).json({
+      status: "fail",
+      message: "API tokens cannot be used for this endpoint",
+    });
+  }
+
+  next();
+};
@@ -0,0 +1,65 @@
+// src/middlewares/bruteForceProtection.ts
+import { Request, Response, NextFunction } from "express";
+import { logger } from "../utils/logger";
+import {
+  BruteForceScope,
+  BruteForceService,
+  BruteForceSubject,
+} from "../services/bruteForceService";
+import { TwoFactorService } from "../services/twoFactorService";
+
+/**
+ * The account an attempt counts against: the email for login and password
+ * recovery, the user a valid challenge was issued for in two-factor login
+ */
+const accountFor = (
+  scope: BruteForceScope,
+  req: Request
+): string | undefined => {
+  switch (scope) {
+    case BruteForceScope.RESET_PASSWORD:
+      return undefined;
+    case BruteForceScope.TWO_FACTOR:
+      return TwoFactorService.getChallengeUserId(req.body?.challengeToken);
+    default:
+      return BruteForceService.normalizeAccount(req.body?.email);
+  }
+};
+
+/**
+ * Reject requests for a scope while the IP or account is backing off or
+ * locked. Must run after extractClientInfo; the subject is left in
+ * res.locals.bruteForce for the controller to record the outcome.
+ */
+export const bruteForceProtection = (scope: BruteForceScope) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const subject: BruteForceSubject = {
+      ip: res.locals.clientInfo?.ipAddress || req.ip || "unknown",
+      account: accountFor(scope, req),
+    };
+    res.locals.bruteForce = subject;
+
+    try {
+      const { retryAfter, locked } = await BruteForceService.getRetryAfter(
+        scope,
+        subject
+      );
+
+      if (retryAfter > 0) {
+        res.setHeader("Retry-After", String(retryAfter));
+        return res.status(429).json({
+          status: "fail",
+          message: locked
+            ? "This account is temporarily locked after too many failed attempts. Check your email to unlock it or try again later."
+            : "Too many attempts. Please try again later.",
+          retryAfter,
+        });
+      }
+    } catch (error) {
+      // Never block authentication because the limiter itself failed
+      logger.error(`Brute-force check failed for ${scope}:`, error);
+    }
+
+    next();
+  };
+};
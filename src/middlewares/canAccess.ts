@@ -3,6 +3,7 @@ import { Request, Response, NextFunction } from "express";
 import { UserRole } from "../types/models";
 import { AppError } from "../middlewares/errorHandler";
 import { logger } from "../utils/logger";
+import { auditPrivilegedRequest } from "./auditLog";
 
 /**
  * @param allowSameUser - Allow access if the user is accessing their own profile
@@ -41,6 +42,13 @@ export const canAccessProfile = (
 
       // Grant access if either condition is true
       if (hasAllowedRole || isSameUser) {
+        // Acting on someone else's account by virtue of role is audited
+        const requestedUserId = req.params.userId || req.params.id;
+        const isOwnAccount =
+          allowSameUser && (requestedUserId || currentUserId) === currentUserId;
+        if (hasAllowedRole && !isOwnAccount) {
+          auditPrivilegedRequest(req, res);
+        }
         return next();
       }
 
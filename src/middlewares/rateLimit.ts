@@ -0,0 +1,59 @@
+// src/middlewares/rateLimit.ts
+import { Request, Response, NextFunction } from "express";
+import { logger } from "../utils/logger";
+import { redisService } from "../services/redis.service";
+import { UserRole } from "../types/models";
+import { RATE_LIMIT_POLICIES, RateLimitPolicyName } from "../config/rateLimits";
+
+const EXEMPT_ROLES = [UserRole.ADMIN, UserRole.SUPER_ADMIN];
+
+/**
+ * Fixed-window rate limiting backed by Redis, so limits hold across
+ * instances. Place after authenticate so limits apply per user (falls back
+ * to per IP) and admins are exempt. Requests pass through when Redis is
+ * unavailable.
+ */
+export const rateLimit = (policyName: RateLimitPolicyName) => {
+  const policy = RATE_LIMIT_POLICIES[policyName];
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (req.user && EXEMPT_ROLES.includes(req.user.role)) {
+      return next();
+    }
+
+    const subject = req.user
+      ? `user:${req.user.id}`
+      : `ip:${res.locals.clientInfo?.ipAddress || req.ip || "unknown"}`;
+    const key = redisService.keys.rateLimit(policyName, subject);
+
+    try {
+      const count = await redisService.increment(key, policy.windowSeconds);
+      if (count === null) {
+        return next();
+      }
+
+      const reset =
+        (await redisService.getRemainingTTL(key)) ?? policy.windowSeconds;
+
+      res.setHeader("RateLimit-Limit", String(policy.limit));
+      res.setHeader(
+        "RateLimit-Remaining",
+        String(Math.max(policy.limit - count, 0))
+      );
+      res.setHeader("RateLimit-Reset", String(reset));
+
+      if (count > policy.limit) {
+        res.setHeader("Retry-After", String(reset));
+        return res.status(429).json({
+          status: "fail",
+          message: "Too many requests. Please try again later.",
+          retryAfter: reset,
+        });
+      }
+    } catch (error) {
+      logger.error(`Rate limit check failed for ${policyName}:`, error);
+    }
+
+    next();
+  };
+};
@@ -0,0 +1,42 @@
+import { query } from "express-validator";
+import { validateRequest } from "./validateRequest";
+
+/**
+ * Validation rules for browsing the audit log
+ */
+export const validateAuditLogQuery = [
+  query("actorId").optional().isUUID().withMessage("Invalid actor ID"),
+
+  query("action")
+    .optional()
+    .isString()
+    .isLength({ max: 100 })
+    .withMessage("Action must be at most 100 characters"),
+
+  query("targetType")
+    .optional()
+    .isString()
+    .isLength({ max: 50 })
+    .withMessage("Target type must be at most 50 characters"),
+
+  query("targetId").optional().isString().withMessage("Invalid target ID"),
+
+  query("from")
+    .optional()
+    .isISO8601()
+    .withMessage("From must be an ISO 8601 date"),
+
+  query("to").optional().isISO8601().withMessage("To must be an ISO 8601 date"),
+
+  query("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Page must be a positive integer"),
+
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage("Limit must be between 1 and 100"),
+
+  validateRequest,
+];
@@ -1,6 +1,8 @@
 import { logger } from "../../utils/logger";
 import { Request, Response, NextFunction } from "express";
 import { check, validationResult } from "express-validator";
+import { validateRequest } from "./validateRequest";
+import { AccessTokenScope } from "../../models/access-token.model";
 
 /**
  * Validation middleware for forgot password
@@ -94,3 +96,148 @@ export const validateVerifyResetToken = [
   },
 ];
 
+/**
+ * Validation middleware for a two-factor code (TOTP or recovery code)
+ */
+export const validateTwoFactorCode = [
+  check("code")
+    .isString()
+    .withMessage("Code must be a string")
+    .trim()
+    .notEmpty()
+    .withMessage("Two-factor code is required")
+    .isLength({ max: 20 })
+    .withMessage("Invalid code format"),
+
+  validateRequest,
+];
+
+/**
+ * Validation middleware for the second step of a two-factor login
+ */
+export const validateTwoFactorLogin = [
+  check("challengeToken")
+    .isString()
+    .withMessage("Challenge token must be a string")
+    .notEmpty()
+    .withMessage("Challenge token is required"),
+
+  ...validateTwoFactorCode,
+];
+
+/**
+ * Validation middleware for email verification
+ */
+export const validateVerifyEmail = [
+  check("token")
+    .isString()
+    .withMessage("Token must be a string")
+    .notEmpty()
+    .withMessage("Verification token is required"),
+
+  validateRequest,
+];
+
+/**
+ * Validation middleware for the "this wasn't me" login alert link
+ */
+export const validateLoginAlertRevoke = [
+  check("token")
+    .isString()
+    .withMessage("Token must be a string")
+    .notEmpty()
+    .withMessage("Token is required"),
+
+  validateRequest,
+];
+
+/**
+ * Validation middleware for session ID params
+ */
+export const validateSessionId = [
+  check("sessionId").isUUID().withMessage("Invalid session ID"),
+
+  validateRequest,
+];
+
+/**
+ * Validation middleware for the account unlock link
+ */
+export const validateUnlockAccount = [
+  check("token")
+    .isString()
+    .withMessage("Token must be a string")
+    .notEmpty()
+    .withMessage("Unlock token is required"),
+
+  validateRequest,
+];
+
+/**
+ * Validation middleware for creating a personal access token
+ */
+export const validateCreateAccessToken = [
+  check("name")
+    .isString()
+    .withMessage("Name must be a string")
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage("Name must be between 1 and 100 characters"),
+
+  check("scopes")
+    .isArray({ min: 1 })
+    .withMessage("At least one scope is required"),
+
+  check("scopes.*")
+    .isIn(Object.values(AccessTokenScope))
+    .withMessage(
+      `Scopes must be any of: ${Object.values(AccessTokenScope).join(", ")}`
+    ),
+
+  check("expiresInDays")
+    .optional()
+    .isInt({ min: 1, max: 365 })
+    .withMessage("Expiry must be between 1 and 365 days")
+    .toInt(),
+
+  validateRequest,
+];
+
+/**
+ * Validation middleware for access token ID params
+ */
+export const validateAccessTokenId = [
+  check("tokenId").isUUID().withMessage("Invalid token ID"),
+
+  validateRequest,
+];
+
+/**
+ * Validation middleware for deactivating or deleting the current account
+ */
+export const validateAccountDeactivation = [
+  check("password").notEmpty().withMessage("Password is required"),
+
+  check("reason")
+    .optional()
+    .isString()
+    .withMessage("Reason must be a string")
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Reason must be at most 500 characters"),
+
+  validateRequest,
+];
+
+/**
+ * Validation middleware for restoring a deactivated account
+ */
+export const validateRestoreAccount = [
+  check("restoreToken")
+    .isString()
+    .withMessage("Restore token must be a string")
+    .notEmpty()
+    .withMessage("Restore token is required"),
+
+  validateRequest,
+];
@@ -0,0 +1,17 @@
+import { check, query } from "express-validator";
+import { validateRequest } from "./validateRequest";
+
+/**
+ * Validation rules for downloading a data export
+ */
+export const validateDataExportDownload = [
+  check("exportId").isUUID().withMessage("Invalid export ID"),
+
+  query("token")
+    .isString()
+    .withMessage("Token must be a string")
+    .notEmpty()
+    .withMessage("Download token is required"),
+
+  validateRequest,
+];
@@ -0,0 +1,42 @@
+import { param, query } from "express-validator";
+import { validateRequest } from "./validateRequest";
+
+const paginationRules = [
+  query("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Page must be a positive integer"),
+
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage("Limit must be between 1 and 50"),
+];
+
+/**
+ * Validation rules for routes that act on another user
+ */
+export const validateFollowUserId = [
+  param("userId").isUUID().withMessage("Invalid user ID"),
+
+  validateRequest,
+];
+
+/**
+ * Validation rules for listing a user's followers or followed users
+ */
+export const validateFollowList = [
+  param("userId").isUUID().withMessage("Invalid user ID"),
+
+  ...paginationRules,
+
+  validateRequest,
+];
+
+/**
+ * Validation rules for listing follow requests
+ */
+export const validateFollowRequestsQuery = [
+  ...paginationRules,
+  validateRequest,
+];
@@ -1,11 +1,19 @@
 // src/middlewares/validators/postValidator.ts
-import { check } from "express-validator";
+import { check, param, query } from "express-validator";
 import { validateRequest } from "./validateRequest";
 import {
   PostVisibility,
   PostFeelingType,
   MediaType,
+  PostDraftStatus,
 } from "../../models/post.model";
+import { FeedFeedbackKind } from "../../models/feed-feedback.model";
+import { PollResultsVisibility } from "../../models/poll.model";
+import {
+  MAX_POLL_OPTION_LENGTH,
+  MAX_POLL_OPTIONS,
+  MIN_POLL_OPTIONS,
+} from "../../utils/polls";
 
 /**
  * Validation for creating a post
@@ -68,6 +76,72 @@ export const validateCreatePost = [
     .isArray({ min: 2, max: 2 })
     .withMessage("Coordinates must be an array with exactly 2 values"),
 
+  // Drafts and scheduled posts
+  check("status")
+    .optional()
+    .isIn([PostDraftStatus.DRAFT, PostDraftStatus.SCHEDULED])
+    .withMessage("Status must be draft or scheduled"),
+
+  check("publish_at")
+    .optional()
+    .isISO8601()
+    .withMessage("publish_at must be an ISO 8601 date"),
+
+  check().custom((value, { req }) => {
+    if (req.body.status === PostDraftStatus.DRAFT && req.body.publish_at) {
+      throw new Error("Drafts can't have a publish_at time; use scheduled");
+    }
+    if (req.body.status === PostDraftStatus.SCHEDULED && !req.body.publish_at) {
+      throw new Error("Scheduled posts need a publish_at time");
+    }
+    return true;
+  }),
+
+  check(["shared_post_id", "share_type"])
+    .not()
+    .exists()
+    .withMessage("Use the share endpoint to share a post"),
+
+  // Poll validation if provided; the content is the question
+  check("poll").optional().isObject().withMessage("Poll must be an object"),
+
+  check("poll.options")
+    .if(check("poll").exists())
+    .isArray({ min: MIN_POLL_OPTIONS, max: MAX_POLL_OPTIONS })
+    .withMessage(
+      `A poll needs between ${MIN_POLL_OPTIONS} and ${MAX_POLL_OPTIONS} options`
+    ),
+
+  check("poll.options.*")
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: MAX_POLL_OPTION_LENGTH })
+    .withMessage(
+      `Poll options must be 1 to ${MAX_POLL_OPTION_LENGTH} characters`
+    ),
+
+  check(["poll.allows_multiple", "poll.is_anonymous"])
+    .optional()
+    .isBoolean()
+    .withMessage("Poll settings must be true or false"),
+
+  check("poll.results_visibility")
+    .optional()
+    .isIn(Object.values(PollResultsVisibility))
+    .withMessage("Invalid poll results visibility"),
+
+  check("poll.closes_at")
+    .optional({ values: "null" })
+    .isISO8601()
+    .withMessage("closes_at must be an ISO 8601 date"),
+
+  check().custom((value, { req }) => {
+    if (req.body.poll && (req.body.status || req.body.publish_at)) {
+      throw new Error("Polls can't be saved as drafts or scheduled");
+    }
+    return true;
+  }),
+
   validateRequest,
 ];
 
@@ -111,5 +185,269 @@ export const validateUpdatePost = [
     .isArray({ min: 2, max: 2 })
     .withMessage("Coordinates must be an array with exactly 2 values"),
 
+  check(["shared_post_id", "share_type", "share_count"])
+    .not()
+    .exists()
+    .withMessage("The shared post can't be changed"),
+
+  check("poll").not().exists().withMessage("Polls can't be edited"),
+
+  validateRequest,
+];
+
+/**
+ * Validation for sharing a post
+ */
+export const validateSharePost = [
+  param("id").isUUID().withMessage("Invalid post ID"),
+
+  check("content")
+    .optional()
+    .isString()
+    .withMessage("Content must be a string")
+    .isLength({ max: 5000 })
+    .withMessage("Content cannot exceed 5000 characters"),
+
+  check("visibility")
+    .optional()
+    .isIn(Object.values(PostVisibility))
+    .withMessage("Invalid visibility setting"),
+
+  validateRequest,
+];
+
+/**
+ * Validation for reading the feed
+ */
+export const validateFeedQuery = [
+  query("mode")
+    .optional()
+    .isIn(["page", "cursor"])
+    .withMessage("Mode must be page or cursor"),
+
+  query("cursor")
+    .optional()
+    .isString()
+    .withMessage("Cursor must be a string")
+    .isLength({ max: 200 })
+    .withMessage("Invalid feed cursor"),
+
+  query("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Page must be a positive integer"),
+
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage("Limit must be between 1 and 50"),
+
+  query("debug")
+    .optional()
+    .isBoolean()
+    .withMessage("Debug must be true or false"),
+
+  validateRequest,
+];
+
+/**
+ * Validation for checking for new feed posts
+ */
+export const validateFeedNewCount = [
+  query("cursor")
+    .isString()
+    .withMessage("Cursor must be a string")
+    .notEmpty()
+    .withMessage("Cursor is required")
+    .isLength({ max: 200 })
+    .withMessage("Invalid feed cursor"),
+
+  validateRequest,
+];
+
+/**
+ * Validation for post actions that take only the post ID
+ */
+export const validatePostId = [
+  param("id").isUUID().withMessage("Invalid post ID"),
+
+  validateRequest,
+];
+
+/**
+ * Validation for marking a post "not interested"
+ */
+export const validateNotInterested = [
+  param("id").isUUID().withMessage("Invalid post ID"),
+
+  check("topic")
+    .optional()
+    .isString()
+    .withMessage("Topic must be a string")
+    .isLength({ min: 1, max: 101 })
+    .withMessage("Invalid topic"),
+
+  validateRequest,
+];
+
+/**
+ * Validation for listing feed feedback
+ */
+export const validateFeedFeedbackQuery = [
+  query("kind")
+    .optional()
+    .isIn(Object.values(FeedFeedbackKind))
+    .withMessage("Invalid feedback kind"),
+
+  validateRequest,
+];
+
+/**
+ * Validation for undoing feed feedback
+ */
+export const validateFeedFeedbackId = [
+  param("feedbackId").isUUID().withMessage("Invalid feedback ID"),
+
+  validateRequest,
+];
+
+/**
+ * Validation for listing drafts and scheduled posts
+ */
+export const validateDraftQuery = [
+  query("status")
+    .optional()
+    .isIn(Object.values(PostDraftStatus))
+    .withMessage("Invalid draft status"),
+
+  validateRequest,
+];
+
+/**
+ * Validation for routes addressing a single draft
+ */
+export const validateDraftId = [
+  param("id").isUUID().withMessage("Invalid draft ID"),
+
+  validateRequest,
+];
+
+/**
+ * Validation for editing a draft or scheduled post
+ */
+export const validateUpdateDraft = [
+  param("id").isUUID().withMessage("Invalid draft ID"),
+
+  check("content")
+    .optional({ values: "null" })
+    .isString()
+    .withMessage("Content must be a string")
+    .isLength({ max: 5000 })
+    .withMessage("Content cannot exceed 5000 characters"),
+
+  check("media").optional().isArray().withMessage("Media must be an array"),
+
+  check("media.*.url").isURL().withMessage("Media URL must be a valid URL"),
+
+  check("media.*.media_type")
+    .isIn(Object.values(MediaType))
+    .withMessage("Invalid media type"),
+
+  check("feeling")
+    .optional({ values: "null" })
+    .isIn(Object.values(PostFeelingType))
+    .withMessage("Invalid feeling type"),
+
+  check("visibility")
+    .optional()
+    .isIn(Object.values(PostVisibility))
+    .withMessage("Invalid visibility setting"),
+
+  check("location")
+    .optional({ values: "null" })
+    .isObject()
+    .withMessage("Location must be an object"),
+
+  check("publish_at")
+    .optional({ values: "null" })
+    .isISO8601()
+    .withMessage("publish_at must be an ISO 8601 date"),
+
+  validateRequest,
+];
+
+/**
+ * Validation for listing trending hashtags
+ */
+export const validateTrendingHashtags = [
+  query("hours")
+    .optional()
+    .isInt({ min: 1, max: 168 })
+    .withMessage("Hours must be between 1 and 168"),
+
+  query("country")
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 100 })
+    .withMessage("Invalid country"),
+
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage("Limit must be between 1 and 50"),
+
+  validateRequest,
+];
+
+/**
+ * Validation for listing a hashtag's posts
+ */
+export const validateHashtagPosts = [
+  param("tag").isLength({ min: 1, max: 101 }).withMessage("Invalid hashtag"),
+
+  query("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Page must be a positive integer"),
+
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage("Limit must be between 1 and 50"),
+
+  validateRequest,
+];
+
+/**
+ * Validation for voting in a post's poll
+ */
+export const validatePollVote = [
+  param("id").isUUID().withMessage("Invalid post ID"),
+
+  check("option_ids")
+    .isArray({ min: 1, max: MAX_POLL_OPTIONS })
+    .withMessage("Choose at least one option"),
+
+  check("option_ids.*").isUUID().withMessage("Invalid poll option"),
+
+  validateRequest,
+];
+
+/**
+ * Validation for listing a poll's voters
+ */
+export const validatePollVoters = [
+  param("id").isUUID().withMessage("Invalid post ID"),
+
+  query("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Page must be a positive integer"),
+
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage("Limit must be between 1 and 50"),
+
   validateRequest,
 ];
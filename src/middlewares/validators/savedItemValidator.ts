@@ -0,0 +1,146 @@
+import { body, param, query } from "express-validator";
+import { validateRequest } from "./validateRequest";
+import { ItemType } from "../../models/saved-item.model";
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Most saved items that can be moved in one request
+const MAX_ITEMS_PER_MOVE = 100;
+
+const paginationRules = [
+  query("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Page must be a positive integer"),
+
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage("Limit must be between 1 and 50"),
+];
+
+const collectionFieldRules = (optional: boolean) => [
+  (optional ? body("name").optional() : body("name"))
+    .isString()
+    .withMessage("Name must be a string")
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage("Name must be between 1 and 50 characters"),
+
+  body("description")
+    .optional({ values: "null" })
+    .isString()
+    .withMessage("Description must be a string")
+    .isLength({ max: 200 })
+    .withMessage("Description cannot exceed 200 characters"),
+];
+
+/**
+ * Validation rules for listing saved items
+ */
+export const validateSavedItemsQuery = [
+  query("type")
+    .optional()
+    .isIn(Object.values(ItemType))
+    .withMessage("Invalid item type"),
+
+  query("collection_id")
+    .optional()
+    .custom(value => value === "none" || UUID_PATTERN.test(value))
+    .withMessage("Collection ID must be a UUID or none"),
+
+  ...paginationRules,
+
+  validateRequest,
+];
+
+/**
+ * Validation rules for saving an item
+ */
+export const validateSaveItem = [
+  body("item_type")
+    .isIn(Object.values(ItemType))
+    .withMessage("Invalid item type"),
+
+  body("item_id").isUUID().withMessage("Invalid item ID"),
+
+  body("collection_id")
+    .optional({ values: "null" })
+    .isUUID()
+    .withMessage("Invalid collection ID"),
+
+  validateRequest,
+];
+
+/**
+ * Validation rules for unsaving an item
+ */
+export const validateUnsaveItem = [
+  param("itemType")
+    .isIn(Object.values(ItemType))
+    .withMessage("Invalid item type"),
+
+  param("itemId").isUUID().withMessage("Invalid item ID"),
+
+  validateRequest,
+];
+
+/**
+ * Validation rules for moving saved items between collections
+ */
+export const validateMoveSavedItems = [
+  body("item_ids")
+    .isArray({ min: 1, max: MAX_ITEMS_PER_MOVE })
+    .withMessage(`Item IDs must be an array of 1 to ${MAX_ITEMS_PER_MOVE} IDs`),
+
+  body("item_ids.*").isUUID().withMessage("Invalid saved item ID"),
+
+  // Without a collection the items are moved out of any collection
+  body("collection_id")
+    .optional({ values: "null" })
+    .isUUID()
+    .withMessage("Invalid collection ID"),
+
+  validateRequest,
+];
+
+/**
+ * Validation rules for reading a collection
+ */
+export const validateGetCollection = [
+  param("collectionId").isUUID().withMessage("Invalid collection ID"),
+
+  ...paginationRules,
+
+  validateRequest,
+];
+
+/**
+ * Validation rules for creating a collection
+ */
+export const validateCreateCollection = [
+  ...collectionFieldRules(false),
+
+  validateRequest,
+];
+
+/**
+ * Validation rules for updating a collection
+ */
+export const validateUpdateCollection = [
+  param("collectionId").isUUID().withMessage("Invalid collection ID"),
+
+  ...collectionFieldRules(true),
+
+  validateRequest,
+];
+
+/**
+ * Validation rules for deleting a collection
+ */
+export const validateCollectionId = [
+  param("collectionId").isUUID().withMessage("Invalid collection ID"),
+
+  validateRequest,
+];
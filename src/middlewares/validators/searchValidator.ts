@@ -1,6 +1,7 @@
 // src/middlewares/validators/searchValidator.ts
 import { query, body } from "express-validator";
 import { validateRequest } from "./validateRequest";
+import { PostFeelingType } from "../../models/post.model";
 
 /**
  * Validation rules for basic user search
@@ -130,6 +131,74 @@ export const validateAdvancedSearch = [
   validateRequest,
 ];
 
+/**
+ * Validation rules for post search
+ */
+export const validatePostSearch = [
+  query("q")
+    .notEmpty()
+    .withMessage("Search query is required")
+    .isString()
+    .withMessage("Search query must be a string")
+    .trim()
+    .isLength({ min: 2, max: 200 })
+    .withMessage("Search query must be between 2 and 200 characters"),
+
+  query("author").optional().isUUID().withMessage("Invalid author ID"),
+
+  query("from")
+    .optional()
+    .isISO8601()
+    .withMessage("From must be an ISO 8601 date"),
+
+  query("to")
+    .optional()
+    .isISO8601()
+    .withMessage("To must be an ISO 8601 date")
+    .custom((to, { req }) => {
+      const from = req.query?.from;
+      if (from && new Date(to) <= new Date(from as string)) {
+        throw new Error("To must be after from");
+      }
+      return true;
+    }),
+
+  query("hasMedia")
+    .optional()
+    .isBoolean()
+    .withMessage("hasMedia must be true or false"),
+
+  query("feeling")
+    .optional()
+    .isIn(Object.values(PostFeelingType))
+    .withMessage("Invalid feeling type"),
+
+  query("location")
+    .optional()
+    .isString()
+    .withMessage("Location must be a string")
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage("Location must be between 2 and 100 characters"),
+
+  query("sortBy")
+    .optional()
+    .isIn(["relevance", "newest"])
+    .withMessage("Sort by must be one of: relevance, newest"),
+
+  query("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Page must be a positive integer"),
+
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage("Limit must be between 1 and 50"),
+
+  validateRequest,
+];
+
 /**
  * Validation rules for nearby users search
  */
@@ -0,0 +1,49 @@
+import { UUID } from "crypto";
+
+/**
+ * What a personal access token may do. JWT sessions are not scoped.
+ */
+export enum AccessTokenScope {
+  POSTS_READ = "posts:read",
+  POSTS_WRITE = "posts:write",
+  MESSAGES_READ = "messages:read",
+  MESSAGES_WRITE = "messages:write",
+  MARKETPLACE_READ = "marketplace:read",
+  MARKETPLACE_WRITE = "marketplace:write",
+}
+
+/**
+ * A user-managed API token for integrations. Only the SHA-256 hash of the
+ * token is stored; the plain token is shown once, at creation.
+ */
+export interface PersonalAccessToken {
+  id: UUID;
+  user_id: UUID;
+  name: string;
+  token_hash: string;
+  token_prefix: string; // first characters of the token, for display
+  scopes: AccessTokenScope[];
+  expires_at: Date;
+  last_used_at?: Date | null;
+  revoked_at?: Date | null;
+  created_at: Date;
+}
+
+export interface PersonalAccessTokenCreate {
+  name: string;
+  scopes: AccessTokenScope[];
+  expiresInDays?: number;
+}
+
+/**
+ * A token as listed to its owner (never includes the hash)
+ */
+export type PersonalAccessTokenSummary = Omit<
+  PersonalAccessToken,
+  "token_hash"
+>;
+
+export interface IssuedAccessToken {
+  token: string;
+  accessToken: PersonalAccessTokenSummary;
+}
@@ -0,0 +1,29 @@
+import { UUID } from "crypto";
+
+/**
+ * A user-initiated deactivation. While a row exists the user is inactive
+ * (hidden, unable to sign in); with deletion_scheduled_for set, the account
+ * is deleted for good once that date passes unless it is restored first.
+ */
+export interface AccountDeactivation {
+  user_id: UUID;
+  reason?: string | null;
+  deactivated_at: Date;
+  deletion_scheduled_for?: Date | null;
+}
+
+export interface AccountDeactivationRequest {
+  password: string;
+  reason?: string;
+  scheduleDeletion: boolean;
+}
+
+/**
+ * Returned by login when the credentials belong to a deactivated account
+ */
+export interface AccountRestoreOffer {
+  accountDeactivated: true;
+  restoreToken: string;
+  expiresIn: number; // seconds
+  deletionScheduledFor: Date | null;
+}
@@ -0,0 +1,45 @@
+import { UUID } from "crypto";
+
+/**
+ * One privileged action taken through an admin-guarded route.
+ * Entries are append-only; before/after hold only the fields that changed.
+ */
+export interface AuditLogEntry {
+  id: UUID;
+  actor_id: UUID;
+  actor_role: string;
+  action: string;
+  target_type?: string | null;
+  target_id?: string | null;
+  method: string;
+  path: string;
+  status_code: number;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  ip_address?: string | null;
+  user_agent?: string | null;
+  created_at: Date;
+}
+
+/**
+ * What a controller can tell the audit log about the request it handled.
+ * Set on res.locals.audit; anything left out falls back to the route.
+ */
+export interface AuditContext {
+  action?: string;
+  targetType?: string;
+  targetId?: string;
+  before?: object | null;
+  after?: object | null;
+}
+
+export interface AuditLogFilters {
+  actorId?: string;
+  action?: string;
+  targetType?: string;
+  targetId?: string;
+  from?: string;
+  to?: string;
+  page?: number;
+  limit?: number;
+}
@@ -0,0 +1,28 @@
+import { UUID } from "crypto";
+
+export enum DataExportStatus {
+  PENDING = "pending",
+  PROCESSING = "processing",
+  READY = "ready",
+  FAILED = "failed",
+  EXPIRED = "expired",
+}
+
+/**
+ * A "download my data" request. The archive is assembled by the data export
+ * job and can be downloaded until expires_at.
+ */
+export interface DataExport {
+  id: UUID;
+  user_id: UUID;
+  status: DataExportStatus;
+  file_path?: string | null; // server-side only, never returned to clients
+  file_size?: number | null;
+  error?: string | null;
+  requested_at: Date;
+  started_at?: Date | null;
+  completed_at?: Date | null;
+  expires_at?: Date | null;
+}
+
+export type DataExportSummary = Omit<DataExport, "file_path">;
@@ -49,3 +49,22 @@ export interface UserLocationUpdate
   extends Partial<
     Omit<UserLocation, "id" | "user_id" | "device_id" | "created_at">
   > {}
+
+export enum LoginAlertReason {
+  NEW_DEVICE = "new_device",
+  NEW_COUNTRY = "new_country",
+}
+
+/**
+ * Details of a login from a device or country the user hasn't used before
+ */
+export interface LoginAlertDetails {
+  userId: string;
+  sessionId: string;
+  deviceToken: string;
+  deviceType: string;
+  ipAddress: string;
+  city?: string | null;
+  country?: string | null;
+  reasons: LoginAlertReason[];
+}
@@ -0,0 +1,34 @@
+import { UUID } from "crypto";
+
+/**
+ * Negative feedback a user gives on their feed
+ */
+export enum FeedFeedbackKind {
+  HIDDEN_POST = "hidden_post", // target is the post ID
+  SNOOZED_AUTHOR = "snoozed_author", // target is the author's user ID
+  TOPIC = "topic", // "not interested": target is a normalized hashtag
+  SOURCE = "source", // "not interested": target is a post source
+}
+
+export interface FeedFeedback {
+  id: UUID;
+  user_id: UUID;
+  kind: FeedFeedbackKind;
+  target: string;
+  post_id: UUID | null; // the post the feedback was given on
+  author_id: UUID | null; // that post's author
+  expires_at: Date | null; // snoozes end; other feedback doesn't
+  created_at: Date;
+}
+
+/**
+ * A user's active feedback, as the feed applies it
+ */
+export interface FeedFeedbackSignals {
+  hiddenPostIds: string[];
+  snoozedAuthorIds: string[];
+  topics: string[];
+  sources: string[];
+  // How many of each author's posts the user hid
+  hiddenAuthorCounts: Record<string, number>;
+}
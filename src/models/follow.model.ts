@@ -0,0 +1,41 @@
+/**
+ * Follows of public profiles are accepted straight away; follows of other
+ * profiles wait for the followee's approval
+ */
+export enum FollowStatus {
+  PENDING = "pending",
+  ACCEPTED = "accepted",
+}
+
+export interface Follow {
+  follower_id: string;
+  followee_id: string;
+  status: FollowStatus;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface FollowSummary {
+  id: string;
+  username: string;
+  first_name: string;
+  last_name: string;
+  profile_picture?: string;
+  bio?: string;
+  is_verified: boolean;
+  followed_at: Date;
+}
+
+export interface FollowCounts {
+  followers: number;
+  following: number;
+}
+
+/**
+ * How the viewer and another user follow each other. Null when there is
+ * no follow, or no request, in that direction.
+ */
+export interface FollowRelationship {
+  following: FollowStatus | null;
+  followed_by: FollowStatus | null;
+}
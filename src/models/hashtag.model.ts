@@ -0,0 +1,15 @@
+/**
+ * A tag's activity over a trending window, with uses split by country
+ */
+export interface TrendingHashtag {
+  tag: string;
+  uses: number;
+  authors: number;
+  countries: { country: string; uses: number }[];
+}
+
+export interface TrendingHashtagsQuery {
+  hours: number;
+  country?: string;
+  limit: number;
+}
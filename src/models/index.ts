@@ -13,3 +13,14 @@ export * from "./marketplace.model";
 export * from "./boost.model";
 export * from "./report.model";
 export * from "./device-location.model";
+export * from "./session.model";
+export * from "./two-factor.model";
+export * from "./access-token.model";
+export * from "./account-deactivation.model";
+export * from "./data-export.model";
+export * from "./audit-log.model";
+export * from "./hashtag.model";
+export * from "./mention.model";
+export * from "./poll.model";
+export * from "./feed-feedback.model";
+export * from "./follow.model";
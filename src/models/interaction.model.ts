@@ -1,4 +1,5 @@
 import { UUID } from "crypto";
+import { Mention } from "./mention.model";
 
 export enum ReactionType {
   LIKE = "like",
@@ -35,10 +36,14 @@ export interface Comment {
   updated_at: Date;
   is_deleted: boolean;
   is_ai_generated?: boolean;
+  mentions?: Mention[];
 }
 
 export interface CommentCreate
-  extends Omit<Comment, "id" | "created_at" | "updated_at" | "is_deleted"> {
+  extends Omit<
+    Comment,
+    "id" | "created_at" | "updated_at" | "is_deleted" | "mentions"
+  > {
   is_ai_generated?: boolean;
 }
 
@@ -46,7 +51,13 @@ export interface CommentUpdate
   extends Partial<
     Omit<
       Comment,
-      "id" | "user_id" | "post_id" | "parent_id" | "created_at" | "updated_at"
+      | "id"
+      | "user_id"
+      | "post_id"
+      | "parent_id"
+      | "created_at"
+      | "updated_at"
+      | "mentions"
     >
   > {}
 
@@ -84,7 +95,10 @@ export type CommentMedia = {
 };
 
 export interface CommentCreate
-  extends Omit<Comment, "id" | "created_at" | "updated_at" | "is_deleted"> {
+  extends Omit<
+    Comment,
+    "id" | "created_at" | "updated_at" | "is_deleted" | "mentions"
+  > {
   is_ai_generated?: boolean;
 }
 
@@ -92,7 +106,13 @@ export interface CommentUpdate
   extends Partial<
     Omit<
       Comment,
-      "id" | "user_id" | "post_id" | "parent_id" | "created_at" | "updated_at"
+      | "id"
+      | "user_id"
+      | "post_id"
+      | "parent_id"
+      | "created_at"
+      | "updated_at"
+      | "mentions"
     >
   > {}
 
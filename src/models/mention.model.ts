@@ -0,0 +1,10 @@
+/**
+ * A resolved @mention in a post or comment. start and end are UTF-16
+ * offsets into the content, covering the @ and the username.
+ */
+export interface Mention {
+  user_id: string;
+  username: string;
+  start: number;
+  end: number;
+}
@@ -5,15 +5,21 @@ export enum ReferenceType {
   COMMENT = "comment",
   FRIEND_REQUEST = "friend_request",
   FRIEND_REQUEST_ACCEPTED = "friend_request_accepted",
+  FOLLOW = "follow",
+  FOLLOW_REQUEST = "follow_request",
+  FOLLOW_REQUEST_ACCEPTED = "follow_request_accepted",
   MESSAGE = "message",
   GROUP_INVITE = "group_invite",
   PAGE_INVITE = "page_invite",
   MENTION = "mention",
+  SHARE = "share",
   REACTION = "reaction",
   GROUP_POST = "group_post",
   PAGE_POST = "page_post",
   STORY_VIEW = "story_view",
   MARKETPLACE = "marketplace",
+  SECURITY_ALERT = "security_alert",
+  DATA_EXPORT = "data_export",
 }
 
 export interface Notification {
@@ -0,0 +1,71 @@
+import { UUID } from "crypto";
+
+/**
+ * When voters can see a poll's counts. The post's author always can.
+ */
+export enum PollResultsVisibility {
+  ALWAYS = "always",
+  AFTER_VOTE = "after_vote",
+  AFTER_CLOSE = "after_close",
+}
+
+export interface PostPoll {
+  id: UUID;
+  post_id: UUID;
+  allows_multiple: boolean;
+  is_anonymous: boolean;
+  results_visibility: PollResultsVisibility;
+  closes_at: Date | string | null;
+  voter_count: number;
+  created_at: Date;
+}
+
+export interface PostPollOption {
+  id: UUID;
+  poll_id: UUID;
+  position: number;
+  text: string;
+  vote_count: number;
+}
+
+export interface PostPollCreate {
+  options: string[];
+  allows_multiple?: boolean;
+  is_anonymous?: boolean;
+  results_visibility?: PollResultsVisibility;
+  closes_at?: Date | string | null;
+}
+
+/**
+ * A poll as one viewer sees it. Counts are null while results are hidden
+ * from them.
+ */
+export interface PostPollView {
+  id: UUID;
+  post_id: UUID;
+  allows_multiple: boolean;
+  is_anonymous: boolean;
+  results_visibility: PollResultsVisibility;
+  closes_at: Date | string | null;
+  is_closed: boolean;
+  results_visible: boolean;
+  voter_count: number;
+  options: {
+    id: UUID;
+    text: string;
+    position: number;
+    vote_count: number | null;
+  }[];
+  // Options the viewer voted for; null when they haven't voted
+  user_vote: UUID[] | null;
+}
+
+export interface PostPollVoter {
+  user_id: UUID;
+  username: string;
+  first_name: string;
+  last_name: string;
+  profile_picture?: string;
+  option_ids: UUID[];
+  voted_at: Date;
+}
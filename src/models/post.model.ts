@@ -1,5 +1,7 @@
 import { UUID } from "crypto";
 import { GeoCoordinates } from "./profile.model";
+import { Mention } from "./mention.model";
+import { PostPollCreate, PostPollView } from "./poll.model";
 
 export enum PostFeelingType {
   HAPPY = "happy",
@@ -19,6 +21,19 @@ export enum PostVisibility {
   PRIVATE = "private",
 }
 
+export enum PostShareType {
+  RESHARE = "reshare", // plain repost
+  QUOTE = "quote", // repost with the sharer's own commentary
+}
+
+export enum PostDraftStatus {
+  DRAFT = "draft",
+  SCHEDULED = "scheduled",
+  PUBLISHING = "publishing",
+  PUBLISHED = "published",
+  FAILED = "failed",
+}
+
 export interface PostLocation {
   name: string;
   coordinates: GeoCoordinates;
@@ -37,9 +52,21 @@ export interface Post {
   updated_at: Date;
   location?: PostLocation;
   is_deleted: boolean;
-  view_count: number;
+  // Only returned to the post's author
+  view_count?: number; // unique viewers of the post itself, per day
+  impression_count?: number; // unique viewers who saw it in a feed, per day
   is_ai_generated?: boolean;
   source?: string;
+  is_edited?: boolean;
+  edited_at?: Date | null;
+  mentions?: Mention[];
+  shared_post_id?: UUID | null;
+  share_type?: PostShareType | null;
+  share_count?: number;
+  // The shared post as the viewer may see it; null when it was deleted or
+  // isn't visible to them
+  shared_post?: Post | null;
+  poll?: PostPollView | null;
 }
 
 export interface PostCreate
@@ -51,16 +78,51 @@ export interface PostCreate
     | "is_boosted"
     | "boost_until"
     | "view_count"
+    | "impression_count"
     | "is_deleted"
+    | "is_edited"
+    | "edited_at"
+    | "mentions"
+    | "share_count"
+    | "shared_post"
+    | "poll"
   > {
   is_boosted?: boolean;
   boost_until?: Date;
   is_ai_generated?: boolean;
   source?: string;
+  // Save as a draft or schedule for publish_at instead of publishing now
+  status?: PostDraftStatus.DRAFT | PostDraftStatus.SCHEDULED;
+  publish_at?: Date | string;
+  poll?: PostPollCreate;
 }
 
 export interface PostUpdate
-  extends Partial<Omit<Post, "id" | "user_id" | "created_at" | "updated_at">> {}
+  extends Partial<
+    Omit<
+      Post,
+      | "id"
+      | "user_id"
+      | "created_at"
+      | "updated_at"
+      | "is_edited"
+      | "edited_at"
+      | "mentions"
+      | "shared_post_id"
+      | "share_type"
+      | "share_count"
+      | "shared_post"
+      | "poll"
+    >
+  > {}
+
+/**
+ * A reshare, or a quote when content is given
+ */
+export interface PostShareCreate {
+  content?: string;
+  visibility?: PostVisibility;
+}
 
 export enum MediaType {
   IMAGE = "image",
@@ -78,3 +140,81 @@ export interface PostMedia {
 }
 
 export interface PostMediaCreate extends Omit<PostMedia, "id" | "created_at"> {}
+
+export interface PostRevisionMedia {
+  media_url: string;
+  media_type: MediaType;
+  order: number;
+}
+
+/**
+ * One version of a post's content. Revision 1 is the original.
+ */
+export interface PostRevision {
+  id: UUID;
+  post_id: UUID;
+  revision_number: number;
+  content: string | null;
+  media: PostRevisionMedia[];
+  feeling: PostFeelingType | null;
+  visibility: PostVisibility;
+  edited_by: UUID | null;
+  created_at: Date;
+}
+
+export type PostDraftMedia = Omit<PostMediaCreate, "post_id">;
+
+/**
+ * A post that hasn't been published yet. Scheduled drafts are published by
+ * the scheduled post job at publish_at; post_id is set once published.
+ */
+export interface PostDraft {
+  id: UUID;
+  user_id: UUID;
+  content: string | null;
+  media: PostDraftMedia[];
+  feeling: PostFeelingType | null;
+  visibility: PostVisibility;
+  location: PostLocation | null;
+  status: PostDraftStatus;
+  publish_at: Date | null;
+  post_id: UUID | null;
+  error: string | null;
+  published_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface PostDraftUpdate {
+  content?: string | null;
+  media?: PostDraftMedia[];
+  feeling?: PostFeelingType | null;
+  visibility?: PostVisibility;
+  location?: PostLocation | null;
+  // null turns a scheduled post back into a draft
+  publish_at?: Date | string | null;
+}
+
+/**
+ * Filters for post search. Dates bound created_at as [from, to).
+ */
+export interface PostSearchFilters {
+  authorId?: string;
+  from?: string;
+  to?: string;
+  hasMedia?: boolean;
+  feeling?: PostFeelingType;
+  location?: string;
+  sortBy?: "relevance" | "newest";
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Why a post matched a search. Highlights are ranges in the snippet.
+ */
+export interface PostSearchMatch {
+  rank: number;
+  snippet: string;
+  highlights: { start: number; end: number }[];
+}
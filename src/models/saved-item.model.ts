@@ -33,14 +33,23 @@ export interface SaveCollectionUpdate
     Omit<SaveCollection, "id" | "user_id" | "created_at" | "updated_at">
   > {}
 
+/**
+ * A saved item as listed to its owner. Items whose post was deleted or is
+ * no longer visible to them, or whose listing was removed, stay listed as
+ * unavailable so they can be unsaved.
+ */
+export interface SavedItemSummary {
+  id: UUID;
+  item_id: UUID;
+  item_type: ItemType;
+  collection_id: UUID | null;
+  title: string;
+  thumbnail?: string;
+  is_available: boolean;
+  created_at: Date;
+}
+
 export interface SaveCollectionWithItems extends SaveCollection {
   items_count: number;
-  items: Array<{
-    id: UUID;
-    item_id: UUID;
-    item_type: ItemType;
-    title: string;
-    thumbnail?: string;
-    created_at: Date;
-  }>;
+  items: SavedItemSummary[];
 }
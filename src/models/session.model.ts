@@ -0,0 +1,67 @@
+import { UUID } from "crypto";
+
+export enum SessionRevocationReason {
+  LOGOUT = "logout",
+  LOGOUT_ALL = "logout_all",
+  TOKEN_REUSE = "token_reuse",
+  PASSWORD_RESET = "password_reset",
+  UNRECOGNIZED_LOGIN = "unrecognized_login",
+  ACCOUNT_DEACTIVATED = "account_deactivated",
+}
+
+/**
+ * A refresh token family. Every login creates one session; every refresh
+ * rotates `refresh_token_jti`, so a refresh token carrying an older jti is a
+ * replay and revokes the whole family.
+ */
+export interface UserSession {
+  id: UUID;
+  user_id: UUID;
+  refresh_token_jti: string;
+  device_token?: string | null;
+  device_type?: string | null;
+  ip_address?: string | null;
+  user_agent?: string | null;
+  created_at: Date;
+  last_used_at: Date;
+  expires_at: Date;
+  revoked_at?: Date | null;
+  revoked_reason?: SessionRevocationReason | null;
+}
+
+export interface UserSessionCreate
+  extends Omit<
+    UserSession,
+    "id" | "created_at" | "last_used_at" | "revoked_at" | "revoked_reason"
+  > {}
+
+export interface SessionClientInfo {
+  ipAddress?: string;
+  deviceToken?: string;
+  deviceType?: string;
+  userAgent?: string;
+}
+
+export interface IssuedSessionTokens {
+  sessionId: string;
+  token: string;
+  refreshToken: string;
+  accessTokenExpires: number;
+}
+
+/**
+ * A device the user is signed in on, as shown in session management.
+ * Sessions sharing a device token are listed once.
+ */
+export interface ActiveDevice {
+  sessionId: string;
+  sessionCount: number;
+  deviceType: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  city: string | null;
+  country: string | null;
+  signedInAt: Date;
+  lastActive: Date;
+  isCurrent: boolean;
+}
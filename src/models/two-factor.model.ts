@@ -0,0 +1,36 @@
+import { UUID } from "crypto";
+
+export interface UserTwoFactor {
+  user_id: UUID;
+  secret_encrypted: string; // AES-256-GCM, see TwoFactorService
+  is_enabled: boolean;
+  last_used_counter?: number | null; // rejects replay of an accepted code
+  confirmed_at?: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface TwoFactorRecoveryCode {
+  id: UUID;
+  user_id: UUID;
+  code_hash: string;
+  used_at?: Date | null;
+  created_at: Date;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  pendingEnrollment: boolean;
+  confirmedAt: Date | null;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorChallenge {
+  challengeToken: string;
+  expiresIn: number; // seconds
+}
@@ -0,0 +1,24 @@
+// src/routes/auditLogRoutes.ts
+import { Router } from "express";
+import { AuditLogController } from "../controllers/auditLogController";
+import { authenticate } from "../middlewares/authenticate";
+import { requireRoles } from "../middlewares/adminAuth";
+import { validateAuditLogQuery } from "../middlewares/validators/auditLogValidator";
+import { UserRole } from "../types/models";
+
+const router = Router();
+
+/**
+ * @route GET /api/v1/audit-logs
+ * @desc Browse privileged actions, filterable by actor, action, target and date range
+ * @access Private - Admin only
+ */
+router.get(
+  "/",
+  authenticate,
+  requireRoles([UserRole.ADMIN, UserRole.SUPER_ADMIN]),
+  validateAuditLogQuery,
+  AuditLogController.listEntries
+);
+
+export default router;
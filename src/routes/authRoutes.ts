@@ -1,7 +1,13 @@
 import { Router } from "express";
 import { AuthController } from "../controllers/authController";
+import { TwoFactorController } from "../controllers/twoFactorController";
+import { SessionController } from "../controllers/sessionController";
+import { AccessTokenController } from "../controllers/accessTokenController";
+import { AccountController } from "../controllers/accountController";
 import { authenticate } from "../middlewares/authenticate";
 import { extractClientInfo } from "../middlewares/ipExtractor";
+import { bruteForceProtection } from "../middlewares/bruteForceProtection";
+import { BruteForceScope } from "../services/bruteForceService";
 import {
   validateLogin,
   validateRegister,
@@ -10,6 +16,16 @@ import {
   validateForgotPassword,
   validateResetPassword,
   validateVerifyResetToken,
+  validateTwoFactorCode,
+  validateTwoFactorLogin,
+  validateVerifyEmail,
+  validateLoginAlertRevoke,
+  validateSessionId,
+  validateUnlockAccount,
+  validateCreateAccessToken,
+  validateAccessTokenId,
+  validateAccountDeactivation,
+  validateRestoreAccount,
 } from "../middlewares/validators/authValidators";
 
 const router = Router();
@@ -28,11 +44,39 @@ router.post("/register", validateRegister, AuthController.register);
  * @desc Login a user
  * @access Public
  */
-router.post("/login", validateLogin, AuthController.login);
+router.post(
+  "/login",
+  validateLogin,
+  bruteForceProtection(BruteForceScope.LOGIN),
+  AuthController.login
+);
+
+/**
+ * @route POST /api/v1/auth/unlock-account
+ * @desc Lift a login lockout with the emailed unlock token
+ * @access Public
+ */
+router.post(
+  "/unlock-account",
+  validateUnlockAccount,
+  AuthController.unlockAccount
+);
+
+/**
+ * @route POST /api/v1/auth/2fa/verify-login
+ * @desc Complete a login that requires a two-factor code
+ * @access Public
+ */
+router.post(
+  "/2fa/verify-login",
+  validateTwoFactorLogin,
+  bruteForceProtection(BruteForceScope.TWO_FACTOR),
+  AuthController.verifyTwoFactorLogin
+);
 
 /**
  * @route POST /api/v1/auth/refresh-token
- * @desc Refresh access token
+ * @desc Rotate the refresh token and issue a new access token
  * @access Public
  */
 router.post("/refresh-token", AuthController.refreshToken);
@@ -51,6 +95,134 @@ router.get("/me", authenticate, AuthController.getCurrentUser);
  */
 router.post("/logout", authenticate, AuthController.logout);
 
+/**
+ * @route POST /api/v1/auth/logout-all
+ * @desc Revoke every session of the current user
+ * @access Private
+ */
+router.post("/logout-all", authenticate, AuthController.logoutAll);
+
+/**
+ * @route GET /api/v1/auth/sessions
+ * @desc List devices the current user is signed in on
+ * @access Private
+ */
+router.get("/sessions", authenticate, SessionController.getSessions);
+
+/**
+ * @route DELETE /api/v1/auth/sessions
+ * @desc Sign out all devices except the current one
+ * @access Private
+ */
+router.delete("/sessions", authenticate, SessionController.revokeOtherSessions);
+
+/**
+ * @route DELETE /api/v1/auth/sessions/:sessionId
+ * @desc Sign out a single device
+ * @access Private
+ */
+router.delete(
+  "/sessions/:sessionId",
+  authenticate,
+  validateSessionId,
+  SessionController.revokeSession
+);
+
+/**
+ * @route GET /api/v1/auth/tokens
+ * @desc List personal access tokens
+ * @access Private
+ */
+router.get("/tokens", authenticate, AccessTokenController.listTokens);
+
+/**
+ * @route POST /api/v1/auth/tokens
+ * @desc Create a scoped personal access token for an integration
+ * @access Private
+ */
+router.post(
+  "/tokens",
+  authenticate,
+  validateCreateAccessToken,
+  AccessTokenController.createToken
+);
+
+/**
+ * @route DELETE /api/v1/auth/tokens/:tokenId
+ * @desc Revoke a personal access token
+ * @access Private
+ */
+router.delete(
+  "/tokens/:tokenId",
+  authenticate,
+  validateAccessTokenId,
+  AccessTokenController.revokeToken
+);
+
+/**
+ * @route POST /api/v1/auth/deactivate
+ * @desc Deactivate the current account (hidden until restored)
+ * @access Private
+ */
+router.post(
+  "/deactivate",
+  authenticate,
+  validateAccountDeactivation,
+  AccountController.deactivate
+);
+
+/**
+ * @route POST /api/v1/auth/delete-account
+ * @desc Deactivate the current account and schedule its deletion
+ * @access Private
+ */
+router.post(
+  "/delete-account",
+  authenticate,
+  validateAccountDeactivation,
+  AccountController.requestDeletion
+);
+
+/**
+ * @route POST /api/v1/auth/restore-account
+ * @desc Restore a deactivated account with the token offered at login
+ * @access Public
+ */
+router.post(
+  "/restore-account",
+  validateRestoreAccount,
+  AuthController.restoreAccount
+);
+
+/**
+ * @route POST /api/v1/auth/verify-email
+ * @desc Verify email address with the emailed token
+ * @access Public
+ */
+router.post("/verify-email", validateVerifyEmail, AuthController.verifyEmail);
+
+/**
+ * @route POST /api/v1/auth/resend-verification
+ * @desc Resend the email verification link (throttled)
+ * @access Private
+ */
+router.post(
+  "/resend-verification",
+  authenticate,
+  AuthController.resendVerificationEmail
+);
+
+/**
+ * @route POST /api/v1/auth/login-alerts/revoke
+ * @desc Sign out a device from a login alert ("this wasn't me")
+ * @access Public
+ */
+router.post(
+  "/login-alerts/revoke",
+  validateLoginAlertRevoke,
+  AuthController.revokeUnrecognizedLogin
+);
+
 /**
  * @route POST /api/v1/auth/forgot-password
  * @desc Request password reset
@@ -59,6 +231,7 @@ router.post("/logout", authenticate, AuthController.logout);
 router.post(
   "/forgot-password",
   validateForgotPassword,
+  bruteForceProtection(BruteForceScope.FORGOT_PASSWORD),
   AuthController.forgotPassword
 );
 
@@ -70,6 +243,7 @@ router.post(
 router.post(
   "/reset-password",
   validateResetPassword,
+  bruteForceProtection(BruteForceScope.RESET_PASSWORD),
   AuthController.resetPassword
 );
 
@@ -84,4 +258,54 @@ router.get(
   AuthController.verifyResetToken
 );
 
+/**
+ * @route GET /api/v1/auth/2fa/status
+ * @desc Get two-factor authentication status
+ * @access Private
+ */
+router.get("/2fa/status", authenticate, TwoFactorController.getStatus);
+
+/**
+ * @route POST /api/v1/auth/2fa/setup
+ * @desc Start two-factor enrollment (returns secret and otpauth URI)
+ * @access Private
+ */
+router.post("/2fa/setup", authenticate, TwoFactorController.setup);
+
+/**
+ * @route POST /api/v1/auth/2fa/confirm
+ * @desc Confirm enrollment with a TOTP code and receive recovery codes
+ * @access Private
+ */
+router.post(
+  "/2fa/confirm",
+  authenticate,
+  validateTwoFactorCode,
+  TwoFactorController.confirm
+);
+
+/**
+ * @route POST /api/v1/auth/2fa/disable
+ * @desc Disable two-factor authentication
+ * @access Private
+ */
+router.post(
+  "/2fa/disable",
+  authenticate,
+  validateTwoFactorCode,
+  TwoFactorController.disable
+);
+
+/**
+ * @route POST /api/v1/auth/2fa/recovery-codes
+ * @desc Regenerate recovery codes
+ * @access Private
+ */
+router.post(
+  "/2fa/recovery-codes",
+  authenticate,
+  validateTwoFactorCode,
+  TwoFactorController.regenerateRecoveryCodes
+);
+
 export default router;
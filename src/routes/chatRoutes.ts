@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { ChatController } from "../controllers/chatController";
-import { authenticate } from "../middlewares/authenticate";
+import { authenticate, requireScope } from "../middlewares/authenticate";
+import { AccessTokenScope } from "../models/access-token.model";
 import {
   validateCreateChat,
   validateUpdateChat,
@@ -19,42 +20,68 @@ router.use(authenticate);
  * @desc Create a new chat
  * @access Private
  */
-router.post("/", validateCreateChat, ChatController.createChat);
+router.post(
+  "/",
+  requireScope(AccessTokenScope.MESSAGES_WRITE),
+  validateCreateChat,
+  ChatController.createChat,
+);
 
 /**
  * @route GET /api/v1/chats
  * @desc Get all chats for the current user
  * @access Private
  */
-router.get("/", ChatController.getMyChats);
+router.get(
+  "/",
+  requireScope(AccessTokenScope.MESSAGES_READ),
+  ChatController.getMyChats,
+);
 
 /**
  * @route GET /api/v1/chats/unread-count
  * @desc Get total unread message count
  * @access Private
  */
-router.get("/unread-count", ChatController.getUnreadCount);
+router.get(
+  "/unread-count",
+  requireScope(AccessTokenScope.MESSAGES_READ),
+  ChatController.getUnreadCount,
+);
 
 /**
  * @route GET /api/v1/chats/:chatId
  * @desc Get a specific chat
  * @access Private (chat participants only)
  */
-router.get("/:chatId", ChatController.getChat);
+router.get(
+  "/:chatId",
+  requireScope(AccessTokenScope.MESSAGES_READ),
+  ChatController.getChat,
+);
 
 /**
  * @route PATCH /api/v1/chats/:chatId
  * @desc Update a chat
  * @access Private (chat admin only)
  */
-router.patch("/:chatId", validateUpdateChat, ChatController.updateChat);
+router.patch(
+  "/:chatId",
+  requireScope(AccessTokenScope.MESSAGES_WRITE),
+  validateUpdateChat,
+  ChatController.updateChat,
+);
 
 /**
  * @route DELETE /api/v1/chats/:chatId
  * @desc Delete a chat
  * @access Private (chat admin only)
  */
-router.delete("/:chatId", ChatController.deleteChat);
+router.delete(
+  "/:chatId",
+  requireScope(AccessTokenScope.MESSAGES_WRITE),
+  ChatController.deleteChat,
+);
 
 /**
  * @route POST /api/v1/chats/:chatId/participants
@@ -63,6 +90,7 @@ router.delete("/:chatId", ChatController.deleteChat);
  */
 router.post(
   "/:chatId/participants",
+  requireScope(AccessTokenScope.MESSAGES_WRITE),
   validateAddParticipants,
   ChatPrivacyMiddleware.canAddParticipants,
   ChatController.addParticipants,
@@ -75,6 +103,7 @@ router.post(
  */
 router.delete(
   "/:chatId/participants/:participantId",
+  requireScope(AccessTokenScope.MESSAGES_WRITE),
   ChatController.removeParticipant,
 );
 
@@ -83,15 +112,27 @@ router.delete(
  * @desc Leave a chat
  * @access Private (chat participant only)
  */
-router.delete("/:chatId/leave", ChatController.leaveChat);
+router.delete(
+  "/:chatId/leave",
+  requireScope(AccessTokenScope.MESSAGES_WRITE),
+  ChatController.leaveChat,
+);
 
 /**
  * @route GET /api/v1/chats/:chatId/messages
  * @desc Get all messages in a chat with pagination
  * @access Private (chat participants only)
  */
-router.get("/:chatId/messages", MessageController.getMessages);
+router.get(
+  "/:chatId/messages",
+  requireScope(AccessTokenScope.MESSAGES_READ),
+  MessageController.getMessages,
+);
 
-router.get("/:chatId/participants", ChatController.getChatParticipants);
+router.get(
+  "/:chatId/participants",
+  requireScope(AccessTokenScope.MESSAGES_READ),
+  ChatController.getChatParticipants,
+);
 
 export default router;
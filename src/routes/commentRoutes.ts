@@ -1,7 +1,9 @@
 // src/routes/commentRoutes.ts
 import { Router } from "express";
 import { CommentController } from "../controllers/commentController";
-import { authenticate } from "../middlewares/authenticate";
+import { authenticate, requireScope } from "../middlewares/authenticate";
+import { AccessTokenScope } from "../models/access-token.model";
+import { rateLimit } from "../middlewares/rateLimit";
 import { validateCreateComment } from "../middlewares/validators/commentValidator";
 import { uploadCommentMedia } from "../middlewares/commentMediaUpload";
 
@@ -17,6 +19,8 @@ router.use(authenticate);
  */
 router.post(
   "/:postId/comments",
+  requireScope(AccessTokenScope.POSTS_WRITE),
+  rateLimit("commentCreate"),
   uploadCommentMedia, // Add the upload middleware before validation
   validateCreateComment,
   CommentController.createComment,
@@ -27,13 +31,21 @@ router.post(
  * @desc Get all comments for a post
  * @access Private
  */
-router.get("/:postId/comments", CommentController.getPostComments);
+router.get(
+  "/:postId/comments",
+  requireScope(AccessTokenScope.POSTS_READ),
+  CommentController.getPostComments,
+);
 
 /**
  * @route GET /api/v1/posts/:postId/comments/count
  * @desc Get comment count for a post
  * @access Private
  */
-router.get("/:postId/comments/count", CommentController.getCommentCount);
+router.get(
+  "/:postId/comments/count",
+  requireScope(AccessTokenScope.POSTS_READ),
+  CommentController.getCommentCount,
+);
 
 export default router;
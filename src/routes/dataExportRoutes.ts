@@ -0,0 +1,34 @@
+// src/routes/dataExportRoutes.ts
+import { Router } from "express";
+import { DataExportController } from "../controllers/dataExportController";
+import { authenticate } from "../middlewares/authenticate";
+import { validateDataExportDownload } from "../middlewares/validators/dataExportValidator";
+
+const router = Router();
+
+/**
+ * @route POST /api/v1/data-exports
+ * @desc Request a "download my data" archive
+ * @access Private
+ */
+router.post("/", authenticate, DataExportController.requestExport);
+
+/**
+ * @route GET /api/v1/data-exports
+ * @desc List the current user's data exports
+ * @access Private
+ */
+router.get("/", authenticate, DataExportController.listExports);
+
+/**
+ * @route GET /api/v1/data-exports/:exportId/download
+ * @desc Download a finished archive (authorized by the signed link token)
+ * @access Public
+ */
+router.get(
+  "/:exportId/download",
+  validateDataExportDownload,
+  DataExportController.downloadExport
+);
+
+export default router;
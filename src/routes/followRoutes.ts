@@ -0,0 +1,108 @@
+// src/routes/followRoutes.ts
+import { Router } from "express";
+import { FollowController } from "../controllers/followController";
+import { authenticate } from "../middlewares/authenticate";
+import { rateLimit } from "../middlewares/rateLimit";
+import {
+  validateFollowList,
+  validateFollowRequestsQuery,
+  validateFollowUserId,
+} from "../middlewares/validators/followValidator";
+
+const router = Router();
+
+router.use(authenticate);
+
+/**
+ * @route GET /api/v1/follows/requests
+ * @desc List pending requests to follow the current user
+ * @access Private
+ */
+router.get(
+  "/requests",
+  validateFollowRequestsQuery,
+  FollowController.getFollowRequests
+);
+
+/**
+ * @route POST /api/v1/follows/requests/:userId/accept
+ * @desc Accept a user's request to follow the current user
+ * @access Private
+ */
+router.post(
+  "/requests/:userId/accept",
+  validateFollowUserId,
+  FollowController.acceptFollowRequest
+);
+
+/**
+ * @route DELETE /api/v1/follows/requests/:userId
+ * @desc Decline a user's request to follow the current user
+ * @access Private
+ */
+router.delete(
+  "/requests/:userId",
+  validateFollowUserId,
+  FollowController.rejectFollowRequest
+);
+
+/**
+ * @route DELETE /api/v1/follows/followers/:userId
+ * @desc Remove a user from the current user's followers
+ * @access Private
+ */
+router.delete(
+  "/followers/:userId",
+  validateFollowUserId,
+  FollowController.removeFollower
+);
+
+/**
+ * @route GET /api/v1/follows/:userId
+ * @desc Get a user's follower counts and whether the current user follows them
+ * @access Private
+ */
+router.get("/:userId", validateFollowUserId, FollowController.getFollowStatus);
+
+/**
+ * @route GET /api/v1/follows/:userId/followers
+ * @desc List a user's followers
+ * @access Private
+ */
+router.get(
+  "/:userId/followers",
+  validateFollowList,
+  FollowController.getFollowers
+);
+
+/**
+ * @route GET /api/v1/follows/:userId/following
+ * @desc List the users someone follows
+ * @access Private
+ */
+router.get(
+  "/:userId/following",
+  validateFollowList,
+  FollowController.getFollowing
+);
+
+/**
+ * @route POST /api/v1/follows/:userId
+ * @desc Follow a user; users whose profile isn't public approve the request
+ * @access Private
+ */
+router.post(
+  "/:userId",
+  rateLimit("follow"),
+  validateFollowUserId,
+  FollowController.follow
+);
+
+/**
+ * @route DELETE /api/v1/follows/:userId
+ * @desc Unfollow a user or withdraw a follow request
+ * @access Private
+ */
+router.delete("/:userId", validateFollowUserId, FollowController.unfollow);
+
+export default router;
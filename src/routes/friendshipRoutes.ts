@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { FriendshipController } from "../controllers/friendshipController";
 import { authenticate } from "../middlewares/authenticate";
+import { rateLimit } from "../middlewares/rateLimit";
 import {
   validateFriendRequest,
   validateFriendshipStatus,
@@ -19,7 +20,12 @@ router.use(authenticate);
  * @desc Send a friend request
  * @access Private
  */
-router.post("/", validateFriendRequest, FriendshipController.sendFriendRequest);
+router.post(
+  "/",
+  rateLimit("friendRequest"),
+  validateFriendRequest,
+  FriendshipController.sendFriendRequest,
+);
 
 /**
  * @route GET /api/v1/friendships
@@ -1,8 +1,13 @@
-import { authenticate } from "./../middlewares/authenticate";
+import {
+  authenticate,
+  requireScope,
+  requireVerifiedEmail,
+} from "./../middlewares/authenticate";
 import { Router } from "express";
 import { validateCreateListing } from "../middlewares/validators/marketplaceValidator";
 import * as marketplaceController from "../controllers/marketplaceController";
 import { checkActiveSubscription } from "../middlewares/checkActiveSubscription";
+import { AccessTokenScope } from "../models/access-token.model";
 
 const router = Router();
 
@@ -19,6 +24,8 @@ router.get("/", marketplaceController.listListings);
 router.post(
   "/",
   authenticate,
+  requireScope(AccessTokenScope.MARKETPLACE_WRITE),
+  requireVerifiedEmail,
   validateCreateListing,
   checkActiveSubscription,
   marketplaceController.createListing,
@@ -31,6 +38,7 @@ router.post(
 router.get(
   "/mine",
   authenticate,
+  requireScope(AccessTokenScope.MARKETPLACE_READ),
   checkActiveSubscription,
   marketplaceController.getMyListings,
 );
@@ -39,7 +47,12 @@ router.get(
  * @route GET /api/marketplace/categories
  * @desc Get all categories
  */
-router.get("/categories", authenticate, marketplaceController.getCategories);
+router.get(
+  "/categories",
+  authenticate,
+  requireScope(AccessTokenScope.MARKETPLACE_READ),
+  marketplaceController.getCategories,
+);
 
 /**
  * @route GET /api/marketplace/:id
@@ -54,6 +67,7 @@ router.get("/:id", marketplaceController.getListingById);
 router.put(
   "/:id",
   authenticate,
+  requireScope(AccessTokenScope.MARKETPLACE_WRITE),
   validateCreateListing,
   marketplaceController.updateListing,
 );
@@ -62,6 +76,11 @@ router.put(
  * @route DELETE /api/marketplace/:id
  * @desc Delete a marketplace listing
  */
-router.delete("/:id", authenticate, marketplaceController.deleteListing);
+router.delete(
+  "/:id",
+  authenticate,
+  requireScope(AccessTokenScope.MARKETPLACE_WRITE),
+  marketplaceController.deleteListing,
+);
 
 export default router;
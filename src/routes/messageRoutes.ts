@@ -1,7 +1,8 @@
 // src/routes/messageRoutes.ts
 import { Router } from "express";
 import { MessageController } from "../controllers/messageController";
-import { authenticate } from "../middlewares/authenticate";
+import { authenticate, requireScope } from "../middlewares/authenticate";
+import { AccessTokenScope } from "../models/access-token.model";
 import { MessagePrivacyMiddleware } from "../middlewares/messagePrivacyMiddleware";
 import {
   validateCreateMessage,
@@ -20,6 +21,7 @@ router.use(authenticate);
  */
 router.post(
   "/",
+  requireScope(AccessTokenScope.MESSAGES_WRITE),
   validateCreateMessage,
   MessagePrivacyMiddleware.canSendMessage,
   MessagePrivacyMiddleware.applyRetentionPolicy,
@@ -33,6 +35,7 @@ router.post(
  */
 router.post(
   "/:messageId/read",
+  requireScope(AccessTokenScope.MESSAGES_WRITE),
   MessagePrivacyMiddleware.checkReadReceiptPermission,
   MessageController.markMessageAsRead,
 );
@@ -42,7 +45,11 @@ router.post(
  * @desc Delete a message
  * @access Private (message sender only)
  */
-router.delete("/:messageId", MessageController.deleteMessage);
+router.delete(
+  "/:messageId",
+  requireScope(AccessTokenScope.MESSAGES_WRITE),
+  MessageController.deleteMessage,
+);
 
 /**
  * @route POST /api/v1/messages/:messageId/forward
@@ -51,6 +58,7 @@ router.delete("/:messageId", MessageController.deleteMessage);
  */
 router.post(
   "/:messageId/forward",
+  requireScope(AccessTokenScope.MESSAGES_WRITE),
   validateForwardMessage,
   MessagePrivacyMiddleware.canForwardMessage,
   MessagePrivacyMiddleware.applyRetentionPolicy, // Apply retention policy for the forwarded message
@@ -66,6 +74,10 @@ router.post(
  * @desc Get all messages in a chat with pagination
  * @access Private (chat participants only)
  */
-router.get("/chats/:chatId/messages", MessageController.getMessages);
+router.get(
+  "/chats/:chatId/messages",
+  requireScope(AccessTokenScope.MESSAGES_READ),
+  MessageController.getMessages,
+);
 
 export default router;
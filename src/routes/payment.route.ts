@@ -4,7 +4,11 @@ import {
   createPostBoostCheckout,
   handleStripeWebhookController,
 } from "../controllers/payment.controller";
-import { authenticate } from "../middlewares/authenticate";
+import {
+  authenticate,
+  requireVerifiedEmail,
+} from "../middlewares/authenticate";
+import { rateLimit } from "../middlewares/rateLimit";
 
 const router = Router();
 
@@ -26,13 +30,24 @@ router.use(express.json());
  * @desc    Create a checkout session for a subscription
  * @access  Private
  */
-router.post("/checkout/subscription", authenticate, createSubscriptionCheckout);
+router.post(
+  "/checkout/subscription",
+  authenticate,
+  rateLimit("checkout"),
+  createSubscriptionCheckout,
+);
 
 /**
  * @route   POST /api/payments/checkout/post-boost
  * @desc    Create a checkout session for a post boost
  * @access  Private
  */
-router.post("/checkout/post-boost", authenticate, createPostBoostCheckout);
+router.post(
+  "/checkout/post-boost",
+  authenticate,
+  requireVerifiedEmail,
+  rateLimit("checkout"),
+  createPostBoostCheckout,
+);
 
 export default router;
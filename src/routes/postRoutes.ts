@@ -1,13 +1,38 @@
 // src/routes/postRoutes.ts
 import { Router } from "express";
 import { PostController } from "../controllers/postController";
-import { authenticate } from "../middlewares/authenticate";
+import { PostDraftController } from "../controllers/postDraftController";
+import { HashtagController } from "../controllers/hashtagController";
+import { PollController } from "../controllers/pollController";
+import { FeedFeedbackController } from "../controllers/feedFeedbackController";
+import {
+  authenticate,
+  requireScope,
+  requireSession,
+  requireVerifiedEmail,
+} from "../middlewares/authenticate";
 import { canAccessPost } from "../middlewares/postAuthorization";
+import { rateLimit } from "../middlewares/rateLimit";
 import {
   validateCreatePost,
+  validateDraftId,
+  validateDraftQuery,
+  validateFeedFeedbackId,
+  validateFeedFeedbackQuery,
+  validateFeedNewCount,
+  validateFeedQuery,
+  validateHashtagPosts,
+  validateNotInterested,
+  validatePollVote,
+  validatePollVoters,
+  validatePostId,
+  validateSharePost,
+  validateTrendingHashtags,
+  validateUpdateDraft,
   validateUpdatePost,
 } from "../middlewares/validators/postValidator";
 import { UserRole } from "../types/models";
+import { AccessTokenScope } from "../models/access-token.model";
 import { canAccessProfile } from "../middlewares/canAccess";
 import { ReactionController } from "../controllers/reactionController";
 import { validateReaction } from "../middlewares/validators/reactionValidator";
@@ -20,31 +45,158 @@ router.use(authenticate);
 
 /**
  * @route GET /api/v1/posts/feed
- * @desc Get posts for the current user's feed
+ * @desc Get the current user's ranked feed by page, or by cursor with mode=cursor (admins may pass debug=true)
+ * @access Private
+ */
+router.get(
+  "/feed",
+  requireScope(AccessTokenScope.POSTS_READ),
+  validateFeedQuery,
+  PostController.getFeed,
+);
+
+/**
+ * @route GET /api/v1/posts/feed/new-count
+ * @desc Count posts that arrived since the feed behind a cursor was loaded
+ * @access Private
+ */
+router.get(
+  "/feed/new-count",
+  requireScope(AccessTokenScope.POSTS_READ),
+  validateFeedNewCount,
+  PostController.getNewFeedPostsCount,
+);
+
+/**
+ * @route GET /api/v1/posts/feed/feedback
+ * @desc List hidden posts, snoozed authors and topics the user isn't interested in
+ * @access Private
+ */
+router.get(
+  "/feed/feedback",
+  requireScope(AccessTokenScope.POSTS_READ),
+  validateFeedFeedbackQuery,
+  FeedFeedbackController.getFeedback,
+);
+
+/**
+ * @route DELETE /api/v1/posts/feed/feedback/:feedbackId
+ * @desc Undo feed feedback (unhide, unsnooze, show a topic again)
  * @access Private
  */
-router.get("/feed", PostController.getFeed);
+router.delete(
+  "/feed/feedback/:feedbackId",
+  requireScope(AccessTokenScope.POSTS_WRITE),
+  validateFeedFeedbackId,
+  FeedFeedbackController.removeFeedback,
+);
 
 /**
  * @route GET /api/v1/posts/my
  * @desc Get posts for the authenticated user
  * @access Private
  */
-router.get("/my", PostController.getMyPosts);
+router.get(
+  "/my",
+  requireScope(AccessTokenScope.POSTS_READ),
+  PostController.getMyPosts,
+);
+
+/**
+ * @route GET /api/v1/posts/drafts
+ * @desc List the current user's drafts and scheduled posts
+ * @access Private
+ */
+router.get(
+  "/drafts",
+  requireScope(AccessTokenScope.POSTS_READ),
+  validateDraftQuery,
+  PostDraftController.listDrafts,
+);
+
+/**
+ * @route GET /api/v1/posts/drafts/:id
+ * @desc Get one of the current user's drafts or scheduled posts
+ * @access Private (draft owner only)
+ */
+router.get(
+  "/drafts/:id",
+  requireScope(AccessTokenScope.POSTS_READ),
+  validateDraftId,
+  PostDraftController.getDraft,
+);
+
+/**
+ * @route PATCH /api/v1/posts/drafts/:id
+ * @desc Edit a draft; setting publish_at schedules it, null unschedules it
+ * @access Private (draft owner only)
+ */
+router.patch(
+  "/drafts/:id",
+  requireScope(AccessTokenScope.POSTS_WRITE),
+  validateUpdateDraft,
+  PostDraftController.updateDraft,
+);
+
+/**
+ * @route DELETE /api/v1/posts/drafts/:id
+ * @desc Discard a draft or cancel a scheduled post
+ * @access Private (draft owner only)
+ */
+router.delete(
+  "/drafts/:id",
+  requireScope(AccessTokenScope.POSTS_WRITE),
+  validateDraftId,
+  PostDraftController.cancelDraft,
+);
+
+/**
+ * @route GET /api/v1/posts/hashtags
+ * @desc List trending hashtags over the last hours, split by country
+ * @access Private
+ */
+router.get(
+  "/hashtags",
+  requireScope(AccessTokenScope.POSTS_READ),
+  validateTrendingHashtags,
+  HashtagController.getTrending,
+);
+
+/**
+ * @route GET /api/v1/posts/hashtags/:tag
+ * @desc Get visible posts tagged with a hashtag
+ * @access Private and Public (depending on post visibility)
+ */
+router.get(
+  "/hashtags/:tag",
+  requireScope(AccessTokenScope.POSTS_READ),
+  validateHashtagPosts,
+  HashtagController.getHashtagPosts,
+);
 
 /**
  * @route GET /api/v1/posts/user/:userId
  * @desc Get posts for a specific user
  * @access Private and Public (depending on post visibility)
  */
-router.get("/user/:userId", PostController.getUserPosts);
+router.get(
+  "/user/:userId",
+  requireScope(AccessTokenScope.POSTS_READ),
+  PostController.getUserPosts,
+);
 
 /**
  * @route POST /api/v1/posts
- * @desc Create a new post
+ * @desc Create a new post, or save it as a draft or scheduled post
  * @access Private
  */
-router.post("/", validateCreatePost, PostController.createPost);
+router.post(
+  "/",
+  requireScope(AccessTokenScope.POSTS_WRITE),
+  rateLimit("postCreate"),
+  validateCreatePost,
+  PostController.createPost,
+);
 
 /**
  * @route GET /api/v1/posts/all
@@ -54,24 +206,130 @@ router.post("/", validateCreatePost, PostController.createPost);
 router.get(
   "/all",
   authenticate,
+  requireSession,
   canAccessProfile(false, [UserRole.ADMIN, UserRole.MODERATOR]),
   PostController.getAllPosts,
 );
 
 // Boost routes - MUST be defined before /:id route to avoid conflicts
-router.post("/:postId/boosts", PostController.createPostBoost);
-router.get("/boosts", PostController.getAllBoostedPosts);
-router.get("/boosts/my", PostController.getUserBoosts);
-router.get("/:postId/boosts/status", PostController.getPostBoostStatus);
-router.patch("/boosts/:boostId/status", PostController.updateBoostStatus);
-router.patch("/boosts/:boostId/activate", PostController.activateBoost);
+router.post(
+  "/:postId/boosts",
+  requireSession,
+  requireVerifiedEmail,
+  PostController.createPostBoost,
+);
+router.get("/boosts", requireSession, PostController.getAllBoostedPosts);
+router.get("/boosts/my", requireSession, PostController.getUserBoosts);
+router.get(
+  "/:postId/boosts/status",
+  requireSession,
+  PostController.getPostBoostStatus,
+);
+router.patch(
+  "/boosts/:boostId/status",
+  requireSession,
+  PostController.updateBoostStatus,
+);
+router.patch(
+  "/boosts/:boostId/activate",
+  requireSession,
+  PostController.activateBoost,
+);
 
 /**
  * @route GET /api/v1/posts/:id
  * @desc Get a post by ID
  * @access Private and Public (depending on post visibility)
  */
-router.get("/:id", PostController.getPost);
+router.get(
+  "/:id",
+  requireScope(AccessTokenScope.POSTS_READ),
+  PostController.getPost,
+);
+
+/**
+ * @route POST /api/v1/posts/:id/share
+ * @desc Reshare a post, or quote it with content
+ * @access Private (anyone who can see the post)
+ */
+router.post(
+  "/:id/share",
+  requireScope(AccessTokenScope.POSTS_WRITE),
+  rateLimit("postCreate"),
+  validateSharePost,
+  PostController.sharePost,
+);
+
+/**
+ * @route POST /api/v1/posts/:id/hide
+ * @desc Hide a post from the user's feed
+ * @access Private (anyone who can see the post)
+ */
+router.post(
+  "/:id/hide",
+  requireScope(AccessTokenScope.POSTS_WRITE),
+  validatePostId,
+  FeedFeedbackController.hidePost,
+);
+
+/**
+ * @route POST /api/v1/posts/:id/snooze-author
+ * @desc Keep the post's author out of the user's feed for 30 days
+ * @access Private (anyone who can see the post)
+ */
+router.post(
+  "/:id/snooze-author",
+  requireScope(AccessTokenScope.POSTS_WRITE),
+  validatePostId,
+  FeedFeedbackController.snoozeAuthor,
+);
+
+/**
+ * @route POST /api/v1/posts/:id/not-interested
+ * @desc Hide the post and see less of its topic or source
+ * @access Private (anyone who can see the post)
+ */
+router.post(
+  "/:id/not-interested",
+  requireScope(AccessTokenScope.POSTS_WRITE),
+  validateNotInterested,
+  FeedFeedbackController.markNotInterested,
+);
+
+/**
+ * @route POST /api/v1/posts/:id/poll/votes
+ * @desc Vote in a post's poll
+ * @access Private (anyone who can see the post)
+ */
+router.post(
+  "/:id/poll/votes",
+  requireScope(AccessTokenScope.POSTS_WRITE),
+  validatePollVote,
+  PollController.vote,
+);
+
+/**
+ * @route GET /api/v1/posts/:id/poll/votes
+ * @desc List who voted in a post's poll, unless voting is anonymous
+ * @access Private (anyone who can see the post and its results)
+ */
+router.get(
+  "/:id/poll/votes",
+  requireScope(AccessTokenScope.POSTS_READ),
+  validatePollVoters,
+  PollController.getVoters,
+);
+
+/**
+ * @route GET /api/v1/posts/:id/revisions
+ * @desc Get a post's edit history, newest first
+ * @access Private and Public (depending on post visibility)
+ */
+router.get(
+  "/:id/revisions",
+  requireScope(AccessTokenScope.POSTS_READ),
+  PostController.getPostRevisions,
+);
 
 /**
  * @route PUT /api/v1/posts/:id
@@ -80,6 +338,7 @@ router.get("/:id", PostController.getPost);
  */
 router.put(
   "/:id",
+  requireScope(AccessTokenScope.POSTS_WRITE),
   canAccessPost(true, [UserRole.ADMIN]),
   uploadPostMedia, // Add media upload for post updates too
   validateUpdatePost,
@@ -93,6 +352,7 @@ router.put(
  */
 router.delete(
   "/:id",
+  requireScope(AccessTokenScope.POSTS_WRITE),
   canAccessPost(true, [UserRole.ADMIN, UserRole.MODERATOR]),
   PostController.deletePost,
 );
@@ -102,22 +362,40 @@ router.delete(
  */
 router.post(
   "/:postId/reactions",
+  requireScope(AccessTokenScope.POSTS_WRITE),
   validateReaction,
   ReactionController.addReaction,
 );
 
-router.get("/:postId/reactions", ReactionController.getReactions);
+router.get(
+  "/:postId/reactions",
+  requireScope(AccessTokenScope.POSTS_READ),
+  ReactionController.getReactions,
+);
 
-router.get("/:postId/reactions/summary", ReactionController.getReactionSummary);
+router.get(
+  "/:postId/reactions/summary",
+  requireScope(AccessTokenScope.POSTS_READ),
+  ReactionController.getReactionSummary,
+);
 
-router.get("/:postId/reactions/status", ReactionController.getReactionStatus);
+router.get(
+  "/:postId/reactions/status",
+  requireScope(AccessTokenScope.POSTS_READ),
+  ReactionController.getReactionStatus,
+);
 
 router.patch(
   "/:postId/reactions",
+  requireScope(AccessTokenScope.POSTS_WRITE),
   validateReaction,
   ReactionController.updateReaction,
 );
 
-router.delete("/:postId/reactions", ReactionController.deleteReaction);
+router.delete(
+  "/:postId/reactions",
+  requireScope(AccessTokenScope.POSTS_WRITE),
+  ReactionController.deleteReaction,
+);
 
 export default router;
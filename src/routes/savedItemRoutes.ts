@@ -0,0 +1,128 @@
+// src/routes/savedItemRoutes.ts
+import { Router } from "express";
+import { SavedItemController } from "../controllers/savedItemController";
+import { authenticate, requireScope } from "../middlewares/authenticate";
+import { AccessTokenScope } from "../models/access-token.model";
+import {
+  validateCollectionId,
+  validateCreateCollection,
+  validateGetCollection,
+  validateMoveSavedItems,
+  validateSavedItemsQuery,
+  validateSaveItem,
+  validateUnsaveItem,
+  validateUpdateCollection,
+} from "../middlewares/validators/savedItemValidator";
+
+const router = Router();
+
+router.use(authenticate);
+
+/**
+ * @route GET /api/v1/saved-items
+ * @desc List saved items, optionally by type or collection ("none" for unfiled)
+ * @access Private
+ */
+router.get(
+  "/",
+  requireScope(AccessTokenScope.POSTS_READ),
+  validateSavedItemsQuery,
+  SavedItemController.getSavedItems
+);
+
+/**
+ * @route POST /api/v1/saved-items
+ * @desc Save a post or marketplace listing
+ * @access Private
+ */
+router.post(
+  "/",
+  requireScope(AccessTokenScope.POSTS_WRITE),
+  validateSaveItem,
+  SavedItemController.saveItem
+);
+
+/**
+ * @route PATCH /api/v1/saved-items/move
+ * @desc Move saved items into a collection, or out of any
+ * @access Private
+ */
+router.patch(
+  "/move",
+  requireScope(AccessTokenScope.POSTS_WRITE),
+  validateMoveSavedItems,
+  SavedItemController.moveItems
+);
+
+/**
+ * @route GET /api/v1/saved-items/collections
+ * @desc List collections with their item counts
+ * @access Private
+ */
+router.get(
+  "/collections",
+  requireScope(AccessTokenScope.POSTS_READ),
+  SavedItemController.getCollections
+);
+
+/**
+ * @route POST /api/v1/saved-items/collections
+ * @desc Create a collection
+ * @access Private
+ */
+router.post(
+  "/collections",
+  requireScope(AccessTokenScope.POSTS_WRITE),
+  validateCreateCollection,
+  SavedItemController.createCollection
+);
+
+/**
+ * @route GET /api/v1/saved-items/collections/:collectionId
+ * @desc Get a collection with its items, including titles and thumbnails
+ * @access Private
+ */
+router.get(
+  "/collections/:collectionId",
+  requireScope(AccessTokenScope.POSTS_READ),
+  validateGetCollection,
+  SavedItemController.getCollection
+);
+
+/**
+ * @route PATCH /api/v1/saved-items/collections/:collectionId
+ * @desc Rename a collection or change its description
+ * @access Private
+ */
+router.patch(
+  "/collections/:collectionId",
+  requireScope(AccessTokenScope.POSTS_WRITE),
+  validateUpdateCollection,
+  SavedItemController.updateCollection
+);
+
+/**
+ * @route DELETE /api/v1/saved-items/collections/:collectionId
+ * @desc Delete a collection; its items stay saved
+ * @access Private
+ */
+router.delete(
+  "/collections/:collectionId",
+  requireScope(AccessTokenScope.POSTS_WRITE),
+  validateCollectionId,
+  SavedItemController.deleteCollection
+);
+
+/**
+ * @route DELETE /api/v1/saved-items/:itemType/:itemId
+ * @desc Unsave a post or marketplace listing
+ * @access Private
+ */
+router.delete(
+  "/:itemType/:itemId",
+  requireScope(AccessTokenScope.POSTS_WRITE),
+  validateUnsaveItem,
+  SavedItemController.unsaveItem
+);
+
+export default router;
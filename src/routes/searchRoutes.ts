@@ -1,9 +1,13 @@
 // src/routes/searchRoutes.ts
 import { Router } from "express";
 import { SearchController } from "../controllers/searchController";
+import { rateLimit } from "../middlewares/rateLimit";
+import { authenticate, requireScope } from "../middlewares/authenticate";
+import { AccessTokenScope } from "../models/access-token.model";
 import {
   validateBasicSearch,
   validateAdvancedSearch,
+  validatePostSearch,
 } from "../middlewares/validators/searchValidator";
 
 const router = Router();
@@ -13,7 +17,12 @@ const router = Router();
  * @desc Search users by text query
  * @access Public
  */
-router.get("/users", validateBasicSearch, SearchController.searchUsers);
+router.get(
+  "/users",
+  rateLimit("search"),
+  validateBasicSearch,
+  SearchController.searchUsers,
+);
 
 /**
  * @route POST /api/v1/search/users/advanced
@@ -22,10 +31,25 @@ router.get("/users", validateBasicSearch, SearchController.searchUsers);
  */
 router.post(
   "/users/advanced",
+  rateLimit("search"),
   validateAdvancedSearch,
   SearchController.advancedUserSearch,
 );
 
+/**
+ * @route GET /api/v1/search/posts
+ * @desc Full-text search over posts the user may see, with filters
+ * @access Private
+ */
+router.get(
+  "/posts",
+  authenticate,
+  requireScope(AccessTokenScope.POSTS_READ),
+  rateLimit("search"),
+  validatePostSearch,
+  SearchController.searchPosts,
+);
+
 // /**
 //  * @route GET /api/v1/search/users/nearby
 //  * @desc Search for users near the authenticated user
@@ -1,7 +1,8 @@
 // src/routes/standaloneCommentRoutes.ts
 import { Router } from "express";
 import { CommentController } from "../controllers/commentController";
-import { authenticate } from "../middlewares/authenticate";
+import { authenticate, requireScope } from "../middlewares/authenticate";
+import { AccessTokenScope } from "../models/access-token.model";
 import { validateUpdateComment } from "../middlewares/validators/commentValidator";
 import { isCommentOwner } from "../utils/authCheckers";
 import { UserRole } from "../types/models";
@@ -19,7 +20,11 @@ router.use(authenticate);
  * @desc Get replies for a specific comment
  * @access Private
  */
-router.get("/:commentId/replies", CommentController.getCommentReplies);
+router.get(
+  "/:commentId/replies",
+  requireScope(AccessTokenScope.POSTS_READ),
+  CommentController.getCommentReplies,
+);
 
 // Update the update comment route
 /**
@@ -29,6 +34,7 @@ router.get("/:commentId/replies", CommentController.getCommentReplies);
  */
 router.patch(
   "/:commentId",
+  requireScope(AccessTokenScope.POSTS_WRITE),
   canAccessResource("commentId", isCommentOwner, true, []), // Only allow comment owner
   uploadCommentMedia, // Add the upload middleware
   validateUpdateComment,
@@ -41,6 +47,7 @@ router.patch(
  */
 router.delete(
   "/:commentId",
+  requireScope(AccessTokenScope.POSTS_WRITE),
   canAccessResource("commentId", isCommentOwner, true, [
     UserRole.ADMIN,
     UserRole.MODERATOR,
@@ -0,0 +1,17 @@
+-- User-initiated account deactivation and scheduled deletion
+-- users.is_active stays the switch every request checks; this table records
+-- that the user (not an admin) turned it off, and when the account should be
+-- deleted if it isn't restored.
+
+CREATE TABLE IF NOT EXISTS account_deactivations (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  reason TEXT,
+  deactivated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  deletion_scheduled_for TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_deactivations_deletion
+  ON account_deactivations(deletion_scheduled_for)
+  WHERE deletion_scheduled_for IS NOT NULL;
+
+COMMENT ON TABLE account_deactivations IS 'Self-deactivated accounts; rows with deletion_scheduled_for are deleted by the account deletion job';
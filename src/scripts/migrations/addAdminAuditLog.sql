@@ -0,0 +1,51 @@
+-- Append-only audit trail of actions taken through admin-guarded routes
+-- actor_id deliberately has no foreign key: entries must outlive deleted accounts.
+
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id UUID NOT NULL,
+  actor_role VARCHAR(20) NOT NULL,
+  action VARCHAR(100) NOT NULL,
+  target_type VARCHAR(50),
+  target_id TEXT,
+  method VARCHAR(10) NOT NULL,
+  path TEXT NOT NULL,
+  status_code SMALLINT NOT NULL,
+  before JSONB,
+  after JSONB,
+  ip_address VARCHAR(45),
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created
+  ON admin_audit_log(created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_actor
+  ON admin_audit_log(actor_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_target
+  ON admin_audit_log(target_type, target_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_action
+  ON admin_audit_log(action, created_at DESC);
+
+-- Reject edits and deletions, including from the service role
+CREATE OR REPLACE FUNCTION prevent_admin_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'admin_audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS admin_audit_log_append_only ON admin_audit_log;
+CREATE TRIGGER admin_audit_log_append_only
+  BEFORE UPDATE OR DELETE ON admin_audit_log
+  FOR EACH ROW EXECUTE FUNCTION prevent_admin_audit_log_changes();
+
+DROP TRIGGER IF EXISTS admin_audit_log_no_truncate ON admin_audit_log;
+CREATE TRIGGER admin_audit_log_no_truncate
+  BEFORE TRUNCATE ON admin_audit_log
+  FOR EACH STATEMENT EXECUTE FUNCTION prevent_admin_audit_log_changes();
+
+COMMENT ON TABLE admin_audit_log IS 'Append-only record of privileged actions; written by the API, never updated';
@@ -0,0 +1,25 @@
+-- "Download my data" export requests
+-- The archive itself lives on the API server's disk (DATA_EXPORT_DIR);
+-- file_path is only used by the server and is removed once the export expires.
+
+CREATE TABLE IF NOT EXISTS data_exports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'ready', 'failed', 'expired')),
+  file_path TEXT,
+  file_size BIGINT,
+  error TEXT,
+  requested_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_data_exports_user
+  ON data_exports(user_id, requested_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_data_exports_status
+  ON data_exports(status, requested_at);
+
+COMMENT ON TABLE data_exports IS 'User data export requests; archives are built by the data export job';
@@ -0,0 +1,19 @@
+-- Negative feedback on the home feed: hidden posts, snoozed authors, and
+-- topics (hashtags) or sources a user isn't interested in. The feed leaves
+-- out what these rule out, and ranks authors of hidden posts lower.
+
+CREATE TABLE IF NOT EXISTS feed_feedback (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  kind VARCHAR(20) NOT NULL
+    CHECK (kind IN ('hidden_post', 'snoozed_author', 'topic', 'source')),
+  target TEXT NOT NULL,
+  post_id UUID REFERENCES posts(id) ON DELETE SET NULL,
+  author_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, kind, target)
+);
+
+CREATE INDEX IF NOT EXISTS idx_feed_feedback_user
+  ON feed_feedback(user_id, created_at DESC);
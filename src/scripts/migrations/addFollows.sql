@@ -0,0 +1,31 @@
+-- One-way follows alongside the symmetric friendships graph. Following a
+-- public profile takes effect at once; following anyone else is a request
+-- they approve. Friends follow each other while they are friends.
+
+CREATE TABLE IF NOT EXISTS follows (
+  follower_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  followee_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'accepted'
+    CHECK (status IN ('pending', 'accepted')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (follower_id, followee_id),
+  CHECK (follower_id <> followee_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_follows_followee
+  ON follows(followee_id, status, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_follows_follower
+  ON follows(follower_id, status, created_at DESC);
+
+-- Existing friends start out following each other
+INSERT INTO follows (follower_id, followee_id, status)
+SELECT requester_id, addressee_id, 'accepted'
+FROM friendships
+WHERE status = 'accepted'
+UNION
+SELECT addressee_id, requester_id, 'accepted'
+FROM friendships
+WHERE status = 'accepted'
+ON CONFLICT (follower_id, followee_id) DO NOTHING;
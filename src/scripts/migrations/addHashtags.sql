@@ -0,0 +1,114 @@
+-- Hashtags parsed from post and comment content, and the trending tags query.
+-- Tags are stored normalized (see src/utils/hashtags.ts). Link rows carry the
+-- post or comment creation time so trending windows need no join to find it.
+
+CREATE TABLE IF NOT EXISTS hashtags (
+  tag TEXT PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS post_hashtags (
+  post_id UUID NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  tag TEXT NOT NULL REFERENCES hashtags(tag) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (post_id, tag)
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_hashtags_tag
+  ON post_hashtags(tag, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_post_hashtags_created
+  ON post_hashtags(created_at);
+
+CREATE TABLE IF NOT EXISTS comment_hashtags (
+  comment_id UUID NOT NULL REFERENCES comments(id) ON DELETE CASCADE,
+  tag TEXT NOT NULL REFERENCES hashtags(tag) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (comment_id, tag)
+);
+
+CREATE INDEX IF NOT EXISTS idx_comment_hashtags_created
+  ON comment_hashtags(created_at);
+
+-- Most used tags in [p_since, p_until) on public content, ranked by distinct
+-- authors so one account can't trend a tag alone. A use counts towards the
+-- author's current country, or the post's boost country when the author has
+-- no location. p_country restricts the ranking to one country.
+CREATE OR REPLACE FUNCTION trending_hashtags(
+  p_since TIMESTAMPTZ,
+  p_until TIMESTAMPTZ DEFAULT NOW(),
+  p_country TEXT DEFAULT NULL,
+  p_limit INT DEFAULT 10
+)
+RETURNS TABLE (
+  tag text,
+  uses bigint,
+  authors bigint,
+  countries jsonb
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH uses AS (
+    SELECT ph.tag, p.user_id, p.id AS post_id
+    FROM public.post_hashtags ph
+    JOIN public.posts p ON p.id = ph.post_id
+    WHERE ph.created_at >= p_since AND ph.created_at < p_until
+      AND p.is_deleted = false
+      AND p.visibility = 'public'
+    UNION ALL
+    SELECT ch.tag, c.user_id, c.post_id
+    FROM public.comment_hashtags ch
+    JOIN public.comments c ON c.id = ch.comment_id
+    JOIN public.posts p ON p.id = c.post_id
+    WHERE ch.created_at >= p_since AND ch.created_at < p_until
+      AND c.is_deleted = false
+      AND p.is_deleted = false
+      AND p.visibility = 'public'
+  ),
+  located AS (
+    SELECT
+      u.tag,
+      u.user_id,
+      COALESCE(
+        (SELECT ul.country FROM public.user_locations ul
+          WHERE ul.user_id = u.user_id AND ul.is_active AND ul.country IS NOT NULL
+          ORDER BY ul.created_at DESC LIMIT 1),
+        (SELECT pb.country FROM public.post_boosts pb
+          WHERE pb.post_id = u.post_id AND pb.country IS NOT NULL
+          ORDER BY pb.created_at DESC LIMIT 1)
+      ) AS country
+    FROM uses u
+  ),
+  filtered AS (
+    SELECT * FROM located
+    WHERE p_country IS NULL OR country = p_country
+  ),
+  ranked AS (
+    SELECT f.tag, COUNT(*) AS uses, COUNT(DISTINCT f.user_id) AS authors
+    FROM filtered f
+    GROUP BY f.tag
+    ORDER BY authors DESC, uses DESC, f.tag
+    LIMIT p_limit
+  )
+  SELECT
+    r.tag,
+    r.uses,
+    r.authors,
+    COALESCE(
+      (SELECT jsonb_agg(
+                jsonb_build_object('country', bc.country, 'uses', bc.uses)
+                ORDER BY bc.uses DESC, bc.country)
+         FROM (
+           SELECT f.country, COUNT(*) AS uses
+           FROM filtered f
+           WHERE f.tag = r.tag AND f.country IS NOT NULL
+           GROUP BY f.country
+         ) bc),
+      '[]'::jsonb
+    ) AS countries
+  FROM ranked r
+  ORDER BY r.authors DESC, r.uses DESC, r.tag;
+$$;
@@ -0,0 +1,26 @@
+-- @mentions in posts and comments. The mentions column holds the resolved
+-- ranges returned to clients for rendering; the link tables record who was
+-- mentioned where, so edits only notify people who are newly mentioned.
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS mentions JSONB NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS mentions JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE TABLE IF NOT EXISTS post_mentions (
+  post_id UUID NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  mentioned_user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (post_id, mentioned_user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_mentions_user
+  ON post_mentions(mentioned_user_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS comment_mentions (
+  comment_id UUID NOT NULL REFERENCES comments(id) ON DELETE CASCADE,
+  mentioned_user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (comment_id, mentioned_user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_comment_mentions_user
+  ON comment_mentions(mentioned_user_id, created_at DESC);
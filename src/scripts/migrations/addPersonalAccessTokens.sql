@@ -0,0 +1,21 @@
+-- Personal access tokens for integrations and bots
+-- Tokens are stored as SHA-256 hashes; token_prefix keeps the first few
+-- characters so users can tell their tokens apart.
+
+CREATE TABLE IF NOT EXISTS personal_access_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  token_prefix VARCHAR(16) NOT NULL,
+  scopes TEXT[] NOT NULL DEFAULT '{}',
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_personal_access_tokens_user
+  ON personal_access_tokens(user_id, created_at DESC);
+
+COMMENT ON TABLE personal_access_tokens IS 'User-managed scoped API tokens (hashed); accepted by authenticate alongside JWTs';
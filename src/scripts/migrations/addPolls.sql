@@ -0,0 +1,60 @@
+-- Polls attached to posts. The post's content is the question. Each voter
+-- has one ballot per poll (several options on multiple choice polls), and
+-- option and voter counts are kept in step with ballots by a trigger.
+
+CREATE TABLE IF NOT EXISTS post_polls (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id UUID NOT NULL UNIQUE REFERENCES posts(id) ON DELETE CASCADE,
+  allows_multiple BOOLEAN NOT NULL DEFAULT false,
+  is_anonymous BOOLEAN NOT NULL DEFAULT false,
+  results_visibility VARCHAR(20) NOT NULL DEFAULT 'always'
+    CHECK (results_visibility IN ('always', 'after_vote', 'after_close')),
+  closes_at TIMESTAMP WITH TIME ZONE,
+  voter_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS post_poll_options (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  poll_id UUID NOT NULL REFERENCES post_polls(id) ON DELETE CASCADE,
+  position SMALLINT NOT NULL,
+  text VARCHAR(100) NOT NULL,
+  vote_count INTEGER NOT NULL DEFAULT 0,
+  UNIQUE (poll_id, position)
+);
+
+CREATE TABLE IF NOT EXISTS post_poll_votes (
+  poll_id UUID NOT NULL REFERENCES post_polls(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  option_ids UUID[] NOT NULL CHECK (cardinality(option_ids) > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (poll_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_poll_votes_poll
+  ON post_poll_votes(poll_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION public.update_poll_vote_counts()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.post_poll_options SET vote_count = vote_count + 1
+     WHERE poll_id = NEW.poll_id AND id = ANY(NEW.option_ids);
+    UPDATE public.post_polls SET voter_count = voter_count + 1
+     WHERE id = NEW.poll_id;
+  ELSE
+    UPDATE public.post_poll_options SET vote_count = GREATEST(vote_count - 1, 0)
+     WHERE poll_id = OLD.poll_id AND id = ANY(OLD.option_ids);
+    UPDATE public.post_polls SET voter_count = GREATEST(voter_count - 1, 0)
+     WHERE id = OLD.poll_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_post_poll_votes_update_counts ON public.post_poll_votes;
+CREATE TRIGGER trg_post_poll_votes_update_counts
+  AFTER INSERT OR DELETE ON public.post_poll_votes
+  FOR EACH ROW EXECUTE FUNCTION public.update_poll_vote_counts();
@@ -0,0 +1,30 @@
+-- Drafts and scheduled posts. They live outside posts until published; the
+-- scheduled post job publishes due rows through the normal post creation path.
+
+CREATE TABLE IF NOT EXISTS post_drafts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  content TEXT,
+  media JSONB NOT NULL DEFAULT '[]'::jsonb,
+  feeling VARCHAR(20),
+  visibility VARCHAR(20) NOT NULL DEFAULT 'public',
+  location JSONB,
+  status VARCHAR(20) NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'scheduled', 'publishing', 'published', 'failed')),
+  publish_at TIMESTAMP WITH TIME ZONE,
+  post_id UUID REFERENCES posts(id) ON DELETE SET NULL,
+  error TEXT,
+  published_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (status <> 'scheduled' OR publish_at IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_drafts_user
+  ON post_drafts(user_id, status, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_post_drafts_due
+  ON post_drafts(publish_at)
+  WHERE status = 'scheduled';
+
+COMMENT ON TABLE post_drafts IS 'Unpublished posts: drafts and posts scheduled for publish_at';
@@ -0,0 +1,31 @@
+-- Feed impressions, counted separately from detail views (view_count).
+-- Both are counted once per viewer per window in Redis and flushed here in
+-- batches by the post view flush job.
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS impression_count INTEGER NOT NULL DEFAULT 0;
+
+-- Add batched counts in one statement; p_views and p_impressions map post
+-- IDs to the number of new viewers
+CREATE OR REPLACE FUNCTION public.add_post_view_counts(
+  p_views JSONB DEFAULT '{}'::jsonb,
+  p_impressions JSONB DEFAULT '{}'::jsonb
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  updated INTEGER;
+BEGIN
+  UPDATE public.posts p
+     SET view_count = p.view_count + COALESCE((p_views ->> p.id::text)::int, 0),
+         impression_count = p.impression_count + COALESCE((p_impressions ->> p.id::text)::int, 0)
+   WHERE p.id IN (
+     SELECT key::uuid FROM jsonb_each_text(p_views)
+     UNION
+     SELECT key::uuid FROM jsonb_each_text(p_impressions)
+   );
+
+  GET DIAGNOSTICS updated = ROW_COUNT;
+  RETURN updated;
+END;
+$$;
@@ -0,0 +1,23 @@
+-- Edit history for posts. Revision 1 is the post as first published; each
+-- edit appends the new state, so the latest revision matches the post.
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS is_edited BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS edited_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS post_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id UUID NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  content TEXT,
+  media JSONB NOT NULL DEFAULT '[]'::jsonb,
+  feeling VARCHAR(20),
+  visibility VARCHAR(20) NOT NULL,
+  edited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (post_id, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_revisions_post
+  ON post_revisions(post_id, revision_number DESC);
+
+COMMENT ON TABLE post_revisions IS 'Content, media, feeling and visibility of each version of an edited post';
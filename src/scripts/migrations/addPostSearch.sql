@@ -0,0 +1,110 @@
+-- Full-text search over post content. The index is on an expression rather
+-- than a stored column so post rows (and every API response built from
+-- them) stay free of tsvector data; search_posts must use the same
+-- expression for the index to apply.
+
+CREATE INDEX IF NOT EXISTS idx_posts_content_search
+  ON posts USING GIN (to_tsvector('english', COALESCE(content, '')))
+  WHERE is_deleted = false;
+
+-- Posts matching p_query that p_viewer may see: public posts, their own,
+-- and friends-only posts by friends, never from users blocked either way.
+-- Results are ranked by relevance (or newest first with p_sort = 'newest')
+-- and carry a snippet with matches wrapped in chr(2) ... chr(3), which the
+-- API turns into highlight ranges. total_count is the number of matches
+-- before paging.
+CREATE OR REPLACE FUNCTION search_posts(
+  p_viewer UUID,
+  p_query TEXT,
+  p_author UUID DEFAULT NULL,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL,
+  p_has_media BOOLEAN DEFAULT NULL,
+  p_feeling TEXT DEFAULT NULL,
+  p_location TEXT DEFAULT NULL,
+  p_sort TEXT DEFAULT 'relevance',
+  p_limit INT DEFAULT 10,
+  p_offset INT DEFAULT 0
+)
+RETURNS TABLE (
+  post_id uuid,
+  rank real,
+  snippet text,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', p_query) AS query
+  ),
+  matches AS (
+    SELECT p.id, p.content, p.created_at,
+           ts_rank_cd(to_tsvector('english', COALESCE(p.content, '')), q.query) AS rank
+    FROM public.posts p
+    JOIN public.users u ON u.id = p.user_id AND u.is_active = true
+    CROSS JOIN q
+    WHERE to_tsvector('english', COALESCE(p.content, '')) @@ q.query
+      AND p.is_deleted = false
+      AND (
+        p.visibility = 'public'
+        OR p.user_id = p_viewer
+        OR (
+          p.visibility = 'friends'
+          AND EXISTS (
+            SELECT 1 FROM public.friendships f
+            WHERE f.status = 'accepted'
+              AND ((f.requester_id = p_viewer AND f.addressee_id = p.user_id)
+                OR (f.addressee_id = p_viewer AND f.requester_id = p.user_id))
+          )
+        )
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.friendships b
+        WHERE b.status = 'blocked'
+          AND ((b.requester_id = p_viewer AND b.addressee_id = p.user_id)
+            OR (b.addressee_id = p_viewer AND b.requester_id = p.user_id))
+      )
+      AND (p_author IS NULL OR p.user_id = p_author)
+      AND (p_from IS NULL OR p.created_at >= p_from)
+      AND (p_to IS NULL OR p.created_at < p_to)
+      AND (p_feeling IS NULL OR p.feeling = p_feeling)
+      AND (p_location IS NULL OR p.location->>'name' ILIKE '%' || p_location || '%')
+      AND (
+        p_has_media IS NULL
+        OR p_has_media = EXISTS (SELECT 1 FROM public.post_media pm WHERE pm.post_id = p.id)
+      )
+  ),
+  page AS (
+    SELECT m.*, COUNT(*) OVER () AS total_count
+    FROM matches m
+    ORDER BY
+      CASE WHEN p_sort = 'newest' THEN NULL ELSE m.rank END DESC NULLS LAST,
+      m.created_at DESC
+    LIMIT p_limit OFFSET p_offset
+  )
+  -- Headlines are only built for the page being returned
+  SELECT page.id, page.rank,
+         ts_headline(
+           'english', COALESCE(page.content, ''), q.query,
+           'StartSel=' || chr(2) || ', StopSel=' || chr(3) ||
+           ', MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+         ),
+         page.total_count
+  FROM page CROSS JOIN q
+  ORDER BY
+    CASE WHEN p_sort = 'newest' THEN NULL ELSE page.rank END DESC NULLS LAST,
+    page.created_at DESC;
+$$;
+
+-- The function trusts p_viewer and bypasses RLS, so only the API (service
+-- role) may call it; anyone else could search as another user
+REVOKE EXECUTE ON FUNCTION search_posts(
+  UUID, TEXT, UUID, TIMESTAMPTZ, TIMESTAMPTZ, BOOLEAN, TEXT, TEXT, TEXT, INT, INT
+) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION search_posts(
+  UUID, TEXT, UUID, TIMESTAMPTZ, TIMESTAMPTZ, BOOLEAN, TEXT, TEXT, TEXT, INT, INT
+) TO service_role;
@@ -0,0 +1,47 @@
+-- Reshares and quote posts. A share is a post that references the post it
+-- shares: a reshare has no content of its own, a quote adds commentary.
+-- Shares always point at an original, never at another reshare.
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS shared_post_id UUID REFERENCES posts(id) ON DELETE SET NULL;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS share_type VARCHAR(10)
+  CHECK (share_type IN ('reshare', 'quote'));
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS share_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_posts_shared_post
+  ON posts(shared_post_id, created_at DESC)
+  WHERE shared_post_id IS NOT NULL;
+
+-- One plain reshare per user per post; quotes are not limited
+CREATE UNIQUE INDEX IF NOT EXISTS posts_one_reshare_per_user_idx
+  ON posts(user_id, shared_post_id)
+  WHERE share_type = 'reshare' AND is_deleted = false;
+
+-- Keep share_count in step with live shares, including soft deletes
+CREATE OR REPLACE FUNCTION public.update_post_share_count()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.shared_post_id IS NOT NULL AND NOT NEW.is_deleted THEN
+      UPDATE public.posts SET share_count = share_count + 1
+       WHERE id = NEW.shared_post_id;
+    END IF;
+  ELSIF TG_OP = 'UPDATE' THEN
+    IF NEW.shared_post_id IS NOT NULL AND NEW.is_deleted IS DISTINCT FROM OLD.is_deleted THEN
+      UPDATE public.posts
+         SET share_count = GREATEST(share_count + CASE WHEN NEW.is_deleted THEN -1 ELSE 1 END, 0)
+       WHERE id = NEW.shared_post_id;
+    END IF;
+  ELSIF OLD.shared_post_id IS NOT NULL AND NOT OLD.is_deleted THEN
+    UPDATE public.posts SET share_count = GREATEST(share_count - 1, 0)
+     WHERE id = OLD.shared_post_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_posts_update_share_count ON public.posts;
+CREATE TRIGGER trg_posts_update_share_count
+  AFTER INSERT OR UPDATE OF is_deleted OR DELETE ON public.posts
+  FOR EACH ROW EXECUTE FUNCTION public.update_post_share_count();
@@ -0,0 +1,31 @@
+-- Saved posts and marketplace listings, optionally filed in collections.
+-- Each item is saved once per user, collection names are unique per user
+-- (ignoring case), and deleting a collection keeps its items, unfiled.
+
+DELETE FROM saved_items a
+ USING saved_items b
+ WHERE a.user_id = b.user_id
+   AND a.item_type = b.item_type
+   AND a.item_id = b.item_id
+   AND a.ctid > b.ctid;
+
+CREATE UNIQUE INDEX IF NOT EXISTS saved_items_one_per_user_idx
+  ON saved_items(user_id, item_type, item_id);
+
+CREATE INDEX IF NOT EXISTS idx_saved_items_user
+  ON saved_items(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_saved_items_collection
+  ON saved_items(collection_id, created_at DESC)
+  WHERE collection_id IS NOT NULL;
+
+ALTER TABLE saved_items DROP CONSTRAINT IF EXISTS saved_items_item_type_check;
+ALTER TABLE saved_items ADD CONSTRAINT saved_items_item_type_check
+  CHECK (item_type IN ('post', 'product'));
+
+ALTER TABLE saved_items DROP CONSTRAINT IF EXISTS fk_saved_items_collection;
+ALTER TABLE saved_items ADD CONSTRAINT fk_saved_items_collection
+  FOREIGN KEY (collection_id) REFERENCES save_collections(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS save_collections_user_name_idx
+  ON save_collections(user_id, lower(name));
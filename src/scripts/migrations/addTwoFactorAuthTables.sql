@@ -0,0 +1,28 @@
+-- TOTP two-factor authentication
+-- The shared secret is stored encrypted (AES-256-GCM) by the API; recovery
+-- codes are stored as SHA-256 hashes and consumed by setting used_at.
+
+CREATE TABLE IF NOT EXISTS user_two_factor (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  secret_encrypted TEXT NOT NULL,
+  is_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  last_used_counter BIGINT,
+  confirmed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS two_factor_recovery_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_two_factor_recovery_codes_user
+  ON two_factor_recovery_codes(user_id)
+  WHERE used_at IS NULL;
+
+COMMENT ON TABLE user_two_factor IS 'TOTP enrollment per user; is_enabled is the source of truth for login, mirrored into privacy settings';
+COMMENT ON TABLE two_factor_recovery_codes IS 'One-time 2FA recovery codes (hashed)';
@@ -0,0 +1,27 @@
+-- Server-side refresh token sessions
+-- One row per login (refresh token family). The refresh token JWT carries
+-- the session id (sid) and a jti; only the jti stored here is accepted, and
+-- every refresh rotates it.
+
+CREATE TABLE IF NOT EXISTS user_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  refresh_token_jti TEXT NOT NULL,
+  device_token TEXT,
+  device_type TEXT,
+  ip_address TEXT,
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_used_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  revoked_reason TEXT
+);
+
+-- Active sessions per user (logout everywhere, session listing)
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_active
+  ON user_sessions(user_id)
+  WHERE revoked_at IS NULL;
+
+COMMENT ON TABLE user_sessions IS 'Refresh token families issued at login; revoked sessions invalidate their access tokens';
+COMMENT ON COLUMN user_sessions.refresh_token_jti IS 'jti of the only refresh token currently valid for this session';
@@ -0,0 +1,232 @@
+// src/services/accessTokenService.ts
+import crypto from "crypto";
+import { supabaseAdmin } from "../config/supabase";
+import { AppError } from "../middlewares/errorHandler";
+import { asyncHandler } from "../utils/asyncHandler";
+import { logger } from "../utils/logger";
+import { redisService } from "./redis.service";
+import {
+  AccessTokenScope,
+  IssuedAccessToken,
+  PersonalAccessToken,
+  PersonalAccessTokenCreate,
+  PersonalAccessTokenSummary,
+} from "../models/access-token.model";
+
+export const ACCESS_TOKEN_PREFIX = "pat_";
+
+const DEFAULT_EXPIRY_DAYS = 30;
+const MAX_ACTIVE_TOKENS = 25;
+const DISPLAY_PREFIX_LENGTH = ACCESS_TOKEN_PREFIX.length + 8;
+
+const SUMMARY_COLUMNS =
+  "id, user_id, name, token_prefix, scopes, expires_at, last_used_at, revoked_at, created_at";
+
+/**
+ * The identity a valid access token resolves to
+ */
+export interface AccessTokenIdentity {
+  tokenId: string;
+  userId: string;
+  scopes: AccessTokenScope[];
+}
+
+/**
+ * Service class for user-managed personal access tokens
+ */
+export class AccessTokenService {
+  /**
+   * Create a token; the plain value is returned only from this call
+   */
+  static createToken = asyncHandler(
+    async (
+      userId: string,
+      input: PersonalAccessTokenCreate
+    ): Promise<IssuedAccessToken> => {
+      const { count, error: countError } = await supabaseAdmin!
+        .from("personal_access_tokens")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", userId)
+        .is("revoked_at", null)
+        .gt("expires_at", new Date().toISOString());
+
+      if (countError) {
+        throw new AppError(countError.message, 400);
+      }
+
+      if ((count ?? 0) >= MAX_ACTIVE_TOKENS) {
+        throw new AppError(
+          `You can have at most ${MAX_ACTIVE_TOKENS} active tokens. Revoke one first`,
+          400
+        );
+      }
+
+      const token = `${ACCESS_TOKEN_PREFIX}${crypto.randomBytes(32).toString("base64url")}`;
+      const expiresInDays = input.expiresInDays ?? DEFAULT_EXPIRY_DAYS;
+
+      const { data, error } = await supabaseAdmin!
+        .from("personal_access_tokens")
+        .insert({
+          user_id: userId,
+          name: input.name,
+          token_hash: this.hashToken(token),
+          token_prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+          scopes: Array.from(new Set(input.scopes)),
+          expires_at: new Date(
+            Date.now() + expiresInDays * 24 * 60 * 60 * 1000
+          ).toISOString(),
+        })
+        .select(SUMMARY_COLUMNS)
+        .single();
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      logger.info(`Access token ${data.id} created for user ${userId}`);
+
+      return { token, accessToken: data as PersonalAccessTokenSummary };
+    },
+    "Failed to create access token"
+  );
+
+  /**
+   * List a user's tokens, newest first
+   */
+  static listTokens = asyncHandler(
+    async (userId: string): Promise<PersonalAccessTokenSummary[]> => {
+      const { data, error } = await supabaseAdmin!
+        .from("personal_access_tokens")
+        .select(SUMMARY_COLUMNS)
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false });
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      return (data || []) as PersonalAccessTokenSummary[];
+    },
+    "Failed to list access tokens"
+  );
+
+  /**
+   * Revoke one of the user's tokens
+   */
+  static revokeToken = asyncHandler(
+    async (userId: string, tokenId: string): Promise<void> => {
+      const { data, error } = await supabaseAdmin!
+        .from("personal_access_tokens")
+        .update({ revoked_at: new Date().toISOString() })
+        .eq("id", tokenId)
+        .eq("user_id", userId)
+        .is("revoked_at", null)
+        .select("token_hash")
+        .maybeSingle();
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      if (!data) {
+        throw new AppError("Access token not found", 404);
+      }
+
+      await redisService.delete(redisService.keys.accessToken(data.token_hash));
+      logger.info(`Access token ${tokenId} revoked by user ${userId}`);
+    },
+    "Failed to revoke access token"
+  );
+
+  /**
+   * Resolve a presented token to its owner and scopes
+   * @returns null when the token is unknown, revoked or expired
+   */
+  static verifyToken = asyncHandler(
+    async (token: string): Promise<AccessTokenIdentity | null> => {
+      const tokenHash = this.hashToken(token);
+      const cacheKey = redisService.keys.accessToken(tokenHash);
+
+      let record =
+        await redisService.get<
+          Pick<
+            PersonalAccessToken,
+            "id" | "user_id" | "scopes" | "expires_at" | "revoked_at"
+          >
+        >(cacheKey);
+
+      if (!record) {
+        const { data, error } = await supabaseAdmin!
+          .from("personal_access_tokens")
+          .select("id, user_id, scopes, expires_at, revoked_at")
+          .eq("token_hash", tokenHash)
+          .maybeSingle();
+
+        if (error) {
+          throw new AppError(error.message, 400);
+        }
+
+        if (!data) {
+          return null;
+        }
+
+        record = data;
+        await redisService.set(
+          cacheKey,
+          record,
+          redisService.getTTL().ACCESS_TOKEN
+        );
+      }
+
+      if (
+        record.revoked_at ||
+        new Date(record.expires_at).getTime() <= Date.now()
+      ) {
+        return null;
+      }
+
+      this.touchLastUsed(record.id);
+
+      return {
+        tokenId: record.id,
+        userId: record.user_id,
+        scopes: record.scopes,
+      };
+    },
+    "Failed to verify access token"
+  );
+
+  static isAccessToken(token: string): boolean {
+    return token.startsWith(ACCESS_TOKEN_PREFIX);
+  }
+
+  private static hashToken(token: string): string {
+    return crypto.createHash("sha256").update(token).digest("hex");
+  }
+
+  /**
+   * Record usage without writing to the database on every request
+   */
+  private static async touchLastUsed(tokenId: string): Promise<void> {
+    const throttleKey = redisService.keys.accessTokenLastUsed(tokenId);
+    if ((await redisService.get<boolean>(throttleKey)) !== null) return;
+
+    await redisService.set(
+      throttleKey,
+      true,
+      redisService.getTTL().ACCESS_TOKEN_LAST_USED
+    );
+
+    const { error } = await supabaseAdmin!
+      .from("personal_access_tokens")
+      .update({ last_used_at: new Date().toISOString() })
+      .eq("id", tokenId);
+
+    if (error) {
+      logger.warn(
+        `Failed to update last use of access token ${tokenId}:`,
+        error
+      );
+    }
+  }
+}
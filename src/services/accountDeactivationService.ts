@@ -0,0 +1,247 @@
+// src/services/accountDeactivationService.ts
+import bcrypt from "bcryptjs";
+import jwt from "jsonwebtoken";
+import { config } from "dotenv";
+import { supabaseAdmin } from "../config/supabase";
+import { AppError } from "../middlewares/errorHandler";
+import { asyncHandler } from "../utils/asyncHandler";
+import { logger } from "../utils/logger";
+import { redisService } from "./redis.service";
+import { UserService } from "./userService";
+import { SessionService } from "./sessionService";
+import { DeviceSessionService } from "./deviceSessionService";
+import { EmailService } from "./emailService";
+import { PostService } from "./postService";
+import {
+  AccountDeactivation,
+  AccountDeactivationRequest,
+  AccountRestoreOffer,
+} from "../models/account-deactivation.model";
+import { SessionRevocationReason } from "../models/session.model";
+import { User } from "../types/models";
+
+config();
+
+const JWT_SECRET = process.env.JWT_SECRET || "your_jwt_secret_key_here";
+
+// Separate secret so a restore token can never pass as an access token
+const RESTORE_SECRET =
+  process.env.ACCOUNT_RESTORE_SECRET || `${JWT_SECRET}:account-restore`;
+const RESTORE_TOKEN_TTL_SECONDS = 15 * 60;
+const DELETION_GRACE_DAYS = parseInt(
+  process.env.ACCOUNT_DELETION_GRACE_DAYS || "30"
+);
+
+interface RestoreTokenPayload {
+  id: string;
+  purpose: "account_restore";
+}
+
+/**
+ * Service class for self-service account deactivation, scheduled deletion
+ * and restoration
+ */
+export class AccountDeactivationService {
+  /**
+   * Deactivate the user's account, optionally scheduling its deletion after
+   * the grace period. Signs the user out everywhere.
+   */
+  static deactivate = asyncHandler(
+    async (
+      userId: string,
+      request: AccountDeactivationRequest
+    ): Promise<AccountDeactivation> => {
+      const user = await UserService.findUserById(userId);
+      if (!user) {
+        throw new AppError("User not found", 404);
+      }
+
+      const isPasswordValid = await bcrypt.compare(
+        request.password,
+        user.password_hash
+      );
+      if (!isPasswordValid) {
+        throw new AppError("Incorrect password", 401);
+      }
+
+      const deletionScheduledFor = request.scheduleDeletion
+        ? new Date(Date.now() + DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000)
+        : null;
+
+      const { data, error } = await supabaseAdmin!
+        .from("account_deactivations")
+        .upsert({
+          user_id: userId,
+          reason: request.reason ?? null,
+          deactivated_at: new Date().toISOString(),
+          deletion_scheduled_for: deletionScheduledFor?.toISOString() ?? null,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      await this.setActive(userId, false);
+
+      const revokedIds = await SessionService.revokeAllUserSessions(
+        userId,
+        SessionRevocationReason.ACCOUNT_DEACTIVATED
+      );
+      DeviceSessionService.disconnectSessions(userId, revokedIds);
+
+      EmailService.sendAccountDeactivatedEmail(
+        user.email,
+        `${user.first_name} ${user.last_name}`,
+        deletionScheduledFor
+      ).catch(err => {
+        logger.error("Error sending account deactivated email:", err);
+      });
+
+      logger.info(
+        deletionScheduledFor
+          ? `User ${userId} deactivated their account; deletion scheduled for ${deletionScheduledFor.toISOString()}`
+          : `User ${userId} deactivated their account`
+      );
+
+      return data as AccountDeactivation;
+    },
+    "Failed to deactivate account"
+  );
+
+  /**
+   * Get the user's self-deactivation, if any. Accounts switched off by an
+   * admin have none and cannot be restored by the user.
+   */
+  static getDeactivation = asyncHandler(
+    async (userId: string): Promise<AccountDeactivation | null> => {
+      const { data, error } = await supabaseAdmin!
+        .from("account_deactivations")
+        .select("*")
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      return data as AccountDeactivation | null;
+    },
+    "Failed to get account deactivation"
+  );
+
+  /**
+   * Offer restoration to a deactivated user who just proved their password
+   * @returns null when the account was not deactivated by the user
+   */
+  static createRestoreOffer = asyncHandler(
+    async (userId: string): Promise<AccountRestoreOffer | null> => {
+      const deactivation = await this.getDeactivation(userId);
+      if (!deactivation) {
+        return null;
+      }
+
+      const restoreToken = jwt.sign(
+        { id: userId, purpose: "account_restore" },
+        RESTORE_SECRET,
+        { expiresIn: RESTORE_TOKEN_TTL_SECONDS }
+      );
+
+      return {
+        accountDeactivated: true,
+        restoreToken,
+        expiresIn: RESTORE_TOKEN_TTL_SECONDS,
+        deletionScheduledFor: deactivation.deletion_scheduled_for ?? null,
+      };
+    },
+    "Failed to offer account restoration"
+  );
+
+  /**
+   * Reactivate an account with a restore token, cancelling any scheduled
+   * deletion
+   */
+  static restoreWithToken = asyncHandler(
+    async (token: string): Promise<User> => {
+      let payload: RestoreTokenPayload;
+      try {
+        payload = jwt.verify(token, RESTORE_SECRET) as RestoreTokenPayload;
+      } catch {
+        throw new AppError("This restore link is invalid or has expired", 400);
+      }
+
+      if (payload.purpose !== "account_restore") {
+        throw new AppError("This restore link is invalid or has expired", 400);
+      }
+
+      const { data, error } = await supabaseAdmin!
+        .from("account_deactivations")
+        .delete()
+        .eq("user_id", payload.id)
+        .select("user_id")
+        .maybeSingle();
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      // Already restored, deleted, or deactivated by an admin meanwhile
+      if (!data) {
+        throw new AppError("This account can no longer be restored", 400);
+      }
+
+      await this.setActive(payload.id, true);
+
+      const user = await UserService.findUserById(payload.id);
+      if (!user) {
+        throw new AppError("This account can no longer be restored", 400);
+      }
+
+      logger.info(`User ${payload.id} restored their account`);
+      return user;
+    },
+    "Failed to restore account"
+  );
+
+  /**
+   * Permanently delete accounts whose grace period has ended
+   * @returns number of deleted accounts
+   */
+  static processDueDeletions = asyncHandler(async (): Promise<number> => {
+    const { data: due, error } = await supabaseAdmin!
+      .from("account_deactivations")
+      .select("user_id")
+      .not("deletion_scheduled_for", "is", null)
+      .lte("deletion_scheduled_for", new Date().toISOString());
+
+    if (error) {
+      throw new AppError(error.message, 400);
+    }
+
+    let deleted = 0;
+    for (const { user_id } of due || []) {
+      try {
+        await UserService.deleteUserCompletely(user_id);
+        deleted++;
+      } catch (err) {
+        // Leave the row in place so the next run retries
+        logger.error(`Scheduled deletion of user ${user_id} failed:`, err);
+      }
+    }
+
+    return deleted;
+  }, "Failed to process scheduled account deletions");
+
+  /**
+   * Flip users.is_active and drop everything cached from the old state
+   */
+  private static async setActive(
+    userId: string,
+    isActive: boolean
+  ): Promise<void> {
+    await UserService.updateUser(userId, { is_active: isActive });
+    await redisService.delete(redisService.keys.userBasic(userId));
+    await PostService.invalidateRelevantFeeds(userId);
+  }
+}
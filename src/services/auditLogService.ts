@@ -0,0 +1,72 @@
+// src/services/auditLogService.ts
+import { supabaseAdmin } from "../config/supabase";
+import { AppError } from "../middlewares/errorHandler";
+import { asyncHandler } from "../utils/asyncHandler";
+import { logger } from "../utils/logger";
+import { AuditLogEntry, AuditLogFilters } from "../models/audit-log.model";
+
+const DEFAULT_PAGE_SIZE = 50;
+
+export type AuditLogRecord = Omit<AuditLogEntry, "id" | "created_at">;
+
+/**
+ * Service class for the append-only admin audit log
+ */
+export class AuditLogService {
+  /**
+   * Append an entry. Failures are logged rather than thrown so that a
+   * completed action is never reported to the client as failed.
+   */
+  static async record(entry: AuditLogRecord): Promise<void> {
+    const { error } = await supabaseAdmin!
+      .from("admin_audit_log")
+      .insert(entry);
+
+    if (error) {
+      logger.error(
+        `Failed to write audit log entry ${entry.action} by ${entry.actor_id}:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Browse entries, newest first
+   */
+  static list = asyncHandler(
+    async (
+      filters: AuditLogFilters
+    ): Promise<{ entries: AuditLogEntry[]; total: number }> => {
+      const page = filters.page || 1;
+      const limit = filters.limit || DEFAULT_PAGE_SIZE;
+      const offset = (page - 1) * limit;
+
+      let query = supabaseAdmin!
+        .from("admin_audit_log")
+        .select("*", { count: "exact" });
+
+      if (filters.actorId) query = query.eq("actor_id", filters.actorId);
+      if (filters.action) query = query.eq("action", filters.action);
+      if (filters.targetType) {
+        query = query.eq("target_type", filters.targetType);
+      }
+      if (filters.targetId) query = query.eq("target_id", filters.targetId);
+      if (filters.from) query = query.gte("created_at", filters.from);
+      if (filters.to) query = query.lte("created_at", filters.to);
+
+      const { data, error, count } = await query
+        .order("created_at", { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      return {
+        entries: (data || []) as AuditLogEntry[],
+        total: count ?? 0,
+      };
+    },
+    "Failed to fetch audit log"
+  );
+}
@@ -0,0 +1,296 @@
+// src/services/bruteForceService.ts
+import jwt from "jsonwebtoken";
+import { config } from "dotenv";
+import { AppError } from "../middlewares/errorHandler";
+import { logger } from "../utils/logger";
+import { redisService } from "./redis.service";
+import { UserService } from "./userService";
+import { EmailService } from "./emailService";
+
+config();
+
+const JWT_SECRET = process.env.JWT_SECRET || "your_jwt_secret_key_here";
+
+// Separate secret so an unlock link can never pass as an access token
+const UNLOCK_SECRET =
+  process.env.ACCOUNT_UNLOCK_SECRET || `${JWT_SECRET}:account-unlock`;
+
+export enum BruteForceScope {
+  LOGIN = "login",
+  FORGOT_PASSWORD = "forgot_password",
+  RESET_PASSWORD = "reset_password",
+  TWO_FACTOR = "two_factor",
+}
+
+/**
+ * Who an attempt is attributed to. The IP is always known; the account is
+ * the normalized email when the request names one.
+ */
+export interface BruteForceSubject {
+  ip: string;
+  account?: string;
+}
+
+interface BruteForcePolicy {
+  freeAttempts: number;
+  windowSeconds: number;
+  baseBackoffSeconds: number;
+  maxBackoffSeconds: number;
+  lockoutThreshold?: number;
+  lockoutSeconds?: number;
+}
+
+const POLICIES: Record<BruteForceScope, BruteForcePolicy> = {
+  [BruteForceScope.LOGIN]: {
+    freeAttempts: 5,
+    windowSeconds: 15 * 60,
+    baseBackoffSeconds: 15,
+    maxBackoffSeconds: 15 * 60,
+    lockoutThreshold: 10,
+    lockoutSeconds: 30 * 60,
+  },
+  [BruteForceScope.FORGOT_PASSWORD]: {
+    freeAttempts: 3,
+    windowSeconds: 60 * 60,
+    baseBackoffSeconds: 60,
+    maxBackoffSeconds: 60 * 60,
+  },
+  [BruteForceScope.RESET_PASSWORD]: {
+    freeAttempts: 5,
+    windowSeconds: 60 * 60,
+    baseBackoffSeconds: 60,
+    maxBackoffSeconds: 60 * 60,
+  },
+  // Every password login brings a new challenge, so limit codes per account
+  [BruteForceScope.TWO_FACTOR]: {
+    freeAttempts: 5,
+    windowSeconds: 15 * 60,
+    baseBackoffSeconds: 30,
+    maxBackoffSeconds: 30 * 60,
+  },
+};
+
+// Many accounts can sit behind one IP (NAT, offices), so IPs get more room
+const IP_ATTEMPT_MULTIPLIER = 4;
+
+// In-process fallback used while Redis is not ready
+const memoryStore = new Map<string, { count: number; expiresAt: number }>();
+const MEMORY_STORE_SWEEP_SIZE = 10000;
+
+/**
+ * Redis-backed attempt limiting with progressive backoff and account lockout
+ */
+export class BruteForceService {
+  /**
+   * Seconds the caller must wait before another attempt (0 when allowed)
+   */
+  static async getRetryAfter(
+    scope: BruteForceScope,
+    subject: BruteForceSubject
+  ): Promise<{ retryAfter: number; locked: boolean }> {
+    const lockout =
+      scope === BruteForceScope.LOGIN && subject.account
+        ? await this.remaining(
+            redisService.keys.accountLockout(subject.account)
+          )
+        : 0;
+
+    const blocks = await Promise.all(
+      this.subjectKeys(subject).map(key =>
+        this.remaining(redisService.keys.bruteForceBlock(scope, key))
+      )
+    );
+
+    return {
+      retryAfter: Math.max(lockout, ...blocks),
+      locked: lockout > 0,
+    };
+  }
+
+  /**
+   * Count a failed attempt, applying backoff once the free attempts are used
+   * @returns whether this failure locked the account
+   */
+  static async recordFailure(
+    scope: BruteForceScope,
+    subject: BruteForceSubject
+  ): Promise<{ locked: boolean }> {
+    const policy = POLICIES[scope];
+    let locked = false;
+
+    for (const key of this.subjectKeys(subject)) {
+      const isIp = key.startsWith("ip:");
+      const count = await this.increment(
+        redisService.keys.bruteForceAttempts(scope, key),
+        policy.windowSeconds
+      );
+
+      const freeAttempts = isIp
+        ? policy.freeAttempts * IP_ATTEMPT_MULTIPLIER
+        : policy.freeAttempts;
+
+      if (count > freeAttempts) {
+        const backoff = Math.min(
+          policy.baseBackoffSeconds * 2 ** (count - freeAttempts - 1),
+          policy.maxBackoffSeconds
+        );
+        await this.setWithExpiry(
+          redisService.keys.bruteForceBlock(scope, key),
+          backoff
+        );
+      }
+
+      if (
+        !isIp &&
+        policy.lockoutThreshold &&
+        policy.lockoutSeconds &&
+        count >= policy.lockoutThreshold
+      ) {
+        await this.setWithExpiry(
+          redisService.keys.accountLockout(subject.account!),
+          policy.lockoutSeconds
+        );
+        // Start counting afresh once the lock expires or is lifted
+        await this.clear(redisService.keys.bruteForceAttempts(scope, key));
+        locked = true;
+      }
+    }
+
+    return { locked };
+  }
+
+  /**
+   * Forget an account's failures after a successful attempt
+   */
+  static async recordSuccess(
+    scope: BruteForceScope,
+    subject: BruteForceSubject
+  ): Promise<void> {
+    if (!subject.account) return;
+
+    const key = `account:${subject.account}`;
+    await this.clear(
+      redisService.keys.bruteForceAttempts(scope, key),
+      redisService.keys.bruteForceBlock(scope, key)
+    );
+  }
+
+  /**
+   * Lift a login lockout and its counters for an account
+   */
+  static async unlockAccount(account: string): Promise<void> {
+    const key = `account:${account}`;
+    await this.clear(
+      redisService.keys.accountLockout(account),
+      redisService.keys.bruteForceAttempts(BruteForceScope.LOGIN, key),
+      redisService.keys.bruteForceBlock(BruteForceScope.LOGIN, key)
+    );
+  }
+
+  /**
+   * Email the account owner a link that lifts the lockout early.
+   * Sent only for accounts that exist; callers don't reveal the difference.
+   */
+  static async sendUnlockEmail(account: string): Promise<void> {
+    const user = await UserService.findUserByEmail(account);
+    if (!user) return;
+
+    const lockoutSeconds = POLICIES[BruteForceScope.LOGIN].lockoutSeconds!;
+    const token = jwt.sign(
+      { email: account, purpose: "account_unlock" },
+      UNLOCK_SECRET,
+      { expiresIn: lockoutSeconds }
+    );
+
+    await EmailService.sendAccountLockedEmail(
+      user.email,
+      token,
+      `${user.first_name} ${user.last_name}`,
+      Math.round(lockoutSeconds / 60)
+    );
+
+    logger.warn(`Account locked after repeated failed logins: ${user.email}`);
+  }
+
+  /**
+   * Lift a lockout using the token from the unlock email
+   */
+  static async unlockWithToken(token: string): Promise<void> {
+    let payload: { email: string; purpose: string };
+    try {
+      payload = jwt.verify(token, UNLOCK_SECRET) as typeof payload;
+    } catch {
+      throw new AppError("This unlock link is invalid or has expired", 400);
+    }
+
+    if (payload.purpose !== "account_unlock") {
+      throw new AppError("This unlock link is invalid or has expired", 400);
+    }
+
+    await this.unlockAccount(payload.email);
+  }
+
+  /**
+   * Normalize an email into an account identifier
+   */
+  static normalizeAccount(email?: unknown): string | undefined {
+    return typeof email === "string" && email.trim()
+      ? email.trim().toLowerCase()
+      : undefined;
+  }
+
+  private static subjectKeys(subject: BruteForceSubject): string[] {
+    return [
+      `ip:${subject.ip}`,
+      ...(subject.account ? [`account:${subject.account}`] : []),
+    ];
+  }
+
+  private static async increment(key: string, ttl: number): Promise<number> {
+    const count = await redisService.increment(key, ttl);
+    if (count !== null) return count;
+
+    const now = Date.now();
+    if (memoryStore.size > MEMORY_STORE_SWEEP_SIZE) {
+      memoryStore.forEach((value, storedKey) => {
+        if (value.expiresAt <= now) memoryStore.delete(storedKey);
+      });
+    }
+
+    const entry = memoryStore.get(key);
+    if (!entry || entry.expiresAt <= now) {
+      memoryStore.set(key, { count: 1, expiresAt: now + ttl * 1000 });
+      return 1;
+    }
+
+    entry.count++;
+    return entry.count;
+  }
+
+  private static async setWithExpiry(key: string, ttl: number): Promise<void> {
+    if (await redisService.set(key, true, ttl)) return;
+
+    memoryStore.set(key, { count: 1, expiresAt: Date.now() + ttl * 1000 });
+  }
+
+  private static async remaining(key: string): Promise<number> {
+    if (redisService.isReady()) {
+      return (await redisService.getRemainingTTL(key)) ?? 0;
+    }
+
+    const entry = memoryStore.get(key);
+    if (!entry) return 0;
+
+    const seconds = Math.ceil((entry.expiresAt - Date.now()) / 1000);
+    if (seconds <= 0) {
+      memoryStore.delete(key);
+      return 0;
+    }
+    return seconds;
+  }
+
+  private static async clear(...keys: string[]): Promise<void> {
+    await redisService.delete(...keys);
+    keys.forEach(key => memoryStore.delete(key));
+  }
+}
@@ -10,6 +10,8 @@ import {
 } from "../models/interaction.model";
 import { PostService } from "./postService";
 import { StorageService } from "./storageService";
+import { HashtagService } from "./hashtagService";
+import { MentionService } from "./mentionService";
 import { NotificationService } from "./notificationService";
 import { ReferenceType } from "../models/notification.model";
 import { logger } from "../utils/logger";
@@ -122,18 +124,12 @@ export class CommentService {
         throw new AppError(error.message, 400);
       }
 
-      // Increment target post's view count (since commenting implies viewing)
-      try {
-        const currentViews = post.view_count || 0;
-        const newViews = Math.max(currentViews, 1) + 1;
-        await supabaseAdmin!
-          .from("posts")
-          .update({ view_count: newViews })
-          .eq("id", commentData.post_id);
-        logger.info(`👁️ Incremented views on post ${commentData.post_id} to ${newViews} via comment creation.`);
-      } catch (err: any) {
-        logger.warn(`Failed to increment post view count on comment: ${err.message}`);
-      }
+      await HashtagService.syncCommentHashtags(
+        data.id,
+        data.content,
+        data.created_at,
+      );
+      data.mentions = await MentionService.syncCommentMentions(data);
 
       // Create notification for post owner if it's not their own comment
       if (post.user_id !== commentData.user_id) {
@@ -349,6 +345,15 @@ export class CommentService {
         throw new AppError(error.message, 400);
       }
 
+      if (updateData.content !== undefined) {
+        await HashtagService.syncCommentHashtags(
+          commentId,
+          data.content,
+          data.created_at,
+        );
+        data.mentions = await MentionService.syncCommentMentions(data);
+      }
+
       return data as Comment;
     },
     "Failed to update comment",
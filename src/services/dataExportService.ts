@@ -0,0 +1,500 @@
+// src/services/dataExportService.ts
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import jwt from "jsonwebtoken";
+import { UUID } from "crypto";
+import { config } from "dotenv";
+import { supabaseAdmin } from "../config/supabase";
+import { DATA_EXPORT_RULES, USER_OWNED_TABLES } from "../config/userDataTables";
+import { AppError } from "../middlewares/errorHandler";
+import { asyncHandler } from "../utils/asyncHandler";
+import { logger } from "../utils/logger";
+import { createZip, ZipEntry } from "../utils/zip";
+import { UserService } from "./userService";
+import { EmailService } from "./emailService";
+import { NotificationService } from "./notificationService";
+import {
+  DataExport,
+  DataExportStatus,
+  DataExportSummary,
+} from "../models/data-export.model";
+import { ReferenceType } from "../models/notification.model";
+
+config();
+
+const JWT_SECRET = process.env.JWT_SECRET || "your_jwt_secret_key_here";
+
+// Separate secret so a download link can never pass as an access token
+const DOWNLOAD_SECRET =
+  process.env.DATA_EXPORT_SECRET || `${JWT_SECRET}:data-export`;
+const EXPORT_DIR =
+  process.env.DATA_EXPORT_DIR || path.join(os.tmpdir(), "data-exports");
+const EXPORT_TTL_HOURS = parseInt(process.env.DATA_EXPORT_EXPIRY_HOURS || "48");
+const MIN_HOURS_BETWEEN_EXPORTS = 24;
+const EXPORTS_PER_RUN = 5;
+const STALE_PROCESSING_MINUTES = 60;
+const PAGE_SIZE = 1000;
+const IN_FILTER_CHUNK = 100;
+
+const SUMMARY_COLUMNS =
+  "id, user_id, status, file_size, error, requested_at, started_at, completed_at, expires_at";
+
+interface DownloadTokenPayload {
+  id: string;
+  uid: string;
+  purpose: "data_export";
+}
+
+export interface DataExportListItem extends DataExportSummary {
+  downloadToken?: string;
+}
+
+/**
+ * Service class for "download my data" exports
+ */
+export class DataExportService {
+  /**
+   * Queue an export of the user's data for the background job
+   */
+  static requestExport = asyncHandler(
+    async (userId: string): Promise<DataExportSummary> => {
+      const { data: recent, error: recentError } = await supabaseAdmin!
+        .from("data_exports")
+        .select("status, requested_at")
+        .eq("user_id", userId)
+        .in("status", [
+          DataExportStatus.PENDING,
+          DataExportStatus.PROCESSING,
+          DataExportStatus.READY,
+        ])
+        .order("requested_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (recentError) {
+        throw new AppError(recentError.message, 400);
+      }
+
+      if (
+        recent?.status === DataExportStatus.PENDING ||
+        recent?.status === DataExportStatus.PROCESSING
+      ) {
+        throw new AppError("Your data export is already being prepared", 409);
+      }
+
+      if (
+        recent &&
+        Date.now() - new Date(recent.requested_at).getTime() <
+          MIN_HOURS_BETWEEN_EXPORTS * 60 * 60 * 1000
+      ) {
+        throw new AppError(
+          `You can request one data export every ${MIN_HOURS_BETWEEN_EXPORTS} hours`,
+          429
+        );
+      }
+
+      const { data, error } = await supabaseAdmin!
+        .from("data_exports")
+        .insert({ user_id: userId, status: DataExportStatus.PENDING })
+        .select(SUMMARY_COLUMNS)
+        .single();
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      logger.info(`Data export ${data.id} requested by user ${userId}`);
+      return data as DataExportSummary;
+    },
+    "Failed to request data export"
+  );
+
+  /**
+   * List the user's exports; ready ones carry a fresh download token
+   */
+  static listExports = asyncHandler(
+    async (userId: string): Promise<DataExportListItem[]> => {
+      const { data, error } = await supabaseAdmin!
+        .from("data_exports")
+        .select(SUMMARY_COLUMNS)
+        .eq("user_id", userId)
+        .order("requested_at", { ascending: false })
+        .limit(10);
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      return ((data || []) as DataExportSummary[]).map(item =>
+        item.status === DataExportStatus.READY && item.expires_at
+          ? {
+              ...item,
+              downloadToken: this.signDownloadToken(
+                item.id,
+                userId,
+                new Date(item.expires_at)
+              ),
+            }
+          : item
+      );
+    },
+    "Failed to list data exports"
+  );
+
+  /**
+   * Resolve a download token to the archive on disk
+   */
+  static resolveDownload = asyncHandler(
+    async (
+      exportId: string,
+      token: string
+    ): Promise<{ filePath: string; fileName: string }> => {
+      let payload: DownloadTokenPayload;
+      try {
+        payload = jwt.verify(token, DOWNLOAD_SECRET) as DownloadTokenPayload;
+      } catch {
+        throw new AppError("This download link is invalid or has expired", 410);
+      }
+
+      if (payload.purpose !== "data_export" || payload.id !== exportId) {
+        throw new AppError("This download link is invalid or has expired", 410);
+      }
+
+      const { data, error } = await supabaseAdmin!
+        .from("data_exports")
+        .select("*")
+        .eq("id", exportId)
+        .eq("user_id", payload.uid)
+        .maybeSingle();
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      const dataExport = data as DataExport | null;
+      if (
+        !dataExport ||
+        dataExport.status !== DataExportStatus.READY ||
+        !dataExport.file_path
+      ) {
+        throw new AppError("This data export is no longer available", 410);
+      }
+
+      return {
+        filePath: dataExport.file_path,
+        fileName: `data-export-${new Date(dataExport.requested_at)
+          .toISOString()
+          .slice(0, 10)}.zip`,
+      };
+    },
+    "Failed to resolve data export download"
+  );
+
+  /**
+   * Build archives for queued exports. Called by the data export job.
+   * @returns number of exports completed
+   */
+  static processPendingExports = asyncHandler(async (): Promise<number> => {
+    // Exports left "processing" by a crashed or restarted server are retried
+    await supabaseAdmin!
+      .from("data_exports")
+      .update({ status: DataExportStatus.PENDING })
+      .eq("status", DataExportStatus.PROCESSING)
+      .lt(
+        "started_at",
+        new Date(
+          Date.now() - STALE_PROCESSING_MINUTES * 60 * 1000
+        ).toISOString()
+      );
+
+    const { data: pending, error } = await supabaseAdmin!
+      .from("data_exports")
+      .select("id, user_id")
+      .eq("status", DataExportStatus.PENDING)
+      .order("requested_at", { ascending: true })
+      .limit(EXPORTS_PER_RUN);
+
+    if (error) {
+      throw new AppError(error.message, 400);
+    }
+
+    let completed = 0;
+    for (const item of pending || []) {
+      // Claim the export so concurrent runs don't build it twice
+      const { data: claimed } = await supabaseAdmin!
+        .from("data_exports")
+        .update({
+          status: DataExportStatus.PROCESSING,
+          started_at: new Date().toISOString(),
+        })
+        .eq("id", item.id)
+        .eq("status", DataExportStatus.PENDING)
+        .select("id")
+        .maybeSingle();
+
+      if (!claimed) continue;
+
+      try {
+        await this.buildExport(item.id, item.user_id);
+        completed++;
+      } catch (err) {
+        logger.error(`Data export ${item.id} failed:`, err);
+        await supabaseAdmin!
+          .from("data_exports")
+          .update({
+            status: DataExportStatus.FAILED,
+            error: err instanceof Error ? err.message : "Unknown error",
+            completed_at: new Date().toISOString(),
+          })
+          .eq("id", item.id);
+      }
+    }
+
+    return completed;
+  }, "Failed to process data exports");
+
+  /**
+   * Delete archives whose download window has passed
+   * @returns number of expired exports
+   */
+  static purgeExpiredExports = asyncHandler(async (): Promise<number> => {
+    const { data: expired, error } = await supabaseAdmin!
+      .from("data_exports")
+      .select("id, file_path")
+      .eq("status", DataExportStatus.READY)
+      .lt("expires_at", new Date().toISOString());
+
+    if (error) {
+      throw new AppError(error.message, 400);
+    }
+
+    for (const item of expired || []) {
+      if (item.file_path) {
+        await fs.rm(item.file_path, { force: true });
+      }
+
+      await supabaseAdmin!
+        .from("data_exports")
+        .update({ status: DataExportStatus.EXPIRED, file_path: null })
+        .eq("id", item.id);
+    }
+
+    // Archives of exports whose row is gone (deleted accounts) are swept by age
+    const files = await fs.readdir(EXPORT_DIR).catch(() => [] as string[]);
+    const cutoff = Date.now() - (EXPORT_TTL_HOURS + 1) * 60 * 60 * 1000;
+    for (const file of files) {
+      const filePath = path.join(EXPORT_DIR, file);
+      const stats = await fs.stat(filePath).catch(() => null);
+      if (stats && stats.mtimeMs < cutoff) {
+        await fs.rm(filePath, { force: true });
+      }
+    }
+
+    return expired?.length || 0;
+  }, "Failed to purge expired data exports");
+
+  /**
+   * Assemble, store and announce one export
+   */
+  private static async buildExport(
+    exportId: string,
+    userId: string
+  ): Promise<void> {
+    const entries = await this.collectUserData(userId);
+    const archive = createZip(entries);
+
+    await fs.mkdir(EXPORT_DIR, { recursive: true });
+    const filePath = path.join(EXPORT_DIR, `${exportId}.zip`);
+    await fs.writeFile(filePath, archive);
+
+    const expiresAt = new Date(Date.now() + EXPORT_TTL_HOURS * 60 * 60 * 1000);
+
+    const { error } = await supabaseAdmin!
+      .from("data_exports")
+      .update({
+        status: DataExportStatus.READY,
+        file_path: filePath,
+        file_size: archive.length,
+        completed_at: new Date().toISOString(),
+        expires_at: expiresAt.toISOString(),
+      })
+      .eq("id", exportId);
+
+    if (error) {
+      await fs.rm(filePath, { force: true });
+      throw new AppError(error.message, 400);
+    }
+
+    logger.info(
+      `Data export ${exportId} ready for user ${userId} (${archive.length} bytes)`
+    );
+
+    await this.notifyReady(exportId, userId, expiresAt);
+  }
+
+  /**
+   * Collect everything the user owns as one JSON file per source
+   */
+  private static async collectUserData(userId: string): Promise<ZipEntry[]> {
+    const files: Record<string, unknown> = {};
+
+    const { data: account, error: accountError } = await supabaseAdmin!
+      .from("users")
+      .select(
+        "id, email, first_name, last_name, username, profile_picture, cover_picture, bio, location, contact_info, role, is_verified, is_active, settings, created_at, updated_at"
+      )
+      .eq("id", userId)
+      .single();
+
+    if (accountError) {
+      throw new AppError(accountError.message, 400);
+    }
+    files.account = account;
+
+    for (const table of USER_OWNED_TABLES) {
+      const rule = DATA_EXPORT_RULES[table];
+      if (rule?.skip) continue;
+
+      const rows = await this.fetchAll(table, query =>
+        query.eq("user_id", userId)
+      );
+      files[table] = rule?.omitColumns
+        ? rows.map(row => this.omit(row, rule.omitColumns!))
+        : rows;
+    }
+
+    const postIds = (files.posts as { id: string }[]).map(post => post.id);
+    files.post_media = await this.fetchAllIn("post_media", "post_id", postIds);
+
+    files.friendships = await this.fetchAll("friendships", query =>
+      query.or(`requester_id.eq.${userId},addressee_id.eq.${userId}`)
+    );
+    files.follows = await this.fetchAll("follows", query =>
+      query.or(`follower_id.eq.${userId},followee_id.eq.${userId}`)
+    );
+
+    const participations = await this.fetchAll("chat_participants", query =>
+      query.eq("user_id", userId)
+    );
+    const chatIds = participations.map(row => row.chat_id as string);
+    files.chat_participants = participations;
+    files.chats = await this.fetchAllIn("chats", "id", chatIds);
+    files.messages = await this.fetchAllIn("messages", "chat_id", chatIds);
+
+    const exportedAt = new Date().toISOString();
+    return [
+      {
+        name: "README.txt",
+        data: [
+          `Data export for user ${userId}, created ${exportedAt}.`,
+          "",
+          "Each JSON file holds the rows stored about you in one part of the platform.",
+          "messages.json contains every message in the chats you take part in.",
+          "Media files are referenced by URL (see post_media.json and stories.json).",
+          "",
+        ].join("\n"),
+      },
+      ...Object.entries(files).map(([name, rows]) => ({
+        name: `${name}.json`,
+        data: JSON.stringify(rows, null, 2),
+      })),
+    ];
+  }
+
+  /**
+   * Read every matching row, a page at a time
+   */
+  private static async fetchAll(
+    table: string,
+    filter: (query: any) => any
+  ): Promise<Record<string, unknown>[]> {
+    const rows: Record<string, unknown>[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await filter(
+        supabaseAdmin!.from(table).select("*")
+      ).range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new AppError(`Failed to export ${table}: ${error.message}`, 400);
+      }
+
+      rows.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) return rows;
+    }
+  }
+
+  private static async fetchAllIn(
+    table: string,
+    column: string,
+    values: string[]
+  ): Promise<Record<string, unknown>[]> {
+    const rows: Record<string, unknown>[] = [];
+
+    for (let i = 0; i < values.length; i += IN_FILTER_CHUNK) {
+      const chunk = values.slice(i, i + IN_FILTER_CHUNK);
+      rows.push(
+        ...(await this.fetchAll(table, query => query.in(column, chunk)))
+      );
+    }
+
+    return rows;
+  }
+
+  private static omit(
+    row: Record<string, unknown>,
+    columns: string[]
+  ): Record<string, unknown> {
+    return Object.fromEntries(
+      Object.entries(row).filter(([column]) => !columns.includes(column))
+    );
+  }
+
+  private static signDownloadToken(
+    exportId: string,
+    userId: string,
+    expiresAt: Date
+  ): string {
+    return jwt.sign(
+      { id: exportId, uid: userId, purpose: "data_export" },
+      DOWNLOAD_SECRET,
+      {
+        expiresIn: Math.max(
+          Math.floor((expiresAt.getTime() - Date.now()) / 1000),
+          1
+        ),
+      }
+    );
+  }
+
+  private static async notifyReady(
+    exportId: string,
+    userId: string,
+    expiresAt: Date
+  ): Promise<void> {
+    try {
+      await NotificationService.createNotification({
+        user_id: userId as UUID,
+        actor_id: userId as UUID,
+        reference_id: exportId as UUID,
+        reference_type: ReferenceType.DATA_EXPORT,
+        content: "Your data export is ready to download",
+      });
+
+      const user = await UserService.findUserById(userId);
+      if (user) {
+        await EmailService.sendDataExportReadyEmail(
+          user.email,
+          `${user.first_name} ${user.last_name}`,
+          exportId,
+          this.signDownloadToken(exportId, userId, expiresAt),
+          expiresAt
+        );
+      }
+    } catch (error) {
+      // The export stays downloadable from the exports list
+      logger.error(`Failed to announce data export ${exportId}:`, error);
+    }
+  }
+}
@@ -0,0 +1,202 @@
+// src/services/deviceSessionService.ts
+import { supabase } from "../config/supabase";
+import { AppError } from "../middlewares/errorHandler";
+import { asyncHandler } from "../utils/asyncHandler";
+import { logger } from "../utils/logger";
+import { getIO } from "../socketio";
+import { getUserSocketIds } from "../socketio/handlers/connectionHandler";
+import { SessionService } from "./sessionService";
+import {
+  ActiveDevice,
+  SessionRevocationReason,
+  UserSession,
+} from "../models/session.model";
+
+/**
+ * Service class for the "where you're signed in" device list
+ */
+export class DeviceSessionService {
+  /**
+   * List the devices a user currently has active sessions on
+   */
+  static listActiveDevices = asyncHandler(
+    async (
+      userId: string,
+      currentSessionId?: string
+    ): Promise<ActiveDevice[]> => {
+      const { data: sessions, error } = await supabase
+        .from("user_sessions")
+        .select("*")
+        .eq("user_id", userId)
+        .is("revoked_at", null)
+        .gt("expires_at", new Date().toISOString())
+        .order("last_used_at", { ascending: false });
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      if (!sessions || sessions.length === 0) {
+        return [];
+      }
+
+      // Group sessions by device; sessions without a device token stand alone
+      const groups = new Map<string, UserSession[]>();
+      for (const session of sessions as UserSession[]) {
+        const key = session.device_token || `session:${session.id}`;
+        groups.set(key, [...(groups.get(key) || []), session]);
+      }
+
+      const { data: devices, error: devicesError } = await supabase
+        .from("user_devices")
+        .select("id, device_token, device_type, last_active")
+        .eq("user_id", userId);
+
+      if (devicesError) {
+        throw new AppError(devicesError.message, 400);
+      }
+
+      const devicesByToken = new Map(
+        (devices || []).map(device => [device.device_token, device])
+      );
+
+      // Latest known location per device
+      const deviceIds = (devices || []).map(device => device.id);
+      const locationsByDevice = new Map<
+        string,
+        { city: string | null; country: string | null }
+      >();
+
+      if (deviceIds.length > 0) {
+        const { data: locations, error: locationsError } = await supabase
+          .from("user_locations")
+          .select("device_id, city, country, created_at")
+          .eq("user_id", userId)
+          .in("device_id", deviceIds)
+          .order("created_at", { ascending: false });
+
+        if (locationsError) {
+          throw new AppError(locationsError.message, 400);
+        }
+
+        for (const location of locations || []) {
+          if (!locationsByDevice.has(location.device_id)) {
+            locationsByDevice.set(location.device_id, {
+              city: location.city,
+              country: location.country,
+            });
+          }
+        }
+      }
+
+      return Array.from(groups.values()).map(group => {
+        // Sessions are ordered by last use, so the first one is the newest
+        const latest = group[0];
+        const device = latest.device_token
+          ? devicesByToken.get(latest.device_token)
+          : undefined;
+        const location = device ? locationsByDevice.get(device.id) : undefined;
+
+        const lastActive = new Date(
+          Math.max(
+            new Date(latest.last_used_at).getTime(),
+            device?.last_active ? new Date(device.last_active).getTime() : 0
+          )
+        );
+
+        return {
+          sessionId: latest.id,
+          sessionCount: group.length,
+          deviceType: latest.device_type ?? device?.device_type ?? null,
+          userAgent: latest.user_agent ?? null,
+          ipAddress: latest.ip_address ?? null,
+          city: location?.city ?? null,
+          country: location?.country ?? null,
+          signedInAt: group.reduce(
+            (earliest, session) =>
+              new Date(session.created_at) < earliest
+                ? new Date(session.created_at)
+                : earliest,
+            new Date(latest.created_at)
+          ),
+          lastActive,
+          isCurrent: group.some(session => session.id === currentSessionId),
+        };
+      });
+    },
+    "Failed to list active devices"
+  );
+
+  /**
+   * Sign out the device a session belongs to
+   * @returns number of revoked sessions
+   */
+  static signOutDevice = asyncHandler(
+    async (userId: string, sessionId: string): Promise<number> => {
+      const session = await SessionService.getSession(sessionId);
+      if (!session || session.user_id !== userId || session.revoked_at) {
+        throw new AppError("Session not found", 404);
+      }
+
+      const revokedIds = session.device_token
+        ? await SessionService.revokeDeviceSessions(
+            userId,
+            session.device_token,
+            SessionRevocationReason.LOGOUT
+          )
+        : [];
+
+      if (!revokedIds.includes(session.id)) {
+        await SessionService.revokeSession(
+          session.id,
+          SessionRevocationReason.LOGOUT
+        );
+        revokedIds.push(session.id);
+      }
+
+      this.disconnectSessions(userId, revokedIds);
+      return revokedIds.length;
+    },
+    "Failed to sign out device"
+  );
+
+  /**
+   * Sign out every device except the one making the request
+   * @returns number of revoked sessions
+   */
+  static signOutOtherDevices = asyncHandler(
+    async (userId: string, currentSessionId?: string): Promise<number> => {
+      const revokedIds = await SessionService.revokeAllUserSessions(
+        userId,
+        SessionRevocationReason.LOGOUT_ALL,
+        currentSessionId
+      );
+
+      this.disconnectSessions(userId, revokedIds);
+      return revokedIds.length;
+    },
+    "Failed to sign out other devices"
+  );
+
+  /**
+   * Force-disconnect the user's sockets that were opened with any of the
+   * given sessions
+   */
+  static disconnectSessions(userId: string, sessionIds: string[]): void {
+    if (sessionIds.length === 0) return;
+
+    const revoked = new Set(sessionIds);
+    const io = getIO();
+
+    for (const socketId of getUserSocketIds(userId)) {
+      const socket = io.sockets?.sockets.get(socketId);
+      if (socket && revoked.has(socket.data.sessionId)) {
+        socket.emit("session:revoked", { sessionId: socket.data.sessionId });
+        socket.disconnect(true);
+        logger.info(
+          `Disconnected socket ${socketId} of revoked session ${socket.data.sessionId}`
+        );
+      }
+    }
+  }
+}
@@ -298,4 +298,412 @@ export class EmailService {
       html,
     });
   }
+
+  /**
+   * Send email address verification link
+   * @param email User email
+   * @param verificationToken Signed verification token
+   * @param userName User's name
+   * @returns Promise with result
+   */
+  static async sendVerificationEmail(
+    email: string,
+    verificationToken: string,
+    userName: string
+  ): Promise<boolean> {
+    const verifyUrl = `${
+      process.env.FRONTEND_URL || "http://localhost:3000"
+    }/verify-email?token=${verificationToken}`;
+    const expiryTime = process.env.EMAIL_VERIFICATION_EXPIRY || "24 hours";
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background-color: #4F46E5; color: white; padding: 20px; text-align: center; border-radius: 5px 5px 0 0; }
+            .content { background-color: #f9f9f9; padding: 30px; border-radius: 0 0 5px 5px; }
+            .button { display: inline-block; padding: 12px 30px; background-color: #4F46E5; color: white !important; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+            .footer { text-align: center; margin-top: 20px; font-size: 12px; color: #666; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Verify Your Email</h1>
+            </div>
+            <div class="content">
+              <p>Hello ${userName},</p>
+              <p>Please confirm your email address by clicking the button below:</p>
+              <div style="text-align: center;">
+                <a href="${verifyUrl}" class="button" style="color: white !important; background-color: #4F46E5; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block;">Verify Email</a>
+              </div>
+              <p>Or copy and paste this link into your browser:</p>
+              <p style="word-break: break-all; color: #4F46E5;">${verifyUrl}</p>
+              <p>This link will expire in ${expiryTime}. If you didn't create an account, you can ignore this email.</p>
+            </div>
+            <div class="footer">
+              <p>&copy; ${new Date().getFullYear()} Social Platform. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const text = `
+      Verify Your Email
+
+      Hello ${userName},
+
+      Please confirm your email address by opening the link below:
+      ${verifyUrl}
+
+      This link will expire in ${expiryTime}.
+
+      If you didn't create an account, you can ignore this email.
+    `;
+
+    return this.sendEmail({
+      to: email,
+      subject: "Verify Your Email - Social Platform",
+      text,
+      html,
+    });
+  }
+
+  /**
+   * Send new device / new location login alert
+   * @param email User email
+   * @param userName User's name
+   * @param details Where and what the login came from
+   * @param revokeToken Signed token for the "this wasn't me" link
+   * @returns Promise with result
+   */
+  static async sendLoginAlertEmail(
+    email: string,
+    userName: string,
+    details: {
+      deviceType: string;
+      ipAddress: string;
+      location: string;
+      time: Date;
+    },
+    revokeToken: string
+  ): Promise<boolean> {
+    const revokeUrl = `${
+      process.env.FRONTEND_URL || "http://localhost:3000"
+    }/secure-account?token=${revokeToken}`;
+    const loginTime = details.time.toUTCString();
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background-color: #F59E0B; color: white; padding: 20px; text-align: center; border-radius: 5px 5px 0 0; }
+            .content { background-color: #f9f9f9; padding: 30px; border-radius: 0 0 5px 5px; }
+            .button { display: inline-block; padding: 12px 30px; background-color: #EF4444; color: white !important; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+            .footer { text-align: center; margin-top: 20px; font-size: 12px; color: #666; }
+            .details { background-color: #FEF3C7; padding: 15px; border-left: 4px solid #F59E0B; margin: 20px 0; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>New Sign-in to Your Account</h1>
+            </div>
+            <div class="content">
+              <p>Hello ${userName},</p>
+              <p>We noticed a sign-in to your account from a device or location you haven't used before.</p>
+              <div class="details">
+                <ul>
+                  <li><strong>Device:</strong> ${details.deviceType}</li>
+                  <li><strong>Location:</strong> ${details.location}</li>
+                  <li><strong>IP address:</strong> ${details.ipAddress}</li>
+                  <li><strong>Time:</strong> ${loginTime}</li>
+                </ul>
+              </div>
+              <p>If this was you, no action is needed.</p>
+              <p>If this wasn't you, sign that device out right away and reset your password:</p>
+              <div style="text-align: center;">
+                <a href="${revokeUrl}" class="button" style="color: white !important; background-color: #EF4444; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block;">This wasn't me</a>
+              </div>
+            </div>
+            <div class="footer">
+              <p>&copy; ${new Date().getFullYear()} Social Platform. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const text = `
+      New Sign-in to Your Account
+
+      Hello ${userName},
+
+      We noticed a sign-in to your account from a device or location you haven't used before.
+
+      Device: ${details.deviceType}
+      Location: ${details.location}
+      IP address: ${details.ipAddress}
+      Time: ${loginTime}
+
+      If this was you, no action is needed.
+
+      If this wasn't you, sign that device out right away and reset your password:
+      ${revokeUrl}
+    `;
+
+    return this.sendEmail({
+      to: email,
+      subject: "New Sign-in to Your Account - Social Platform",
+      text,
+      html,
+    });
+  }
+
+  /**
+   * Send account locked email with an unlock link
+   * @param email User email
+   * @param unlockToken Signed unlock token
+   * @param userName User's name
+   * @param lockMinutes How long the lock lasts if not lifted
+   * @returns Promise with result
+   */
+  static async sendAccountLockedEmail(
+    email: string,
+    unlockToken: string,
+    userName: string,
+    lockMinutes: number
+  ): Promise<boolean> {
+    const unlockUrl = `${
+      process.env.FRONTEND_URL || "http://localhost:3000"
+    }/unlock-account?token=${unlockToken}`;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background-color: #EF4444; color: white; padding: 20px; text-align: center; border-radius: 5px 5px 0 0; }
+            .content { background-color: #f9f9f9; padding: 30px; border-radius: 0 0 5px 5px; }
+            .button { display: inline-block; padding: 12px 30px; background-color: #4F46E5; color: white !important; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+            .footer { text-align: center; margin-top: 20px; font-size: 12px; color: #666; }
+            .warning { background-color: #FEF3C7; padding: 15px; border-left: 4px solid #F59E0B; margin: 20px 0; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Account Temporarily Locked</h1>
+            </div>
+            <div class="content">
+              <p>Hello ${userName},</p>
+              <p>We locked sign-in to your account for ${lockMinutes} minutes after several failed login attempts.</p>
+              <p>If these attempts were you, you can unlock your account now:</p>
+              <div style="text-align: center;">
+                <a href="${unlockUrl}" class="button" style="color: white !important; background-color: #4F46E5; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block;">Unlock Account</a>
+              </div>
+              <div class="warning">
+                <strong>⚠️ Wasn't you?</strong>
+                <p>Someone may be trying to guess your password. We recommend resetting it.</p>
+              </div>
+            </div>
+            <div class="footer">
+              <p>&copy; ${new Date().getFullYear()} Social Platform. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const text = `
+      Account Temporarily Locked
+
+      Hello ${userName},
+
+      We locked sign-in to your account for ${lockMinutes} minutes after several failed login attempts.
+
+      If these attempts were you, you can unlock your account now:
+      ${unlockUrl}
+
+      If this wasn't you, someone may be trying to guess your password. We recommend resetting it.
+    `;
+
+    return this.sendEmail({
+      to: email,
+      subject: "Account Temporarily Locked - Social Platform",
+      text,
+      html,
+    });
+  }
+
+  /**
+   * Send confirmation that an account was deactivated, and when it will be
+   * deleted if a deletion was requested
+   * @param email User email
+   * @param userName User's name
+   * @param deletionScheduledFor When the account will be deleted, if at all
+   * @returns Promise with result
+   */
+  static async sendAccountDeactivatedEmail(
+    email: string,
+    userName: string,
+    deletionScheduledFor: Date | null
+  ): Promise<boolean> {
+    const loginUrl = `${
+      process.env.FRONTEND_URL || "http://localhost:3000"
+    }/login`;
+    const deletionDate = deletionScheduledFor
+      ? deletionScheduledFor.toUTCString()
+      : null;
+
+    const summary = deletionDate
+      ? `Your account has been deactivated and is scheduled for permanent deletion on ${deletionDate}.`
+      : "Your account has been deactivated. Your profile, posts and stories are hidden until you come back.";
+    const restoreHint = deletionDate
+      ? "Changed your mind? Log in before that date to restore your account and cancel the deletion."
+      : "You can restore your account at any time by logging in.";
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background-color: #4F46E5; color: white; padding: 20px; text-align: center; border-radius: 5px 5px 0 0; }
+            .content { background-color: #f9f9f9; padding: 30px; border-radius: 0 0 5px 5px; }
+            .button { display: inline-block; padding: 12px 30px; background-color: #4F46E5; color: white !important; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+            .footer { text-align: center; margin-top: 20px; font-size: 12px; color: #666; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>${deletionDate ? "Account Deletion Scheduled" : "Account Deactivated"}</h1>
+            </div>
+            <div class="content">
+              <p>Hello ${userName},</p>
+              <p>${summary}</p>
+              <p>${restoreHint}</p>
+              <div style="text-align: center;">
+                <a href="${loginUrl}" class="button" style="color: white !important; background-color: #4F46E5; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block;">Log In</a>
+              </div>
+              <p>If you didn't do this, log in and restore your account, then change your password.</p>
+            </div>
+            <div class="footer">
+              <p>&copy; ${new Date().getFullYear()} Social Platform. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const text = `
+      ${deletionDate ? "Account Deletion Scheduled" : "Account Deactivated"}
+
+      Hello ${userName},
+
+      ${summary}
+
+      ${restoreHint}
+      ${loginUrl}
+
+      If you didn't do this, log in and restore your account, then change your password.
+    `;
+
+    return this.sendEmail({
+      to: email,
+      subject: deletionDate
+        ? "Account Deletion Scheduled - Social Platform"
+        : "Account Deactivated - Social Platform",
+      text,
+      html,
+    });
+  }
+
+  /**
+   * Send a link to a finished data export
+   * @param email User email
+   * @param userName User's name
+   * @param exportId Data export ID
+   * @param downloadToken Signed download token
+   * @param expiresAt When the download link stops working
+   * @returns Promise with result
+   */
+  static async sendDataExportReadyEmail(
+    email: string,
+    userName: string,
+    exportId: string,
+    downloadToken: string,
+    expiresAt: Date
+  ): Promise<boolean> {
+    const downloadUrl = `${
+      process.env.FRONTEND_URL || "http://localhost:3000"
+    }/data-export/download?export=${exportId}&token=${downloadToken}`;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background-color: #4F46E5; color: white; padding: 20px; text-align: center; border-radius: 5px 5px 0 0; }
+            .content { background-color: #f9f9f9; padding: 30px; border-radius: 0 0 5px 5px; }
+            .button { display: inline-block; padding: 12px 30px; background-color: #4F46E5; color: white !important; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+            .footer { text-align: center; margin-top: 20px; font-size: 12px; color: #666; }
+            .warning { background-color: #FEF3C7; padding: 15px; border-left: 4px solid #F59E0B; margin: 20px 0; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Your Data Export Is Ready</h1>
+            </div>
+            <div class="content">
+              <p>Hello ${userName},</p>
+              <p>The copy of your data you requested is ready. The link below works until ${expiresAt.toUTCString()}.</p>
+              <div style="text-align: center;">
+                <a href="${downloadUrl}" class="button" style="color: white !important; background-color: #4F46E5; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block;">Download My Data</a>
+              </div>
+              <div class="warning">
+                <strong>⚠️ Keep it private</strong>
+                <p>The archive contains your personal information and messages. Don't forward this email.</p>
+              </div>
+            </div>
+            <div class="footer">
+              <p>&copy; ${new Date().getFullYear()} Social Platform. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const text = `
+      Your Data Export Is Ready
+
+      Hello ${userName},
+
+      The copy of your data you requested is ready. The link below works until ${expiresAt.toUTCString()}:
+      ${downloadUrl}
+
+      The archive contains your personal information and messages. Don't forward this email.
+    `;
+
+    return this.sendEmail({
+      to: email,
+      subject: "Your Data Export Is Ready - Social Platform",
+      text,
+      html,
+    });
+  }
 }
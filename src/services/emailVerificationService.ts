@@ -0,0 +1,217 @@
+// src/services/emailVerificationService.ts
+import jwt from "jsonwebtoken";
+import { UUID } from "crypto";
+import { config } from "dotenv";
+import { supabase } from "../config/supabase";
+import { AppError } from "../middlewares/errorHandler";
+import { asyncHandler } from "../utils/asyncHandler";
+import { logger } from "../utils/logger";
+import { redisService } from "./redis.service";
+import { UserService } from "./userService";
+import { EmailService } from "./emailService";
+import { FriendshipService } from "./friendshipService";
+import { messageService } from "./messageService";
+import { User } from "../types/models";
+
+config();
+
+const JWT_SECRET = process.env.JWT_SECRET || "your_jwt_secret_key_here";
+
+// Separate secret so a verification token can never pass as an access token
+const VERIFICATION_SECRET =
+  process.env.EMAIL_VERIFICATION_SECRET || `${JWT_SECRET}:email-verification`;
+const VERIFICATION_TTL_SECONDS =
+  parseInt(process.env.EMAIL_VERIFICATION_EXPIRY_HOURS || "24") * 60 * 60;
+const MAX_RESENDS_PER_WINDOW = 5;
+
+interface VerificationTokenPayload {
+  id: string;
+  email: string;
+  purpose: "email_verification";
+}
+
+/**
+ * Service class for email address verification
+ */
+export class EmailVerificationService {
+  /**
+   * Email a signed verification link to the user
+   */
+  static sendVerificationEmail = asyncHandler(
+    async (
+      user: Pick<User, "id" | "email" | "first_name" | "last_name">
+    ): Promise<void> => {
+      // The email is part of the token so changing address voids old links
+      const token = jwt.sign(
+        { id: user.id, email: user.email, purpose: "email_verification" },
+        VERIFICATION_SECRET,
+        { expiresIn: VERIFICATION_TTL_SECONDS }
+      );
+
+      const sent = await EmailService.sendVerificationEmail(
+        user.email,
+        token,
+        `${user.first_name} ${user.last_name}`
+      );
+
+      if (!sent) {
+        throw new AppError(
+          "Failed to send verification email. Please try again later.",
+          500
+        );
+      }
+
+      logger.info(`Verification email sent to: ${user.email}`);
+    },
+    "Failed to send verification email"
+  );
+
+  /**
+   * Resend the verification email, throttled per user
+   */
+  static resendVerificationEmail = asyncHandler(
+    async (userId: string): Promise<void> => {
+      const user = await UserService.findUserById(userId);
+      if (!user) {
+        throw new AppError("User not found", 404);
+      }
+
+      if (user.is_verified) {
+        throw new AppError("Email is already verified", 400);
+      }
+
+      const ttl = redisService.getTTL();
+      const cooldownKey = redisService.keys.emailVerificationCooldown(userId);
+      if ((await redisService.get<boolean>(cooldownKey)) !== null) {
+        throw new AppError(
+          "Please wait a minute before requesting another verification email",
+          429
+        );
+      }
+
+      const resends = await redisService.increment(
+        redisService.keys.emailVerificationResends(userId),
+        ttl.EMAIL_VERIFICATION_WINDOW
+      );
+      if (resends !== null && resends > MAX_RESENDS_PER_WINDOW) {
+        throw new AppError(
+          "Too many verification emails requested. Please try again later",
+          429
+        );
+      }
+
+      await redisService.set(
+        cooldownKey,
+        true,
+        ttl.EMAIL_VERIFICATION_COOLDOWN
+      );
+
+      await this.sendVerificationEmail(user);
+    },
+    "Failed to resend verification email"
+  );
+
+  /**
+   * Verify a token from the verification email and mark the user verified
+   */
+  static verifyEmail = asyncHandler(async (token: string): Promise<User> => {
+    let payload: VerificationTokenPayload;
+    try {
+      payload = jwt.verify(
+        token,
+        VERIFICATION_SECRET
+      ) as VerificationTokenPayload;
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw new AppError("Verification link has expired", 400);
+      }
+      throw new AppError("Invalid verification link", 400);
+    }
+
+    if (payload.purpose !== "email_verification") {
+      throw new AppError("Invalid verification link", 400);
+    }
+
+    const user = await UserService.findUserById(payload.id);
+    if (!user || user.email !== payload.email) {
+      throw new AppError("Invalid verification link", 400);
+    }
+
+    if (user.is_verified) {
+      return user;
+    }
+
+    const updatedUser = await UserService.updateUser(user.id, {
+      is_verified: true,
+    });
+
+    // findUserById is cached; drop it so gates see the new status right away
+    await redisService.delete(redisService.keys.userBasic(user.id));
+
+    logger.info(`Email verified for user: ${user.email}`);
+    return updatedUser;
+  }, "Failed to verify email");
+
+  /**
+   * Unverified users may only start one-to-one conversations with friends.
+   * Verified senders return after a single cached lookup.
+   */
+  static assertCanMessageUsers = asyncHandler(
+    async (senderId: string, recipientIds: string[]): Promise<void> => {
+      const sender = await UserService.findUserById(senderId);
+      if (!sender || sender.is_verified) {
+        return;
+      }
+
+      for (const recipientId of recipientIds) {
+        if (recipientId === senderId) continue;
+
+        const areFriends = await FriendshipService.checkIfUsersAreFriends(
+          senderId as UUID,
+          recipientId as UUID
+        );
+        if (!areFriends) {
+          throw new AppError(
+            "Please verify your email to message people who aren't your friends",
+            403
+          );
+        }
+      }
+    },
+    "Failed to check messaging permission"
+  );
+
+  /**
+   * Apply the unverified-sender rule to an existing chat; group chats are
+   * not direct messages and are always allowed
+   */
+  static assertCanMessageChat = asyncHandler(
+    async (senderId: string, chatId: string): Promise<void> => {
+      const sender = await UserService.findUserById(senderId);
+      if (!sender || sender.is_verified) {
+        return;
+      }
+
+      const { data: chat, error } = await supabase
+        .from("chats")
+        .select("is_group_chat")
+        .eq("id", chatId)
+        .maybeSingle();
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      if (!chat || chat.is_group_chat) {
+        return;
+      }
+
+      const participants = await messageService.getChatParticipants(chatId);
+      await this.assertCanMessageUsers(
+        senderId,
+        participants.map(participant => participant.id)
+      );
+    },
+    "Failed to check messaging permission"
+  );
+}
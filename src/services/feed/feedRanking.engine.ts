@@ -0,0 +1,159 @@
+// src/services/feed/feedRanking.engine.ts
+import { logger } from "../../utils/logger";
+import { isExcludedByFeedback } from "../../utils/feedFeedback";
+import {
+  CandidateSource,
+  FeedCandidate,
+  FeedRankingContext,
+  RankedPost,
+  RankingFeature,
+  RankingOptions,
+} from "./feedRanking.types";
+
+/**
+ * Collects candidates from every registered source, scores each one with
+ * every registered feature and returns a single list, best first.
+ * Posts the viewer's feedback rules out are dropped whichever source
+ * produced them.
+ * A failing source or feature is logged and left out rather than failing
+ * the whole feed.
+ */
+export class FeedRankingEngine {
+  private sources: CandidateSource[];
+  private features: RankingFeature<any>[];
+
+  constructor(
+    sources: CandidateSource[] = [],
+    features: RankingFeature<any>[] = []
+  ) {
+    this.sources = [...sources];
+    this.features = [...features];
+  }
+
+  /**
+   * Add a candidate source, replacing any source with the same name.
+   * Sources registered earlier win when naming a post's feed_type.
+   */
+  registerSource(source: CandidateSource): void {
+    const index = this.sources.findIndex(s => s.name === source.name);
+    if (index === -1) {
+      this.sources.push(source);
+    } else {
+      this.sources[index] = source;
+    }
+  }
+
+  /**
+   * Add a scoring feature, replacing any feature with the same name
+   */
+  registerFeature(feature: RankingFeature<any>): void {
+    const index = this.features.findIndex(f => f.name === feature.name);
+    if (index === -1) {
+      this.features.push(feature);
+    } else {
+      this.features[index] = feature;
+    }
+  }
+
+  async rank(
+    ctx: FeedRankingContext,
+    options: RankingOptions
+  ): Promise<{ posts: RankedPost[]; sourceCounts: Record<string, number> }> {
+    const { candidates, sourceCounts } = await this.collect(
+      ctx,
+      options.candidatesPerSource
+    );
+
+    const prepared = await Promise.all(
+      this.features.map(async feature => {
+        try {
+          const data = feature.prepare
+            ? await feature.prepare(ctx, candidates)
+            : undefined;
+          return { feature, data, ready: true };
+        } catch (error) {
+          logger.warn(`Feed ranking feature ${feature.name} failed:`, error);
+          return { feature, data: undefined, ready: false };
+        }
+      })
+    );
+    const features = prepared.filter(f => f.ready);
+
+    const ranked: RankedPost[] = candidates.map(candidate => {
+      const scores = features.map(({ feature, data }) => ({
+        name: feature.name,
+        ...feature.evaluate(candidate, ctx, data),
+      }));
+      const score =
+        Math.round(scores.reduce((sum, s) => sum + s.score, 0) * 100) / 100;
+
+      return {
+        post: candidate.post,
+        feed_type: candidate.sources[0],
+        score,
+        ...(options.explain && {
+          explanation: { score, sources: candidate.sources, features: scores },
+        }),
+      };
+    });
+
+    ranked.sort(
+      (a, b) =>
+        b.score - a.score ||
+        new Date(b.post.created_at).getTime() -
+          new Date(a.post.created_at).getTime() ||
+        String(a.post.id).localeCompare(String(b.post.id))
+    );
+
+    return { posts: ranked, sourceCounts };
+  }
+
+  /**
+   * Fetch from every source and merge duplicates, remembering each source.
+   * Other people's posts excluded by the viewer's feedback are left out.
+   */
+  private async collect(
+    ctx: FeedRankingContext,
+    limit: number
+  ): Promise<{
+    candidates: FeedCandidate[];
+    sourceCounts: Record<string, number>;
+  }> {
+    const results = await Promise.all(
+      this.sources.map(async source => {
+        try {
+          return await source.fetch(ctx, limit);
+        } catch (error) {
+          logger.warn(`Feed candidate source ${source.name} failed:`, error);
+          return [];
+        }
+      })
+    );
+
+    const candidates = new Map<string, FeedCandidate>();
+    const sourceCounts: Record<string, number> = {};
+
+    results.forEach((fetched, index) => {
+      const name = this.sources[index].name;
+      const posts = ctx.feedback
+        ? fetched.filter(
+            post =>
+              post.user_id === ctx.userId ||
+              !isExcludedByFeedback(post, ctx.feedback!)
+          )
+        : fetched;
+      sourceCounts[name] = posts.length;
+
+      for (const post of posts) {
+        const existing = candidates.get(post.id);
+        if (!existing) {
+          candidates.set(post.id, { post, sources: [name] });
+        } else if (!existing.sources.includes(name)) {
+          existing.sources.push(name);
+        }
+      }
+    });
+
+    return { candidates: [...candidates.values()], sourceCounts };
+  }
+}
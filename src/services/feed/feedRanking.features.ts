@@ -0,0 +1,329 @@
+// src/services/feed/feedRanking.features.ts
+import { supabase } from "../../config/supabase";
+import { redisService } from "../redis.service";
+import { MediaType } from "../../models/post.model";
+import {
+  FeatureScore,
+  FeedCandidate,
+  FeedRankingContext,
+  RankingFeature,
+} from "./feedRanking.types";
+
+const HOUR_MS = 60 * 60 * 1000;
+// PostgREST puts .in() filters in the URL, so look ids up in batches
+const ID_BATCH_SIZE = 100;
+
+const points = (score: number): FeatureScore["score"] =>
+  Math.round(score * 100) / 100;
+
+const signed = (score: number): string =>
+  `${score >= 0 ? "+" : ""}${points(score)}`;
+
+const ageInHours = (post: any, ctx: FeedRankingContext): number =>
+  Math.max(
+    0,
+    (ctx.now.getTime() - new Date(post.created_at).getTime()) / HOUR_MS
+  );
+
+const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) =>
+    items.slice(i * size, (i + 1) * size)
+  );
+
+/**
+ * 1. Recency decay: newer posts score higher, halving every day
+ */
+export class RecencyDecayFeature implements RankingFeature<void> {
+  name = "RecencyDecay";
+  private static HALF_LIFE_HOURS = 24;
+  private static MAX_SCORE = 100;
+
+  evaluate({ post }: FeedCandidate, ctx: FeedRankingContext): FeatureScore {
+    const hours = ageInHours(post, ctx);
+    const score =
+      RecencyDecayFeature.MAX_SCORE *
+      Math.pow(0.5, hours / RecencyDecayFeature.HALF_LIFE_HOURS);
+
+    return {
+      score: points(score),
+      reason: `Posted ${hours.toFixed(1)}h ago (${signed(score)})`,
+    };
+  }
+}
+
+/**
+ * 2. Author affinity: friends, and authors the viewer recently reacted to
+ * or commented on, score higher
+ */
+export class AuthorAffinityFeature implements RankingFeature<
+  Record<string, number>
+> {
+  name = "AuthorAffinity";
+  private static WINDOW_DAYS = 30;
+  private static FRIEND_SCORE = 15;
+  private static MAX_INTERACTION_SCORE = 35;
+
+  async prepare(ctx: FeedRankingContext): Promise<Record<string, number>> {
+    const cacheKey = redisService.keys.feedAuthorAffinity(ctx.userId);
+    const cached = await redisService.get<Record<string, number>>(cacheKey);
+    if (cached) return cached;
+
+    const since = new Date(
+      ctx.now.getTime() - AuthorAffinityFeature.WINDOW_DAYS * 24 * HOUR_MS
+    ).toISOString();
+
+    const [reactions, comments] = await Promise.all([
+      supabase
+        .from("reactions")
+        .select("target_id")
+        .eq("user_id", ctx.userId)
+        .eq("target_type", "post")
+        .gte("created_at", since)
+        .limit(500),
+      supabase
+        .from("comments")
+        .select("post_id")
+        .eq("user_id", ctx.userId)
+        .eq("is_deleted", false)
+        .gte("created_at", since)
+        .limit(500),
+    ]);
+
+    if (reactions.error) throw reactions.error;
+    if (comments.error) throw comments.error;
+
+    // One entry per interaction, so repeat interactions count again
+    const interactedPostIds = [
+      ...(reactions.data || []).map(r => r.target_id as string),
+      ...(comments.data || []).map(c => c.post_id as string),
+    ];
+
+    const authorByPost = new Map<string, string>();
+    for (const ids of chunk([...new Set(interactedPostIds)], ID_BATCH_SIZE)) {
+      const { data, error } = await supabase
+        .from("posts")
+        .select("id, user_id")
+        .in("id", ids);
+
+      if (error) throw error;
+      (data || []).forEach(post => authorByPost.set(post.id, post.user_id));
+    }
+
+    const affinity: Record<string, number> = {};
+    for (const postId of interactedPostIds) {
+      const authorId = authorByPost.get(postId);
+      if (authorId && authorId !== ctx.userId) {
+        affinity[authorId] = (affinity[authorId] || 0) + 1;
+      }
+    }
+
+    await redisService.set(
+      cacheKey,
+      affinity,
+      redisService.getTTL().FEED_AUTHOR_AFFINITY
+    );
+
+    return affinity;
+  }
+
+  evaluate(
+    { post }: FeedCandidate,
+    ctx: FeedRankingContext,
+    affinity: Record<string, number>
+  ): FeatureScore {
+    if (post.user_id === ctx.userId) {
+      return { score: 0, reason: "Your own post (+0)" };
+    }
+
+    const reasons: string[] = [];
+    let score = 0;
+
+    if (ctx.friendIds.includes(post.user_id)) {
+      score += AuthorAffinityFeature.FRIEND_SCORE;
+      reasons.push(`friend (+${AuthorAffinityFeature.FRIEND_SCORE})`);
+    }
+
+    const interactions = affinity[post.user_id] || 0;
+    if (interactions > 0) {
+      const interactionScore = Math.min(
+        AuthorAffinityFeature.MAX_INTERACTION_SCORE,
+        10 * Math.log2(1 + interactions)
+      );
+      score += interactionScore;
+      reasons.push(
+        `${interactions} recent interactions (${signed(interactionScore)})`
+      );
+    }
+
+    return {
+      score: points(score),
+      reason: reasons.length
+        ? `Author: ${reasons.join(", ")}`
+        : "No affinity with author (+0)",
+    };
+  }
+}
+
+/**
+ * 3. Media type: posts with video or images score higher than text
+ */
+export class MediaTypeFeature implements RankingFeature<void> {
+  name = "MediaType";
+  private static SCORES: Partial<Record<MediaType, number>> = {
+    [MediaType.VIDEO]: 10,
+    [MediaType.IMAGE]: 6,
+  };
+
+  evaluate({ post }: FeedCandidate): FeatureScore {
+    const types: MediaType[] = (post.post_media || []).map(
+      (media: any) => media.media_type
+    );
+
+    const best = types.reduce<{ type: MediaType | null; score: number }>(
+      (top, type) => {
+        const score = MediaTypeFeature.SCORES[type] ?? 0;
+        return score > top.score ? { type, score } : top;
+      },
+      { type: null, score: 0 }
+    );
+
+    return best.type
+      ? { score: best.score, reason: `Has ${best.type} (+${best.score})` }
+      : { score: 0, reason: "Text only (+0)" };
+  }
+}
+
+/**
+ * 4. Engagement velocity: reactions and comments per hour over the last day
+ */
+export class EngagementVelocityFeature implements RankingFeature<
+  Map<string, { reactions: number; comments: number }>
+> {
+  name = "EngagementVelocity";
+  private static WINDOW_HOURS = 24;
+  private static COMMENT_WEIGHT = 2;
+  private static MAX_SCORE = 30;
+
+  async prepare(
+    ctx: FeedRankingContext,
+    candidates: FeedCandidate[]
+  ): Promise<Map<string, { reactions: number; comments: number }>> {
+    const since = new Date(
+      ctx.now.getTime() - EngagementVelocityFeature.WINDOW_HOURS * HOUR_MS
+    ).toISOString();
+    const engagement = new Map<
+      string,
+      { reactions: number; comments: number }
+    >();
+    const entry = (postId: string) => {
+      if (!engagement.has(postId)) {
+        engagement.set(postId, { reactions: 0, comments: 0 });
+      }
+      return engagement.get(postId)!;
+    };
+
+    for (const ids of chunk(
+      candidates.map(c => c.post.id as string),
+      ID_BATCH_SIZE
+    )) {
+      const [reactions, comments] = await Promise.all([
+        supabase
+          .from("reactions")
+          .select("target_id")
+          .eq("target_type", "post")
+          .in("target_id", ids)
+          .gte("created_at", since),
+        supabase
+          .from("comments")
+          .select("post_id")
+          .in("post_id", ids)
+          .eq("is_deleted", false)
+          .gte("created_at", since),
+      ]);
+
+      if (reactions.error) throw reactions.error;
+      if (comments.error) throw comments.error;
+
+      (reactions.data || []).forEach(r => entry(r.target_id).reactions++);
+      (comments.data || []).forEach(c => entry(c.post_id).comments++);
+    }
+
+    return engagement;
+  }
+
+  evaluate(
+    { post }: FeedCandidate,
+    ctx: FeedRankingContext,
+    engagement: Map<string, { reactions: number; comments: number }>
+  ): FeatureScore {
+    const { reactions, comments } = engagement.get(post.id) || {
+      reactions: 0,
+      comments: 0,
+    };
+    if (reactions + comments === 0) {
+      return { score: 0, reason: "No recent engagement (+0)" };
+    }
+
+    // Young posts are measured over at least an hour so one early like
+    // doesn't look like a surge
+    const hours = Math.min(
+      Math.max(ageInHours(post, ctx), 1),
+      EngagementVelocityFeature.WINDOW_HOURS
+    );
+    const perHour =
+      (reactions + EngagementVelocityFeature.COMMENT_WEIGHT * comments) / hours;
+    const score = Math.min(
+      EngagementVelocityFeature.MAX_SCORE,
+      10 * Math.log2(1 + perHour)
+    );
+
+    return {
+      score: points(score),
+      reason: `${reactions} reactions, ${comments} comments, ${perHour.toFixed(2)}/h (${signed(score)})`,
+    };
+  }
+}
+
+/**
+ * 5. Boost weight: paid boosts targeting the viewer get a fixed lift
+ */
+export class BoostWeightFeature implements RankingFeature<void> {
+  name = "BoostWeight";
+  private static BOOST_SCORE = 25;
+
+  evaluate({ sources }: FeedCandidate): FeatureScore {
+    return sources.includes("boosted")
+      ? {
+          score: BoostWeightFeature.BOOST_SCORE,
+          reason: `Boosted (+${BoostWeightFeature.BOOST_SCORE})`,
+        }
+      : { score: 0, reason: "Not boosted (+0)" };
+  }
+}
+
+/**
+ * 6. Negative feedback: authors whose posts the viewer hid score lower,
+ * more so the more of their posts were hidden
+ */
+export class NegativeFeedbackFeature implements RankingFeature<void> {
+  name = "NegativeFeedback";
+  private static PENALTY_PER_HIDDEN_POST = 10;
+  private static MAX_PENALTY = 40;
+
+  evaluate({ post }: FeedCandidate, ctx: FeedRankingContext): FeatureScore {
+    const hidden = ctx.feedback?.hiddenAuthorCounts[post.user_id] || 0;
+    if (hidden === 0) {
+      return { score: 0, reason: "No hidden posts by author (+0)" };
+    }
+
+    const score = -Math.min(
+      NegativeFeedbackFeature.MAX_PENALTY,
+      NegativeFeedbackFeature.PENALTY_PER_HIDDEN_POST * hidden
+    );
+
+    return {
+      score,
+      reason: `You hid ${hidden} of the author's posts (${signed(score)})`,
+    };
+  }
+}
@@ -0,0 +1,331 @@
+// src/services/feed/feedRanking.sources.ts
+import { supabase } from "../../config/supabase";
+import { logger } from "../../utils/logger";
+import { redisService } from "../redis.service";
+import { PostVisibility } from "../../models/post.model";
+import { BoostStatus } from "../../models/boost.model";
+import { CandidateSource, FeedRankingContext } from "./feedRanking.types";
+import { FeedTimelineService } from "./feedTimeline.service";
+
+const POST_COLUMNS = `
+  *,
+  post_media(*),
+  users!inner(username, first_name, last_name, profile_picture)
+`;
+
+// Boosts and friend likes are supporting content; don't let them crowd the feed
+const MAX_BOOSTED_CANDIDATES = 10;
+const MAX_FRIEND_LIKED_CANDIDATES = 15;
+
+/**
+ * Load timeline posts by ID, newest first, dropping any that are no longer
+ * visible or whose author is excluded
+ */
+async function fetchTimelinePosts(
+  postIds: string[],
+  visibilities: PostVisibility[],
+  excludeUserIds: string[] = []
+): Promise<any[]> {
+  if (postIds.length === 0) return [];
+
+  let query = supabase
+    .from("posts")
+    .select(POST_COLUMNS)
+    .in("id", postIds)
+    .eq("is_deleted", false)
+    .eq("users.is_active", true)
+    .in("visibility", visibilities);
+
+  if (excludeUserIds.length > 0) {
+    query = query.not("user_id", "in", `(${excludeUserIds.join(",")})`);
+  }
+
+  const { data, error } = await query.order("created_at", {
+    ascending: false,
+  });
+
+  if (error) {
+    logger.warn("Failed to load timeline posts:", error);
+    return [];
+  }
+
+  return data || [];
+}
+
+/**
+ * 1. The viewer's own recent posts
+ */
+export class OwnPostsSource implements CandidateSource {
+  name = "own";
+
+  async fetch(ctx: FeedRankingContext, limit: number): Promise<any[]> {
+    const { data, error } = await supabase
+      .from("posts")
+      .select(POST_COLUMNS)
+      .eq("user_id", ctx.userId)
+      .eq("is_deleted", false)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      logger.warn("Failed to fetch user's own posts:", error);
+      return [];
+    }
+
+    return data || [];
+  }
+}
+
+/**
+ * 2. Recent posts by friends
+ */
+export class FriendsPostsSource implements CandidateSource {
+  name = "friends";
+
+  async fetch(ctx: FeedRankingContext, limit: number): Promise<any[]> {
+    if (ctx.friendIds.length === 0) return [];
+
+    const postIds = await FeedTimelineService.getHomeTimeline(
+      ctx.userId,
+      ctx.friendIds,
+      limit
+    );
+
+    if (postIds) {
+      const posts = await fetchTimelinePosts(postIds, [
+        PostVisibility.PUBLIC,
+        PostVisibility.FRIENDS,
+      ]);
+      // Guards friends-only posts if a timeline outlived an unfriending
+      return posts.filter(post => ctx.friendIds.includes(post.user_id));
+    }
+
+    const { data, error } = await supabase
+      .from("posts")
+      .select(POST_COLUMNS)
+      .in("user_id", ctx.friendIds)
+      .eq("is_deleted", false)
+      .eq("users.is_active", true)
+      .in("visibility", [PostVisibility.PUBLIC, PostVisibility.FRIENDS])
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      logger.warn("Failed to fetch friends posts:", error);
+      return [];
+    }
+
+    return data || [];
+  }
+}
+
+/**
+ * 3. Recent public posts by users the viewer follows without being friends
+ */
+export class FollowingPostsSource implements CandidateSource {
+  name = "following";
+
+  async fetch(ctx: FeedRankingContext, limit: number): Promise<any[]> {
+    const followedIds = (ctx.followingIds || []).filter(
+      id => !ctx.friendIds.includes(id)
+    );
+    if (followedIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from("posts")
+      .select(POST_COLUMNS)
+      .in("user_id", followedIds)
+      .eq("is_deleted", false)
+      .eq("users.is_active", true)
+      .eq("visibility", PostVisibility.PUBLIC)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      logger.warn("Failed to fetch followed users' posts:", error);
+      return [];
+    }
+
+    return data || [];
+  }
+}
+
+/**
+ * 4. Active boosts targeting the viewer's country that they haven't seen
+ */
+export class BoostedPostsSource implements CandidateSource {
+  name = "boosted";
+
+  async fetch(ctx: FeedRankingContext, limit: number): Promise<any[]> {
+    const { country } = ctx.userLocation;
+    if (!country) return [];
+
+    let locationBoosts = await redisService.getBoostedPosts(country);
+
+    if (!locationBoosts) {
+      const { data, error } = await supabase
+        .from("posts")
+        .select(
+          `${POST_COLUMNS}, post_boosts!inner(status, city, country, expires_at)`
+        )
+        .eq("post_boosts.status", BoostStatus.ACTIVE)
+        .eq("post_boosts.country", country)
+        .eq("is_deleted", false)
+        .eq("users.is_active", true)
+        .gte("post_boosts.expires_at", new Date().toISOString())
+        .order("created_at", { ascending: false })
+        .limit(20);
+
+      if (error) {
+        logger.warn("Failed to fetch location boosted posts:", error);
+        return [];
+      }
+
+      locationBoosts = data || [];
+      await redisService.setBoostedPosts(country, locationBoosts);
+    }
+
+    return locationBoosts
+      .filter(post => !ctx.seenBoosts.includes(post.id))
+      .slice(0, Math.min(limit, MAX_BOOSTED_CANDIDATES));
+  }
+}
+
+/**
+ * 5. Public posts by others that the viewer's friends liked recently
+ */
+export class FriendLikedPostsSource implements CandidateSource {
+  name = "friend_liked";
+
+  async fetch(ctx: FeedRankingContext, limit: number): Promise<any[]> {
+    if (ctx.friendIds.length === 0) return [];
+
+    const targetCount = Math.min(limit, MAX_FRIEND_LIKED_CANDIDATES);
+
+    // PostService.invalidateFriendLikedCache rebuilds this key
+    const cacheKey = `friend_liked_posts:${[...ctx.friendIds].sort().join(",")}`;
+    const cached = await redisService.get<any[]>(cacheKey);
+    if (cached && cached.length > 0) return cached;
+
+    const { data: reactionData, error } = await supabase
+      .from("reactions")
+      .select("target_id, created_at")
+      .in("user_id", ctx.friendIds)
+      .eq("target_type", "post")
+      .eq("reaction_type", "like")
+      .order("created_at", { ascending: false })
+      .limit(targetCount * 3);
+
+    if (error) {
+      logger.warn("Failed to fetch friend reactions:", error);
+      return [];
+    }
+
+    if (!reactionData || reactionData.length === 0) {
+      return [];
+    }
+
+    // Reactions are newest first, so the first time a post appears is its
+    // most recent like
+    const likedAt = new Map<string, number>();
+    for (const reaction of reactionData) {
+      if (!likedAt.has(reaction.target_id)) {
+        likedAt.set(
+          reaction.target_id,
+          new Date(reaction.created_at).getTime()
+        );
+      }
+    }
+
+    const { data: postsData, error: postsError } = await supabase
+      .from("posts")
+      .select(POST_COLUMNS)
+      .in("id", [...likedAt.keys()])
+      .eq("is_deleted", false)
+      .eq("users.is_active", true)
+      .eq("visibility", PostVisibility.PUBLIC)
+      .not("user_id", "in", `(${[ctx.userId, ...ctx.friendIds].join(",")})`)
+      .limit(targetCount * 2);
+
+    if (postsError) {
+      logger.warn("Failed to fetch friend-liked posts:", postsError);
+      return [];
+    }
+
+    const friendLikedPosts = (postsData || []).sort(
+      (a, b) => (likedAt.get(b.id) || 0) - (likedAt.get(a.id) || 0)
+    );
+
+    // Short TTL since likes change frequently
+    await redisService.set(cacheKey, friendLikedPosts, 300);
+
+    return friendLikedPosts;
+  }
+}
+
+/**
+ * 6. Recent public posts by others in the viewer's country
+ */
+export class LocationPostsSource implements CandidateSource {
+  name = "location";
+
+  async fetch(ctx: FeedRankingContext, limit: number): Promise<any[]> {
+    const { country } = ctx.userLocation;
+    if (!country) return [];
+
+    const postIds = await FeedTimelineService.getLocationTimeline(
+      country,
+      limit * 2
+    );
+    if (!postIds) return [];
+
+    const posts = await fetchTimelinePosts(
+      postIds,
+      [PostVisibility.PUBLIC],
+      [ctx.userId, ...ctx.friendIds]
+    );
+
+    return posts.slice(0, limit);
+  }
+}
+
+/**
+ * 7. Recent public posts from everyone else, to fill the feed
+ */
+export class PublicPostsSource implements CandidateSource {
+  name = "public";
+
+  async fetch(ctx: FeedRankingContext, limit: number): Promise<any[]> {
+    const excludeUserIds = [ctx.userId, ...ctx.friendIds];
+
+    // The timeline is shared across viewers, so read extra to cover the
+    // viewer's own and friends' posts being filtered out
+    const postIds = await FeedTimelineService.getPublicTimeline(limit * 2);
+
+    if (postIds) {
+      const posts = await fetchTimelinePosts(
+        postIds,
+        [PostVisibility.PUBLIC],
+        excludeUserIds
+      );
+      return posts.slice(0, limit);
+    }
+
+    const { data, error } = await supabase
+      .from("posts")
+      .select(POST_COLUMNS)
+      .eq("is_deleted", false)
+      .eq("users.is_active", true)
+      .eq("visibility", PostVisibility.PUBLIC)
+      .not("user_id", "in", `(${excludeUserIds.join(",")})`)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      logger.warn("Failed to fetch public posts:", error);
+      return [];
+    }
+
+    return data || [];
+  }
+}
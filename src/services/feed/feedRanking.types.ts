@@ -0,0 +1,80 @@
+// src/services/feed/feedRanking.types.ts
+import { UserLocation } from "../redis.service";
+import { FeedFeedbackSignals } from "../../models/feed-feedback.model";
+
+/**
+ * Everything known about the viewer when their feed is ranked
+ */
+export interface FeedRankingContext {
+  userId: string;
+  friendIds: string[];
+  // Users the viewer follows, friends or not
+  followingIds?: string[];
+  userLocation: UserLocation;
+  seenBoosts: string[];
+  now: Date;
+  // Hidden posts, snoozed authors and topics the viewer isn't interested in
+  feedback?: FeedFeedbackSignals;
+}
+
+/**
+ * A post collected for ranking, with every source that produced it.
+ * The first source is the post's feed_type.
+ */
+export interface FeedCandidate {
+  post: any;
+  sources: string[];
+}
+
+/**
+ * Produces candidate posts for the feed
+ */
+export interface CandidateSource {
+  name: string;
+  fetch(ctx: FeedRankingContext, limit: number): Promise<any[]>;
+}
+
+export interface FeatureScore {
+  score: number;
+  reason: string;
+}
+
+/**
+ * Scores one aspect of a candidate. Features that need data beyond the
+ * post itself load it once per ranking in prepare(); whatever it returns is
+ * passed back to evaluate() for every candidate.
+ */
+export interface RankingFeature<TData = unknown> {
+  name: string;
+  prepare?(
+    ctx: FeedRankingContext,
+    candidates: FeedCandidate[]
+  ): Promise<TData>;
+  evaluate(
+    candidate: FeedCandidate,
+    ctx: FeedRankingContext,
+    data: TData
+  ): FeatureScore;
+}
+
+/**
+ * Why a post landed where it did (admin debug mode)
+ */
+export interface RankingExplanation {
+  score: number;
+  sources: string[];
+  features: ({ name: string } & FeatureScore)[];
+}
+
+export interface RankedPost {
+  post: any;
+  feed_type: string;
+  score: number;
+  explanation?: RankingExplanation;
+}
+
+export interface RankingOptions {
+  // Candidates requested from each source
+  candidatesPerSource: number;
+  explain?: boolean;
+}
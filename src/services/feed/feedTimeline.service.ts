@@ -0,0 +1,260 @@
+// src/services/feed/feedTimeline.service.ts
+import { supabase } from "../../config/supabase";
+import { logger } from "../../utils/logger";
+import { mergeTimelines, TimelineEntry } from "../../utils/timelineMerge";
+import { redisService } from "../redis.service";
+import { PostVisibility } from "../../models/post.model";
+
+// Authors with more friends than this aren't pushed to their friends'
+// timelines; readers pull the author's outbox instead
+export const FANOUT_FRIEND_LIMIT = 1000;
+
+const HOME_TIMELINE_SIZE = 500;
+const AUTHOR_TIMELINE_SIZE = 100;
+const SHARED_TIMELINE_SIZE = 1000;
+
+export interface TimelinePost {
+  id: string;
+  user_id: string;
+  visibility: PostVisibility;
+  created_at: Date | string;
+}
+
+/**
+ * Who a new post is delivered to besides the public timeline
+ */
+export interface TimelineAudience {
+  friendIds: string[];
+  country: string | null;
+}
+
+/**
+ * Fan-out-on-write timelines. New posts are pushed into the home timelines
+ * of the author's friends, the author's outbox and the public and location
+ * timelines. Home and public timelines that aren't in Redis are rebuilt from
+ * the database on first read, so pushes only go to timelines that exist.
+ *
+ * Reads return null when Redis is unavailable; callers then query the
+ * database directly.
+ */
+export class FeedTimelineService {
+  /**
+   * Push a new post into the timelines of everyone who should see it
+   */
+  static async fanOutPost(
+    post: TimelinePost,
+    audience: TimelineAudience
+  ): Promise<void> {
+    if (!redisService.isReady() || post.visibility === PostVisibility.PRIVATE) {
+      return;
+    }
+
+    const { keys } = redisService;
+    const ttl = redisService.getTTL();
+    const score = new Date(post.created_at).getTime();
+    const highFanout = audience.friendIds.length > FANOUT_FRIEND_LIMIT;
+
+    await redisService.addToSortedSets(
+      [keys.authorTimeline(post.user_id)],
+      post.id,
+      score,
+      AUTHOR_TIMELINE_SIZE,
+      ttl.AUTHOR_TIMELINE
+    );
+    await redisService.updateSetMembership(
+      keys.highFanoutAuthors(),
+      post.user_id,
+      highFanout
+    );
+
+    let delivered = 0;
+    if (!highFanout) {
+      delivered = await redisService.addToSortedSets(
+        audience.friendIds.map(keys.homeTimeline),
+        post.id,
+        score,
+        HOME_TIMELINE_SIZE,
+        ttl.HOME_TIMELINE,
+        true
+      );
+    }
+
+    if (post.visibility === PostVisibility.PUBLIC) {
+      await redisService.addToSortedSets(
+        [keys.publicTimeline()],
+        post.id,
+        score,
+        SHARED_TIMELINE_SIZE,
+        ttl.SHARED_TIMELINE,
+        true
+      );
+
+      if (audience.country) {
+        await redisService.addToSortedSets(
+          [keys.locationTimeline(audience.country)],
+          post.id,
+          score,
+          SHARED_TIMELINE_SIZE,
+          ttl.SHARED_TIMELINE
+        );
+      }
+    }
+
+    logger.info(
+      `Fanned out post ${post.id} to ${delivered} home timelines` +
+        (highFanout ? " (high-fanout author, pulled on read)" : "")
+    );
+  }
+
+  /**
+   * Newest friends' post IDs for a user's home feed, merging in the
+   * outboxes of friends who are too popular to fan out
+   */
+  static async getHomeTimeline(
+    userId: string,
+    friendIds: string[],
+    limit: number
+  ): Promise<string[] | null> {
+    if (!redisService.isReady()) return null;
+    if (friendIds.length === 0) return [];
+
+    const { keys } = redisService;
+    const home =
+      (await redisService.getSortedSetRange(
+        keys.homeTimeline(userId),
+        limit,
+        redisService.getTTL().HOME_TIMELINE
+      )) ?? (await this.rebuildHomeTimeline(userId, friendIds));
+
+    if (!home) return null;
+
+    const highFanoutAuthors = new Set(
+      await redisService.getSetMembers(keys.highFanoutAuthors())
+    );
+    const outboxes = await Promise.all(
+      friendIds
+        .filter(friendId => highFanoutAuthors.has(friendId))
+        .map(friendId =>
+          redisService.getSortedSetRange(keys.authorTimeline(friendId), limit)
+        )
+    );
+
+    return mergeTimelines(
+      [home, ...outboxes.map(outbox => outbox ?? [])],
+      limit
+    );
+  }
+
+  /**
+   * Newest public post IDs across the platform
+   */
+  static async getPublicTimeline(limit: number): Promise<string[] | null> {
+    if (!redisService.isReady()) return null;
+
+    const entries =
+      (await redisService.getSortedSetRange(
+        redisService.keys.publicTimeline(),
+        limit
+      )) ?? (await this.rebuildPublicTimeline());
+
+    return entries ? mergeTimelines([entries], limit) : null;
+  }
+
+  /**
+   * Newest public post IDs by authors in a country. Location timelines are
+   * only filled by new posts, so they start empty.
+   */
+  static async getLocationTimeline(
+    country: string,
+    limit: number
+  ): Promise<string[] | null> {
+    if (!redisService.isReady()) return null;
+
+    const entries = await redisService.getSortedSetRange(
+      redisService.keys.locationTimeline(country),
+      limit
+    );
+
+    return (entries ?? []).map(entry => entry.member);
+  }
+
+  /**
+   * Drop users' home timelines and cached friend lists after their friends
+   * change, so the next read rebuilds them
+   */
+  static async resetHomeTimelines(userIds: string[]): Promise<void> {
+    const { keys } = redisService;
+    await redisService.delete(
+      ...userIds.flatMap(userId => [
+        keys.homeTimeline(userId),
+        keys.userFriends(userId),
+      ])
+    );
+    await Promise.all(
+      userIds.map(userId => redisService.invalidateUserFeed(userId))
+    );
+  }
+
+  private static async rebuildHomeTimeline(
+    userId: string,
+    friendIds: string[]
+  ): Promise<TimelineEntry[] | null> {
+    const { data, error } = await supabase
+      .from("posts")
+      .select("id, created_at")
+      .in("user_id", friendIds)
+      .eq("is_deleted", false)
+      .in("visibility", [PostVisibility.PUBLIC, PostVisibility.FRIENDS])
+      .order("created_at", { ascending: false })
+      .limit(HOME_TIMELINE_SIZE);
+
+    if (error) {
+      logger.warn(`Failed to rebuild home timeline for ${userId}:`, error);
+      return null;
+    }
+
+    const entries = this.toEntries(data || []);
+    await redisService.replaceSortedSet(
+      redisService.keys.homeTimeline(userId),
+      entries,
+      redisService.getTTL().HOME_TIMELINE
+    );
+
+    return entries;
+  }
+
+  private static async rebuildPublicTimeline(): Promise<
+    TimelineEntry[] | null
+  > {
+    const { data, error } = await supabase
+      .from("posts")
+      .select("id, created_at")
+      .eq("is_deleted", false)
+      .eq("visibility", PostVisibility.PUBLIC)
+      .order("created_at", { ascending: false })
+      .limit(SHARED_TIMELINE_SIZE);
+
+    if (error) {
+      logger.warn("Failed to rebuild public timeline:", error);
+      return null;
+    }
+
+    const entries = this.toEntries(data || []);
+    await redisService.replaceSortedSet(
+      redisService.keys.publicTimeline(),
+      entries,
+      redisService.getTTL().SHARED_TIMELINE
+    );
+
+    return entries;
+  }
+
+  private static toEntries(
+    posts: { id: string; created_at: string }[]
+  ): TimelineEntry[] {
+    return posts.map(post => ({
+      member: post.id,
+      score: new Date(post.created_at).getTime(),
+    }));
+  }
+}
@@ -0,0 +1,50 @@
+// src/services/feed/index.ts
+import { FeedRankingEngine } from "./feedRanking.engine";
+import {
+  BoostedPostsSource,
+  FollowingPostsSource,
+  FriendLikedPostsSource,
+  FriendsPostsSource,
+  LocationPostsSource,
+  OwnPostsSource,
+  PublicPostsSource,
+} from "./feedRanking.sources";
+import {
+  AuthorAffinityFeature,
+  BoostWeightFeature,
+  EngagementVelocityFeature,
+  MediaTypeFeature,
+  NegativeFeedbackFeature,
+  RecencyDecayFeature,
+} from "./feedRanking.features";
+
+export * from "./feedRanking.types";
+export { FeedRankingEngine };
+export {
+  FeedTimelineService,
+  FANOUT_FRIEND_LIMIT,
+} from "./feedTimeline.service";
+
+/**
+ * The home feed's ranking pipeline. Register extra sources or features on
+ * it at startup to change what the feed considers and how it orders posts.
+ */
+export const feedRankingEngine = new FeedRankingEngine(
+  [
+    new OwnPostsSource(),
+    new FriendsPostsSource(),
+    new FollowingPostsSource(),
+    new BoostedPostsSource(),
+    new FriendLikedPostsSource(),
+    new LocationPostsSource(),
+    new PublicPostsSource(),
+  ],
+  [
+    new RecencyDecayFeature(),
+    new AuthorAffinityFeature(),
+    new MediaTypeFeature(),
+    new EngagementVelocityFeature(),
+    new BoostWeightFeature(),
+    new NegativeFeedbackFeature(),
+  ]
+);
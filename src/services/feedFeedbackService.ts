@@ -0,0 +1,270 @@
+// src/services/feedFeedbackService.ts
+import { supabase, supabaseAdmin } from "../config/supabase";
+import { AppError } from "../middlewares/errorHandler";
+import { asyncHandler } from "../utils/asyncHandler";
+import { extractHashtags, normalizeHashtag } from "../utils/hashtags";
+import { AUTHOR_SNOOZE_DAYS, normalizePostSource } from "../utils/feedFeedback";
+import { logger } from "../utils/logger";
+import { redisService } from "./redis.service";
+import {
+  FeedFeedback,
+  FeedFeedbackKind,
+  FeedFeedbackSignals,
+} from "../models/feed-feedback.model";
+
+// Hidden posts beyond this many (newest first) no longer shape the feed
+const MAX_HIDDEN_POSTS = 1000;
+
+// Topics recorded from a post's hashtags when no topic is named
+const MAX_TOPICS_PER_POST = 3;
+
+type FeedbackPost = {
+  id: string;
+  user_id: string;
+  content?: string | null;
+  source?: string | null;
+};
+
+const emptySignals = (): FeedFeedbackSignals => ({
+  hiddenPostIds: [],
+  snoozedAuthorIds: [],
+  topics: [],
+  sources: [],
+  hiddenAuthorCounts: {},
+});
+
+/**
+ * Service class for negative feedback on the home feed: hiding posts,
+ * snoozing authors and marking topics or sources "not interested"
+ */
+export class FeedFeedbackService {
+  /**
+   * Hide a post from the user's feed
+   */
+  static hidePost = asyncHandler(
+    async (userId: string, post: FeedbackPost): Promise<FeedFeedback> => {
+      const [feedback] = await this.record(userId, post, [
+        { kind: FeedFeedbackKind.HIDDEN_POST, target: post.id },
+      ]);
+
+      return feedback;
+    },
+    "Failed to hide post"
+  );
+
+  /**
+   * Keep a post's author out of the user's feed for AUTHOR_SNOOZE_DAYS.
+   * Snoozing again restarts the snooze.
+   */
+  static snoozeAuthor = asyncHandler(
+    async (userId: string, post: FeedbackPost): Promise<FeedFeedback> => {
+      if (post.user_id === userId) {
+        throw new AppError("You can't snooze yourself", 400);
+      }
+
+      const expiresAt = new Date(
+        Date.now() + AUTHOR_SNOOZE_DAYS * 24 * 60 * 60 * 1000
+      );
+      const [feedback] = await this.record(
+        userId,
+        post,
+        [{ kind: FeedFeedbackKind.SNOOZED_AUTHOR, target: post.user_id }],
+        expiresAt
+      );
+
+      return feedback;
+    },
+    "Failed to snooze author"
+  );
+
+  /**
+   * Mark the user not interested in what a post is about. With a topic,
+   * that hashtag; otherwise the post's source when it has one (e.g.
+   * imported content), else its first hashtags. The post is hidden too.
+   */
+  static markNotInterested = asyncHandler(
+    async (
+      userId: string,
+      post: FeedbackPost,
+      topic?: string
+    ): Promise<FeedFeedback[]> => {
+      const entries: { kind: FeedFeedbackKind; target: string }[] = [
+        { kind: FeedFeedbackKind.HIDDEN_POST, target: post.id },
+      ];
+
+      if (topic) {
+        const tag = normalizeHashtag(topic);
+        if (!tag) {
+          throw new AppError("Invalid topic", 400);
+        }
+        entries.push({ kind: FeedFeedbackKind.TOPIC, target: tag });
+      } else {
+        const source = normalizePostSource(post.source);
+        if (source) {
+          entries.push({ kind: FeedFeedbackKind.SOURCE, target: source });
+        } else {
+          for (const tag of extractHashtags(post.content).slice(
+            0,
+            MAX_TOPICS_PER_POST
+          )) {
+            entries.push({ kind: FeedFeedbackKind.TOPIC, target: tag });
+          }
+        }
+      }
+
+      return this.record(userId, post, entries);
+    },
+    "Failed to record feedback"
+  );
+
+  /**
+   * List the user's active feedback, newest first
+   */
+  static getFeedback = asyncHandler(
+    async (
+      userId: string,
+      kind?: FeedFeedbackKind
+    ): Promise<FeedFeedback[]> => {
+      let query = supabase
+        .from("feed_feedback")
+        .select("*")
+        .eq("user_id", userId)
+        .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+        .order("created_at", { ascending: false });
+
+      if (kind) {
+        query = query.eq("kind", kind);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      return (data || []) as FeedFeedback[];
+    },
+    "Failed to get feed feedback"
+  );
+
+  /**
+   * Undo feedback: unhide a post, end a snooze, or show a topic again
+   */
+  static removeFeedback = asyncHandler(
+    async (userId: string, feedbackId: string): Promise<void> => {
+      const { data, error } = await supabaseAdmin!
+        .from("feed_feedback")
+        .delete()
+        .eq("id", feedbackId)
+        .eq("user_id", userId)
+        .select("id");
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      if (!data || data.length === 0) {
+        throw new AppError("Feedback not found", 404);
+      }
+
+      await this.invalidate(userId);
+    },
+    "Failed to remove feed feedback"
+  );
+
+  /**
+   * The user's active feedback as the feed applies it. Cached; without
+   * it the feed is shown unfiltered rather than failing.
+   */
+  static getSignals = async (userId: string): Promise<FeedFeedbackSignals> => {
+    const cacheKey = redisService.keys.feedFeedback(userId);
+    const cached = await redisService.get<FeedFeedbackSignals>(cacheKey);
+    if (cached) return cached;
+
+    const { data, error } = await supabase
+      .from("feed_feedback")
+      .select("kind, target, author_id")
+      .eq("user_id", userId)
+      .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+      .order("created_at", { ascending: false })
+      .limit(MAX_HIDDEN_POSTS + 500);
+
+    if (error) {
+      logger.warn(`Failed to load feed feedback for user ${userId}:`, error);
+      return emptySignals();
+    }
+
+    const signals = emptySignals();
+
+    for (const row of data || []) {
+      switch (row.kind) {
+        case FeedFeedbackKind.HIDDEN_POST:
+          if (signals.hiddenPostIds.length >= MAX_HIDDEN_POSTS) break;
+          signals.hiddenPostIds.push(row.target);
+          if (row.author_id) {
+            signals.hiddenAuthorCounts[row.author_id] =
+              (signals.hiddenAuthorCounts[row.author_id] || 0) + 1;
+          }
+          break;
+        case FeedFeedbackKind.SNOOZED_AUTHOR:
+          signals.snoozedAuthorIds.push(row.target);
+          break;
+        case FeedFeedbackKind.TOPIC:
+          signals.topics.push(row.target);
+          break;
+        case FeedFeedbackKind.SOURCE:
+          signals.sources.push(row.target);
+          break;
+      }
+    }
+
+    await redisService.set(
+      cacheKey,
+      signals,
+      redisService.getTTL().FEED_FEEDBACK
+    );
+
+    return signals;
+  };
+
+  private static async record(
+    userId: string,
+    post: FeedbackPost,
+    entries: { kind: FeedFeedbackKind; target: string }[],
+    expiresAt: Date | null = null
+  ): Promise<FeedFeedback[]> {
+    const { data, error } = await supabaseAdmin!
+      .from("feed_feedback")
+      .upsert(
+        entries.map(entry => ({
+          user_id: userId,
+          kind: entry.kind,
+          target: entry.target,
+          post_id: post.id,
+          author_id: post.user_id,
+          expires_at: expiresAt?.toISOString() ?? null,
+          created_at: new Date().toISOString(),
+        })),
+        { onConflict: "user_id,kind,target" }
+      )
+      .select();
+
+    if (error) {
+      throw new AppError(error.message, 400);
+    }
+
+    await this.invalidate(userId);
+
+    return (data || []) as FeedFeedback[];
+  }
+
+  /**
+   * Feedback applies from the next feed request
+   */
+  private static async invalidate(userId: string): Promise<void> {
+    await Promise.all([
+      redisService.deleteKey(redisService.keys.feedFeedback(userId)),
+      redisService.invalidateUserFeed(userId),
+    ]);
+  }
+}
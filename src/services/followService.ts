@@ -0,0 +1,570 @@
+// src/services/followService.ts
+import { UUID } from "crypto";
+import { supabase, supabaseAdmin } from "../config/supabase";
+import { AppError } from "../middlewares/errorHandler";
+import { asyncHandler } from "../utils/asyncHandler";
+import { getUserBasicProfile } from "../utils/profileUtils";
+import { logger } from "../utils/logger";
+import { NotificationService } from "./notificationService";
+import { PrivacySettingsService } from "./privacySettingsService";
+import { redisService } from "./redis.service";
+import { FriendshipStatus } from "../models/friendship.model";
+import { ReferenceType } from "../models/notification.model";
+import {
+  Follow,
+  FollowCounts,
+  FollowRelationship,
+  FollowStatus,
+  FollowSummary,
+} from "../models/follow.model";
+
+const USER_COLUMNS =
+  "id, username, first_name, last_name, profile_picture, bio, is_verified, is_active";
+
+type FollowListOptions = { page?: number; limit?: number };
+
+/**
+ * Service class for one-way follows. Following a public profile takes
+ * effect at once; other profiles approve each follower. Friends follow
+ * each other for as long as they are friends, and a block ends follows
+ * both ways.
+ */
+export class FollowService {
+  /**
+   * Follow a user, or ask to when their profile isn't public
+   */
+  static follow = asyncHandler(
+    async (followerId: string, followeeId: string): Promise<Follow> => {
+      if (followerId === followeeId) {
+        throw new AppError("You can't follow yourself", 400);
+      }
+
+      const friendshipStatus = await this.getFriendshipStatus(
+        followerId,
+        followeeId
+      );
+      if (friendshipStatus === FriendshipStatus.BLOCKED) {
+        throw new AppError("Unable to follow this user", 403);
+      }
+
+      const existing = await this.getFollow(followerId, followeeId);
+      if (existing?.status === FollowStatus.ACCEPTED) {
+        throw new AppError("You are already following this user", 409);
+      }
+      if (existing?.status === FollowStatus.PENDING) {
+        throw new AppError("Follow request already sent", 409);
+      }
+
+      const followee = await getUserBasicProfile(followeeId);
+      const settings = await PrivacySettingsService.getUserPrivacySettings(
+        followeeId as UUID
+      );
+      const needsApproval =
+        settings.settings.baseSettings.profileVisibility !== "public" &&
+        friendshipStatus !== FriendshipStatus.ACCEPTED;
+
+      const now = new Date().toISOString();
+      const { data, error } = await supabaseAdmin!
+        .from("follows")
+        .insert({
+          follower_id: followerId,
+          followee_id: followeeId,
+          status: needsApproval ? FollowStatus.PENDING : FollowStatus.ACCEPTED,
+          created_at: now,
+          updated_at: now,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === "23505") {
+          throw new AppError("You are already following this user", 409);
+        }
+        throw new AppError(error.message, 400);
+      }
+
+      if (!needsApproval) {
+        await this.invalidate([followerId]);
+      }
+
+      await this.notify(
+        followee.id,
+        followerId,
+        needsApproval ? ReferenceType.FOLLOW_REQUEST : ReferenceType.FOLLOW,
+        needsApproval ? "asked to follow you" : "started following you"
+      );
+
+      return data as Follow;
+    },
+    "Failed to follow user"
+  );
+
+  /**
+   * Stop following a user, or withdraw a follow request
+   */
+  static unfollow = asyncHandler(
+    async (followerId: string, followeeId: string): Promise<void> => {
+      const removed = await this.deleteFollows([[followerId, followeeId]]);
+
+      if (removed.length === 0) {
+        throw new AppError("You are not following this user", 404);
+      }
+    },
+    "Failed to unfollow user"
+  );
+
+  /**
+   * Remove someone from the user's followers
+   */
+  static removeFollower = asyncHandler(
+    async (userId: string, followerId: string): Promise<void> => {
+      const removed = await this.deleteFollows(
+        [[followerId, userId]],
+        FollowStatus.ACCEPTED
+      );
+
+      if (removed.length === 0) {
+        throw new AppError("This user doesn't follow you", 404);
+      }
+    },
+    "Failed to remove follower"
+  );
+
+  /**
+   * Approve a pending request to follow the user
+   */
+  static acceptFollowRequest = asyncHandler(
+    async (userId: string, followerId: string): Promise<Follow> => {
+      const { data, error } = await supabaseAdmin!
+        .from("follows")
+        .update({
+          status: FollowStatus.ACCEPTED,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("follower_id", followerId)
+        .eq("followee_id", userId)
+        .eq("status", FollowStatus.PENDING)
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      if (!data) {
+        throw new AppError("Follow request not found", 404);
+      }
+
+      await this.invalidate([followerId]);
+      await this.notify(
+        followerId,
+        userId,
+        ReferenceType.FOLLOW_REQUEST_ACCEPTED,
+        "accepted your follow request"
+      );
+
+      return data as Follow;
+    },
+    "Failed to accept follow request"
+  );
+
+  /**
+   * Decline a pending request to follow the user
+   */
+  static rejectFollowRequest = asyncHandler(
+    async (userId: string, followerId: string): Promise<void> => {
+      const { data, error } = await supabaseAdmin!
+        .from("follows")
+        .delete()
+        .eq("follower_id", followerId)
+        .eq("followee_id", userId)
+        .eq("status", FollowStatus.PENDING)
+        .select("follower_id");
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      if (!data || data.length === 0) {
+        throw new AppError("Follow request not found", 404);
+      }
+    },
+    "Failed to reject follow request"
+  );
+
+  /**
+   * List a user's followers, newest first
+   */
+  static getFollowers = asyncHandler(
+    async (
+      viewerId: string,
+      userId: string,
+      options: FollowListOptions = {}
+    ): Promise<{ users: FollowSummary[]; total: number }> => {
+      await this.assertCanSeeConnections(viewerId, userId);
+
+      return this.listFollows(
+        "followee_id",
+        userId,
+        FollowStatus.ACCEPTED,
+        options
+      );
+    },
+    "Failed to get followers"
+  );
+
+  /**
+   * List the users someone follows, newest first
+   */
+  static getFollowing = asyncHandler(
+    async (
+      viewerId: string,
+      userId: string,
+      options: FollowListOptions = {}
+    ): Promise<{ users: FollowSummary[]; total: number }> => {
+      await this.assertCanSeeConnections(viewerId, userId);
+
+      return this.listFollows(
+        "follower_id",
+        userId,
+        FollowStatus.ACCEPTED,
+        options
+      );
+    },
+    "Failed to get following"
+  );
+
+  /**
+   * List pending requests to follow the user, newest first
+   */
+  static getFollowRequests = asyncHandler(
+    async (
+      userId: string,
+      options: FollowListOptions = {}
+    ): Promise<{ users: FollowSummary[]; total: number }> =>
+      this.listFollows("followee_id", userId, FollowStatus.PENDING, options),
+    "Failed to get follow requests"
+  );
+
+  /**
+   * How many followers a user has and how many users they follow
+   */
+  static getFollowCounts = asyncHandler(
+    async (userId: string): Promise<FollowCounts> => {
+      const [followers, following] = await Promise.all([
+        this.countFollows("followee_id", userId),
+        this.countFollows("follower_id", userId),
+      ]);
+
+      return { followers, following };
+    },
+    "Failed to get follow counts"
+  );
+
+  /**
+   * How the viewer and another user follow each other
+   */
+  static getRelationship = asyncHandler(
+    async (viewerId: string, userId: string): Promise<FollowRelationship> => {
+      const [following, followedBy] = await Promise.all([
+        this.getFollow(viewerId, userId),
+        this.getFollow(userId, viewerId),
+      ]);
+
+      return {
+        following: following?.status ?? null,
+        followed_by: followedBy?.status ?? null,
+      };
+    },
+    "Failed to get follow relationship"
+  );
+
+  /**
+   * IDs of the users someone follows, for the feed. Cached; without it the
+   * feed is built from friends alone rather than failing.
+   */
+  static getFollowingIds = async (userId: string): Promise<string[]> => {
+    const cacheKey = redisService.keys.userFollowing(userId);
+    const cached = await redisService.get<string[]>(cacheKey);
+    if (cached) return cached;
+
+    const { data, error } = await supabase
+      .from("follows")
+      .select("followee_id")
+      .eq("follower_id", userId)
+      .eq("status", FollowStatus.ACCEPTED);
+
+    if (error) {
+      logger.warn(`Failed to load followed users for ${userId}:`, error);
+      return [];
+    }
+
+    const followingIds = (data || []).map(row => row.followee_id as string);
+    await redisService.set(
+      cacheKey,
+      followingIds,
+      redisService.getTTL().USER_FOLLOWING
+    );
+
+    return followingIds;
+  };
+
+  /**
+   * Make two new friends follow each other, accepting any pending requests
+   * between them
+   */
+  static followEachOther = async (
+    userId1: string,
+    userId2: string
+  ): Promise<void> => {
+    const now = new Date().toISOString();
+    const { error } = await supabaseAdmin!.from("follows").upsert(
+      [
+        [userId1, userId2],
+        [userId2, userId1],
+      ].map(([followerId, followeeId]) => ({
+        follower_id: followerId,
+        followee_id: followeeId,
+        status: FollowStatus.ACCEPTED,
+        updated_at: now,
+      })),
+      { onConflict: "follower_id,followee_id" }
+    );
+
+    if (error) {
+      throw new AppError(error.message, 400);
+    }
+
+    await this.invalidate([userId1, userId2]);
+  };
+
+  /**
+   * End follows and follow requests in both directions, after an
+   * unfriending or a block
+   */
+  static removeFollowsBetween = async (
+    userId1: string,
+    userId2: string
+  ): Promise<void> => {
+    await this.deleteFollows([
+      [userId1, userId2],
+      [userId2, userId1],
+    ]);
+  };
+
+  private static async getFollow(
+    followerId: string,
+    followeeId: string
+  ): Promise<Follow | null> {
+    const { data, error } = await supabase
+      .from("follows")
+      .select("*")
+      .eq("follower_id", followerId)
+      .eq("followee_id", followeeId)
+      .maybeSingle();
+
+    if (error) {
+      throw new AppError(error.message, 400);
+    }
+
+    return data as Follow | null;
+  }
+
+  private static async getFriendshipStatus(
+    userId1: string,
+    userId2: string
+  ): Promise<FriendshipStatus | null> {
+    const { data, error } = await supabase
+      .from("friendships")
+      .select("status")
+      .or(
+        `and(requester_id.eq.${userId1},addressee_id.eq.${userId2}),and(requester_id.eq.${userId2},addressee_id.eq.${userId1})`
+      )
+      .maybeSingle();
+
+    if (error) {
+      throw new AppError(error.message, 400);
+    }
+
+    return (data?.status as FriendshipStatus) ?? null;
+  }
+
+  /**
+   * Follower lists follow the profile's visibility: anyone may see them on
+   * a public profile, otherwise only its owner, friends and followers
+   */
+  private static async assertCanSeeConnections(
+    viewerId: string,
+    userId: string
+  ): Promise<void> {
+    if (viewerId === userId) return;
+
+    const [friendshipStatus, follow, settings] = await Promise.all([
+      this.getFriendshipStatus(viewerId, userId),
+      this.getFollow(viewerId, userId),
+      PrivacySettingsService.getUserPrivacySettings(userId as UUID),
+    ]);
+
+    if (friendshipStatus === FriendshipStatus.BLOCKED) {
+      throw new AppError("User not found", 404);
+    }
+
+    if (
+      settings.settings.baseSettings.profileVisibility === "public" ||
+      friendshipStatus === FriendshipStatus.ACCEPTED ||
+      follow?.status === FollowStatus.ACCEPTED
+    ) {
+      return;
+    }
+
+    throw new AppError("This user's connections are private", 403);
+  }
+
+  /**
+   * A page of follows on one side of a user, with the other side's profile.
+   * Deactivated accounts are left out.
+   */
+  private static async listFollows(
+    column: "follower_id" | "followee_id",
+    userId: string,
+    status: FollowStatus,
+    options: FollowListOptions
+  ): Promise<{ users: FollowSummary[]; total: number }> {
+    const page = options.page || 1;
+    const limit = options.limit || 20;
+    const offset = (page - 1) * limit;
+    const other = column === "follower_id" ? "followee_id" : "follower_id";
+
+    const { data, error, count } = await supabase
+      .from("follows")
+      .select(
+        `created_at, user:users!follows_${other}_fkey!inner(${USER_COLUMNS})`,
+        {
+          count: "exact",
+        }
+      )
+      .eq(column, userId)
+      .eq("status", status)
+      .eq("user.is_active", true)
+      .order("created_at", { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new AppError(error.message, 400);
+    }
+
+    return {
+      users: (data || []).map((row: any) => ({
+        id: row.user.id,
+        username: row.user.username,
+        first_name: row.user.first_name,
+        last_name: row.user.last_name,
+        profile_picture: row.user.profile_picture,
+        bio: row.user.bio,
+        is_verified: row.user.is_verified,
+        followed_at: row.created_at,
+      })),
+      total: count || 0,
+    };
+  }
+
+  private static async countFollows(
+    column: "follower_id" | "followee_id",
+    userId: string
+  ): Promise<number> {
+    const other = column === "follower_id" ? "followee_id" : "follower_id";
+    const { count, error } = await supabase
+      .from("follows")
+      .select(
+        `follower_id, user:users!follows_${other}_fkey!inner(is_active)`,
+        {
+          count: "exact",
+          head: true,
+        }
+      )
+      .eq(column, userId)
+      .eq("status", FollowStatus.ACCEPTED)
+      .eq("user.is_active", true);
+
+    if (error) {
+      throw new AppError(error.message, 400);
+    }
+
+    return count || 0;
+  }
+
+  /**
+   * Delete follows given as [follower, followee] pairs, and refresh the
+   * feeds of whoever stopped following someone
+   */
+  private static async deleteFollows(
+    pairs: [string, string][],
+    status?: FollowStatus
+  ): Promise<{ follower_id: string }[]> {
+    let query = supabaseAdmin!
+      .from("follows")
+      .delete()
+      .or(
+        pairs
+          .map(
+            ([followerId, followeeId]) =>
+              `and(follower_id.eq.${followerId},followee_id.eq.${followeeId})`
+          )
+          .join(",")
+      );
+
+    if (status) {
+      query = query.eq("status", status);
+    }
+
+    const { data, error } = await query.select("follower_id");
+
+    if (error) {
+      throw new AppError(error.message, 400);
+    }
+
+    const removed = (data || []) as { follower_id: string }[];
+    if (removed.length > 0) {
+      await this.invalidate([...new Set(removed.map(row => row.follower_id))]);
+    }
+
+    return removed;
+  }
+
+  /**
+   * Followed users feed the home feed; refresh it from the next request
+   */
+  private static async invalidate(userIds: string[]): Promise<void> {
+    await Promise.all(
+      userIds.flatMap(userId => [
+        redisService.deleteKey(redisService.keys.userFollowing(userId)),
+        redisService.invalidateUserFeed(userId),
+      ])
+    );
+  }
+
+  private static async notify(
+    userId: string,
+    actorId: string,
+    referenceType: ReferenceType,
+    action: string
+  ): Promise<void> {
+    try {
+      const actor = await getUserBasicProfile(actorId);
+      const actorName =
+        actor.first_name && actor.last_name
+          ? `${actor.first_name} ${actor.last_name}`
+          : actor.username || "Someone";
+
+      await NotificationService.createNotification({
+        user_id: userId as UUID,
+        actor_id: actorId as UUID,
+        reference_id: actorId as UUID,
+        reference_type: referenceType,
+        content: `${actorName} ${action}`,
+      });
+    } catch (error) {
+      logger.error(`Failed to create ${referenceType} notification:`, error);
+    }
+  }
+}
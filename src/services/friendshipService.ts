@@ -17,6 +17,8 @@ import { UUID } from "crypto";
 import { logger } from "../utils/logger";
 import { NotificationService } from "./notificationService";
 import { ReferenceType } from "../models/notification.model";
+import { FollowService } from "./followService";
+import { FeedTimelineService } from "./feed";
 
 export class FriendshipService {
   /**
@@ -148,8 +150,30 @@ export class FriendshipService {
         throw new AppError(error.message, 400);
       }
 
+      // Blocking ends follows and follow requests either way, and the two
+      // users stop counting as friends everywhere friend lists are cached
+      if (status === FriendshipStatus.BLOCKED) {
+        await FollowService.removeFollowsBetween(
+          data.requester_id,
+          data.addressee_id,
+        );
+        await FeedTimelineService.resetHomeTimelines([
+          data.requester_id,
+          data.addressee_id,
+        ]);
+      }
+
       // Send notification when friend request is accepted
       if (status === FriendshipStatus.ACCEPTED) {
+        await FollowService.followEachOther(
+          data.requester_id,
+          data.addressee_id,
+        );
+        await FeedTimelineService.resetHomeTimelines([
+          data.requester_id,
+          data.addressee_id,
+        ]);
+
         try {
           // The addressee (who accepted) should notify the requester
           const accepterProfile = await getUserBasicProfile(data.addressee_id);
@@ -213,14 +237,31 @@ export class FriendshipService {
    */
   static deleteFriendship = asyncHandler(
     async (friendshipId: string): Promise<void> => {
-      const { error } = await supabaseAdmin!
+      const { data, error } = await supabaseAdmin!
         .from("friendships")
         .delete()
-        .eq("id", friendshipId);
+        .eq("id", friendshipId)
+        .select("requester_id, addressee_id, status")
+        .maybeSingle();
 
       if (error) {
         throw new AppError(error.message, 400);
       }
+
+      // Unfriending also unfollows both ways; cancelling a request doesn't
+      if (data?.status === FriendshipStatus.ACCEPTED) {
+        await FollowService.removeFollowsBetween(
+          data.requester_id,
+          data.addressee_id,
+        );
+      }
+
+      if (data) {
+        await FeedTimelineService.resetHomeTimelines([
+          data.requester_id,
+          data.addressee_id,
+        ]);
+      }
     },
     "Failed to delete friendship",
   );
@@ -0,0 +1,145 @@
+// src/services/hashtagService.ts
+import { supabaseAdmin } from "../config/supabase";
+import { AppError } from "../middlewares/errorHandler";
+import { asyncHandler } from "../utils/asyncHandler";
+import { extractHashtags } from "../utils/hashtags";
+import { logger } from "../utils/logger";
+import { redisService } from "./redis.service";
+import {
+  TrendingHashtag,
+  TrendingHashtagsQuery,
+} from "../models/hashtag.model";
+
+/**
+ * Service class for hashtags parsed from posts and comments
+ */
+export class HashtagService {
+  /**
+   * Store the hashtags in a post's content, replacing any it had before.
+   * Failures are logged; tagging never fails the post itself.
+   */
+  static async syncPostHashtags(
+    postId: string,
+    content: string | null | undefined,
+    createdAt: Date | string
+  ): Promise<void> {
+    await this.syncLinks(
+      "post_hashtags",
+      "post_id",
+      postId,
+      content,
+      createdAt
+    );
+  }
+
+  /**
+   * Store the hashtags in a comment's content, replacing any it had before
+   */
+  static async syncCommentHashtags(
+    commentId: string,
+    content: string | null | undefined,
+    createdAt: Date | string
+  ): Promise<void> {
+    await this.syncLinks(
+      "comment_hashtags",
+      "comment_id",
+      commentId,
+      content,
+      createdAt
+    );
+  }
+
+  /**
+   * Most used tags on public posts and comments over the last hours,
+   * optionally within one country
+   */
+  static getTrending = asyncHandler(
+    async (query: TrendingHashtagsQuery): Promise<TrendingHashtag[]> => {
+      const cacheKey = redisService.keys.trendingHashtags(
+        query.hours,
+        query.country || "global",
+        query.limit
+      );
+
+      const cached = await redisService.get<TrendingHashtag[]>(cacheKey);
+      if (cached) return cached;
+
+      const { data, error } = await supabaseAdmin!.rpc("trending_hashtags", {
+        p_since: new Date(
+          Date.now() - query.hours * 60 * 60 * 1000
+        ).toISOString(),
+        p_until: new Date().toISOString(),
+        p_country: query.country || null,
+        p_limit: query.limit,
+      });
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      const trending = ((data || []) as TrendingHashtag[]).map(row => ({
+        tag: row.tag,
+        uses: Number(row.uses),
+        authors: Number(row.authors),
+        countries: (row.countries || []).map(entry => ({
+          country: entry.country,
+          uses: Number(entry.uses),
+        })),
+      }));
+
+      await redisService.set(
+        cacheKey,
+        trending,
+        redisService.getTTL().TRENDING_HASHTAGS
+      );
+
+      return trending;
+    },
+    "Failed to get trending hashtags"
+  );
+
+  private static async syncLinks(
+    table: "post_hashtags" | "comment_hashtags",
+    column: "post_id" | "comment_id",
+    id: string,
+    content: string | null | undefined,
+    createdAt: Date | string
+  ): Promise<void> {
+    const tags = extractHashtags(content);
+
+    try {
+      if (tags.length > 0) {
+        const { error } = await supabaseAdmin!.from("hashtags").upsert(
+          tags.map(tag => ({ tag })),
+          { onConflict: "tag", ignoreDuplicates: true }
+        );
+
+        if (error) throw error;
+      }
+
+      // Tags contain only letters, marks, digits and _, so need no quoting
+      let removal = supabaseAdmin!.from(table).delete().eq(column, id);
+      if (tags.length > 0) {
+        removal = removal.not("tag", "in", `(${tags.join(",")})`);
+      }
+
+      const { error: removalError } = await removal;
+      if (removalError) throw removalError;
+
+      if (tags.length > 0) {
+        const { error: linkError } = await supabaseAdmin!.from(table).upsert(
+          tags.map(tag => ({
+            [column]: id,
+            tag,
+            created_at: new Date(createdAt).toISOString(),
+          })),
+          { onConflict: `${column},tag`, ignoreDuplicates: true }
+        );
+
+        if (linkError) throw linkError;
+      }
+    } catch (error) {
+      logger.error(`Failed to store hashtags for ${table} ${id}:`, error);
+    }
+  }
+}
@@ -2,12 +2,14 @@
 import { UserService } from "./userService";
 import { LocationSource } from "../types/models";
 import { logger } from "../utils/logger";
+import { LoginAlertService } from "./loginAlertService";
 // import { throttledGetLocationFromIp } from "../utils/geolocation";
 
 export class IpLocationService {
   /**
    * Handle user login location tracking
-   * This method should be called during login
+   * This method should be called during login. When the login's session ID
+   * is given, logins from an unseen device or country raise a login alert.
    */
   static async trackLoginLocation(
     userId: string,
@@ -15,8 +17,18 @@ export class IpLocationService {
     deviceToken: string,
     deviceType: string,
     locationData: any,
+    sessionId?: string,
   ): Promise<void> {
     try {
+      // Compare against known devices/countries before this login is recorded
+      const alertReasons = sessionId
+        ? await LoginAlertService.detectUnrecognizedLogin(
+            userId,
+            deviceToken,
+            locationData?.country,
+          )
+        : [];
+
       // Register or update the device first
       const device = await UserService.registerUserDevice({
         user_id: userId,
@@ -26,7 +38,7 @@ export class IpLocationService {
         last_active: new Date().toISOString(),
       });
 
-      if (locationData.coordinates) {
+      if (locationData?.coordinates) {
         await UserService.trackUserLocation({
           user_id: userId,
           device_id: device.id,
@@ -49,6 +61,19 @@ export class IpLocationService {
           `Successfully tracked client-provided location for user ${userId} from ${locationData.location_source}`,
         );
       }
+
+      if (sessionId && alertReasons.length > 0) {
+        await LoginAlertService.sendLoginAlert({
+          userId,
+          sessionId,
+          deviceToken,
+          deviceType,
+          ipAddress,
+          city: locationData?.city,
+          country: locationData?.country,
+          reasons: alertReasons,
+        });
+      }
     } catch (error) {
       logger.error(`Error tracking login location for user ${userId}:`, error);
     }
@@ -0,0 +1,216 @@
+// src/services/loginAlertService.ts
+import jwt from "jsonwebtoken";
+import { UUID } from "crypto";
+import { config } from "dotenv";
+import { supabase, supabaseAdmin } from "../config/supabase";
+import { AppError } from "../middlewares/errorHandler";
+import { asyncHandler } from "../utils/asyncHandler";
+import { logger } from "../utils/logger";
+import { UserService } from "./userService";
+import { EmailService } from "./emailService";
+import { NotificationService } from "./notificationService";
+import { PrivacySettingsService } from "./privacySettingsService";
+import { SessionService } from "./sessionService";
+import { DeviceSessionService } from "./deviceSessionService";
+import {
+  LoginAlertDetails,
+  LoginAlertReason,
+} from "../models/device-location.model";
+import { ReferenceType } from "../models/notification.model";
+import { SessionRevocationReason } from "../models/session.model";
+
+config();
+
+const JWT_SECRET = process.env.JWT_SECRET || "your_jwt_secret_key_here";
+
+// Separate secret so an alert link can never pass as an access token
+const LOGIN_ALERT_SECRET =
+  process.env.LOGIN_ALERT_SECRET || `${JWT_SECRET}:login-alert`;
+const LOGIN_ALERT_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+interface LoginAlertTokenPayload {
+  id: string;
+  sid: string;
+  deviceToken: string;
+  purpose: "login_alert";
+}
+
+/**
+ * Service class for new device / new location login alerts
+ */
+export class LoginAlertService {
+  /**
+   * Compare a login against the user's known devices and countries.
+   * Must run before the login's device and location are recorded.
+   * @returns why the login is unrecognized (empty when it is familiar)
+   */
+  static detectUnrecognizedLogin = asyncHandler(
+    async (
+      userId: string,
+      deviceToken: string,
+      country?: string | null
+    ): Promise<LoginAlertReason[]> => {
+      const { data: devices, error: devicesError } = await supabase
+        .from("user_devices")
+        .select("device_token")
+        .eq("user_id", userId);
+
+      if (devicesError) {
+        throw new AppError(devicesError.message, 400);
+      }
+
+      // The very first device (signup) is never suspicious
+      if (!devices || devices.length === 0) {
+        return [];
+      }
+
+      const reasons: LoginAlertReason[] = [];
+
+      if (!devices.some(device => device.device_token === deviceToken)) {
+        reasons.push(LoginAlertReason.NEW_DEVICE);
+      }
+
+      if (country) {
+        const { data: locations, error: locationsError } = await supabase
+          .from("user_locations")
+          .select("country")
+          .eq("user_id", userId)
+          .not("country", "is", null);
+
+        if (locationsError) {
+          throw new AppError(locationsError.message, 400);
+        }
+
+        const knownCountries = new Set(
+          (locations || []).map(location => location.country.toLowerCase())
+        );
+        if (
+          knownCountries.size > 0 &&
+          !knownCountries.has(country.toLowerCase())
+        ) {
+          reasons.push(LoginAlertReason.NEW_COUNTRY);
+        }
+      }
+
+      return reasons;
+    },
+    "Failed to check login against known devices"
+  );
+
+  /**
+   * Alert the user in-app and by email, if they opted into login notifications
+   */
+  static sendLoginAlert = asyncHandler(
+    async (details: LoginAlertDetails): Promise<void> => {
+      const privacySettings =
+        await PrivacySettingsService.getUserPrivacySettings(
+          details.userId as UUID
+        );
+      if (!privacySettings.settings.loginNotifications) {
+        return;
+      }
+
+      const user = await UserService.findUserById(details.userId);
+      if (!user) {
+        return;
+      }
+
+      const location =
+        [details.city, details.country].filter(Boolean).join(", ") ||
+        "Unknown location";
+
+      await NotificationService.createNotification({
+        user_id: details.userId as UUID,
+        actor_id: details.userId as UUID,
+        reference_id: details.sessionId as UUID,
+        reference_type: ReferenceType.SECURITY_ALERT,
+        content: details.reasons.includes(LoginAlertReason.NEW_COUNTRY)
+          ? `New sign-in from ${location}. If this wasn't you, secure your account.`
+          : `New sign-in from a ${details.deviceType} device. If this wasn't you, secure your account.`,
+      });
+
+      const revokeToken = jwt.sign(
+        {
+          id: details.userId,
+          sid: details.sessionId,
+          deviceToken: details.deviceToken,
+          purpose: "login_alert",
+        },
+        LOGIN_ALERT_SECRET,
+        { expiresIn: LOGIN_ALERT_TOKEN_TTL_SECONDS }
+      );
+
+      await EmailService.sendLoginAlertEmail(
+        user.email,
+        `${user.first_name} ${user.last_name}`,
+        {
+          deviceType: details.deviceType,
+          ipAddress: details.ipAddress,
+          location,
+          time: new Date(),
+        },
+        revokeToken
+      );
+
+      logger.info(
+        `Login alert (${details.reasons.join(", ")}) sent to user ${details.userId}`
+      );
+    },
+    "Failed to send login alert"
+  );
+
+  /**
+   * Handle a "this wasn't me" link: sign the device out and forget it so
+   * the next login from it is flagged again
+   * @returns number of revoked sessions
+   */
+  static revokeUnrecognizedLogin = asyncHandler(
+    async (token: string): Promise<number> => {
+      let payload: LoginAlertTokenPayload;
+      try {
+        payload = jwt.verify(
+          token,
+          LOGIN_ALERT_SECRET
+        ) as LoginAlertTokenPayload;
+      } catch {
+        throw new AppError("This link is invalid or has expired", 400);
+      }
+
+      if (payload.purpose !== "login_alert") {
+        throw new AppError("This link is invalid or has expired", 400);
+      }
+
+      await SessionService.revokeSession(
+        payload.sid,
+        SessionRevocationReason.UNRECOGNIZED_LOGIN
+      );
+      const revokedIds = await SessionService.revokeDeviceSessions(
+        payload.id,
+        payload.deviceToken,
+        SessionRevocationReason.UNRECOGNIZED_LOGIN
+      );
+
+      const { error } = await supabaseAdmin!
+        .from("user_devices")
+        .delete()
+        .eq("user_id", payload.id)
+        .eq("device_token", payload.deviceToken);
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      DeviceSessionService.disconnectSessions(payload.id, [
+        payload.sid,
+        ...revokedIds,
+      ]);
+
+      logger.warn(
+        `User ${payload.id} reported an unrecognized login; revoked session ${payload.sid}`
+      );
+
+      return new Set([payload.sid, ...revokedIds]).size;
+    },
+    "Failed to revoke unrecognized login"
+  );
+}
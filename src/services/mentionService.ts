@@ -0,0 +1,316 @@
+// src/services/mentionService.ts
+import { UUID } from "crypto";
+import { supabaseAdmin } from "../config/supabase";
+import { extractMentions, MentionMatch } from "../utils/mentions";
+import { logger } from "../utils/logger";
+import { getUserBasicProfile } from "../utils/profileUtils";
+import { NotificationService } from "./notificationService";
+import { PrivacySettingsService } from "./privacySettingsService";
+import { FriendshipStatus } from "../models/friendship.model";
+import { Mention } from "../models/mention.model";
+import { ReferenceType } from "../models/notification.model";
+import { PostVisibility } from "../models/post.model";
+
+type MentionSource = "post" | "comment";
+
+const MENTION_TABLES = {
+  post: { table: "posts", linkTable: "post_mentions", column: "post_id" },
+  comment: {
+    table: "comments",
+    linkTable: "comment_mentions",
+    column: "comment_id",
+  },
+} as const;
+
+/**
+ * Who can see the text a mention appears in: the post's author and
+ * visibility, for comments too
+ */
+interface MentionAudience {
+  ownerId: string;
+  visibility: PostVisibility;
+}
+
+/**
+ * Service class for @mentions in posts and comments
+ */
+export class MentionService {
+  /**
+   * Resolve and store the mentions in a post's content, replacing any it had
+   * before, and notify users who are newly mentioned.
+   * Failures are logged; mentioning never fails the post itself.
+   * @returns the mention ranges now stored on the post
+   */
+  static async syncPostMentions(post: {
+    id: string;
+    user_id: string;
+    content?: string | null;
+    visibility: PostVisibility;
+  }): Promise<Mention[]> {
+    return this.syncMentions("post", post.id, post.user_id, post.content, {
+      ownerId: post.user_id,
+      visibility: post.visibility,
+    });
+  }
+
+  /**
+   * Resolve and store the mentions in a comment's content
+   * @returns the mention ranges now stored on the comment
+   */
+  static async syncCommentMentions(comment: {
+    id: string;
+    user_id: string;
+    post_id: string;
+    content?: string | null;
+  }): Promise<Mention[]> {
+    const { data: post, error } = await supabaseAdmin!
+      .from("posts")
+      .select("user_id, visibility")
+      .eq("id", comment.post_id)
+      .maybeSingle();
+
+    if (error || !post) {
+      logger.error(
+        `Failed to load post for mentions in comment ${comment.id}:`,
+        error
+      );
+      return [];
+    }
+
+    return this.syncMentions(
+      "comment",
+      comment.id,
+      comment.user_id,
+      comment.content,
+      { ownerId: post.user_id, visibility: post.visibility }
+    );
+  }
+
+  private static async syncMentions(
+    source: MentionSource,
+    id: string,
+    authorId: string,
+    content: string | null | undefined,
+    audience: MentionAudience
+  ): Promise<Mention[]> {
+    const { table, linkTable, column } = MENTION_TABLES[source];
+
+    try {
+      const mentions = await this.resolveMentions(
+        authorId,
+        extractMentions(content)
+      );
+      const userIds = [...new Set(mentions.map(mention => mention.user_id))];
+
+      const { data: existing, error: existingError } = await supabaseAdmin!
+        .from(linkTable)
+        .select("mentioned_user_id")
+        .eq(column, id);
+
+      if (existingError) throw existingError;
+
+      const previous = new Set(
+        (existing || []).map(row => row.mentioned_user_id as string)
+      );
+
+      let removal = supabaseAdmin!.from(linkTable).delete().eq(column, id);
+      if (userIds.length > 0) {
+        removal = removal.not(
+          "mentioned_user_id",
+          "in",
+          `(${userIds.join(",")})`
+        );
+      }
+
+      const { error: removalError } = await removal;
+      if (removalError) throw removalError;
+
+      if (userIds.length > 0) {
+        const { error: linkError } = await supabaseAdmin!
+          .from(linkTable)
+          .upsert(
+            userIds.map(userId => ({
+              [column]: id,
+              mentioned_user_id: userId,
+            })),
+            {
+              onConflict: `${column},mentioned_user_id`,
+              ignoreDuplicates: true,
+            }
+          );
+
+        if (linkError) throw linkError;
+      }
+
+      const { error: updateError } = await supabaseAdmin!
+        .from(table)
+        .update({ mentions })
+        .eq("id", id);
+
+      if (updateError) throw updateError;
+
+      const newlyMentioned = userIds.filter(
+        userId => userId !== authorId && !previous.has(userId)
+      );
+      await this.notifyMentioned(
+        source,
+        id,
+        authorId,
+        newlyMentioned,
+        audience
+      );
+
+      return mentions;
+    } catch (error) {
+      logger.error(`Failed to store mentions for ${source} ${id}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Match usernames to active users, dropping users the author has blocked
+   * or been blocked by, and users who don't allow tagging
+   */
+  private static async resolveMentions(
+    authorId: string,
+    matches: MentionMatch[]
+  ): Promise<Mention[]> {
+    if (matches.length === 0) return [];
+
+    const usernames = [...new Set(matches.map(match => match.username))];
+    const { data: users, error } = await supabaseAdmin!
+      .from("users")
+      .select("id, username")
+      .in("username", usernames)
+      .eq("is_active", true);
+
+    if (error) throw error;
+
+    const others = (users || [])
+      .map(user => user.id as string)
+      .filter(userId => userId !== authorId);
+    const excluded = new Set<string>();
+
+    if (others.length > 0) {
+      const ids = others.join(",");
+      const { data: blocks, error: blockError } = await supabaseAdmin!
+        .from("friendships")
+        .select("requester_id, addressee_id")
+        .eq("status", FriendshipStatus.BLOCKED)
+        .or(
+          `and(requester_id.eq.${authorId},addressee_id.in.(${ids})),and(addressee_id.eq.${authorId},requester_id.in.(${ids}))`
+        );
+
+      if (blockError) throw blockError;
+
+      for (const block of blocks || []) {
+        excluded.add(
+          block.requester_id === authorId
+            ? block.addressee_id
+            : block.requester_id
+        );
+      }
+
+      await Promise.all(
+        others
+          .filter(userId => !excluded.has(userId))
+          .map(async userId => {
+            const allowed = await PrivacySettingsService.getUserPrivacySettings(
+              userId as UUID
+            )
+              .then(record => record.settings.allowTagging !== false)
+              .catch(() => false);
+
+            if (!allowed) excluded.add(userId);
+          })
+      );
+    }
+
+    const userIdsByName = new Map(
+      (users || [])
+        .filter(user => !excluded.has(user.id))
+        .map(user => [user.username as string, user.id as string])
+    );
+
+    return matches
+      .filter(match => userIdsByName.has(match.username))
+      .map(match => ({
+        user_id: userIdsByName.get(match.username)!,
+        username: match.username,
+        start: match.start,
+        end: match.end,
+      }));
+  }
+
+  /**
+   * Notify mentioned users who can see the post the mention is in
+   */
+  private static async notifyMentioned(
+    source: MentionSource,
+    id: string,
+    authorId: string,
+    userIds: string[],
+    audience: MentionAudience
+  ): Promise<void> {
+    const recipients = await this.filterAudience(userIds, audience);
+    if (recipients.length === 0) return;
+
+    const author = await getUserBasicProfile(authorId).catch(() => null);
+    const authorName =
+      author?.first_name && author?.last_name
+        ? `${author.first_name} ${author.last_name}`
+        : author?.username || "Someone";
+
+    for (const userId of recipients) {
+      try {
+        await NotificationService.createNotification({
+          user_id: userId as UUID,
+          actor_id: authorId as UUID,
+          reference_id: id as UUID,
+          reference_type: ReferenceType.MENTION,
+          content: `${authorName} mentioned you in a ${source}`,
+        });
+      } catch (error) {
+        logger.error("Failed to create mention notification:", error);
+      }
+    }
+  }
+
+  private static async filterAudience(
+    userIds: string[],
+    audience: MentionAudience
+  ): Promise<string[]> {
+    if (userIds.length === 0) return [];
+
+    if (audience.visibility === PostVisibility.PUBLIC) {
+      return userIds;
+    }
+
+    if (audience.visibility === PostVisibility.PRIVATE) {
+      return userIds.filter(userId => userId === audience.ownerId);
+    }
+
+    const ids = userIds.join(",");
+    const { data: friendships, error } = await supabaseAdmin!
+      .from("friendships")
+      .select("requester_id, addressee_id")
+      .eq("status", FriendshipStatus.ACCEPTED)
+      .or(
+        `and(requester_id.eq.${audience.ownerId},addressee_id.in.(${ids})),and(addressee_id.eq.${audience.ownerId},requester_id.in.(${ids}))`
+      );
+
+    if (error) throw error;
+
+    const friends = new Set(
+      (friendships || []).map(friendship =>
+        friendship.requester_id === audience.ownerId
+          ? friendship.addressee_id
+          : friendship.requester_id
+      )
+    );
+
+    return userIds.filter(
+      userId => userId === audience.ownerId || friends.has(userId)
+    );
+  }
+}
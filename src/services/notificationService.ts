@@ -78,7 +78,7 @@ export class NotificationService {
         throw new AppError(error.message, 400);
       }
 
-      // Enrich notifications with post context (post_id + post_image) for comment/reaction types
+      // Enrich notifications with post context (post_id + post_image) for comment/reaction/mention types
       const enriched = await Promise.all(
         (data || []).map(async (notif: any) => {
           try {
@@ -125,6 +125,25 @@ export class NotificationService {
 
                 notif.post_image = media?.media_url ?? null;
               }
+            } else if (notif.reference_type === "mention") {
+              // Mentions reference the post or the comment they appear in
+              const { data: comment } = await supabase
+                .from("comments")
+                .select("post_id")
+                .eq("id", notif.reference_id)
+                .maybeSingle();
+
+              notif.post_id = comment?.post_id ?? notif.reference_id;
+
+              const { data: media } = await supabase
+                .from("post_media")
+                .select("media_url")
+                .eq("post_id", notif.post_id)
+                .order("order", { ascending: true })
+                .limit(1)
+                .maybeSingle();
+
+              notif.post_image = media?.media_url ?? null;
             }
           } catch {
             // Enrichment is best-effort; never block the response
@@ -0,0 +1,375 @@
+// src/services/pollService.ts
+import { UUID } from "crypto";
+import { supabase, supabaseAdmin } from "../config/supabase";
+import { AppError } from "../middlewares/errorHandler";
+import { getIO } from "../socketio";
+import { asyncHandler } from "../utils/asyncHandler";
+import { logger } from "../utils/logger";
+import {
+  arePollResultsPublic,
+  isPollClosed,
+  MAX_POLL_OPTION_LENGTH,
+  MAX_POLL_OPTIONS,
+  MIN_POLL_OPTIONS,
+  toPollView,
+} from "../utils/polls";
+import {
+  PollResultsVisibility,
+  PostPoll,
+  PostPollCreate,
+  PostPollOption,
+  PostPollView,
+  PostPollVoter,
+} from "../models/poll.model";
+
+const MAX_POLL_DAYS = 30;
+
+type PollWithOptions = PostPoll & { post_poll_options: PostPollOption[] };
+
+/**
+ * Service class for polls attached to posts
+ */
+export class PollService {
+  /**
+   * Check a poll before its post is created
+   * @returns the poll with trimmed options and a normalized close time
+   */
+  static validatePoll(poll: PostPollCreate): PostPollCreate {
+    const options = (poll.options || []).map(option => option.trim());
+
+    if (
+      options.length < MIN_POLL_OPTIONS ||
+      options.length > MAX_POLL_OPTIONS
+    ) {
+      throw new AppError(
+        `A poll needs between ${MIN_POLL_OPTIONS} and ${MAX_POLL_OPTIONS} options`,
+        400
+      );
+    }
+
+    if (
+      options.some(option => !option || option.length > MAX_POLL_OPTION_LENGTH)
+    ) {
+      throw new AppError(
+        `Poll options must be 1 to ${MAX_POLL_OPTION_LENGTH} characters`,
+        400
+      );
+    }
+
+    if (
+      new Set(options.map(option => option.toLowerCase())).size !==
+      options.length
+    ) {
+      throw new AppError("Poll options must be different", 400);
+    }
+
+    let closesAt: string | null = null;
+    if (poll.closes_at) {
+      const date = new Date(poll.closes_at);
+      if (Number.isNaN(date.getTime()) || date.getTime() <= Date.now()) {
+        throw new AppError("closes_at must be a future date", 400);
+      }
+
+      if (date.getTime() - Date.now() > MAX_POLL_DAYS * 24 * 60 * 60 * 1000) {
+        throw new AppError(
+          `Polls can run for at most ${MAX_POLL_DAYS} days`,
+          400
+        );
+      }
+
+      closesAt = date.toISOString();
+    }
+
+    if (
+      poll.results_visibility === PollResultsVisibility.AFTER_CLOSE &&
+      !closesAt
+    ) {
+      throw new AppError(
+        "Polls that show results after closing need a closes_at time",
+        400
+      );
+    }
+
+    return { ...poll, options, closes_at: closesAt };
+  }
+
+  /**
+   * Create the poll for a new post
+   */
+  static createPoll = asyncHandler(
+    async (
+      post: { id: string; user_id: string },
+      poll: PostPollCreate
+    ): Promise<PostPollView> => {
+      const { data, error } = await supabaseAdmin!
+        .from("post_polls")
+        .insert({
+          post_id: post.id,
+          allows_multiple: poll.allows_multiple ?? false,
+          is_anonymous: poll.is_anonymous ?? false,
+          results_visibility:
+            poll.results_visibility ?? PollResultsVisibility.ALWAYS,
+          closes_at: poll.closes_at ?? null,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      const { data: options, error: optionsError } = await supabaseAdmin!
+        .from("post_poll_options")
+        .insert(
+          poll.options.map((text, position) => ({
+            poll_id: data.id,
+            position,
+            text,
+          }))
+        )
+        .select();
+
+      if (optionsError) {
+        throw new AppError(optionsError.message, 400);
+      }
+
+      return toPollView(data as PostPoll, options as PostPollOption[], {
+        userId: post.user_id,
+        authorId: post.user_id,
+        vote: null,
+      });
+    },
+    "Failed to create poll"
+  );
+
+  /**
+   * Add each post's poll, as the viewer sees it, to posts that have one
+   */
+  static attachPolls = async <
+    T extends { id: string; user_id: string; poll?: PostPollView | null },
+  >(
+    posts: T[],
+    viewerId?: string
+  ): Promise<T[]> => {
+    if (posts.length === 0) return posts;
+
+    const { data: polls, error } = await supabase
+      .from("post_polls")
+      .select("*, post_poll_options(*)")
+      .in(
+        "post_id",
+        posts.map(post => post.id)
+      );
+
+    if (error) {
+      throw new AppError(error.message, 400);
+    }
+
+    if (!polls || polls.length === 0) return posts;
+
+    const votes = await this.getViewerVotes(
+      polls.map(poll => poll.id),
+      viewerId
+    );
+    const pollsByPost = new Map(
+      (polls as PollWithOptions[]).map(poll => [poll.post_id as string, poll])
+    );
+
+    return posts.map(post => {
+      const poll = pollsByPost.get(post.id);
+      if (!poll) return post;
+
+      return {
+        ...post,
+        poll: toPollView(poll, poll.post_poll_options, {
+          userId: viewerId,
+          authorId: post.user_id,
+          vote: votes.get(poll.id) ?? null,
+        }),
+      };
+    });
+  };
+
+  /**
+   * Cast the user's vote on a post's poll. Each user votes once.
+   */
+  static vote = asyncHandler(
+    async (
+      post: { id: string; user_id: string },
+      userId: string,
+      optionIds: string[]
+    ): Promise<PostPollView> => {
+      const poll = await this.getPollByPostId(post.id);
+
+      if (isPollClosed(poll)) {
+        throw new AppError("This poll is closed", 400);
+      }
+
+      const choices = [...new Set(optionIds)];
+      const validIds = new Set(
+        poll.post_poll_options.map(option => option.id as string)
+      );
+
+      if (choices.length === 0 || choices.some(id => !validIds.has(id))) {
+        throw new AppError("Invalid poll option", 400);
+      }
+
+      if (!poll.allows_multiple && choices.length > 1) {
+        throw new AppError("This poll allows only one choice", 400);
+      }
+
+      const { error } = await supabaseAdmin!.from("post_poll_votes").insert({
+        poll_id: poll.id,
+        user_id: userId,
+        option_ids: choices,
+      });
+
+      if (error) {
+        if (error.code === "23505") {
+          throw new AppError("You have already voted in this poll", 409);
+        }
+        throw new AppError(error.message, 400);
+      }
+
+      const updated = await this.getPollByPostId(post.id);
+      this.broadcastCounts(updated);
+
+      return toPollView(updated, updated.post_poll_options, {
+        userId,
+        authorId: post.user_id,
+        vote: choices as UUID[],
+      });
+    },
+    "Failed to vote in poll"
+  );
+
+  /**
+   * List who voted in a poll, newest first. Not available for anonymous
+   * polls, or while the results are hidden from the viewer.
+   */
+  static getVoters = asyncHandler(
+    async (
+      post: { id: string; user_id: string; poll?: PostPollView | null },
+      page = 1,
+      limit = 20
+    ): Promise<{ voters: PostPollVoter[]; total: number }> => {
+      if (!post.poll) {
+        throw new AppError("This post has no poll", 404);
+      }
+
+      if (post.poll.is_anonymous) {
+        throw new AppError("Votes in this poll are anonymous", 403);
+      }
+
+      if (!post.poll.results_visible) {
+        throw new AppError("The results of this poll are hidden", 403);
+      }
+
+      const offset = (page - 1) * limit;
+      const { data, error, count } = await supabase
+        .from("post_poll_votes")
+        .select(
+          "user_id, option_ids, created_at, users!inner(username, first_name, last_name, profile_picture)",
+          { count: "exact" }
+        )
+        .eq("poll_id", post.poll.id)
+        .order("created_at", { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      return {
+        voters: (data || []).map((vote: any) => ({
+          user_id: vote.user_id,
+          username: vote.users.username,
+          first_name: vote.users.first_name,
+          last_name: vote.users.last_name,
+          profile_picture: vote.users.profile_picture,
+          option_ids: vote.option_ids,
+          voted_at: vote.created_at,
+        })),
+        total: count || 0,
+      };
+    },
+    "Failed to get poll voters"
+  );
+
+  private static async getPollByPostId(
+    postId: string
+  ): Promise<PollWithOptions> {
+    const { data, error } = await supabaseAdmin!
+      .from("post_polls")
+      .select("*, post_poll_options(*)")
+      .eq("post_id", postId)
+      .maybeSingle();
+
+    if (error) {
+      throw new AppError(error.message, 400);
+    }
+
+    if (!data) {
+      throw new AppError("This post has no poll", 404);
+    }
+
+    return data as PollWithOptions;
+  }
+
+  /**
+   * The options each poll's viewer voted for
+   */
+  private static async getViewerVotes(
+    pollIds: string[],
+    viewerId?: string
+  ): Promise<Map<string, UUID[]>> {
+    if (!viewerId) return new Map();
+
+    const { data, error } = await supabase
+      .from("post_poll_votes")
+      .select("poll_id, option_ids")
+      .eq("user_id", viewerId)
+      .in("poll_id", pollIds);
+
+    if (error) {
+      throw new AppError(error.message, 400);
+    }
+
+    return new Map(
+      (data || []).map(vote => [vote.poll_id as string, vote.option_ids])
+    );
+  }
+
+  /**
+   * The socket room that gets live counts for a post's poll. Clients join
+   * it through poll:subscribe, which checks they may see the post.
+   */
+  static roomFor(postId: string): string {
+    return `poll:${postId}`;
+  }
+
+  /**
+   * Push the new counts to clients in the poll's room. Per-option counts
+   * are only sent while everyone may see them; otherwise just the number
+   * of voters is.
+   */
+  private static broadcastCounts(poll: PollWithOptions): void {
+    try {
+      getIO()
+        .to(this.roomFor(poll.post_id))
+        .emit("poll:updated", {
+          poll_id: poll.id,
+          post_id: poll.post_id,
+          voter_count: poll.voter_count,
+          options: arePollResultsPublic(poll)
+            ? poll.post_poll_options.map(option => ({
+                id: option.id,
+                vote_count: option.vote_count,
+              }))
+            : null,
+        });
+    } catch (error) {
+      logger.warn(`Failed to broadcast poll ${poll.id} counts:`, error);
+    }
+  }
+}
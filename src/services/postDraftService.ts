@@ -0,0 +1,379 @@
+// src/services/postDraftService.ts
+import { UUID } from "crypto";
+import { supabaseAdmin } from "../config/supabase";
+import { AppError } from "../middlewares/errorHandler";
+import { asyncHandler } from "../utils/asyncHandler";
+import { logger } from "../utils/logger";
+import { PostService } from "./postService";
+import {
+  PostCreate,
+  PostDraft,
+  PostDraftMedia,
+  PostDraftStatus,
+  PostDraftUpdate,
+  PostVisibility,
+} from "../models/post.model";
+
+const MAX_SCHEDULE_DAYS = 365;
+const DRAFTS_PER_RUN = 50;
+const STALE_PUBLISHING_MINUTES = 15;
+
+// Drafts the author can still change; publishing ones belong to the job
+const EDITABLE_STATUSES = [
+  PostDraftStatus.DRAFT,
+  PostDraftStatus.SCHEDULED,
+  PostDraftStatus.FAILED,
+];
+
+/**
+ * Service class for drafts and scheduled posts
+ */
+export class PostDraftService {
+  /**
+   * Whether a new post should be saved for later instead of published now
+   */
+  static isDeferred(postData: PostCreate): boolean {
+    return Boolean(postData.status || postData.publish_at);
+  }
+
+  /**
+   * Save a draft, or schedule it when publish_at is given
+   */
+  static createDraft = asyncHandler(
+    async (
+      postData: PostCreate,
+      media: PostDraftMedia[]
+    ): Promise<PostDraft> => {
+      const publishAt = this.parsePublishAt(postData.publish_at);
+
+      if (postData.status === PostDraftStatus.SCHEDULED && !publishAt) {
+        throw new AppError("Scheduled posts need a publish_at time", 400);
+      }
+
+      const { data, error } = await supabaseAdmin!
+        .from("post_drafts")
+        .insert({
+          user_id: postData.user_id,
+          content: postData.content ?? null,
+          media,
+          feeling: postData.feeling ?? null,
+          visibility: postData.visibility ?? PostVisibility.PUBLIC,
+          location: postData.location ?? null,
+          status: publishAt ? PostDraftStatus.SCHEDULED : PostDraftStatus.DRAFT,
+          publish_at: publishAt,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      return data as PostDraft;
+    },
+    "Failed to save draft"
+  );
+
+  /**
+   * List the user's unpublished drafts and scheduled posts
+   */
+  static listDrafts = asyncHandler(
+    async (userId: string, status?: PostDraftStatus): Promise<PostDraft[]> => {
+      let query = supabaseAdmin!
+        .from("post_drafts")
+        .select("*")
+        .eq("user_id", userId);
+
+      query = status
+        ? query.eq("status", status)
+        : query.neq("status", PostDraftStatus.PUBLISHED);
+
+      const { data, error } = await query.order("updated_at", {
+        ascending: false,
+      });
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      return (data || []) as PostDraft[];
+    },
+    "Failed to list drafts"
+  );
+
+  /**
+   * Get one of the user's drafts
+   */
+  static getDraft = asyncHandler(
+    async (userId: string, draftId: string): Promise<PostDraft> => {
+      const { data, error } = await supabaseAdmin!
+        .from("post_drafts")
+        .select("*")
+        .eq("id", draftId)
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      if (!data) {
+        throw new AppError("Draft not found", 404);
+      }
+
+      return data as PostDraft;
+    },
+    "Failed to get draft"
+  );
+
+  /**
+   * Edit a draft or scheduled post. Setting publish_at schedules it;
+   * clearing it turns it back into a draft.
+   */
+  static updateDraft = asyncHandler(
+    async (
+      userId: string,
+      draftId: string,
+      changes: PostDraftUpdate
+    ): Promise<PostDraft> => {
+      const draft = await this.getDraft(userId, draftId);
+      this.assertEditable(draft);
+
+      const publishAt =
+        changes.publish_at === undefined
+          ? draft.publish_at && draft.status === PostDraftStatus.SCHEDULED
+            ? new Date(draft.publish_at).toISOString()
+            : null
+          : this.parsePublishAt(changes.publish_at);
+
+      const content =
+        changes.content === undefined ? draft.content : changes.content;
+      const media = changes.media ?? draft.media;
+
+      if (!content && media.length === 0) {
+        throw new AppError("A post must contain either content or media", 400);
+      }
+
+      const { data, error } = await supabaseAdmin!
+        .from("post_drafts")
+        .update({
+          content,
+          media,
+          feeling:
+            changes.feeling === undefined ? draft.feeling : changes.feeling,
+          visibility: changes.visibility ?? draft.visibility,
+          location:
+            changes.location === undefined ? draft.location : changes.location,
+          status: publishAt ? PostDraftStatus.SCHEDULED : PostDraftStatus.DRAFT,
+          publish_at: publishAt,
+          error: null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", draftId)
+        .eq("user_id", userId)
+        .in("status", EDITABLE_STATUSES)
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      if (!data) {
+        throw new AppError("This post is already being published", 409);
+      }
+
+      return data as PostDraft;
+    },
+    "Failed to update draft"
+  );
+
+  /**
+   * Discard a draft or cancel a scheduled post
+   */
+  static cancelDraft = asyncHandler(
+    async (userId: string, draftId: string): Promise<void> => {
+      const draft = await this.getDraft(userId, draftId);
+      this.assertEditable(draft);
+
+      const { data, error } = await supabaseAdmin!
+        .from("post_drafts")
+        .delete()
+        .eq("id", draftId)
+        .eq("user_id", userId)
+        .in("status", EDITABLE_STATUSES)
+        .select("id")
+        .maybeSingle();
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      if (!data) {
+        throw new AppError("This post is already being published", 409);
+      }
+    },
+    "Failed to cancel draft"
+  );
+
+  /**
+   * Publish scheduled posts that are due, through the same path as posting
+   * directly so events, broadcasts and feed updates happen now
+   * @returns number of posts published
+   */
+  static publishDueDrafts = asyncHandler(async (): Promise<number> => {
+    // A publish interrupted by a crash may or may not have created the post,
+    // so hand it back to the author rather than risk posting twice
+    await supabaseAdmin!
+      .from("post_drafts")
+      .update({
+        status: PostDraftStatus.FAILED,
+        error: "Publishing was interrupted. Reschedule to try again",
+        updated_at: new Date().toISOString(),
+      })
+      .eq("status", PostDraftStatus.PUBLISHING)
+      .lt(
+        "updated_at",
+        new Date(
+          Date.now() - STALE_PUBLISHING_MINUTES * 60 * 1000
+        ).toISOString()
+      );
+
+    // Authors who deactivated keep their schedule until they come back
+    const { data: due, error } = await supabaseAdmin!
+      .from("post_drafts")
+      .select("id, users!inner(is_active)")
+      .eq("status", PostDraftStatus.SCHEDULED)
+      .lte("publish_at", new Date().toISOString())
+      .eq("users.is_active", true)
+      .order("publish_at", { ascending: true })
+      .limit(DRAFTS_PER_RUN);
+
+    if (error) {
+      throw new AppError(error.message, 400);
+    }
+
+    let published = 0;
+    for (const item of due || []) {
+      // Claim the draft so concurrent runs don't publish it twice
+      const { data: draft } = await supabaseAdmin!
+        .from("post_drafts")
+        .update({
+          status: PostDraftStatus.PUBLISHING,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", item.id)
+        .eq("status", PostDraftStatus.SCHEDULED)
+        .select()
+        .maybeSingle();
+
+      if (!draft) continue;
+
+      try {
+        await this.publishDraft(draft as PostDraft);
+        published++;
+      } catch (err) {
+        logger.error(`Scheduled post ${item.id} failed to publish:`, err);
+        await supabaseAdmin!
+          .from("post_drafts")
+          .update({
+            status: PostDraftStatus.FAILED,
+            error: err instanceof Error ? err.message : "Unknown error",
+            updated_at: new Date().toISOString(),
+          })
+          .eq("id", item.id);
+      }
+    }
+
+    return published;
+  }, "Failed to publish scheduled posts");
+
+  /**
+   * Publish a claimed draft. Once its post exists the draft is published:
+   * failing to attach media or refresh feeds afterwards is only logged, so
+   * rescheduling can't publish the post a second time.
+   */
+  private static async publishDraft(draft: PostDraft): Promise<void> {
+    const post = await PostService.createPost({
+      user_id: draft.user_id,
+      content: draft.content ?? undefined,
+      feeling: draft.feeling ?? undefined,
+      visibility: draft.visibility,
+      location: draft.location ?? undefined,
+    });
+
+    const now = new Date().toISOString();
+    const { error } = await supabaseAdmin!
+      .from("post_drafts")
+      .update({
+        status: PostDraftStatus.PUBLISHED,
+        post_id: post.id as UUID,
+        published_at: now,
+        updated_at: now,
+      })
+      .eq("id", draft.id);
+
+    if (error) {
+      logger.error(
+        `Failed to mark scheduled post ${draft.id} published:`,
+        error
+      );
+    }
+
+    try {
+      if (draft.media.length > 0) {
+        await PostService.addPostMedia(
+          draft.media.map(item => ({ ...item, post_id: post.id }))
+        );
+      }
+
+      await PostService.invalidateRelevantFeeds(post.user_id, post.location);
+    } catch (err) {
+      logger.error(
+        `Scheduled post ${draft.id} was published as post ${post.id} but not finished:`,
+        err
+      );
+    }
+
+    logger.info(`Published scheduled post ${draft.id} as post ${post.id}`);
+  }
+
+  private static assertEditable(draft: PostDraft): void {
+    if (draft.status === PostDraftStatus.PUBLISHED) {
+      throw new AppError("This post has already been published", 409);
+    }
+
+    if (!EDITABLE_STATUSES.includes(draft.status)) {
+      throw new AppError("This post is already being published", 409);
+    }
+  }
+
+  /**
+   * Validate a publish time
+   * @returns the time as an ISO string, or null when none was given
+   */
+  private static parsePublishAt(value?: Date | string | null): string | null {
+    if (value === undefined || value === null || value === "") return null;
+
+    const publishAt = new Date(value);
+    if (Number.isNaN(publishAt.getTime())) {
+      throw new AppError("publish_at must be a valid date", 400);
+    }
+
+    if (publishAt.getTime() <= Date.now()) {
+      throw new AppError("publish_at must be in the future", 400);
+    }
+
+    if (
+      publishAt.getTime() - Date.now() >
+      MAX_SCHEDULE_DAYS * 24 * 60 * 60 * 1000
+    ) {
+      throw new AppError(
+        `Posts can be scheduled at most ${MAX_SCHEDULE_DAYS} days ahead`,
+        400
+      );
+    }
+
+    return publishAt.toISOString();
+  }
+}
@@ -1,4 +1,5 @@
 // src/services/postService.ts
+import crypto, { UUID } from "crypto";
 import { supabase, supabaseAdmin } from "../config/supabase";
 import {
     Post,
@@ -7,14 +8,65 @@ import {
     PostVisibility,
     PostMedia,
     PostMediaCreate,
+    PostRevision,
+    PostShareCreate,
+    PostShareType,
 } from "../models/post.model";
 import { AppError, ExpectedError } from "../middlewares/errorHandler";
 import { FriendshipStatus } from "../models/friendship.model";
 import { asyncHandler } from "../utils/asyncHandler";
 import { StorageService } from "./storageService";
+import { HashtagService } from "./hashtagService";
+import { MentionService } from "./mentionService";
+import { PollService } from "./pollService";
+import { PostViewService } from "./postViewService";
+import { FeedFeedbackService } from "./feedFeedbackService";
+import { FollowService } from "./followService";
+import { NotificationService } from "./notificationService";
+import { ReferenceType } from "../models/notification.model";
+import { getUserBasicProfile } from "../utils/profileUtils";
 import { logger } from "../utils/logger";
 import { PostBoost, PostBoostCreate, BoostStatus } from "../models/boost.model";
-import { redisService, CachedFeedResult } from "./redis.service";
+import { redisService, CachedFeedResult, FeedSnapshot } from "./redis.service";
+import { decodeFeedCursor, encodeFeedCursor } from "../utils/feedCursor";
+import { isExcludedByFeedback } from "../utils/feedFeedback";
+import {
+    feedRankingEngine,
+    FeedRankingContext,
+    FeedTimelineService,
+    FANOUT_FRIEND_LIMIT,
+    RankedPost,
+} from "./feed";
+
+// What edit history tracks about a post
+type PostRevisionState = Pick<
+    PostRevision,
+    "content" | "media" | "feeling" | "visibility"
+>;
+
+// Posts captured when a cursor feed starts; later pages come from this set
+const FEED_SNAPSHOT_SIZE = 200;
+
+// A share can't reach a wider audience than the post it shares
+const VISIBILITY_REACH: Record<PostVisibility, number> = {
+    [PostVisibility.PRIVATE]: 0,
+    [PostVisibility.FRIENDS]: 1,
+    [PostVisibility.PUBLIC]: 2,
+};
+
+const SHARED_POST_SELECT =
+    "*, post_media(*), users!inner(id, username, first_name, last_name, profile_picture)";
+
+/**
+ * One page of the cursor-paginated feed
+ */
+export interface FeedPage {
+    posts: Post[];
+    nextCursor: string | null;
+    hasMore: boolean;
+    newPostsCount: number;
+    snapshotAt: string;
+}
 
 /**
  * Service class for post-related operations
@@ -25,10 +77,13 @@ export class PostService {
      */
     static createPost = asyncHandler(
         async (postData: PostCreate): Promise<Post> => {
+            const { poll, ...fields } = postData;
+            const pollData = poll ? PollService.validatePoll(poll) : undefined;
+
             const { data, error } = await supabaseAdmin!
                 .from("posts")
                 .insert({
-                    ...postData,
+                    ...fields,
                     is_deleted: false,
                     view_count: 0,
                 })
@@ -42,6 +97,18 @@ export class PostService {
                 throw new AppError(error.message, 400);
             }
 
+            if (pollData) {
+                try {
+                    data.poll = await PollService.createPoll(data, pollData);
+                } catch (pollError) {
+                    // A poll post without its poll would be a different post
+                    await supabaseAdmin!.from("posts").delete().eq("id", data.id);
+                    throw pollError;
+                }
+            }
+
+            data.mentions = await MentionService.syncPostMentions(data);
+
             // Emit new post socket event
             try {
                 const { getIO } = require("../socketio");
@@ -64,6 +131,13 @@ export class PostService {
                 logger.error(`Error emitting POST_CREATED event: ${err.message}`);
             }
 
+            await HashtagService.syncPostHashtags(
+                data.id,
+                data.content,
+                data.created_at
+            );
+            await this.publishToTimelines(data as Post);
+
             // Cache invalidation will be handled by controllers/services after media insertion
             return data as Post;
         },
@@ -93,6 +167,111 @@ export class PostService {
         "Failed to add post media"
     );
 
+    /**
+     * Share a post, as a plain reshare or, with content, a quote
+     * Sharing a reshare shares its original. The share can't be more
+     * visible than the post it shares.
+     */
+    static sharePost = asyncHandler(
+        async (
+            postId: string,
+            userId: string,
+            share: PostShareCreate
+        ): Promise<Post> => {
+            const target = await this.getPostById(postId, userId);
+
+            if (!target) {
+                throw new AppError("Post not found", 404);
+            }
+
+            const original =
+                target.share_type === PostShareType.RESHARE
+                    ? target.shared_post
+                    : target;
+
+            if (!original) {
+                throw new AppError("The original post is no longer available", 410);
+            }
+
+            const visibility = share.visibility ?? original.visibility;
+            if (VISIBILITY_REACH[visibility] > VISIBILITY_REACH[original.visibility]) {
+                throw new AppError(
+                    `A ${original.visibility} post can't be shared with visibility ${visibility}`,
+                    403
+                );
+            }
+
+            const content = share.content?.trim();
+            const shareType = content ? PostShareType.QUOTE : PostShareType.RESHARE;
+
+            if (shareType === PostShareType.RESHARE) {
+                await this.assertNotReshared(userId, original.id);
+            }
+
+            const post = await this.createPost({
+                user_id: userId as UUID,
+                content: content || undefined,
+                visibility,
+                shared_post_id: original.id,
+                share_type: shareType,
+            });
+
+            if (original.user_id !== userId) {
+                try {
+                    const sharer = await getUserBasicProfile(userId);
+                    const sharerName =
+                        sharer.first_name && sharer.last_name
+                            ? `${sharer.first_name} ${sharer.last_name}`
+                            : sharer.username || "Someone";
+
+                    await NotificationService.createNotification({
+                        user_id: original.user_id,
+                        actor_id: userId as UUID,
+                        reference_id: post.id,
+                        reference_type: ReferenceType.SHARE,
+                        content:
+                            shareType === PostShareType.QUOTE
+                                ? `${sharerName} quoted your post`
+                                : `${sharerName} shared your post`,
+                    });
+                } catch (error) {
+                    logger.error("Failed to create share notification:", error);
+                }
+            }
+
+            return post;
+        },
+        "Failed to share post"
+    );
+
+    /**
+     * A user can only have one live reshare of a post
+     * @param exceptPostId a share of the user's that is becoming the reshare
+     */
+    private static assertNotReshared = async (
+        userId: string,
+        originalId: string,
+        exceptPostId?: string
+    ): Promise<void> => {
+        let query = supabase
+            .from("posts")
+            .select("id")
+            .eq("user_id", userId)
+            .eq("shared_post_id", originalId)
+            .eq("share_type", PostShareType.RESHARE)
+            .eq("is_deleted", false);
+
+        if (exceptPostId) {
+            query = query.neq("id", exceptPostId);
+        }
+
+        const { data: existing } = await query.limit(1).maybeSingle();
+
+        if (existing) {
+            throw new AppError("You have already shared this post", 409);
+        }
+    };
+
     /**
      * Get a post by ID
      * Handles visibility permissions and includes media
@@ -107,6 +286,7 @@ export class PostService {
                 )
                 .eq("id", postId)
                 .eq("is_deleted", false)
+                .eq("users.is_active", true)
                 .single();
 
             if (error) {
@@ -118,39 +298,298 @@ export class PostService {
             }
 
             // Check visibility permissions
-            if (!currentUserId) {
-                // If no current user, only return public posts
-                if (post.visibility !== PostVisibility.PUBLIC) {
-                    return null;
-                }
-            } else if (currentUserId !== post.user_id) {
-                // Current user is not the author, check visibility
-                if (post.visibility === PostVisibility.PRIVATE) {
-                    return null;
-                }
-
-                if (post.visibility === PostVisibility.FRIENDS) {
-                    // Check if users are friends
-                    const areFriends = await this.checkIfUsersAreFriends(
-                        currentUserId,
-                        post.user_id
-                    );
-                    if (!areFriends) {
-                        return null;
-                    }
-                }
+            if (!(await this.canViewPost(post, currentUserId))) {
+                return null;
             }
 
-            // Increment view count if not the post author
-            if (currentUserId && currentUserId !== post.user_id) {
-                await this.incrementPostViewCount(postId);
+            // Count the view once per viewer per window; authors aren't counted
+            if (currentUserId) {
+                await PostViewService.recordView(postId, currentUserId, post.user_id);
             }
 
-            return post as Post;
+            // A reshare whose original is gone is still returned here so
+            // its author can delete it
+            const [withShared] = await this.withPostExtras(
+                [post as Post],
+                currentUserId,
+                false
+            );
+
+            return withShared;
         },
         "Failed to get post"
     );
 
+    /**
+     * Whether a user may see a post, by the same rules as getPostById,
+     * without loading or counting a view of it
+     */
+    static canUserViewPost = asyncHandler(
+        async (postId: string, currentUserId?: string): Promise<boolean> => {
+            const { data: post, error } = await supabase
+                .from("posts")
+                .select("user_id, visibility, users!inner(id)")
+                .eq("id", postId)
+                .eq("is_deleted", false)
+                .eq("users.is_active", true)
+                .maybeSingle();
+
+            if (error) {
+                throw new AppError(error.message, 400);
+            }
+
+            return !!post && (await this.canViewPost(post, currentUserId));
+        },
+        "Failed to check post visibility"
+    );
+
+    /**
+     * Get posts tagged with a hashtag that the user may see, newest first
+     */
+    static getHashtagPosts = asyncHandler(
+        async (
+            tag: string,
+            currentUserId?: string,
+            page = 1,
+            limit = 10
+        ): Promise<{ posts: Post[]; total: number }> => {
+            const offset = (page - 1) * limit;
+
+            const visible = await this.visiblePostsFilter(currentUserId);
+
+            const { data, error, count } = await supabase
+                .from("posts")
+                .select(
+                    "*, post_media(*), users!inner(id, username, first_name, last_name, profile_picture), post_hashtags!inner(tag)",
+                    { count: "exact" }
+                )
+                .eq("post_hashtags.tag", tag)
+                .eq("is_deleted", false)
+                .eq("users.is_active", true)
+                .or(visible)
+                .order("created_at", { ascending: false })
+                .range(offset, offset + limit - 1);
+
+            if (error) {
+                throw new AppError(error.message, 400);
+            }
+
+            return {
+                posts: await this.withPostExtras(data as Post[], currentUserId),
+                total: count || 0,
+            };
+        },
+        "Failed to get hashtag posts"
+    );
+
+    /**
+     * Load posts by ID in the given order, keeping only those the user may
+     * see, as lists show them
+     */
+    static getPostsByIds = asyncHandler(
+        async (postIds: string[], currentUserId?: string): Promise<Post[]> => {
+            if (postIds.length === 0) return [];
+
+            const visible = await this.visiblePostsFilter(currentUserId);
+
+            const { data, error } = await supabase
+                .from("posts")
+                .select(SHARED_POST_SELECT)
+                .in("id", postIds)
+                .eq("is_deleted", false)
+                .eq("users.is_active", true)
+                .or(visible);
+
+            if (error) {
+                throw new AppError(error.message, 400);
+            }
+
+            const postsById = new Map(
+                (data || []).map(post => [post.id as string, post as Post])
+            );
+
+            return this.withPostExtras(
+                postIds
+                    .filter(postId => postsById.has(postId))
+                    .map(postId => postsById.get(postId)!),
+                currentUserId
+            );
+        },
+        "Failed to get posts"
+    );
+
+    /**
+     * PostgREST filter for posts a user may see: public posts, their own,
+     * and friends-only posts by friends
+     */
+    private static visiblePostsFilter = async (
+        currentUserId?: string
+    ): Promise<string> => {
+        const visible = [`visibility.eq.${PostVisibility.PUBLIC}`];
+        if (currentUserId) {
+            visible.push(`user_id.eq.${currentUserId}`);
+
+            const friendIds = await this.getUserFriendsCached(currentUserId);
+            if (friendIds.length > 0) {
+                visible.push(
+                    `and(visibility.eq.${PostVisibility.FRIENDS},user_id.in.(${friendIds.join(",")}))`
+                );
+            }
+        }
+
+        return visible.join(",");
+    };
+
+    /**
+     * Whether a user may see a post given its visibility
+     * Private helper shared by everything that exposes a single post
+     */
+    private static canViewPost = async (
+        post: { user_id: string; visibility: PostVisibility },
+        currentUserId?: string
+    ): Promise<boolean> => {
+        if (!currentUserId) {
+            // If no current user, only public posts are visible
+            return post.visibility === PostVisibility.PUBLIC;
+        }
+
+        if (currentUserId === post.user_id) {
+            return true;
+        }
+
+        // Current user is not the author, check visibility
+        if (post.visibility === PostVisibility.PRIVATE) {
+            return false;
+        }
+
+        if (post.visibility === PostVisibility.FRIENDS) {
+            return this.checkIfUsersAreFriends(currentUserId, post.user_id);
+        }
+
+        return true;
+    };
+
+    /**
+     * Add what a viewer sees alongside posts: the post each share points
+     * at, and polls, including those on shared posts. View and impression
+     * counts are left on the viewer's own posts only.
+     */
+    private static withPostExtras = async <T extends Post>(
+        posts: T[],
+        viewerId?: string,
+        dropUnavailable = true
+    ): Promise<T[]> => {
+        const withShared = await this.attachSharedPosts(
+            posts,
+            viewerId,
+            dropUnavailable
+        );
+        const shared = withShared
+            .map(post => post.shared_post)
+            .filter((post): post is Post => !!post);
+
+        const withPolls = await PollService.attachPolls(
+            [...withShared, ...shared],
+            viewerId
+        );
+        const sharedById = new Map(
+            withPolls.slice(withShared.length).map(post => [post.id, post])
+        );
+
+        return (withPolls.slice(0, withShared.length) as T[]).map(post => {
+            const shared = post.shared_post
+                ? sharedById.get(post.shared_post.id)
+                : post.shared_post;
+
+            return this.withoutAuthorStats(
+                shared
+                    ? {
+                          ...post,
+                          shared_post: this.withoutAuthorStats(shared, viewerId),
+                      }
+                    : post,
+                viewerId
+            );
+        });
+    };
+
+    /**
+     * Drop the counts only a post's author sees
+     */
+    private static withoutAuthorStats = <T extends Post>(
+        post: T,
+        viewerId?: string
+    ): T => {
+        if (post.user_id === viewerId) {
+            return post;
+        }
+
+        const stripped = { ...post };
+        delete stripped.view_count;
+        delete stripped.impression_count;
+        return stripped;
+    };
+
+    /**
+     * Embed the post each share points at, as the viewer may see it
+     * Shares of deleted or hidden posts get a null shared_post. A plain
+     * reshare has nothing else to show, so lists drop it.
+     */
+    private static attachSharedPosts = async <T extends Post>(
+        posts: T[],
+        viewerId?: string,
+        dropUnavailable = true
+    ): Promise<T[]> => {
+        const sharedIds = [
+            ...new Set(
+                posts
+                    .filter(post => post.share_type && post.shared_post_id)
+                    .map(post => post.shared_post_id as string)
+            ),
+        ];
+        const visible = new Map<string, Post>();
+
+        if (sharedIds.length > 0) {
+            const [{ data, error }, friendIds] = await Promise.all([
+                supabase
+                    .from("posts")
+                    .select(SHARED_POST_SELECT)
+                    .in("id", sharedIds)
+                    .eq("is_deleted", false)
+                    .eq("users.is_active", true),
+                viewerId ? this.getUserFriendsCached(viewerId) : ([] as string[]),
+            ]);
+
+            if (error) {
+                throw new AppError(error.message, 400);
+            }
+
+            for (const original of (data || []) as Post[]) {
+                if (
+                    original.visibility === PostVisibility.PUBLIC ||
+                    original.user_id === viewerId ||
+                    (original.visibility === PostVisibility.FRIENDS &&
+                        friendIds.includes(original.user_id))
+                ) {
+                    visible.set(original.id, original);
+                }
+            }
+        }
+
+        return posts
+            .filter(
+                post =>
+                    !dropUnavailable ||
+                    post.share_type !== PostShareType.RESHARE ||
+                    visible.has(post.shared_post_id ?? "")
+            )
+            .map(post =>
+                post.share_type
+                    ? { ...post, shared_post: visible.get(post.shared_post_id ?? "") ?? null }
+                    : post
+            );
+    };
+
     /**
      * Get posts for a specific user with pagination
      */
@@ -171,7 +610,8 @@ export class PostService {
                     { count: "exact" }
                 )
                 .eq("user_id", userId)
-                .eq("is_deleted", false);
+                .eq("is_deleted", false)
+                .eq("users.is_active", true);
 
             // If current user is not the owner, filter by visibility
             if (!currentUserId || currentUserId !== userId) {
@@ -211,7 +651,7 @@ export class PostService {
             }
 
             return {
-                posts: data as Post[],
+                posts: await this.withPostExtras(data as Post[], currentUserId),
                 total: count || 0,
             };
         },
@@ -310,88 +750,6 @@ export class PostService {
         "Failed to calculate total posts"
     );
 
-    /**
-     * Get paginated posts with proper offset handling
-     * Private helper method for paginated feed generation
-     */
-    private static getPaginatedFeedData = asyncHandler(
-        async (
-            userId: string,
-            friendIds: string[],
-            userLocation: any,
-            seenBoosts: string[],
-            page: number,
-            limit: number
-        ) => {
-            // Calculate how many posts we need to fetch to support pagination
-            const bufferMultiplier = Math.max(page * 2, 3); // Fetch more data for later pages
-
-            // Fetch larger datasets to support pagination
-            const [userPosts, friendsPosts, boostedPosts, friendLikedPosts, publicPosts] =
-                await Promise.all([
-                    this.getUserOwnPostsCached(userId, limit * bufferMultiplier), // User's own posts
-                    this.getFriendsPostsCached(friendIds, limit * bufferMultiplier),
-                    this.getBoostedPostsCached(
-                        userLocation,
-                        Math.min(page * 3, 10),
-                        seenBoosts
-                    ), // Scale boosts with page
-                    this.getFriendLikedPostsCached(friendIds, Math.min(page * 5, 15), [
-                        userId,
-                        ...friendIds,
-                    ]), // Scale friend-liked
-                    this.getPublicPostsCached(limit * bufferMultiplier, [
-                        userId,
-                        ...friendIds,
-                    ]), // Get plenty of public posts
-                ]);
-
-            return {
-                userPosts,
-                friendsPosts,
-                boostedPosts,
-                friendLikedPosts,
-                publicPosts,
-            };
-        },
-        "Failed to get paginated feed data"
-    );
-
-    /**
-     * Generate paginated mixed feed
-     * Maintains consistent mixing ratios across pages
-     */
-    // private static generatePaginatedFeed = (
-    //   feedData: {
-    //     friendsPosts: any[];
-    //     boostedPosts: any[];
-    //     friendLikedPosts: any[];
-    //     publicPosts: any[];
-    //   },
-    //   page: number,
-    //   limit: number
-    // ): any[] => {
-    //   const { friendsPosts, boostedPosts, friendLikedPosts, publicPosts } =
-    //     feedData;
-
-    //   // Create a large mixed feed first
-    //   const largeMixedFeed = this.simpleFeedMix({
-    //     friendsPosts,
-    //     boostedPosts,
-    //     friendLikedPosts,
-    //     publicPosts,
-    //     limit: limit * Math.max(page * 2, 5), // Generate larger feed for pagination
-    //   });
-    //   console.log(largeMixedFeed, "largeMixedFeed");
-
-    //   // Apply pagination offset
-    //   const startIndex = (page - 1) * limit;
-    //   const endIndex = startIndex + limit;
-
-    //   // Return paginated results
-    //   return largeMixedFeed.slice(startIndex, endIndex);
-    // };
-
     /**
      * Get user location with caching
      * Private helper method for feed generation
@@ -412,585 +770,56 @@ export class PostService {
                     .limit(1)
                     .maybeSingle();
 
-                if (error) {
-                    logger.warn(`Failed to fetch user location for ${userId}:`, error);
-                }
-
-                location = data || { city: null, country: null };
-
-                // Cache the result
-                await redisService.setUserLocation(userId, location);
-            }
-
-            return location;
-        },
-        "Failed to get user location"
-    );
-
-    /**
-     * Get user friends list with caching
-     * Private helper method for feed generation
-     */
-    private static getUserFriendsCached = asyncHandler(
-        async (userId: string): Promise<string[]> => {
-            // Try cache first
-            let friendIds = await redisService.getUserFriends(userId);
-
-            if (!friendIds) {
-                // Fetch from database
-                const { data, error } = await supabase
-                    .from("friendships")
-                    .select("requester_id, addressee_id")
-                    .or(`requester_id.eq.${userId},addressee_id.eq.${userId}`)
-                    .eq("status", FriendshipStatus.ACCEPTED);
-
-                if (error) {
-                    logger.warn(`Failed to fetch user friends for ${userId}:`, error);
-                    return [];
-                }
-
-                // Extract friend IDs
-                friendIds = (data || []).map(f =>
-                    f.requester_id === userId ? f.addressee_id : f.requester_id
-                );
-
-                // Cache the result
-                await redisService.setUserFriends(userId, friendIds);
-            }
-
-            return friendIds;
-        },
-        "Failed to get user friends"
-    );
-
-    /**
-     * Simple feed mixing - sort all posts chronologically (newest first)
-     * Private helper method for feed generation
-     */
-    private static simpleFeedMix = (options: {
-        userPosts: any[];
-        friendsPosts: any[];
-        boostedPosts: any[];
-        friendLikedPosts: any[];
-        publicPosts: any[];
-        page: number;
-        limit: number;
-    }): any[] => {
-        const { userPosts, friendsPosts, boostedPosts, friendLikedPosts, publicPosts, page, limit } =
-            options;
-
-        // Tag all posts with their feed type
-        const taggedUserPosts = userPosts.map(post => ({ ...post, feed_type: "own" }));
-        const taggedFriendsPosts = friendsPosts.map(post => ({ ...post, feed_type: "friends" }));
-        const taggedBoostedPosts = boostedPosts.map(post => ({ ...post, feed_type: "boosted" }));
-        const taggedFriendLikedPosts = friendLikedPosts.map(post => ({ ...post, feed_type: "friend_liked" }));
-        const taggedPublicPosts = publicPosts.map(post => ({ ...post, feed_type: "public" }));
-
-        // Combine all posts
-        const allPosts = [
-            ...taggedUserPosts,
-            ...taggedFriendsPosts,
-            ...taggedBoostedPosts,
-            ...taggedFriendLikedPosts,
-            ...taggedPublicPosts,
-        ];
-
-        // Remove duplicates (keep first occurrence)
-        const uniquePosts = allPosts.filter(
-            (post, index, self) => self.findIndex(p => p.id === post.id) === index
-        );
-
-        // Sort by created_at DESC (newest first)
-        const sortedPosts = uniquePosts.sort((a, b) => {
-            const dateA = new Date(a.created_at).getTime();
-            const dateB = new Date(b.created_at).getTime();
-            return dateB - dateA; // Descending order (newest first)
-        });
-
-        // Apply pagination offset
-        const startIndex = (page - 1) * limit;
-        const endIndex = startIndex + limit;
-
-        // Return paginated results
-        return sortedPosts.slice(startIndex, endIndex);
-    };
-
-    /**
-     * Get boosted posts with location targeting and deduplication
-     * Private helper method for feed generation
-     */
-    private static getBoostedPostsCached = asyncHandler(
-        async (
-            userLocation: { city: string | null; country: string | null },
-            targetCount: number,
-            seenBoosts: string[]
-        ) => {
-            const { country } = userLocation;
-            const boostedPosts: any[] = [];
-
-            // Get location-targeted boosts only (if user has location)
-            if (country) {
-                let locationBoosts = await redisService.getBoostedPosts(country);
-
-                if (!locationBoosts) {
-                    const { data, error } = await supabase
-                        .from("posts")
-                        .select(
-                            `
-              *, 
-              post_media(*), 
-              users!inner(username, first_name, last_name, profile_picture),
-              post_boosts!inner(status, city, country, expires_at)
-            `
-                        )
-                        .eq("post_boosts.status", BoostStatus.ACTIVE)
-                        .eq("post_boosts.country", country)
-                        .eq("is_deleted", false)
-                        .gte("post_boosts.expires_at", new Date().toISOString())
-                        .order("created_at", { ascending: false })
-                        .limit(20); // Reasonable limit for location boosts
-
-                    if (error) {
-                        logger.warn("Failed to fetch location boosted posts:", error);
-                        locationBoosts = [];
-                    } else {
-                        locationBoosts = data || [];
-                        await redisService.setBoostedPosts(country, locationBoosts);
-                    }
-                }
-
-                boostedPosts.push(...(locationBoosts || []));
-            }
-
-            // Remove duplicates and filter out seen posts
-            const uniqueBoosts = boostedPosts
-                .filter(
-                    (post, index, self) =>
-                        // Remove duplicates by ID
-                        self.findIndex(p => p.id === post.id) === index &&
-                        // // Remove posts user has already seen
-                        !seenBoosts.includes(post.id)
-                )
-                .slice(0, Math.ceil(targetCount * 1.5)); // Get extra for rotation
-            console.log(uniqueBoosts, "uniqueBoosts");
-            console.log(seenBoosts, "uniqueBoosts");
-
-            return uniqueBoosts;
-        },
-        "Failed to get boosted posts"
-    );
-
-    /**
-     * Get friends posts with caching
-     * Private helper method for feed generation
-     */
-    private static getFriendsPostsCached = asyncHandler(
-        async (friendIds: string[], targetCount: number) => {
-            if (friendIds.length === 0) return [];
-
-            // For simplicity, we'll fetch fresh friends posts for now
-            // In production, you might want to cache this per friend combination
-            const { data, error } = await supabase
-                .from("posts")
-                .select(
-                    `
-          *, 
-          post_media(*), 
-          users!inner(username, first_name, last_name, profile_picture)
-        `
-                )
-                .in("user_id", friendIds)
-                .eq("is_deleted", false)
-                .in("visibility", [PostVisibility.PUBLIC, PostVisibility.FRIENDS])
-                .order("created_at", { ascending: false })
-                .limit(Math.ceil(targetCount * 1.5)); // Get extra for mixing
-
-            if (error) {
-                logger.warn("Failed to fetch friends posts:", error);
-                return [];
-            }
-
-            return data || [];
-        },
-        "Failed to get friends posts"
-    );
-
-    /**
-     * Get location-based posts with caching
-     * Private helper method for feed generation
-     */
-    //   private static getLocationPostsCached = asyncHandler(
-    //     async (
-    //       userLocation: { city: string | null; country: string | null },
-    //       targetCount: number,
-    //       page: number = 1
-    //     ) => {
-    //       const { city, country } = userLocation;
-
-    //       if (!city || !country) return [];
-
-    //       // Try cache first
-    //       let locationPosts = await redisService.getLocationPosts(
-    //         city,
-    //         country,
-    //         page
-    //       );
-
-    //       if (!locationPosts) {
-    //         // Note: This assumes posts will eventually have location data
-    //         // For now, we'll return empty array since organic posts don't have location
-    //         // In the future, you might want to implement location-based organic posts
-    //         locationPosts = [];
-
-    //         // Cache the empty result to avoid repeated queries
-    //         await redisService.setLocationPosts(city, country, page, locationPosts);
-    //       }
-
-    //       return locationPosts;
-    //     },
-    //     "Failed to get location posts"
-    //   );
-
-    /**
-     * Get posts that user's friends have liked
-     * Shows posts user might be interested in based on friend activity
-     */
-    private static getFriendLikedPostsCached = asyncHandler(
-        async (
-            friendIds: string[],
-            targetCount: number,
-            excludeUserIds: string[] = []
-        ) => {
-            if (friendIds.length === 0) return [];
-
-            // Try cache first (simple approach for now)
-            const cacheKey = `friend_liked_posts:${friendIds.sort().join(",")}`;
-            let friendLikedPosts: any[] = (await redisService.get(cacheKey)) || [];
-
-            if (friendLikedPosts.length === 0) {
-                // Get posts that friends have liked (recent reactions first)
-                const { data: reactionData, error } = await supabase
-                    .from("reactions")
-                    .select("target_id, created_at")
-                    .in("user_id", friendIds) // Reactions from user's friends
-                    .eq("target_type", "post") // Only post reactions
-                    .eq("reaction_type", "like") // Only likes
-                    .order("created_at", { ascending: false }) // Recent likes first
-                    .limit(targetCount * 3); // Get extra for filtering
-
-                console.log(reactionData, "reactionData");
-
-                if (error) {
-                    logger.warn("Failed to fetch friend reactions:", error);
-                    return [];
-                }
-
-                if (!reactionData || reactionData.length === 0) {
-                    return [];
-                }
-
-                // Get unique post IDs
-                const likedPostIds = [...new Set(reactionData.map(r => r.target_id))];
-
-                // Now fetch the actual posts
-                let postsQuery = supabase
-                    .from("posts")
-                    .select(
-                        `
-            *,
-            post_media(*),
-            users!inner(username, first_name, last_name, profile_picture)
-          `
-                    )
-                    .in("id", likedPostIds)
-                    .eq("is_deleted", false)
-                    .eq("visibility", PostVisibility.PUBLIC)
-                    .limit(targetCount * 2);
-
-                // Exclude specific users if provided
-                if (excludeUserIds.length > 0) {
-                    postsQuery = postsQuery.not(
-                        "user_id",
-                        "in",
-                        `(${excludeUserIds.join(",")})`
-                    );
-                }
-
-                const { data: postsData, error: postsError } = await postsQuery;
-                console.log(postsData, "postsData react frined");
-
-                if (postsError) {
-                    logger.warn("Failed to fetch friend-liked posts:", postsError);
-                    return [];
-                }
-
-                // Sort posts by reaction time (most recently liked first)
-                const sortedPosts = (postsData || []).sort((a, b) => {
-                    const reactionA = reactionData.find(r => r.target_id === a.id);
-                    const reactionB = reactionData.find(r => r.target_id === b.id);
-                    return (
-                        new Date(reactionB?.created_at || 0).getTime() -
-                        new Date(reactionA?.created_at || 0).getTime()
-                    );
-                });
-
-                friendLikedPosts = sortedPosts;
-
-                console.log(friendLikedPosts, "friendLikedPosts");
-
-                // Cache for 5 minutes (shorter TTL since likes change frequently)
-                await redisService.set(cacheKey, friendLikedPosts, 300);
-            }
-
-            return friendLikedPosts;
-        },
-        "Failed to get friend-liked posts"
-    );
-
-    /**
-     * Get public posts to fill feed with caching
-     * Focuses on recent public posts from any users
-     */
-    private static getPublicPostsCached = asyncHandler(
-        async (targetCount: number, excludeUserIds: string[] = []) => {
-            // Try cache first (using page 1 for simplicity)
-            let publicPosts = await redisService.getPopularPosts(1);
-
-            if (!publicPosts) {
-                let query = supabase
-                    .from("posts")
-                    .select(
-                        `
-            *, 
-            post_media(*), 
-            users!inner(username, first_name, last_name, profile_picture)
-          `
-                    )
-                    .eq("is_deleted", false)
-                    .eq("visibility", PostVisibility.PUBLIC)
-                    .order("created_at", { ascending: false }) // Recent posts first
-                    .limit(Math.max(targetCount * 2, 50)); // Get plenty for mixing
-
-                // Exclude specific users if provided (avoid duplicates)
-                if (excludeUserIds.length > 0) {
-                    query = query.not("user_id", "in", `(${excludeUserIds.join(",")})`);
-                }
-
-                const { data, error } = await query;
-
-                if (error) {
-                    logger.warn("Failed to fetch public posts:", error);
-                    return [];
-                }
-
-                publicPosts = data || [];
-                await redisService.setPopularPosts(1, publicPosts);
-            }
-
-            return publicPosts;
-        },
-        "Failed to get public posts"
-    );
-
-    /**
-     * Get user's own posts for their feed
-     * Shows user's recent posts in their own feed
-     */
-    private static getUserOwnPostsCached = asyncHandler(
-        async (userId: string, targetCount: number) => {
-            const { data, error } = await supabase
-                .from("posts")
-                .select(
-                    `
-          *, 
-          post_media(*), 
-          users!inner(username, first_name, last_name, profile_picture)
-        `
-                )
-                .eq("user_id", userId)
-                .eq("is_deleted", false)
-                .order("created_at", { ascending: false })
-                .limit(targetCount);
+                if (error) {
+                    logger.warn(`Failed to fetch user location for ${userId}:`, error);
+                }
 
-            if (error) {
-                logger.warn("Failed to fetch user's own posts:", error);
-                return [];
+                location = data || { city: null, country: null };
+
+                // Cache the result
+                await redisService.setUserLocation(userId, location);
             }
 
-            return data || [];
+            return location;
         },
-        "Failed to get user's own posts"
+        "Failed to get user location"
     );
 
-    // ============= POST MIXING ALGORITHM =============
-
     /**
-     * Intelligent post mixing algorithm
-     * Distributes different post types according to calculated ratios
-     */
-    //   private static intelligentMixPosts = (options: {
-    //     friendsPosts: any[];
-    //     locationPosts: any[];
-    //     boostedPosts: any[];
-    //     popularPosts: any[];
-    //     composition: any;
-    //     limit: number;
-    //     userId: string;
-    //   }): any[] => {
-    //     const {
-    //       friendsPosts,
-    //       locationPosts,
-    //       boostedPosts,
-    //       popularPosts,
-    //       composition,
-    //       limit,
-    //     } = options;
-
-    //     const result: any[] = [];
-
-    //     // Create post pools with type information
-    //     const postPools = {
-    //       friends: friendsPosts.map((post) => ({ ...post, feed_type: "friends" })),
-    //       location: locationPosts.map((post) => ({
-    //         ...post,
-    //         feed_type: "location",
-    //       })),
-    //       boosted: boostedPosts.map((post) => ({ ...post, feed_type: "boosted" })),
-    //       popular: popularPosts.map((post) => ({ ...post, feed_type: "popular" })),
-    //     };
-
-    //     // Create weighted distribution slots
-    //     const slots = this.createWeightedSlots(limit, composition);
-
-    //     // Fill slots with posts
-    //     for (const slot of slots) {
-    //       const pool = postPools[slot.type as keyof typeof postPools];
-
-    //       if (pool && pool.length > 0) {
-    //         // Take the first post from the pool
-    //         const post = pool.shift();
-    //         if (post) {
-    //           result.push(post);
-    //         }
-    //       } else {
-    //         // Fallback to other types if current type is empty
-    //         const fallbackPost = this.getFallbackPost(postPools);
-    //         if (fallbackPost) {
-    //           result.push({ ...fallbackPost, feed_type: "fallback" });
-    //         }
-    //       }
-    //     }
-
-    //     return result;
-    //   };
-
-    /**
-     * Create weighted distribution slots based on composition ratios
-     * Private helper for post mixing
+     * Get user friends list with caching
+     * Private helper method for feed generation
      */
-    //   private static createWeightedSlots = (
-    //     limit: number,
-    //     composition: any
-    //   ): Array<{ type: string; priority: number }> => {
-    //     const { friends, location, boosted } = composition;
-
-    //     // Calculate actual counts based on ratios
-    //     const friendsCount = Math.round((friends / composition.totalSlots) * limit);
-    //     const locationCount = Math.round(
-    //       (location / composition.totalSlots) * limit
-    //     );
-    //     const boostedCount = Math.round((boosted / composition.totalSlots) * limit);
-    //     const popularCount = limit - friendsCount - locationCount - boostedCount;
-
-    //     // Create base distribution
-    //     const distribution = [
-    //       ...Array(friendsCount).fill({ type: "friends", priority: 3 }),
-    //       ...Array(locationCount).fill({ type: "location", priority: 2 }),
-    //       ...Array(boostedCount).fill({ type: "boosted", priority: 1 }),
-    //       ...Array(Math.max(0, popularCount)).fill({
-    //         type: "popular",
-    //         priority: 1,
-    //       }),
-    //     ];
-
-    //     // Shuffle for natural distribution (avoid clustering)
-    //     const shuffled = this.shuffleArray(distribution);
-
-    //     // Ensure boosted posts are well-distributed (every 3-4 posts)
-    //     return this.optimizeBoostedDistribution(shuffled, boostedCount);
-    //   };
+    private static getUserFriendsCached = asyncHandler(
+        async (userId: string): Promise<string[]> => {
+            // Try cache first
+            let friendIds = await redisService.getUserFriends(userId);
 
-    /**
-     * Shuffle array for natural post distribution
-     * Private helper for post mixing
-     */
-    // private static shuffleArray = <T>(array: T[]): T[] => {
-    //   const shuffled = [...array];
-    //   for (let i = shuffled.length - 1; i > 0; i--) {
-    //     const j = Math.floor(Math.random() * (i + 1));
-    //     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-    //   }
-    //   return shuffled;
-    // };
+            if (!friendIds) {
+                // Fetch from database
+                const { data, error } = await supabase
+                    .from("friendships")
+                    .select("requester_id, addressee_id")
+                    .or(`requester_id.eq.${userId},addressee_id.eq.${userId}`)
+                    .eq("status", FriendshipStatus.ACCEPTED);
 
-    /**
-     * Optimize boosted post distribution to avoid clustering
-     * Private helper for post mixing
-     */
-    //   private static optimizeBoostedDistribution = (
-    //     slots: Array<{ type: string; priority: number }>,
-    //     boostedCount: number
-    //   ): Array<{ type: string; priority: number }> => {
-    //     if (boostedCount === 0) return slots;
-
-    //     const optimized = [...slots];
-    //     const interval = Math.floor(slots.length / boostedCount);
-
-    //     // Move boosted posts to evenly distributed positions
-    //     const boostedSlots = optimized.filter((slot) => slot.type === "boosted");
-    //     const nonBoostedSlots = optimized.filter((slot) => slot.type !== "boosted");
-
-    //     const result: Array<{ type: string; priority: number }> = [];
-    //     let boostedIndex = 0;
-    //     let nonBoostedIndex = 0;
-
-    //     for (let i = 0; i < slots.length; i++) {
-    //       // Place boosted post every 'interval' positions
-    //       if (i > 0 && i % interval === 0 && boostedIndex < boostedSlots.length) {
-    //         result.push(boostedSlots[boostedIndex++]);
-    //       } else if (nonBoostedIndex < nonBoostedSlots.length) {
-    //         result.push(nonBoostedSlots[nonBoostedIndex++]);
-    //       }
-    //     }
-
-    //     // Add any remaining posts
-    //     while (boostedIndex < boostedSlots.length) {
-    //       result.push(boostedSlots[boostedIndex++]);
-    //     }
-    //     while (nonBoostedIndex < nonBoostedSlots.length) {
-    //       result.push(nonBoostedSlots[nonBoostedIndex++]);
-    //     }
-
-    //     return result.slice(0, slots.length);
-    //   };
+                if (error) {
+                    logger.warn(`Failed to fetch user friends for ${userId}:`, error);
+                    return [];
+                }
 
-    /**
-     * Get fallback post when preferred type is unavailable
-     * Private helper for post mixing
-     */
-    //   private static getFallbackPost = (postPools: any): any => {
-    //     // Priority order for fallback: friends > popular > location > boosted
-    //     const fallbackOrder = ["friends", "popular", "location", "boosted"];
+                // Extract friend IDs
+                friendIds = (data || []).map(f =>
+                    f.requester_id === userId ? f.addressee_id : f.requester_id
+                );
 
-    //     for (const type of fallbackOrder) {
-    //       const pool = postPools[type];
-    //       if (pool && pool.length > 0) {
-    //         return pool.shift();
-    //       }
-    //     }
+                // Cache the result
+                await redisService.setUserFriends(userId, friendIds);
+            }
 
-    //     return null;
-    //   };
+            return friendIds;
+        },
+        "Failed to get user friends"
+    );
 
     /**
      * Track seen boosted posts for deduplication
@@ -1007,17 +836,51 @@ export class PostService {
         }
     };
 
+    /**
+     * Gather what the ranking pipeline needs to know about the viewer
+     */
+    private static buildFeedContext = async (
+        userId: string
+    ): Promise<FeedRankingContext> => {
+        const [userLocation, friendIds, followingIds, seenBoosts, feedback] =
+            await Promise.all([
+                this.getUserLocationCached(userId),
+                this.getUserFriendsCached(userId),
+                FollowService.getFollowingIds(userId),
+                redisService.getSeenBoosts(userId),
+                FeedFeedbackService.getSignals(userId),
+            ]);
+
+        return {
+            userId,
+            friendIds,
+            followingIds,
+            userLocation,
+            seenBoosts,
+            feedback,
+            now: new Date(),
+        };
+    };
+
+    private static toFeedPost = ({ post, feed_type, explanation }: RankedPost) => ({
+        ...post,
+        feed_type,
+        ...(explanation && { ranking: explanation }),
+    });
+
     // ============= MAIN FEED METHOD =============
 
     /**
      * Get posts for the feed with pagination
-     * Includes posts from user and their friends, or popular posts if no friends
+     * Includes posts from user and their friends, or popular posts if no friends.
+     * With explain, each post carries its ranking explanation.
      */
     static getFeedPosts = asyncHandler(
         async (
             userId: string,
             page = 1,
-            limit = 10
+            limit = 10,
+            explain = false
         ): Promise<{ posts: Post[]; total: number; composition?: any }> => {
             // Validate pagination parameters
             if (page < 1) {
@@ -1031,11 +894,19 @@ export class PostService {
             }
 
             // 1. Try cache first (include total in cache structure)
-            const cachedFeed = await redisService.getUserFeed(userId, page);
+            const cachedFeed = explain
+                ? null
+                : await redisService.getUserFeed(userId, page);
             if (cachedFeed) {
                 const feedResult = cachedFeed as CachedFeedResult;
+                const posts = await this.withPostExtras(
+                    feedResult.posts as unknown as Post[],
+                    userId
+                );
+                await PostViewService.recordImpressions(posts, userId);
+
                 return {
-                    posts: feedResult.posts as unknown as Post[],
+                    posts,
                     total: feedResult.total,
                     composition: {
                         cached: true,
@@ -1045,72 +916,50 @@ export class PostService {
                 };
             }
 
-            // 2. Get user location (with caching)
-            const userLocation = await this.getUserLocationCached(userId);
-
-            // 3. Get user friends (with caching)
-            const friendIds = await this.getUserFriendsCached(userId);
-
-            // 4. Get seen boosts for deduplication
-            const seenBoosts = await redisService.getSeenBoosts(userId);
+            // 2. Gather what ranking needs to know about the viewer
+            const ctx = await this.buildFeedContext(userId);
 
-            // 5. Calculate total available posts for proper pagination
+            // 3. Calculate total available posts for proper pagination
             const totalCounts = await this.calculateTotalAvailablePosts(
                 userId,
-                friendIds,
-                userLocation,
-                seenBoosts
-            );
-
-            // 6. Get paginated feed data with proper scaling
-            const feedData = await this.getPaginatedFeedData(
-                userId,
-                friendIds,
-                userLocation,
-                seenBoosts,
-                page,
-                limit
+                ctx.friendIds,
+                ctx.userLocation,
+                ctx.seenBoosts
             );
 
-            console.log("Feed data lengths:", {
-                user: feedData.userPosts.length,
-                friends: feedData.friendsPosts.length,
-                boosted: feedData.boostedPosts.length,
-                friendLiked: feedData.friendLikedPosts.length,
-                public: feedData.publicPosts.length,
-            });
-
-            // 7. Generate mixed feed directly (simpler approach)
-            const mixedFeed = this.simpleFeedMix({
-                userPosts: feedData.userPosts,
-                friendsPosts: feedData.friendsPosts,
-                boostedPosts: feedData.boostedPosts,
-                friendLikedPosts: feedData.friendLikedPosts,
-                publicPosts: feedData.publicPosts,
-                page,
-                limit,
+            // 4. Rank candidates from every source, fetching deeper for later pages
+            const { posts: ranked, sourceCounts } = await feedRankingEngine.rank(ctx, {
+                candidatesPerSource: limit * Math.max(page * 2, 3),
+                explain,
             });
 
-            console.log(
-                "Direct mixed feed:",
-                mixedFeed.map(p => ({ id: p.id, feed_type: p.feed_type }))
-            );
+            const mixedFeed = ranked
+                .slice((page - 1) * limit, page * limit)
+                .map(this.toFeedPost);
 
-            // 8. Track seen boosted posts
+            // 5. Track seen boosted posts
             await this.trackSeenBoosts(userId, mixedFeed);
 
-            // 9. Cache the result with total count
-            const feedResult = {
-                posts: mixedFeed,
-                total: totalCounts.estimatedTotal,
-                page,
-                hasMore: page * limit < totalCounts.estimatedTotal,
-            };
+            // 6. Cache the result with total count
+            if (!explain) {
+                const feedResult = {
+                    posts: mixedFeed,
+                    total: totalCounts.estimatedTotal,
+                    page,
+                    hasMore: page * limit < totalCounts.estimatedTotal,
+                };
+
+                await redisService.setUserFeed(userId, page, feedResult);
+            }
 
-            await redisService.setUserFeed(userId, page, feedResult);
+            const posts = await this.withPostExtras(
+                mixedFeed as unknown as Post[],
+                userId
+            );
+            await PostViewService.recordImpressions(posts, userId);
 
             return {
-                posts: mixedFeed as unknown as Post[],
+                posts,
                 total: totalCounts.estimatedTotal,
                 composition: {
                     cached: false,
@@ -1118,11 +967,13 @@ export class PostService {
                     hasMore: page * limit < totalCounts.estimatedTotal,
                     totalPages: Math.ceil(totalCounts.estimatedTotal / limit),
                     counts: {
-                        user: feedData.userPosts.length,
-                        friends: feedData.friendsPosts.length,
-                        boosted: feedData.boostedPosts.length,
-                        friendLiked: feedData.friendLikedPosts.length,
-                        public: feedData.publicPosts.length,
+                        user: sourceCounts.own ?? 0,
+                        friends: sourceCounts.friends ?? 0,
+                        following: sourceCounts.following ?? 0,
+                        boosted: sourceCounts.boosted ?? 0,
+                        friendLiked: sourceCounts.friend_liked ?? 0,
+                        location: sourceCounts.location ?? 0,
+                        public: sourceCounts.public ?? 0,
                         mixed: mixedFeed.length,
                         requested: limit,
                     },
@@ -1139,14 +990,245 @@ export class PostService {
         "Failed to get feed posts"
     );
 
+    /**
+     * Get a page of the feed by cursor
+     * The first request (no cursor) snapshots the candidate set; later pages
+     * are served from that snapshot so posts don't shift or repeat between
+     * pages as new posts land. Posts deleted since are dropped from the page.
+     */
+    static getFeedPage = asyncHandler(
+        async (
+            userId: string,
+            cursor?: string,
+            limit = 10,
+            explain = false
+        ): Promise<FeedPage> => {
+            if (limit < 1 || limit > 50) {
+                throw new AppError("Limit must be between 1 and 50", 400);
+            }
+
+            let snapshotId: string;
+            let offset = 0;
+            let snapshot: FeedSnapshot;
+            let stored = true;
+
+            if (cursor) {
+                ({ snapshotId, offset, snapshot } = await this.loadFeedSnapshot(
+                    userId,
+                    cursor
+                ));
+            } else {
+                snapshotId = crypto.randomUUID();
+                snapshot = await this.createFeedSnapshot(userId, explain);
+
+                stored = await redisService.setFeedSnapshot(
+                    userId,
+                    snapshotId,
+                    snapshot
+                );
+                if (!stored) {
+                    logger.warn(`Feed snapshot for user ${userId} could not be stored`);
+                }
+            }
+
+            const pageEntries = snapshot.entries.slice(offset, offset + limit);
+            const nextOffset = offset + pageEntries.length;
+            // A cursor into a snapshot that was never stored would only
+            // come back as expired, so such a feed ends at its first page
+            const hasMore = stored && nextOffset < snapshot.entries.length;
+
+            const [posts, newPostsCount] = await Promise.all([
+                this.hydrateFeedEntries(userId, pageEntries),
+                this.countNewFeedPosts(userId, snapshot.createdAt),
+            ]);
+
+            await this.trackSeenBoosts(userId, posts);
+            await PostViewService.recordImpressions(posts as Post[], userId);
+
+            return {
+                posts: posts as Post[],
+                nextCursor: hasMore
+                    ? encodeFeedCursor({ snapshotId, offset: nextOffset })
+                    : null,
+                hasMore,
+                newPostsCount,
+                snapshotAt: snapshot.createdAt,
+            };
+        },
+        "Failed to get feed posts"
+    );
+
+    /**
+     * Count posts that arrived after the snapshot behind a feed cursor,
+     * so the client can offer a pull-to-refresh
+     */
+    static getNewFeedPostsCount = asyncHandler(
+        async (userId: string, cursor: string): Promise<number> => {
+            const { snapshot } = await this.loadFeedSnapshot(userId, cursor);
+
+            return this.countNewFeedPosts(userId, snapshot.createdAt);
+        },
+        "Failed to count new feed posts"
+    );
+
+    /**
+     * Resolve a cursor to the user's snapshot it points into
+     */
+    private static loadFeedSnapshot = async (
+        userId: string,
+        cursor: string
+    ): Promise<{ snapshotId: string; offset: number; snapshot: FeedSnapshot }> => {
+        const decoded = decodeFeedCursor(cursor);
+        if (!decoded) {
+            throw new AppError("Invalid feed cursor", 400);
+        }
+
+        const snapshot = await redisService.getFeedSnapshot(
+            userId,
+            decoded.snapshotId
+        );
+        if (!snapshot) {
+            throw new AppError(
+                "This feed has expired. Refresh to load the latest posts",
+                410
+            );
+        }
+
+        return { ...decoded, snapshot };
+    };
+
+    /**
+     * Rank the candidate set for a new cursor feed
+     * Ranking explanations are kept with the snapshot when requested, so every
+     * page of a debug feed carries them.
+     */
+    private static createFeedSnapshot = async (
+        userId: string,
+        explain: boolean
+    ): Promise<FeedSnapshot> => {
+        // Taken before querying so nothing posted meanwhile is missed by
+        // the new posts count
+        const createdAt = new Date().toISOString();
+
+        const ctx = await this.buildFeedContext(userId);
+        const { posts: ranked } = await feedRankingEngine.rank(ctx, {
+            candidatesPerSource: FEED_SNAPSHOT_SIZE,
+            explain,
+        });
+
+        return {
+            entries: ranked.slice(0, FEED_SNAPSHOT_SIZE).map(entry => ({
+                id: entry.post.id,
+                feed_type: entry.feed_type,
+                ...(entry.explanation && { ranking: entry.explanation }),
+            })),
+            createdAt,
+        };
+    };
+
+    /**
+     * Load the current state of snapshot entries, keeping snapshot order
+     */
+    private static hydrateFeedEntries = async (
+        userId: string,
+        entries: FeedSnapshot["entries"]
+    ): Promise<any[]> => {
+        if (entries.length === 0) return [];
+
+        const [{ data, error }, feedback] = await Promise.all([
+            supabase
+                .from("posts")
+                .select(
+                    `
+          *, 
+          post_media(*), 
+          users!inner(username, first_name, last_name, profile_picture)
+            `
+                )
+                .in(
+                    "id",
+                    entries.map(entry => entry.id)
+                )
+                .eq("is_deleted", false)
+                .eq("users.is_active", true)
+                // Posts made private since the snapshot drop out for other viewers
+                .or(`user_id.eq.${userId},visibility.neq.${PostVisibility.PRIVATE}`),
+            FeedFeedbackService.getSignals(userId),
+        ]);
+
+        if (error) {
+            throw new AppError(error.message, 400);
+        }
+
+        // Feedback given while scrolling applies to the rest of the snapshot
+        const postsById = new Map(
+            (data || [])
+                .filter(
+                    post =>
+                        post.user_id === userId ||
+                        !isExcludedByFeedback(post, feedback)
+                )
+                .map(post => [post.id, post])
+        );
+
+        return this.withPostExtras(
+            entries
+                .filter(entry => postsById.has(entry.id))
+                .map(entry => ({
+                    ...postsById.get(entry.id),
+                    feed_type: entry.feed_type,
+                    ...(entry.ranking && { ranking: entry.ranking }),
+                })),
+            userId
+        );
+    };
+
+    /**
+     * Count feed-eligible posts by others created after a point in time
+     */
+    private static countNewFeedPosts = async (
+        userId: string,
+        since: string
+    ): Promise<number> => {
+        const friendIds = await this.getUserFriendsCached(userId);
+
+        let query = supabase
+            .from("posts")
+            .select("id, users!inner(is_active)", { count: "exact", head: true })
+            .gt("created_at", since)
+            .neq("user_id", userId)
+            .eq("is_deleted", false)
+            .eq("users.is_active", true);
+
+        query =
+            friendIds.length > 0
+                ? query.or(
+                    `visibility.eq.${PostVisibility.PUBLIC},and(user_id.in.(${friendIds.join(",")}),visibility.eq.${PostVisibility.FRIENDS})`
+                )
+                : query.eq("visibility", PostVisibility.PUBLIC);
+
+        const { count, error } = await query;
+
+        if (error) {
+            logger.warn("Failed to count new feed posts:", error);
+            return 0;
+        }
+
+        return count ?? 0;
+    };
+
     /**
      * Update a post
+     * When media is given it replaces the post's media. Edits that change
+     * content, media, feeling or visibility are kept as revisions and mark
+     * the post as edited.
      */
     static updatePost = asyncHandler(
         async (
             postId: string,
             userId: string,
-            updateData: PostUpdate
+            updateData: PostUpdate,
+            media?: PostMediaCreate[]
         ): Promise<Post> => {
             // Check if post exists and belongs to user
             const post = await this.getPostById(postId, userId);
@@ -1155,26 +1237,214 @@ export class PostService {
                 throw new AppError("Post not found", 404);
             }
 
+            if (
+                post.shared_post &&
+                updateData.visibility &&
+                VISIBILITY_REACH[updateData.visibility] >
+                    VISIBILITY_REACH[post.shared_post.visibility]
+            ) {
+                throw new AppError(
+                    `A share of a ${post.shared_post.visibility} post can't have visibility ${updateData.visibility}`,
+                    403
+                );
+            }
+
+            // A share with commentary is a quote, without it a reshare
+            const shareType =
+                post.share_type && updateData.content !== undefined
+                    ? updateData.content?.trim()
+                        ? PostShareType.QUOTE
+                        : PostShareType.RESHARE
+                    : undefined;
+
+            if (
+                shareType === PostShareType.RESHARE &&
+                post.share_type !== PostShareType.RESHARE &&
+                post.shared_post_id
+            ) {
+                await this.assertNotReshared(userId, post.shared_post_id, postId);
+            }
+
+            const before = this.toRevisionState(
+                post,
+                (post as any).post_media || []
+            );
+            const after = this.toRevisionState(
+                { ...post, ...updateData },
+                media ?? before.media
+            );
+            const isEdit = JSON.stringify(before) !== JSON.stringify(after);
+
+            if (media) {
+                // Earlier revisions still show the old files, so keep them
+                await this.deletePostMedia(postId, true);
+                if (media.length > 0) {
+                    await this.addPostMedia(media);
+                }
+            }
+
+            const now = new Date().toISOString();
+
             // Update post
             const { data, error } = await supabaseAdmin!
                 .from("posts")
                 .update({
                     ...updateData,
-                    updated_at: new Date().toISOString(),
+                    ...(shareType && { share_type: shareType }),
+                    is_edited: post.is_edited || isEdit,
+                    edited_at: isEdit ? now : post.edited_at ?? null,
+                    updated_at: now,
                 })
                 .eq("id", postId)
                 .select("*, post_media(*)")
                 .single();
 
             if (error) {
+                if (error.code === "23505") {
+                    throw new AppError("You have already shared this post", 409);
+                }
                 throw new AppError(error.message, 400);
             }
 
-            return data as Post;
+            if (isEdit) {
+                await this.recordRevision(post, before, after, userId);
+            }
+
+            if (before.content !== after.content) {
+                await HashtagService.syncPostHashtags(
+                    postId,
+                    after.content,
+                    post.created_at
+                );
+                data.mentions = await MentionService.syncPostMentions(data);
+            }
+
+            const [updated] = await this.withPostExtras(
+                [data as Post],
+                userId,
+                false
+            );
+
+            return updated;
         },
         "Failed to update post"
     );
 
+    /**
+     * Get a post's revisions, newest first
+     * Follows the post's own visibility rules; empty when never edited
+     * @returns null when the post doesn't exist or isn't visible to the user
+     */
+    static getPostRevisions = asyncHandler(
+        async (
+            postId: string,
+            currentUserId?: string
+        ): Promise<PostRevision[] | null> => {
+            const { data: post, error } = await supabase
+                .from("posts")
+                .select("id, user_id, visibility, users!inner(is_active)")
+                .eq("id", postId)
+                .eq("is_deleted", false)
+                .eq("users.is_active", true)
+                .maybeSingle();
+
+            if (error) {
+                throw new AppError(error.message, 400);
+            }
+
+            if (!post || !(await this.canViewPost(post, currentUserId))) {
+                return null;
+            }
+
+            const { data: revisions, error: revisionsError } = await supabase
+                .from("post_revisions")
+                .select("*")
+                .eq("post_id", postId)
+                .order("revision_number", { ascending: false });
+
+            if (revisionsError) {
+                throw new AppError(revisionsError.message, 400);
+            }
+
+            return (revisions || []) as PostRevision[];
+        },
+        "Failed to get post revisions"
+    );
+
+    /**
+     * The parts of a post that edit history tracks
+     */
+    private static toRevisionState = (
+        post: Pick<Post, "content" | "feeling" | "visibility">,
+        media: Pick<PostMedia, "media_url" | "media_type" | "order">[]
+    ): PostRevisionState => ({
+        content: post.content ?? null,
+        media: media
+            .map(({ media_url, media_type, order }) => ({
+                media_url,
+                media_type,
+                order: order ?? 0,
+            }))
+            .sort((a, b) => a.order - b.order),
+        feeling: post.feeling ?? null,
+        visibility: post.visibility,
+    });
+
+    /**
+     * Append an edit to a post's history, first saving the original if this
+     * is the post's first edit
+     * The edit itself has already been saved, so failures are only logged
+     */
+    private static recordRevision = async (
+        post: Post,
+        before: PostRevisionState,
+        after: PostRevisionState,
+        editorId: string
+    ): Promise<void> => {
+        const { data: latest, error } = await supabaseAdmin!
+            .from("post_revisions")
+            .select("revision_number")
+            .eq("post_id", post.id)
+            .order("revision_number", { ascending: false })
+            .limit(1)
+            .maybeSingle();
+
+        if (error) {
+            logger.error(`Failed to record revision of post ${post.id}:`, error);
+            return;
+        }
+
+        const revisions: Omit<PostRevision, "id">[] = latest
+            ? []
+            : [
+                {
+                    post_id: post.id,
+                    revision_number: 1,
+                    ...before,
+                    edited_by: post.user_id,
+                    created_at: post.created_at,
+                },
+            ];
+        revisions.push({
+            post_id: post.id,
+            revision_number: (latest?.revision_number ?? 1) + 1,
+            ...after,
+            edited_by: editorId as UUID,
+            created_at: new Date(),
+        });
+
+        const { error: insertError } = await supabaseAdmin!
+            .from("post_revisions")
+            .insert(revisions);
+
+        if (insertError) {
+            logger.error(
+                `Failed to record revision of post ${post.id}:`,
+                insertError
+            );
+        }
+    };
+
     /**
      * Delete a post (soft delete)
      */
@@ -1227,38 +1497,6 @@ export class PostService {
         "Failed to check friendship status"
     );
 
-    /**
-     * Increment post view count
-     * Private helper method
-     */
-    private static incrementPostViewCount = asyncHandler(
-        async (postId: string): Promise<void> => {
-            // First fetch the current view count
-            const { data: post, error: fetchError } = await supabase
-                .from("posts")
-                .select("view_count")
-                .eq("id", postId)
-                .single();
-
-            if (fetchError) {
-                throw new AppError(fetchError.message, 400);
-            }
-
-            // Then update with the incremented value
-            const { error: updateError } = await supabaseAdmin!
-                .from("posts")
-                .update({
-                    view_count: (post.view_count || 0) + 1,
-                })
-                .eq("id", postId);
-
-            if (updateError) {
-                throw new AppError(updateError.message, 400);
-            }
-        },
-        "Failed to increment view count"
-    );
-
     /**
      * Get all posts with advanced filtering capabilities (admin, moderator function)
      */
@@ -1353,9 +1591,10 @@ export class PostService {
 
     /**
      * Delete all media for a post
+     * With keepFiles, only the records go; the files stay in storage
      */
     static deletePostMedia = asyncHandler(
-        async (postId: string): Promise<void> => {
+        async (postId: string, keepFiles = false): Promise<void> => {
             // First get the current media items to delete them from storage later
             const { data: mediaItems, error: fetchError } = await supabase
                 .from("post_media")
@@ -1376,6 +1615,10 @@ export class PostService {
                 throw new AppError(deleteError.message, 400);
             }
 
+            if (keepFiles) {
+                return;
+            }
+
             // Attempt to delete the files from storage
             // This is best-effort - we don't want to fail if the file is already gone
             for (const item of mediaItems) {
@@ -1433,7 +1676,10 @@ export class PostService {
             }
 
             return {
-                posts: data as unknown as Post[],
+                posts: await this.withPostExtras(
+                    data as unknown as Post[],
+                    userId
+                ),
                 total: count || 0,
             };
         },
@@ -1656,8 +1902,30 @@ export class PostService {
         }
     };
 
+    /**
+     * Push a new post into its audience's timelines
+     * Failures are logged; timelines missing the post are rebuilt on read
+     */
+    private static publishToTimelines = async (post: Post): Promise<void> => {
+        try {
+            const [friendIds, location] = await Promise.all([
+                this.getUserFriendsCached(post.user_id),
+                this.getUserLocationCached(post.user_id),
+            ]);
+
+            await FeedTimelineService.fanOutPost(post, {
+                friendIds,
+                country: location.country,
+            });
+        } catch (error) {
+            logger.warn(`Failed to fan out post ${post.id}:`, error);
+        }
+    };
+
     /**
      * Invalidate relevant feed caches when posts are created/updated
+     * Timelines already hold new posts; this only drops the short-lived
+     * page caches of the author and their friends
      */
     public static invalidateRelevantFeeds = async (
         userId: string,
@@ -1667,11 +1935,14 @@ export class PostService {
             // Invalidate user's own feed
             await redisService.invalidateUserFeed(userId);
 
-            // Invalidate friends' feeds (they might see this post)
+            // Invalidate friends' feeds (they might see this post). Page caches
+            // expire within seconds, so high-fanout authors skip this
             const friendIds = await this.getUserFriendsCached(userId);
-            await Promise.all(
-                friendIds.map(friendId => redisService.invalidateUserFeed(friendId))
-            );
+            if (friendIds.length <= FANOUT_FRIEND_LIMIT) {
+                await Promise.all(
+                    friendIds.map(friendId => redisService.invalidateUserFeed(friendId))
+                );
+            }
 
             // Invalidate location-based feeds if post has location
             if (location?.city && location?.country) {
@@ -1681,12 +1952,6 @@ export class PostService {
                 );
             }
 
-            // Invalidate popular posts cache (new post might affect popularity)
-            await redisService.invalidatePopularPosts();
-
-            // Clear all user feed caches to ensure immediate visibility of public/recommended posts
-            await redisService.deletePattern("feed:user:*");
-
             logger.info(
                 `Invalidated feed caches for user ${userId} and ${friendIds.length} friends`
             );
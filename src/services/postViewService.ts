@@ -0,0 +1,110 @@
+// src/services/postViewService.ts
+import { supabaseAdmin } from "../config/supabase";
+import { AppError } from "../middlewares/errorHandler";
+import { asyncHandler } from "../utils/asyncHandler";
+import { redisService } from "./redis.service";
+
+/**
+ * A detail view is someone opening the post itself; an impression is the
+ * post being shown to them in a feed
+ */
+export type PostViewKind = "view" | "impression";
+
+/**
+ * Service class for post view and impression counts.
+ *
+ * Each viewer is counted once per post per window. Viewers are tracked in
+ * Redis sets that expire with their window, and new viewers are added to a
+ * pending counts hash that is flushed to the database in batches by
+ * the post view flush job. Without Redis views go uncounted rather than
+ * being counted on every refresh.
+ */
+export class PostViewService {
+  /**
+   * Record that a user opened a post. Authors viewing their own post are
+   * not counted.
+   */
+  static recordView = async (
+    postId: string,
+    viewerId: string,
+    authorId: string
+  ): Promise<void> => {
+    if (viewerId === authorId) return;
+
+    await this.record("view", [postId], viewerId);
+  };
+
+  /**
+   * Record that posts were shown to a user in a feed, leaving out their own
+   */
+  static recordImpressions = async (
+    posts: { id: string; user_id: string }[],
+    viewerId: string
+  ): Promise<void> => {
+    const postIds = posts
+      .filter(post => post.user_id !== viewerId)
+      .map(post => post.id);
+
+    await this.record("impression", postIds, viewerId);
+  };
+
+  /**
+   * Add pending views and impressions to the posts table
+   * @returns the number of posts updated
+   */
+  static flushCounts = asyncHandler(async (): Promise<number> => {
+    const viewsKey = redisService.keys.pendingPostCounts("view");
+    const impressionsKey = redisService.keys.pendingPostCounts("impression");
+
+    const [views, impressions] = await Promise.all([
+      redisService.takeHashCounts(viewsKey),
+      redisService.takeHashCounts(impressionsKey),
+    ]);
+
+    if (
+      Object.keys(views).length === 0 &&
+      Object.keys(impressions).length === 0
+    ) {
+      return 0;
+    }
+
+    const { data, error } = await supabaseAdmin!.rpc("add_post_view_counts", {
+      p_views: views,
+      p_impressions: impressions,
+    });
+
+    if (error) {
+      // Put the counts back so the next run can retry them
+      await Promise.all([
+        redisService.addHashCounts(viewsKey, views),
+        redisService.addHashCounts(impressionsKey, impressions),
+      ]);
+      throw new AppError(error.message, 400);
+    }
+
+    return data || 0;
+  }, "Failed to flush post view counts");
+
+  private static record = async (
+    kind: PostViewKind,
+    postIds: string[],
+    viewerId: string
+  ): Promise<void> => {
+    if (postIds.length === 0) return;
+
+    const ttl = redisService.getTTL().POST_VIEW_WINDOW;
+    const window = Math.floor(Date.now() / 1000 / ttl);
+
+    // Redis errors are logged and swallowed there, so counting never
+    // breaks reading posts
+    await redisService.addUniqueAndCount(
+      [...new Set(postIds)].map(postId => ({
+        setKey: redisService.keys.postViewers(kind, postId, window),
+        member: viewerId,
+        field: postId,
+      })),
+      redisService.keys.pendingPostCounts(kind),
+      ttl
+    );
+  };
+}
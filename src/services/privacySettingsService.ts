@@ -127,10 +127,12 @@ export class PrivacySettingsService {
       // Get current settings
       const currentSettings = await this.getUserPrivacySettings(userId);
 
-      // Merge current settings with new updates
+      // Merge current settings with new updates. The 2FA flag mirrors the
+      // real enrollment state and can only change through the 2FA endpoints.
       const updatedSettings = {
         ...currentSettings.settings,
         ...updateData.settings,
+        twoFactorAuthEnabled: !!currentSettings.settings.twoFactorAuthEnabled,
       };
 
       // Update in the database
@@ -217,10 +219,16 @@ export class PrivacySettingsService {
     userId: UUID,
   ): Promise<UserPrivacySettingsRecord> {
     try {
+      const currentSettings = await this.getUserPrivacySettings(userId);
+
       const { data, error } = await supabaseAdmin!
         .from("user_privacy_settings")
         .update({
-          settings: DEFAULT_EXTENDED_PRIVACY_SETTINGS,
+          settings: {
+            ...DEFAULT_EXTENDED_PRIVACY_SETTINGS,
+            twoFactorAuthEnabled:
+              !!currentSettings.settings.twoFactorAuthEnabled,
+          },
           updated_at: new Date().toISOString(),
         })
         .eq("user_id", userId)
@@ -243,6 +251,41 @@ export class PrivacySettingsService {
     }
   }
 
+  /**
+   * Mirror the user's 2FA enrollment state into their privacy settings
+   */
+  static async setTwoFactorAuthEnabled(
+    userId: UUID,
+    enabled: boolean,
+  ): Promise<void> {
+    try {
+      const currentSettings = await this.getUserPrivacySettings(userId);
+
+      const { error } = await supabaseAdmin!
+        .from("user_privacy_settings")
+        .update({
+          settings: {
+            ...currentSettings.settings,
+            twoFactorAuthEnabled: enabled,
+          },
+          updated_at: new Date().toISOString(),
+        })
+        .eq("user_id", userId);
+
+      if (error) {
+        logger.error("Error updating two-factor privacy flag:", error);
+        throw new AppError(error.message, 400);
+      }
+
+      await this.invalidateCache(userId);
+    } catch (error) {
+      logger.error("Error in setTwoFactorAuthEnabled:", error);
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to update two-factor privacy flag", 500);
+    }
+  }
+
   /**
    * Delete a user's privacy settings (rarely used - mainly for account deletion)
    */
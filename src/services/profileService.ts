@@ -16,7 +16,7 @@ export class ProfileService {
         .select(
           `
           *,
-          user:users(
+          user:users!inner(
             id, 
             first_name, 
             last_name, 
@@ -28,6 +28,7 @@ export class ProfileService {
         `,
         )
         .eq("user_id", userId)
+        .eq("user.is_active", true)
         .single();
 
       if (error && error.code !== "PGRST116") {
@@ -188,7 +189,7 @@ export class ProfileService {
       let query = supabase.from("profiles").select(
         `
         *,
-        user:users(
+        user:users!inner(
           id, 
           first_name, 
           last_name, 
@@ -199,7 +200,9 @@ export class ProfileService {
         )
       `,
         { count: "exact" },
-      );
+      )
+      // Deactivated accounts are hidden until restored
+      .eq("user.is_active", true);
 
       // Apply filters if provided
       if (filters) {
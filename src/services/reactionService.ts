@@ -10,6 +10,7 @@ import {
 } from "../models/interaction.model";
 import { UUID } from "crypto"; // Add this import
 import { PostService } from "./postService";
+import { PostViewService } from "./postViewService";
 import { CommentService } from "./commentService";
 import { NotificationService } from "./notificationService";
 import { ReferenceType } from "../models/notification.model";
@@ -67,28 +68,6 @@ export class ReactionService {
         throw new AppError(error.message, 400);
       }
 
-      // Increment target post's view count (since reacting implies viewing)
-      if (reactionData.target_type === TargetType.POST) {
-        try {
-          const { data: post } = await supabaseAdmin!
-            .from("posts")
-            .select("view_count")
-            .eq("id", reactionData.target_id)
-            .single();
-          if (post) {
-            const currentViews = post.view_count || 0;
-            const newViews = Math.max(currentViews, 1) + 1;
-            await supabaseAdmin!
-              .from("posts")
-              .update({ view_count: newViews })
-              .eq("id", reactionData.target_id);
-            logger.info(`👁️ Incremented views on post ${reactionData.target_id} to ${newViews} via reaction creation.`);
-          }
-        } catch (err: any) {
-          logger.warn(`Failed to increment post view count on reaction: ${err.message}`);
-        }
-      }
-
       // Get the target (post or comment) to notify its owner
       let targetOwnerId: string;
       if (reactionData.target_type === TargetType.POST) {
@@ -96,6 +75,15 @@ export class ReactionService {
           reactionData.target_id.toString(),
         );
         targetOwnerId = post?.user_id ?? "";
+
+        // Reacting implies viewing; counted once per viewer like other views
+        if (post) {
+          await PostViewService.recordView(
+            post.id,
+            reactionData.user_id.toString(),
+            post.user_id,
+          );
+        }
       } else {
         const comment = await CommentService.getCommentById(
           reactionData.target_id.toString(),
@@ -1,5 +1,7 @@
 import Redis from "ioredis";
+import { TimelineEntry } from "../utils/timelineMerge";
 import { AppError } from "../middlewares/errorHandler";
+import { RankingExplanation } from "./feed/feedRanking.types";
 
 // Feed-related types for better type safety
 export interface CachedPost {
@@ -17,6 +19,12 @@ export interface CachedFeedResult {
   hasMore: boolean;
 }
 
+// Ordered candidate set a cursor-paginated feed is served from
+export interface FeedSnapshot {
+  entries: { id: string; feed_type: string; ranking?: RankingExplanation }[];
+  createdAt: string;
+}
+
 export interface UserLocation {
   city: string | null;
   country: string | null;
@@ -46,8 +54,17 @@ class RedisService {
 
     // Feed system TTLs
     USER_FEED: 5, // 5 seconds (main feed cache)
+    FEED_SNAPSHOT: 1800, // 30 minutes (cursor pagination snapshot)
+    FEED_AUTHOR_AFFINITY: 900, // 15 minutes (ranking affinity per viewer)
+    FEED_FEEDBACK: 900, // 15 minutes (cleared when the viewer gives feedback)
+    HOME_TIMELINE: 86400, // 24 hours (refreshed on read)
+    AUTHOR_TIMELINE: 604800, // 7 days (refreshed on write)
+    SHARED_TIMELINE: 604800, // 7 days (public and location timelines)
+    TRENDING_HASHTAGS: 300, // 5 minutes (trending window slides slowly)
+    POST_VIEW_WINDOW: 86400, // 24 hours (a viewer counts once per window)
     USER_LOCATION: 3600, // 1 hour (location doesn't change often)
     USER_FRIENDS: 1800, // 30 minutes (friends list)
+    USER_FOLLOWING: 1800, // 30 minutes (followed users)
     LOCATION_POSTS: 600, // 10 minutes (location posts change less frequently)
     BOOSTED_POSTS: 180, // 3 minutes (boosted posts need fresher data)
     POPULAR_POSTS: 900, // 15 minutes (popular posts change slowly)
@@ -59,6 +76,13 @@ class RedisService {
     USER_MARKETPLACE: 900, // 15 minutes (marketplace stats)
     USER_SUBSCRIPTION: 1800, // 30 minutes (subscription details)
     USER_SEARCH: 300, // 5 minutes (search results)
+
+    // Auth TTLs
+    SESSION_STATUS: 300, // 5 minutes (revocation also deletes the key)
+    EMAIL_VERIFICATION_COOLDOWN: 60, // 1 minute between resend requests
+    EMAIL_VERIFICATION_WINDOW: 3600, // 1 hour (resend cap window)
+    ACCESS_TOKEN: 300, // 5 minutes (revocation also deletes the key)
+    ACCESS_TOKEN_LAST_USED: 300, // 5 minutes between last_used_at writes
   };
 
   /**
@@ -144,8 +168,17 @@ class RedisService {
 
       // Feed system TTLs
       USER_FEED: 5, // 5 seconds (main feed cache)
+      FEED_SNAPSHOT: 1800, // 30 minutes (cursor pagination snapshot)
+      FEED_AUTHOR_AFFINITY: 900, // 15 minutes (ranking affinity per viewer)
+      FEED_FEEDBACK: 900, // 15 minutes (cleared when the viewer gives feedback)
+      HOME_TIMELINE: 86400, // 24 hours (refreshed on read)
+      AUTHOR_TIMELINE: 604800, // 7 days (refreshed on write)
+      SHARED_TIMELINE: 604800, // 7 days (public and location timelines)
+      TRENDING_HASHTAGS: 300, // 5 minutes (trending window slides slowly)
+      POST_VIEW_WINDOW: 86400, // 24 hours (a viewer counts once per window)
       USER_LOCATION: 3600, // 1 hour (location doesn't change often)
       USER_FRIENDS: 1800, // 30 minutes (friends list)
+      USER_FOLLOWING: 1800, // 30 minutes (followed users)
       LOCATION_POSTS: 600, // 10 minutes (location posts change less frequently)
       BOOSTED_POSTS: 180, // 3 minutes (boosted posts need fresher data)
       POPULAR_POSTS: 900, // 15 minutes (popular posts change slowly)
@@ -157,6 +190,13 @@ class RedisService {
       USER_MARKETPLACE: 900, // 15 minutes (marketplace stats)
       USER_SUBSCRIPTION: 1800, // 30 minutes (subscription details)
       USER_SEARCH: 300, // 5 minutes (search results)
+
+      // Auth TTLs
+      SESSION_STATUS: 300, // 5 minutes (revocation also deletes the key)
+      EMAIL_VERIFICATION_COOLDOWN: 60, // 1 minute between resend requests
+      EMAIL_VERIFICATION_WINDOW: 3600, // 1 hour (resend cap window)
+      ACCESS_TOKEN: 300, // 5 minutes (revocation also deletes the key)
+      ACCESS_TOKEN_LAST_USED: 300, // 5 minutes between last_used_at writes
     };
   }
 
@@ -190,8 +230,29 @@ class RedisService {
 
     // Feed system keys
     userFeed: (userId: string, page: number) => `feed:user:${userId}:${page}`,
+    // Not under feed:user so new posts don't invalidate open snapshots
+    feedSnapshot: (userId: string, snapshotId: string) =>
+      `feed:snapshot:${userId}:${snapshotId}`,
+    feedAuthorAffinity: (userId: string) => `feed:affinity:${userId}`,
+    feedFeedback: (userId: string) => `feed:feedback:${userId}`,
     userLocation: (userId: string) => `location:${userId}`,
     userFriends: (userId: string) => `friends:${userId}`,
+    userFollowing: (userId: string) => `following:${userId}`,
+
+    // Fan-out timelines (sorted sets of post IDs scored by creation time)
+    homeTimeline: (userId: string) => `timeline:home:${userId}`,
+    authorTimeline: (userId: string) => `timeline:author:${userId}`,
+    publicTimeline: () => "timeline:public",
+    locationTimeline: (country: string) => `timeline:location:${country}`,
+    highFanoutAuthors: () => "timeline:high-fanout",
+    trendingHashtags: (hours: number, country: string, limit: number) =>
+      `hashtags:trending:${hours}:${country}:${limit}`,
+
+    // Post views and feed impressions: who was counted in the current
+    // window, and counts waiting to be flushed to the database
+    postViewers: (kind: string, postId: string, window: number) =>
+      `post:${kind}:viewers:${postId}:${window}`,
+    pendingPostCounts: (kind: string) => `post:${kind}:pending`,
 
     // Boosted posts by location
     boostedPosts: (country: string) => `boosted:${country}`,
@@ -226,6 +287,26 @@ class RedisService {
       sortBy: string,
       order: string
     ) => `user:search:${searchTerm}:${page}:${limit}:${sortBy}:${order}`,
+
+    // Auth keys
+    sessionStatus: (sessionId: string) => `session:status:${sessionId}`,
+    twoFactorChallenge: (challengeId: string) =>
+      `2fa:challenge:${challengeId}`,
+    emailVerificationCooldown: (userId: string) =>
+      `email:verification:cooldown:${userId}`,
+    emailVerificationResends: (userId: string) =>
+      `email:verification:resends:${userId}`,
+    bruteForceAttempts: (scope: string, subject: string) =>
+      `bruteforce:${scope}:attempts:${subject}`,
+    bruteForceBlock: (scope: string, subject: string) =>
+      `bruteforce:${scope}:block:${subject}`,
+    accountLockout: (account: string) => `auth:lockout:${account}`,
+    accessToken: (tokenHash: string) => `auth:pat:${tokenHash}`,
+    accessTokenLastUsed: (tokenId: string) => `auth:pat:last-used:${tokenId}`,
+
+    // Rate limit keys
+    rateLimit: (policy: string, subject: string) =>
+      `ratelimit:${policy}:${subject}`,
   };
 
   // ============= GENERIC CACHE OPERATIONS =============
@@ -332,6 +413,253 @@ class RedisService {
     }
   }
 
+  /**
+   * Atomically increment a counter, starting its TTL on the first increment
+   * Returns null when Redis is unavailable so callers can fail open
+   */
+  async increment(key: string, ttl: number): Promise<number | null> {
+    if (!this.isReady()) return null;
+
+    try {
+      const count = await this.client!.incr(key);
+      if (count === 1) {
+        await this.client!.expire(key, ttl);
+      }
+      return count;
+    } catch (error) {
+      console.error(`Redis INCR error for key ${key}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Seconds until a key expires
+   * Returns null when the key is missing, has no expiry or Redis is unavailable
+   */
+  async getRemainingTTL(key: string): Promise<number | null> {
+    if (!this.isReady()) return null;
+
+    try {
+      const seconds = await this.client!.ttl(key);
+      return seconds > 0 ? seconds : null;
+    } catch (error) {
+      console.error(`Redis TTL error for key ${key}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Add a member to sorted sets, keeping only the maxLength highest scores
+   * With onlyExisting, sets that don't exist yet are left alone
+   * Returns how many sets were written
+   */
+  async addToSortedSets(
+    keys: string[],
+    member: string,
+    score: number,
+    maxLength: number,
+    ttl: number,
+    onlyExisting = false
+  ): Promise<number> {
+    if (!this.isReady() || keys.length === 0) return 0;
+
+    try {
+      let targets = keys;
+      if (onlyExisting) {
+        const existsPipeline = this.client!.pipeline();
+        keys.forEach(key => existsPipeline.exists(key));
+        const exists = await existsPipeline.exec();
+        targets = keys.filter((_, i) => exists?.[i]?.[1] === 1);
+        if (targets.length === 0) return 0;
+      }
+
+      const pipeline = this.client!.pipeline();
+      for (const key of targets) {
+        pipeline
+          .zadd(key, score, member)
+          .zremrangebyrank(key, 0, -(maxLength + 1))
+          .expire(key, ttl);
+      }
+      await pipeline.exec();
+      return targets.length;
+    } catch (error) {
+      console.error("Redis ZADD error:", error);
+      return 0;
+    }
+  }
+
+  /**
+   * Highest-scored members of a sorted set, best first
+   * Returns null when the set is missing or Redis is unavailable
+   */
+  async getSortedSetRange(
+    key: string,
+    limit: number,
+    ttl?: number
+  ): Promise<TimelineEntry[] | null> {
+    if (!this.isReady() || limit < 1) return null;
+
+    try {
+      const raw = await this.client!.zrevrange(
+        key,
+        0,
+        limit - 1,
+        "WITHSCORES"
+      );
+      // Redis deletes sorted sets once they are empty
+      if (raw.length === 0) return null;
+
+      if (ttl) {
+        await this.client!.expire(key, ttl);
+      }
+
+      const entries: TimelineEntry[] = [];
+      for (let i = 0; i < raw.length; i += 2) {
+        entries.push({ member: raw[i], score: Number(raw[i + 1]) });
+      }
+      return entries;
+    } catch (error) {
+      console.error(`Redis ZREVRANGE error for key ${key}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Replace the contents of a sorted set
+   */
+  async replaceSortedSet(
+    key: string,
+    entries: TimelineEntry[],
+    ttl: number
+  ): Promise<boolean> {
+    if (!this.isReady()) return false;
+
+    try {
+      const transaction = this.client!.multi().del(key);
+      if (entries.length > 0) {
+        transaction
+          .zadd(key, ...entries.flatMap(entry => [entry.score, entry.member]))
+          .expire(key, ttl);
+      }
+      await transaction.exec();
+      return true;
+    } catch (error) {
+      console.error(`Redis sorted set replace error for key ${key}:`, error);
+      return false;
+    }
+  }
+
+  /** Add or remove a member of a plain set */
+  async updateSetMembership(
+    key: string,
+    member: string,
+    isMember: boolean
+  ): Promise<void> {
+    if (!this.isReady()) return;
+
+    try {
+      if (isMember) {
+        await this.client!.sadd(key, member);
+      } else {
+        await this.client!.srem(key, member);
+      }
+    } catch (error) {
+      console.error(`Redis set update error for key ${key}:`, error);
+    }
+  }
+
+  /** All members of a plain set (empty when missing or unavailable) */
+  async getSetMembers(key: string): Promise<string[]> {
+    if (!this.isReady()) return [];
+
+    try {
+      return await this.client!.smembers(key);
+    } catch (error) {
+      console.error(`Redis SMEMBERS error for key ${key}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Count each member once per set: adds members to their sets and, for
+   * those not already there, increments their field in a counts hash
+   * Returns how many were new, or null when Redis is unavailable
+   */
+  async addUniqueAndCount(
+    entries: { setKey: string; member: string; field: string }[],
+    countsKey: string,
+    ttl: number
+  ): Promise<number | null> {
+    if (!this.isReady()) return null;
+    if (entries.length === 0) return 0;
+
+    try {
+      const pipeline = this.client!.pipeline();
+      for (const entry of entries) {
+        pipeline.sadd(entry.setKey, entry.member).expire(entry.setKey, ttl);
+      }
+      const results = await pipeline.exec();
+
+      const added = entries.filter((_, i) => results?.[i * 2]?.[1] === 1);
+      if (added.length > 0) {
+        const counts = this.client!.pipeline();
+        added.forEach(entry => counts.hincrby(countsKey, entry.field, 1));
+        await counts.exec();
+      }
+
+      return added.length;
+    } catch (error) {
+      console.error(`Redis unique count error for ${countsKey}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Take everything in a counts hash, leaving it empty for new counts
+   */
+  async takeHashCounts(key: string): Promise<Record<string, number>> {
+    if (!this.isReady()) return {};
+
+    const claimed = `${key}:flushing:${Date.now()}`;
+    try {
+      // RENAME is atomic, so increments after it start a fresh hash
+      await this.client!.rename(key, claimed);
+    } catch {
+      // No pending counts
+      return {};
+    }
+
+    try {
+      const raw = await this.client!.hgetall(claimed);
+      await this.client!.del(claimed);
+
+      return Object.fromEntries(
+        Object.entries(raw).map(([field, value]) => [field, Number(value)])
+      );
+    } catch (error) {
+      console.error(`Redis counts read error for key ${key}:`, error);
+      return {};
+    }
+  }
+
+  /** Add counts back into a counts hash, e.g. after a failed flush */
+  async addHashCounts(
+    key: string,
+    counts: Record<string, number>
+  ): Promise<void> {
+    if (!this.isReady() || Object.keys(counts).length === 0) return;
+
+    try {
+      const pipeline = this.client!.pipeline();
+      for (const [field, count] of Object.entries(counts)) {
+        pipeline.hincrby(key, field, count);
+      }
+      await pipeline.exec();
+    } catch (error) {
+      console.error(`Redis HINCRBY error for key ${key}:`, error);
+    }
+  }
+
   /** Delete a single key */
   async deleteKey(key: string): Promise<void> {
     if (!this.isReady()) return;
@@ -365,6 +693,29 @@ class RedisService {
     return this.get<CachedFeedResult | CachedPost[]>(key);
   }
 
+  /**
+   * Store the candidate set for a cursor-paginated feed
+   */
+  async setFeedSnapshot(
+    userId: string,
+    snapshotId: string,
+    snapshot: FeedSnapshot
+  ): Promise<boolean> {
+    const key = this.keys.feedSnapshot(userId, snapshotId);
+    return this.set(key, snapshot, this.TTL.FEED_SNAPSHOT);
+  }
+
+  /**
+   * Get a feed snapshot created for this user
+   */
+  async getFeedSnapshot(
+    userId: string,
+    snapshotId: string
+  ): Promise<FeedSnapshot | null> {
+    const key = this.keys.feedSnapshot(userId, snapshotId);
+    return this.get<FeedSnapshot>(key);
+  }
+
   /**
    * Cache user location data
    */
@@ -0,0 +1,480 @@
+// src/services/savedItemService.ts
+import { supabase, supabaseAdmin } from "../config/supabase";
+import { AppError } from "../middlewares/errorHandler";
+import { asyncHandler } from "../utils/asyncHandler";
+import { PostService } from "./postService";
+import { MediaType, Post, PostMedia } from "../models/post.model";
+import {
+  ItemType,
+  SaveCollection,
+  SaveCollectionCreate,
+  SaveCollectionUpdate,
+  SaveCollectionWithItems,
+  SavedItem,
+  SavedItemSummary,
+} from "../models/saved-item.model";
+
+// Longest title taken from a saved post's text
+const MAX_TITLE_LENGTH = 100;
+
+const UNAVAILABLE_TITLES: Record<ItemType, string> = {
+  [ItemType.POST]: "This post is no longer available",
+  [ItemType.PRODUCT]: "This listing is no longer available",
+};
+
+/**
+ * Service class for saved posts and marketplace listings, and the
+ * collections users file them in
+ */
+export class SavedItemService {
+  /**
+   * Save a post or listing, optionally straight into a collection
+   */
+  static saveItem = asyncHandler(
+    async (
+      userId: string,
+      itemType: ItemType,
+      itemId: string,
+      collectionId?: string | null
+    ): Promise<SavedItemSummary> => {
+      if (collectionId) {
+        await this.getOwnedCollection(userId, collectionId);
+      }
+
+      const summary = (
+        await this.resolveItems(userId, [
+          { item_type: itemType, item_id: itemId },
+        ])
+      ).get(`${itemType}:${itemId}`);
+
+      if (!summary) {
+        throw new AppError(
+          itemType === ItemType.POST ? "Post not found" : "Listing not found",
+          404
+        );
+      }
+
+      const { data, error } = await supabaseAdmin!
+        .from("saved_items")
+        .insert({
+          user_id: userId,
+          item_id: itemId,
+          item_type: itemType,
+          collection_id: collectionId ?? null,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === "23505") {
+          throw new AppError("You have already saved this item", 409);
+        }
+        throw new AppError(error.message, 400);
+      }
+
+      return {
+        id: data.id,
+        item_id: data.item_id,
+        item_type: itemType,
+        collection_id: data.collection_id,
+        ...summary,
+        is_available: true,
+        created_at: data.created_at,
+      };
+    },
+    "Failed to save item"
+  );
+
+  /**
+   * Remove a post or listing from the user's saved items
+   */
+  static unsaveItem = asyncHandler(
+    async (
+      userId: string,
+      itemType: ItemType,
+      itemId: string
+    ): Promise<void> => {
+      const { data, error } = await supabaseAdmin!
+        .from("saved_items")
+        .delete()
+        .eq("user_id", userId)
+        .eq("item_type", itemType)
+        .eq("item_id", itemId)
+        .select("id");
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      if (!data || data.length === 0) {
+        throw new AppError("Saved item not found", 404);
+      }
+    },
+    "Failed to unsave item"
+  );
+
+  /**
+   * List the user's saved items, newest first
+   * With a collection, only the items filed in it; with null, only
+   * unfiled items.
+   */
+  static getSavedItems = asyncHandler(
+    async (
+      userId: string,
+      options: {
+        itemType?: ItemType;
+        collectionId?: string | null;
+        page?: number;
+        limit?: number;
+      } = {}
+    ): Promise<{ items: SavedItemSummary[]; total: number }> => {
+      const page = options.page || 1;
+      const limit = options.limit || 20;
+      const offset = (page - 1) * limit;
+
+      let query = supabase
+        .from("saved_items")
+        .select("*", { count: "exact" })
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (options.itemType) {
+        query = query.eq("item_type", options.itemType);
+      }
+
+      if (options.collectionId === null) {
+        query = query.is("collection_id", null);
+      } else if (options.collectionId) {
+        query = query.eq("collection_id", options.collectionId);
+      }
+
+      const { data, error, count } = await query;
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      return {
+        items: await this.summarize(userId, (data || []) as SavedItem[]),
+        total: count || 0,
+      };
+    },
+    "Failed to get saved items"
+  );
+
+  /**
+   * File saved items in a collection, or unfile them with null
+   * @returns the number of items moved
+   */
+  static moveItems = asyncHandler(
+    async (
+      userId: string,
+      savedItemIds: string[],
+      collectionId: string | null
+    ): Promise<number> => {
+      if (collectionId) {
+        await this.getOwnedCollection(userId, collectionId);
+      }
+
+      const { data, error } = await supabaseAdmin!
+        .from("saved_items")
+        .update({ collection_id: collectionId })
+        .eq("user_id", userId)
+        .in("id", savedItemIds)
+        .select("id");
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      if (!data || data.length === 0) {
+        throw new AppError("Saved items not found", 404);
+      }
+
+      return data.length;
+    },
+    "Failed to move saved items"
+  );
+
+  /**
+   * List the user's collections with how many items each holds
+   */
+  static getCollections = asyncHandler(
+    async (
+      userId: string
+    ): Promise<(SaveCollection & { items_count: number })[]> => {
+      const { data, error } = await supabase
+        .from("save_collections")
+        .select("*, saved_items(count)")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      return (data || []).map(({ saved_items, ...collection }) => ({
+        ...(collection as SaveCollection),
+        items_count: saved_items?.[0]?.count ?? 0,
+      }));
+    },
+    "Failed to get collections"
+  );
+
+  /**
+   * Get a collection with a page of its items, newest first
+   */
+  static getCollection = asyncHandler(
+    async (
+      userId: string,
+      collectionId: string,
+      page = 1,
+      limit = 20
+    ): Promise<SaveCollectionWithItems> => {
+      const collection = await this.getOwnedCollection(userId, collectionId);
+      const { items, total } = await this.getSavedItems(userId, {
+        collectionId,
+        page,
+        limit,
+      });
+
+      return { ...collection, items_count: total, items };
+    },
+    "Failed to get collection"
+  );
+
+  /**
+   * Create a collection for the user's saved items
+   */
+  static createCollection = asyncHandler(
+    async (collectionData: SaveCollectionCreate): Promise<SaveCollection> => {
+      const now = new Date().toISOString();
+      const { data, error } = await supabaseAdmin!
+        .from("save_collections")
+        .insert({
+          user_id: collectionData.user_id,
+          name: collectionData.name.trim(),
+          description: collectionData.description ?? null,
+          created_at: now,
+          updated_at: now,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === "23505") {
+          throw new AppError(
+            "You already have a collection with this name",
+            409
+          );
+        }
+        throw new AppError(error.message, 400);
+      }
+
+      return data as SaveCollection;
+    },
+    "Failed to create collection"
+  );
+
+  /**
+   * Rename a collection or change its description
+   */
+  static updateCollection = asyncHandler(
+    async (
+      userId: string,
+      collectionId: string,
+      update: SaveCollectionUpdate
+    ): Promise<SaveCollection> => {
+      await this.getOwnedCollection(userId, collectionId);
+
+      const { data, error } = await supabaseAdmin!
+        .from("save_collections")
+        .update({
+          ...(update.name !== undefined && { name: update.name.trim() }),
+          ...(update.description !== undefined && {
+            description: update.description,
+          }),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", collectionId)
+        .eq("user_id", userId)
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === "23505") {
+          throw new AppError(
+            "You already have a collection with this name",
+            409
+          );
+        }
+        throw new AppError(error.message, 400);
+      }
+
+      return data as SaveCollection;
+    },
+    "Failed to update collection"
+  );
+
+  /**
+   * Delete a collection. Its items stay saved, unfiled.
+   */
+  static deleteCollection = asyncHandler(
+    async (userId: string, collectionId: string): Promise<void> => {
+      await this.getOwnedCollection(userId, collectionId);
+
+      const { error: unfileError } = await supabaseAdmin!
+        .from("saved_items")
+        .update({ collection_id: null })
+        .eq("user_id", userId)
+        .eq("collection_id", collectionId);
+
+      if (unfileError) {
+        throw new AppError(unfileError.message, 400);
+      }
+
+      const { error } = await supabaseAdmin!
+        .from("save_collections")
+        .delete()
+        .eq("id", collectionId)
+        .eq("user_id", userId);
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+    },
+    "Failed to delete collection"
+  );
+
+  private static async getOwnedCollection(
+    userId: string,
+    collectionId: string
+  ): Promise<SaveCollection> {
+    const { data, error } = await supabase
+      .from("save_collections")
+      .select("*")
+      .eq("id", collectionId)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new AppError(error.message, 400);
+    }
+
+    if (!data) {
+      throw new AppError("Collection not found", 404);
+    }
+
+    return data as SaveCollection;
+  }
+
+  /**
+   * Add a title and thumbnail to saved items
+   */
+  private static async summarize(
+    userId: string,
+    items: SavedItem[]
+  ): Promise<SavedItemSummary[]> {
+    const found = await this.resolveItems(userId, items);
+
+    return items.map(item => {
+      const summary = found.get(`${item.item_type}:${item.item_id}`);
+
+      return {
+        id: item.id,
+        item_id: item.item_id,
+        item_type: item.item_type,
+        collection_id: item.collection_id ?? null,
+        title: summary?.title ?? UNAVAILABLE_TITLES[item.item_type],
+        thumbnail: summary?.thumbnail,
+        is_available: !!summary,
+        created_at: item.created_at,
+      };
+    });
+  }
+
+  /**
+   * Titles and thumbnails of the items still available to the user, keyed
+   * by "type:id": posts they may currently see, and listings that still
+   * exist
+   */
+  private static async resolveItems(
+    userId: string,
+    items: { item_type: ItemType; item_id: string }[]
+  ): Promise<Map<string, { title: string; thumbnail?: string }>> {
+    const idsOf = (type: ItemType) =>
+      items.filter(item => item.item_type === type).map(item => item.item_id);
+
+    const [posts, listings] = await Promise.all([
+      PostService.getPostsByIds(idsOf(ItemType.POST), userId),
+      this.getListingSummaries(idsOf(ItemType.PRODUCT)),
+    ]);
+
+    const found = new Map<string, { title: string; thumbnail?: string }>();
+    for (const post of posts) {
+      found.set(`${ItemType.POST}:${post.id}`, this.summarizePost(post));
+    }
+    for (const [listingId, listing] of listings) {
+      found.set(`${ItemType.PRODUCT}:${listingId}`, listing);
+    }
+
+    return found;
+  }
+
+  /**
+   * A post's title is the start of its text, or of the text it shares, and
+   * its thumbnail its first image
+   */
+  private static summarizePost(post: Post): {
+    title: string;
+    thumbnail?: string;
+  } {
+    const source = post.content?.trim() ? post : (post.shared_post ?? post);
+    const text = (source.content || "").trim().replace(/\s+/g, " ");
+    const media = [
+      ...(((source as any).post_media as PostMedia[] | undefined) || []),
+    ].sort((a, b) => a.order - b.order);
+    const author = (post as any).users;
+
+    return {
+      title:
+        text.length > MAX_TITLE_LENGTH
+          ? `${text.slice(0, MAX_TITLE_LENGTH - 1)}…`
+          : text ||
+            (author
+              ? `Post by ${author.first_name} ${author.last_name}`
+              : "Post"),
+      thumbnail: media.find(item => item.media_type === MediaType.IMAGE)
+        ?.media_url,
+    };
+  }
+
+  private static async getListingSummaries(
+    listingIds: string[]
+  ): Promise<Map<string, { title: string; thumbnail?: string }>> {
+    if (listingIds.length === 0) return new Map();
+
+    const { data, error } = await supabase
+      .from("marketplace_listings")
+      .select("id, title, listing_images(image_url, position)")
+      .in("id", listingIds)
+      .neq("status", "deleted");
+
+    if (error) {
+      throw new AppError(error.message, 400);
+    }
+
+    return new Map(
+      (data || []).map(listing => {
+        const [image] = [...(listing.listing_images || [])].sort(
+          (a, b) => (a.position ?? 0) - (b.position ?? 0)
+        );
+        return [
+          listing.id as string,
+          { title: listing.title as string, thumbnail: image?.image_url },
+        ];
+      })
+    );
+  }
+}
@@ -1,10 +1,17 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 /* eslint-disable indent */
 // src/services/searchService.ts
-import { supabase } from "../config/supabase";
+import { supabase, supabaseAdmin } from "../config/supabase";
 import { logger } from "../utils/logger";
 import { AppError } from "../middlewares/errorHandler";
 import { BasicUserProfile } from "../utils/profileUtils";
+import { parseHighlightedSnippet } from "../utils/searchHighlights";
+import { PostService } from "./postService";
+import {
+  Post,
+  PostSearchFilters,
+  PostSearchMatch,
+} from "../models/post.model";
 
 interface SearchOptions {
   page?: number;
@@ -243,6 +250,83 @@ export class SearchService {
     }
   }
 
+  /**
+   * Full-text search over posts the user may see, ranked by relevance
+   * Each post carries the snippet that matched, with highlight ranges
+   */
+  static async searchPosts(
+    userId: string,
+    query: string,
+    filters: PostSearchFilters = {},
+  ): Promise<SearchResult<Post & { search: PostSearchMatch }>> {
+    try {
+      const page = filters.page || 1;
+      const limit = filters.limit || 10;
+      const offset = (page - 1) * limit;
+
+      if (!query.trim()) {
+        throw new AppError("Search query cannot be empty", 400);
+      }
+
+      // Only the service role may run search_posts, which trusts p_viewer
+      const { data, error } = await supabaseAdmin!.rpc("search_posts", {
+        p_viewer: userId,
+        p_query: query,
+        p_author: filters.authorId ?? null,
+        p_from: filters.from ?? null,
+        p_to: filters.to ?? null,
+        p_has_media: filters.hasMedia ?? null,
+        p_feeling: filters.feeling ?? null,
+        p_location: filters.location ?? null,
+        p_sort: filters.sortBy || "relevance",
+        p_limit: limit,
+        p_offset: offset,
+      });
+
+      if (error) {
+        logger.error("Error searching posts:", error);
+        throw new AppError(error.message, 400);
+      }
+
+      const matches = (data || []) as {
+        post_id: string;
+        rank: number;
+        snippet: string;
+        total_count: number;
+      }[];
+      const matchesById = new Map(matches.map((m) => [m.post_id, m]));
+
+      // Loads media, authors, shared posts and polls in rank order
+      const posts = await PostService.getPostsByIds(
+        matches.map((m) => m.post_id),
+        userId,
+      );
+
+      const total = Number(matches[0]?.total_count ?? 0);
+
+      return {
+        data: posts.map((post) => {
+          const match = matchesById.get(post.id)!;
+          const { text, highlights } = parseHighlightedSnippet(match.snippet);
+
+          return {
+            ...post,
+            search: { rank: match.rank, snippet: text, highlights },
+          };
+        }),
+        total,
+        page,
+        totalPages: Math.ceil(total / limit),
+        limit,
+      };
+    } catch (error) {
+      logger.error("Error in searchPosts service:", error);
+      throw error instanceof AppError
+        ? error
+        : new AppError("Failed to search posts", 500);
+    }
+  }
+
   /**
    * Search for users near a specific location
    */
@@ -0,0 +1,392 @@
+// src/services/sessionService.ts
+import jwt from "jsonwebtoken";
+import crypto from "crypto";
+import { config } from "dotenv";
+import { supabaseAdmin } from "../config/supabase";
+import { AppError } from "../middlewares/errorHandler";
+import { asyncHandler } from "../utils/asyncHandler";
+import { logger } from "../utils/logger";
+import { redisService } from "./redis.service";
+import { UserService } from "./userService";
+import {
+  IssuedSessionTokens,
+  SessionClientInfo,
+  SessionRevocationReason,
+  UserSession,
+} from "../models/session.model";
+import { User } from "../types/models";
+
+config();
+
+const JWT_SECRET = process.env.JWT_SECRET || "your_jwt_secret_key_here";
+const JWT_REFRESH_SECRET =
+  process.env.JWT_REFRESH_SECRET || "your_refresh_token_secret_here";
+
+// Access tokens keep the 30 day lifetime clients already rely on; they are
+// still cut off early because every request checks the owning session.
+const ACCESS_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+const REFRESH_TOKEN_TTL_SECONDS = 45 * 24 * 60 * 60;
+
+// Access tokens issued before sessions existed carry no sid, so no session
+// revocation reaches them; they are only honoured this long after issue
+const SESSIONLESS_TOKEN_MAX_AGE_SECONDS = 60 * 60;
+
+export interface AccessTokenPayload {
+  id: string;
+  email: string;
+  role: string;
+  sid?: string;
+  iat?: number;
+}
+
+interface RefreshTokenPayload {
+  id: string;
+  sid: string;
+  jti: string;
+}
+
+/**
+ * Service class for server-side refresh token sessions
+ */
+export class SessionService {
+  /**
+   * Start a new session (refresh token family) for a user and issue tokens
+   */
+  static createSession = asyncHandler(
+    async (
+      user: Pick<User, "id" | "email" | "role">,
+      clientInfo?: SessionClientInfo
+    ): Promise<IssuedSessionTokens> => {
+      const jti = crypto.randomUUID();
+
+      const { data, error } = await supabaseAdmin!
+        .from("user_sessions")
+        .insert({
+          user_id: user.id,
+          refresh_token_jti: jti,
+          device_token: clientInfo?.deviceToken ?? null,
+          device_type: clientInfo?.deviceType ?? null,
+          ip_address: clientInfo?.ipAddress ?? null,
+          user_agent: clientInfo?.userAgent ?? null,
+          expires_at: new Date(
+            Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000
+          ).toISOString(),
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      await redisService.set(
+        redisService.keys.sessionStatus(data.id),
+        true,
+        redisService.getTTL().SESSION_STATUS
+      );
+
+      return this.signTokens(user, data.id, jti);
+    },
+    "Failed to create session"
+  );
+
+  /**
+   * Exchange a refresh token for a new access/refresh token pair.
+   * Presenting a refresh token that was already rotated revokes the session.
+   */
+  static rotateRefreshToken = asyncHandler(
+    async (
+      refreshToken: string
+    ): Promise<{ user: User; tokens: IssuedSessionTokens }> => {
+      let decoded: Partial<RefreshTokenPayload>;
+      try {
+        decoded = jwt.verify(
+          refreshToken,
+          JWT_REFRESH_SECRET
+        ) as Partial<RefreshTokenPayload>;
+      } catch {
+        throw new AppError("Invalid refresh token", 401);
+      }
+
+      // Refresh tokens issued before sessions existed carry no sid
+      if (!decoded.sid || !decoded.jti || !decoded.id) {
+        throw new AppError("Session expired. Please log in again", 401);
+      }
+
+      const session = await this.getSession(decoded.sid);
+      if (!session || session.user_id !== decoded.id) {
+        throw new AppError("Invalid refresh token", 401);
+      }
+
+      if (session.revoked_at) {
+        throw new AppError(
+          "Session has been revoked. Please log in again",
+          401
+        );
+      }
+
+      if (new Date(session.expires_at).getTime() <= Date.now()) {
+        throw new AppError("Session expired. Please log in again", 401);
+      }
+
+      const user = await UserService.findUserById(session.user_id);
+      if (!user) {
+        throw new AppError("Invalid refresh token", 401);
+      }
+
+      if (!user.is_active) {
+        throw new AppError("Your account has been deactivated", 403);
+      }
+
+      // Compare-and-swap on the current jti so two concurrent refreshes with
+      // the same token cannot both succeed
+      const nextJti = crypto.randomUUID();
+      const { data: rotated, error } = await supabaseAdmin!
+        .from("user_sessions")
+        .update({
+          refresh_token_jti: nextJti,
+          last_used_at: new Date().toISOString(),
+          expires_at: new Date(
+            Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000
+          ).toISOString(),
+        })
+        .eq("id", session.id)
+        .eq("refresh_token_jti", decoded.jti)
+        .is("revoked_at", null)
+        .select("id")
+        .maybeSingle();
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      if (!rotated) {
+        logger.warn(
+          `Refresh token reuse detected for session ${session.id} (user ${session.user_id})`
+        );
+        await this.revokeSession(
+          session.id,
+          SessionRevocationReason.TOKEN_REUSE
+        );
+        throw new AppError(
+          "Refresh token has already been used. Please log in again",
+          401
+        );
+      }
+
+      return {
+        user,
+        tokens: this.signTokens(user, session.id, nextJti),
+      };
+    },
+    "Failed to refresh session"
+  );
+
+  /**
+   * Get a session by ID
+   */
+  static getSession = asyncHandler(
+    async (sessionId: string): Promise<UserSession | null> => {
+      const { data, error } = await supabaseAdmin!
+        .from("user_sessions")
+        .select("*")
+        .eq("id", sessionId)
+        .maybeSingle();
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      return data as UserSession | null;
+    },
+    "Failed to get session"
+  );
+
+  /**
+   * Check whether an access token without a session (sid) may still be
+   * used. Such tokens can't be revoked, so they get a short forced expiry.
+   */
+  static isSessionlessTokenUsable(
+    payload: Pick<AccessTokenPayload, "iat">,
+    now = Date.now()
+  ): boolean {
+    return (
+      !!payload.iat &&
+      now - payload.iat * 1000 < SESSIONLESS_TOKEN_MAX_AGE_SECONDS * 1000
+    );
+  }
+
+  /**
+   * Check whether the session behind an access token is still usable.
+   * Backed by a short Redis cache that revocation clears.
+   */
+  static isSessionActive = asyncHandler(
+    async (sessionId: string): Promise<boolean> => {
+      const cacheKey = redisService.keys.sessionStatus(sessionId);
+      const cached = await redisService.get<boolean>(cacheKey);
+      if (cached !== null) {
+        return cached;
+      }
+
+      const session = await this.getSession(sessionId);
+      const isActive =
+        !!session &&
+        !session.revoked_at &&
+        new Date(session.expires_at).getTime() > Date.now();
+
+      await redisService.set(
+        cacheKey,
+        isActive,
+        redisService.getTTL().SESSION_STATUS
+      );
+
+      return isActive;
+    },
+    "Failed to check session status"
+  );
+
+  /**
+   * Revoke a single session
+   */
+  static revokeSession = asyncHandler(
+    async (
+      sessionId: string,
+      reason: SessionRevocationReason
+    ): Promise<void> => {
+      const { error } = await supabaseAdmin!
+        .from("user_sessions")
+        .update({
+          revoked_at: new Date().toISOString(),
+          revoked_reason: reason,
+        })
+        .eq("id", sessionId)
+        .is("revoked_at", null);
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      await redisService.delete(redisService.keys.sessionStatus(sessionId));
+    },
+    "Failed to revoke session"
+  );
+
+  /**
+   * Revoke every active session of a user, optionally keeping one
+   * @returns IDs of the revoked sessions
+   */
+  static revokeAllUserSessions = asyncHandler(
+    async (
+      userId: string,
+      reason: SessionRevocationReason,
+      exceptSessionId?: string
+    ): Promise<string[]> => {
+      let query = supabaseAdmin!
+        .from("user_sessions")
+        .update({
+          revoked_at: new Date().toISOString(),
+          revoked_reason: reason,
+        })
+        .eq("user_id", userId)
+        .is("revoked_at", null);
+
+      if (exceptSessionId) {
+        query = query.neq("id", exceptSessionId);
+      }
+
+      const { data, error } = await query.select("id");
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      const revokedIds = (data || []).map(session => session.id as string);
+      if (revokedIds.length > 0) {
+        await redisService.delete(
+          ...revokedIds.map(id => redisService.keys.sessionStatus(id))
+        );
+      }
+
+      return revokedIds;
+    },
+    "Failed to revoke user sessions"
+  );
+
+  /**
+   * Revoke every active session a user has on one device
+   * @returns IDs of the revoked sessions
+   */
+  static revokeDeviceSessions = asyncHandler(
+    async (
+      userId: string,
+      deviceToken: string,
+      reason: SessionRevocationReason
+    ): Promise<string[]> => {
+      const { data, error } = await supabaseAdmin!
+        .from("user_sessions")
+        .update({
+          revoked_at: new Date().toISOString(),
+          revoked_reason: reason,
+        })
+        .eq("user_id", userId)
+        .eq("device_token", deviceToken)
+        .is("revoked_at", null)
+        .select("id");
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      const revokedIds = (data || []).map(session => session.id as string);
+      if (revokedIds.length > 0) {
+        await redisService.delete(
+          ...revokedIds.map(id => redisService.keys.sessionStatus(id))
+        );
+      }
+
+      return revokedIds;
+    },
+    "Failed to revoke device sessions"
+  );
+
+  /**
+   * Verify an access token and return its payload
+   */
+  static verifyAccessToken(token: string): AccessTokenPayload {
+    return jwt.verify(token, JWT_SECRET) as AccessTokenPayload;
+  }
+
+  /**
+   * Sign an access/refresh token pair bound to a session
+   * Private helper method
+   */
+  private static signTokens(
+    user: Pick<User, "id" | "email" | "role">,
+    sessionId: string,
+    jti: string
+  ): IssuedSessionTokens {
+    const token = jwt.sign(
+      {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        sid: sessionId,
+      },
+      JWT_SECRET,
+      { algorithm: "HS256", expiresIn: ACCESS_TOKEN_TTL_SECONDS }
+    );
+
+    const refreshToken = jwt.sign(
+      { id: user.id, sid: sessionId, jti },
+      JWT_REFRESH_SECRET,
+      { expiresIn: REFRESH_TOKEN_TTL_SECONDS }
+    );
+
+    return {
+      sessionId,
+      token,
+      refreshToken,
+      accessTokenExpires: Date.now() + ACCESS_TOKEN_TTL_SECONDS * 1000,
+    };
+  }
+}
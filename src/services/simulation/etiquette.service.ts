@@ -2,6 +2,7 @@ import { supabaseAdmin } from "../../config/supabase";
 import { logger } from "../../utils/logger";
 import { UUID } from "crypto";
 import { EngagementScoreInput } from "../../models/ai-persona.model";
+import { PostViewService } from "../postViewService";
 
 export class EtiquetteService {
   /**
@@ -288,23 +289,10 @@ export class EtiquetteService {
       // Record the view
       logger.info(`👀 @${persona.username} viewed post by @${postCreatorUsername}: "${candidateTitle.slice(0, 50)}..."`);
       
-      // Update post view count
-      if (candidate.reference_id && candidate.candidate_type === "user_post") {
-        const { data: post } = await supabaseAdmin!
-          .from("posts")
-          .select("view_count")
-          .eq("id", candidate.reference_id)
-          .single();
-        if (post) {
-          // Increment by 1 for the persona, plus a random range of guest/anonymous views (e.g., 2 to 5)
-          const guestViews = Math.floor(Math.random() * 4) + 2;
-          const newViews = (post.view_count || 0) + guestViews;
-          await supabaseAdmin!
-            .from("posts")
-            .update({ view_count: newViews })
-            .eq("id", candidate.reference_id);
-          logger.info(`📈 Incremented view count by ${guestViews} (total: ${newViews}) for @${postCreatorUsername}'s post: "${candidateTitle.slice(0, 50)}..."`);
-        }
+      // Count the persona's view like any other viewer's: once per window,
+      // flushed to view_count in batches
+      if (candidate.reference_id && candidate.candidate_type === "user_post" && postCreatorId) {
+        await PostViewService.recordView(candidate.reference_id, persona.user_id, postCreatorId);
       }
 
       // Update content metrics views
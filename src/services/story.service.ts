@@ -70,10 +70,28 @@ export const getActiveStories = async (
 
   const totalUsers = data[0]?.total_users || 0;
 
+  // Deactivated accounts keep their stories but hide them until restored
+  const authorIds = Array.from(new Set(data.map((row: any) => row.user_id)));
+  const inactiveAuthorIds = new Set<string>();
+  if (authorIds.length > 0) {
+    const { data: inactiveAuthors, error: authorsError } = await supabase
+      .from("users")
+      .select("id")
+      .in("id", authorIds)
+      .eq("is_active", false);
+
+    if (authorsError) throw new Error(authorsError.message);
+    inactiveAuthors?.forEach((author) => inactiveAuthorIds.add(author.id));
+  }
+
   // Group stories by user
   const userStoriesMap = new Map<string, { user: any; stories: any[] }>();
 
-  data.forEach((row: any) => {
+  const visibleRows = data.filter(
+    (row: any) => !inactiveAuthorIds.has(row.user_id),
+  );
+
+  visibleRows.forEach((row: any) => {
     const userId = row.user_id;
     const user = {
       id: row.user_id,
@@ -128,6 +146,20 @@ export const getStoryById = async (id: string): Promise<Story | null> => {
     }
     throw new Error(error.message);
   }
+
+  // Hide stories of deactivated accounts
+  const { data: author, error: authorError } = await supabase
+    .from("users")
+    .select("is_active")
+    .eq("id", data.user_id)
+    .maybeSingle();
+
+  if (authorError) {
+    throw new Error(authorError.message);
+  }
+  if (!author?.is_active) {
+    return null;
+  }
   return data;
 };
 
@@ -0,0 +1,468 @@
+// src/services/twoFactorService.ts
+import crypto, { UUID } from "crypto";
+import jwt from "jsonwebtoken";
+import { config } from "dotenv";
+import { supabaseAdmin } from "../config/supabase";
+import { AppError } from "../middlewares/errorHandler";
+import { asyncHandler } from "../utils/asyncHandler";
+import { logger } from "../utils/logger";
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from "../utils/totp";
+import { redisService } from "./redis.service";
+import { PrivacySettingsService } from "./privacySettingsService";
+import {
+  TwoFactorChallenge,
+  TwoFactorEnrollment,
+  TwoFactorStatus,
+  UserTwoFactor,
+} from "../models/two-factor.model";
+
+config();
+
+const JWT_SECRET = process.env.JWT_SECRET || "your_jwt_secret_key_here";
+const TWO_FACTOR_ISSUER = process.env.TWO_FACTOR_ISSUER || "Social Platform";
+
+// Challenge tokens must never verify as access tokens, so they get their own secret
+const CHALLENGE_SECRET =
+  process.env.TWO_FACTOR_CHALLENGE_SECRET || `${JWT_SECRET}:2fa-challenge`;
+const CHALLENGE_TTL_SECONDS = 5 * 60;
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+const ENCRYPTION_KEY = crypto
+  .createHash("sha256")
+  .update(process.env.TWO_FACTOR_ENCRYPTION_KEY || JWT_SECRET)
+  .digest();
+
+const RECOVERY_CODE_COUNT = 10;
+
+interface ChallengeTokenPayload {
+  id: string;
+  purpose: "2fa_challenge";
+  jti: string;
+}
+
+/**
+ * Service class for TOTP two-factor authentication
+ */
+export class TwoFactorService {
+  /**
+   * Get the 2FA status for a user
+   */
+  static getStatus = asyncHandler(
+    async (userId: string): Promise<TwoFactorStatus> => {
+      const record = await this.getRecord(userId);
+
+      const { count, error } = await supabaseAdmin!
+        .from("two_factor_recovery_codes")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", userId)
+        .is("used_at", null);
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      return {
+        enabled: !!record?.is_enabled,
+        pendingEnrollment: !!record && !record.is_enabled,
+        confirmedAt: record?.confirmed_at ?? null,
+        recoveryCodesRemaining: record?.is_enabled ? count || 0 : 0,
+      };
+    },
+    "Failed to get two-factor status"
+  );
+
+  /**
+   * Check whether login requires a second factor for this user
+   */
+  static isEnabled = asyncHandler(async (userId: string): Promise<boolean> => {
+    const record = await this.getRecord(userId);
+    return !!record?.is_enabled;
+  }, "Failed to check two-factor status");
+
+  /**
+   * Generate a new secret for enrollment. The secret stays pending until
+   * confirmed with a valid code.
+   */
+  static startEnrollment = asyncHandler(
+    async (user: {
+      id: string;
+      email: string;
+    }): Promise<TwoFactorEnrollment> => {
+      const existing = await this.getRecord(user.id);
+      if (existing?.is_enabled) {
+        throw new AppError("Two-factor authentication is already enabled", 409);
+      }
+
+      const secret = generateTotpSecret();
+
+      const { error } = await supabaseAdmin!.from("user_two_factor").upsert(
+        {
+          user_id: user.id,
+          secret_encrypted: this.encryptSecret(secret),
+          is_enabled: false,
+          last_used_counter: null,
+          confirmed_at: null,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "user_id" }
+      );
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      return {
+        secret,
+        otpauthUri: buildOtpauthUri(secret, user.email, TWO_FACTOR_ISSUER),
+      };
+    },
+    "Failed to start two-factor enrollment"
+  );
+
+  /**
+   * Confirm enrollment with a code from the authenticator app
+   * @returns one-time recovery codes (only shown once)
+   */
+  static confirmEnrollment = asyncHandler(
+    async (userId: string, code: string): Promise<string[]> => {
+      const record = await this.getRecord(userId);
+      if (!record) {
+        throw new AppError("Start two-factor setup first", 400);
+      }
+      if (record.is_enabled) {
+        throw new AppError("Two-factor authentication is already enabled", 409);
+      }
+
+      const counter = verifyTotp(
+        this.decryptSecret(record.secret_encrypted),
+        code
+      );
+      if (counter === null) {
+        throw new AppError("Invalid two-factor code", 400);
+      }
+
+      const { error } = await supabaseAdmin!
+        .from("user_two_factor")
+        .update({
+          is_enabled: true,
+          last_used_counter: counter,
+          confirmed_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("user_id", userId);
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      const recoveryCodes = await this.replaceRecoveryCodes(userId);
+      await PrivacySettingsService.setTwoFactorAuthEnabled(
+        userId as UUID,
+        true
+      );
+
+      logger.info(`Two-factor authentication enabled for user ${userId}`);
+      return recoveryCodes;
+    },
+    "Failed to confirm two-factor enrollment"
+  );
+
+  /**
+   * Disable 2FA; requires a current TOTP or recovery code
+   */
+  static disable = asyncHandler(
+    async (userId: string, code: string): Promise<void> => {
+      if (!(await this.verifyCode(userId, code))) {
+        throw new AppError("Invalid two-factor code", 400);
+      }
+
+      const { error } = await supabaseAdmin!
+        .from("user_two_factor")
+        .delete()
+        .eq("user_id", userId);
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      await this.deleteRecoveryCodes(userId);
+      await PrivacySettingsService.setTwoFactorAuthEnabled(
+        userId as UUID,
+        false
+      );
+
+      logger.info(`Two-factor authentication disabled for user ${userId}`);
+    },
+    "Failed to disable two-factor authentication"
+  );
+
+  /**
+   * Replace all recovery codes; requires a current TOTP or recovery code
+   */
+  static regenerateRecoveryCodes = asyncHandler(
+    async (userId: string, code: string): Promise<string[]> => {
+      if (!(await this.verifyCode(userId, code))) {
+        throw new AppError("Invalid two-factor code", 400);
+      }
+
+      return this.replaceRecoveryCodes(userId);
+    },
+    "Failed to regenerate recovery codes"
+  );
+
+  /**
+   * Verify a TOTP code (rejecting replays) or consume a recovery code
+   */
+  static verifyCode = asyncHandler(
+    async (userId: string, code: string): Promise<boolean> => {
+      const record = await this.getRecord(userId);
+      if (!record?.is_enabled) {
+        throw new AppError("Two-factor authentication is not enabled", 400);
+      }
+
+      const normalized = code.replace(/\s/g, "");
+
+      if (/^\d{6}$/.test(normalized)) {
+        const counter = verifyTotp(
+          this.decryptSecret(record.secret_encrypted),
+          normalized
+        );
+        if (counter === null) {
+          return false;
+        }
+
+        // Only advance the counter forward so a captured code cannot be replayed
+        const { data, error } = await supabaseAdmin!
+          .from("user_two_factor")
+          .update({ last_used_counter: counter })
+          .eq("user_id", userId)
+          .or(`last_used_counter.is.null,last_used_counter.lt.${counter}`)
+          .select("user_id")
+          .maybeSingle();
+
+        if (error) {
+          throw new AppError(error.message, 400);
+        }
+
+        return !!data;
+      }
+
+      return this.consumeRecoveryCode(userId, normalized);
+    },
+    "Failed to verify two-factor code"
+  );
+
+  /**
+   * Issue a short-lived challenge token after a correct password
+   */
+  static createLoginChallenge(userId: string): TwoFactorChallenge {
+    const challengeToken = jwt.sign(
+      { id: userId, purpose: "2fa_challenge", jti: crypto.randomUUID() },
+      CHALLENGE_SECRET,
+      { expiresIn: CHALLENGE_TTL_SECONDS }
+    );
+
+    return { challengeToken, expiresIn: CHALLENGE_TTL_SECONDS };
+  }
+
+  /**
+   * Complete the second login step
+   * @returns the ID of the user the challenge was issued for
+   */
+  static verifyLoginChallenge = asyncHandler(
+    async (challengeToken: string, code: string): Promise<string> => {
+      const payload = this.decodeChallenge(challengeToken);
+      if (!payload) {
+        throw new AppError(
+          "Two-factor challenge expired. Please log in again",
+          401
+        );
+      }
+
+      // Cap guesses per challenge; a used challenge is burned the same way.
+      // Without the counter there is no cap, so refuse to check the code.
+      const attemptsKey = redisService.keys.twoFactorChallenge(payload.jti);
+      const attempts = await redisService.increment(
+        attemptsKey,
+        CHALLENGE_TTL_SECONDS
+      );
+      if (attempts === null) {
+        throw new AppError(
+          "Two-factor verification is temporarily unavailable. Please try again shortly",
+          503
+        );
+      }
+      if (attempts > MAX_CHALLENGE_ATTEMPTS) {
+        throw new AppError("Too many invalid codes. Please log in again", 429);
+      }
+
+      if (!(await this.verifyCode(payload.id, code))) {
+        throw new AppError("Invalid two-factor code", 401);
+      }
+
+      await redisService.set(
+        attemptsKey,
+        MAX_CHALLENGE_ATTEMPTS + 1,
+        CHALLENGE_TTL_SECONDS
+      );
+
+      return payload.id;
+    },
+    "Failed to verify two-factor challenge"
+  );
+
+  /**
+   * The user a challenge token was issued for, when it is valid
+   */
+  static getChallengeUserId(challengeToken: unknown): string | undefined {
+    return typeof challengeToken === "string"
+      ? this.decodeChallenge(challengeToken)?.id
+      : undefined;
+  }
+
+  /**
+   * Verify a challenge token
+   * Private helper method
+   */
+  private static decodeChallenge(
+    challengeToken: string
+  ): ChallengeTokenPayload | null {
+    try {
+      const payload = jwt.verify(
+        challengeToken,
+        CHALLENGE_SECRET
+      ) as ChallengeTokenPayload;
+      return payload.purpose === "2fa_challenge" ? payload : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Get the 2FA record for a user
+   * Private helper method
+   */
+  private static getRecord = asyncHandler(
+    async (userId: string): Promise<UserTwoFactor | null> => {
+      const { data, error } = await supabaseAdmin!
+        .from("user_two_factor")
+        .select("*")
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      return data as UserTwoFactor | null;
+    },
+    "Failed to get two-factor record"
+  );
+
+  /**
+   * Swap the user's recovery codes for a fresh set
+   * Private helper method
+   */
+  private static replaceRecoveryCodes = asyncHandler(
+    async (userId: string): Promise<string[]> => {
+      await this.deleteRecoveryCodes(userId);
+
+      const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+        const raw = crypto.randomBytes(5).toString("hex");
+        return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+      });
+
+      const { error } = await supabaseAdmin!
+        .from("two_factor_recovery_codes")
+        .insert(
+          codes.map(code => ({
+            user_id: userId,
+            code_hash: this.hashRecoveryCode(code),
+          }))
+        );
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      return codes;
+    },
+    "Failed to generate recovery codes"
+  );
+
+  /**
+   * Delete all recovery codes for a user
+   * Private helper method
+   */
+  private static deleteRecoveryCodes = asyncHandler(
+    async (userId: string): Promise<void> => {
+      const { error } = await supabaseAdmin!
+        .from("two_factor_recovery_codes")
+        .delete()
+        .eq("user_id", userId);
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+    },
+    "Failed to delete recovery codes"
+  );
+
+  /**
+   * Mark a matching unused recovery code as used
+   * Private helper method
+   */
+  private static consumeRecoveryCode = asyncHandler(
+    async (userId: string, code: string): Promise<boolean> => {
+      const { data, error } = await supabaseAdmin!
+        .from("two_factor_recovery_codes")
+        .update({ used_at: new Date().toISOString() })
+        .eq("user_id", userId)
+        .eq("code_hash", this.hashRecoveryCode(code))
+        .is("used_at", null)
+        .select("id");
+
+      if (error) {
+        throw new AppError(error.message, 400);
+      }
+
+      if (data && data.length > 0) {
+        logger.info(`Recovery code used for user ${userId}`);
+        return true;
+      }
+
+      return false;
+    },
+    "Failed to consume recovery code"
+  );
+
+  private static hashRecoveryCode(code: string): string {
+    const normalized = code.replace(/[\s-]/g, "").toLowerCase();
+    return crypto.createHash("sha256").update(normalized).digest("hex");
+  }
+
+  private static encryptSecret(secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv("aes-256-gcm", ENCRYPTION_KEY, iv);
+    const encrypted = Buffer.concat([
+      cipher.update(secret, "utf8"),
+      cipher.final(),
+    ]);
+    const tag = cipher.getAuthTag();
+
+    return [iv, tag, encrypted].map(part => part.toString("base64")).join(":");
+  }
+
+  private static decryptSecret(payload: string): string {
+    const [iv, tag, encrypted] = payload
+      .split(":")
+      .map(part => Buffer.from(part, "base64"));
+    const decipher = crypto.createDecipheriv("aes-256-gcm", ENCRYPTION_KEY, iv);
+    decipher.setAuthTag(tag);
+
+    return Buffer.concat([
+      decipher.update(encrypted),
+      decipher.final(),
+    ]).toString("utf8");
+  }
+}
@@ -1,4 +1,5 @@
 import { supabase, supabaseAdmin } from "../config/supabase";
+import { USER_OWNED_TABLES } from "../config/userDataTables";
 import {
   User,
   Profile,
@@ -1345,29 +1346,7 @@ export class UserService {
    * Delete user-specific data (data that belongs only to this user)
    */
   private static async deleteUserSpecificData(userId: string): Promise<void> {
-    const tables = [
-      "user_devices",
-      "user_locations",
-      "user_privacy_settings",
-      "user_subscriptions",
-      "profiles",
-      "save_collections",
-      "saved_items",
-      "posts",
-      "comments",
-      "stories",
-      "story_views",
-      "reactions",
-      "notifications",
-      "payments",
-      "invoices",
-      "post_boosts",
-      "marketplace_listings",
-      "seller_ratings",
-      "reports",
-    ];
-
-    for (const table of tables) {
+    for (const table of USER_OWNED_TABLES) {
       try {
         const { error } = await supabaseAdmin!
           .from(table)
@@ -11,6 +11,8 @@ import { UUID } from "crypto";
 import { ChatService } from "../../services/chatService";
 import { enhancedMessageService } from "../../services/enhancedMessageService";
 import { redisService } from "../../services/redis.service";
+import { EmailVerificationService } from "../../services/emailVerificationService";
+import { AppError } from "../../middlewares/errorHandler";
 
 // Types for message events
 interface SendMessageData {
@@ -53,6 +55,8 @@ export function messageHandler(io: SocketIOServer, socket: Socket): void {
         return;
       }
 
+      await EmailVerificationService.assertCanMessageChat(userId, chatId);
+
       // Convert media objects to strings (JSON stringify) if needed
       const mediaStrings = media ? media.map(item => JSON.stringify(item)) : [];
 
@@ -103,7 +107,10 @@ export function messageHandler(io: SocketIOServer, socket: Socket): void {
     } catch (error) {
       logger.error("Error sending message:", error);
       socket.emit("message:error", {
-        error: "Failed to send message",
+        error:
+          error instanceof AppError && error.statusCode === 403
+            ? error.message
+            : "Failed to send message",
       });
     }
   });
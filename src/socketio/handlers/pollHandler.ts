@@ -0,0 +1,54 @@
+// src/socketio/handlers/pollHandler.ts
+import { Server as SocketIOServer, Socket } from "socket.io";
+import { logger } from "../../utils/logger";
+import { PollService } from "../../services/pollService";
+import { PostService } from "../../services/postService";
+
+/**
+ * Handle subscriptions to live poll counts
+ */
+export function pollHandler(io: SocketIOServer, socket: Socket): void {
+  const userId = socket.data.user?.id;
+
+  if (!userId) {
+    return;
+  }
+
+  // Only viewers who may see the post get its poll's counts
+  socket.on("poll:subscribe", async (data: { postId: string }) => {
+    const postId = data?.postId;
+
+    try {
+      if (
+        typeof postId !== "string" ||
+        !(await PostService.canUserViewPost(postId, userId))
+      ) {
+        socket.emit("poll:error", { postId, error: "Post not found" });
+        return;
+      }
+
+      await socket.join(PollService.roomFor(postId));
+      socket.emit("poll:subscribed", { postId });
+    } catch (error) {
+      logger.error(`Error subscribing to poll on post ${postId}:`, error);
+      socket.emit("poll:error", {
+        postId,
+        error: "Failed to subscribe to poll",
+      });
+    }
+  });
+
+  socket.on("poll:unsubscribe", async (data: { postId: string }) => {
+    const postId = data?.postId;
+
+    if (typeof postId !== "string") {
+      return;
+    }
+
+    try {
+      await socket.leave(PollService.roomFor(postId));
+    } catch (error) {
+      logger.error(`Error unsubscribing from poll on post ${postId}:`, error);
+    }
+  });
+}
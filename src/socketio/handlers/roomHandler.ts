@@ -22,6 +22,12 @@ export function roomHandler(io: SocketIOServer, socket: Socket): void {
   socket.on("room:join", async (data: { roomId: string }) => {
     const { roomId } = data;
 
+    // Poll rooms are joined through poll:subscribe, which checks access
+    if (typeof roomId !== "string" || roomId.startsWith("poll:")) {
+      socket.emit("room:error", { roomId, error: "Failed to join room" });
+      return;
+    }
+
     try {
       // Join the room
       await socket.join(roomId);
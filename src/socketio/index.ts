@@ -8,6 +8,7 @@ import { chatHandler } from "./handlers/chatHandler"; // Import the new chat han
 import { socketAuthMiddleware } from "./middleware/authenticate";
 import { rateLimiterMiddleware } from "./middleware/rateLimiter";
 import { readReceiptHandler } from "./handlers/readReceiptHandler";
+import { pollHandler } from "./handlers/pollHandler";
 
 // Socket.IO server instance
 let io: SocketIOServer | null = null;
@@ -73,6 +74,7 @@ export function initializeSocketIO(httpServer: HttpServer): SocketIOServer {
     // Apply message handler (if not already added)
     messageHandler(socketServer, socket);
     readReceiptHandler(socketServer, socket);
+    pollHandler(socketServer, socket);
 
     // Apply the new chat handler
     chatHandler(socketServer, socket);
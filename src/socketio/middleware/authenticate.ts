@@ -1,6 +1,7 @@
 import { ExtendedError, Socket } from "socket.io";
 import jwt from "jsonwebtoken";
 import { logger } from "../../utils/logger";
+import { SessionService } from "../../services/sessionService";
 
 // Get JWT secret from environment
 const JWT_SECRET = process.env.JWT_SECRET || "your_jwt_secret_key_here";
@@ -8,7 +9,7 @@ const JWT_SECRET = process.env.JWT_SECRET || "your_jwt_secret_key_here";
 /**
  * Socket.IO middleware to verify JWT tokens
  */
-export const socketAuthMiddleware = (
+export const socketAuthMiddleware = async (
   socket: Socket,
   next: (err?: ExtendedError) => void,
 ) => {
@@ -29,10 +30,29 @@ export const socketAuthMiddleware = (
       id: string;
       email: string;
       role: string;
+      sid?: string;
+      iat?: number;
     };
 
+    // Tokens without a session can't be revoked, so they expire early
+    if (!decoded.sid && !SessionService.isSessionlessTokenUsable(decoded)) {
+      logger.warn(
+        `Socket connection attempt with expired sessionless token: ${socket.id} (User: ${decoded.id})`,
+      );
+      return next(new Error("Token has expired"));
+    }
+
+    // Reject tokens whose session has been revoked
+    if (decoded.sid && !(await SessionService.isSessionActive(decoded.sid))) {
+      logger.warn(
+        `Socket connection attempt with revoked session: ${socket.id} (User: ${decoded.id})`,
+      );
+      return next(new Error("Session has been revoked"));
+    }
+
     // Attach user data to socket
     socket.data.user = decoded;
+    socket.data.sessionId = decoded.sid;
     socket.data.authenticated = true;
 
     logger.info(`Socket authenticated: ${socket.id} (User: ${decoded.id})`);
@@ -0,0 +1,73 @@
+// src/utils/auditDiff.ts
+
+// Never copied into the audit log, even when they change
+const REDACTED_FIELDS = new Set([
+  "password",
+  "password_hash",
+  "reset_password_token",
+  "token_hash",
+  "secret_encrypted",
+  "refresh_token_jti",
+]);
+
+export const REDACTED_VALUE = "[redacted]";
+
+export interface AuditChanges {
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+}
+
+type Snapshot = object | null | undefined;
+
+function redact(snapshot: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(snapshot).map(([key, value]) => [
+      key,
+      REDACTED_FIELDS.has(key) ? REDACTED_VALUE : value,
+    ])
+  );
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a instanceof Date || b instanceof Date) {
+    return new Date(a as Date).getTime() === new Date(b as Date).getTime();
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Reduce two snapshots of a record to the fields that changed.
+ * Creations and deletions keep the whole snapshot on their side.
+ * @returns null when nothing changed
+ */
+export function diffSnapshots(
+  before: Snapshot,
+  after: Snapshot
+): AuditChanges | null {
+  const previous = before ? redact(before as Record<string, unknown>) : null;
+  const next = after ? redact(after as Record<string, unknown>) : null;
+
+  if (!previous || !next) {
+    return previous || next ? { before: previous, after: next } : null;
+  }
+
+  const changed = new Set(
+    [...Object.keys(previous), ...Object.keys(next)].filter(
+      key =>
+        !isEqual(previous[key], next[key]) &&
+        // Fields that are only touched as a side effect of the change
+        key !== "updated_at"
+    )
+  );
+
+  if (changed.size === 0) {
+    return null;
+  }
+
+  const pick = (snapshot: Record<string, unknown>) =>
+    Object.fromEntries(
+      Object.entries(snapshot).filter(([key]) => changed.has(key))
+    );
+
+  return { before: pick(previous), after: pick(next) };
+}
@@ -0,0 +1,39 @@
+// src/utils/feedCursor.ts
+// Opaque cursors for snapshot-backed feed pagination. Clients only pass them
+// back; the snapshot they point to is owned by the requesting user.
+
+export interface FeedCursor {
+  snapshotId: string;
+  offset: number;
+}
+
+export function encodeFeedCursor(cursor: FeedCursor): string {
+  return Buffer.from(
+    JSON.stringify({ s: cursor.snapshotId, o: cursor.offset }),
+    "utf8"
+  ).toString("base64url");
+}
+
+/**
+ * @returns null when the value is not a cursor this API issued
+ */
+export function decodeFeedCursor(value: string): FeedCursor | null {
+  try {
+    const { s, o } = JSON.parse(
+      Buffer.from(value, "base64url").toString("utf8")
+    );
+
+    if (
+      typeof s !== "string" ||
+      !/^[0-9a-f-]{36}$/.test(s) ||
+      !Number.isInteger(o) ||
+      o < 0
+    ) {
+      return null;
+    }
+
+    return { snapshotId: s, offset: o };
+  } catch {
+    return null;
+  }
+}
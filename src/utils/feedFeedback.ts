@@ -0,0 +1,55 @@
+// src/utils/feedFeedback.ts
+// Applying a user's negative feedback (hidden posts, snoozed authors, topics
+// and sources they're not interested in) to posts bound for their feed.
+
+import { FeedFeedbackSignals } from "../models/feed-feedback.model";
+import { extractHashtags } from "./hashtags";
+
+export const AUTHOR_SNOOZE_DAYS = 30;
+
+/**
+ * Sources are matched ignoring case and surrounding spaces
+ */
+export function normalizePostSource(
+  source: string | null | undefined
+): string | null {
+  const normalized = source?.trim().toLowerCase();
+  return normalized || null;
+}
+
+/**
+ * Whether feedback keeps a post out of the feed: the post is hidden, its
+ * author is snoozed, or it carries a topic or comes from a source the user
+ * isn't interested in. A share is also judged by the post it shares.
+ */
+export function isExcludedByFeedback(
+  post: {
+    id: string;
+    user_id: string;
+    content?: string | null;
+    source?: string | null;
+    shared_post_id?: string | null;
+  },
+  signals: FeedFeedbackSignals
+): boolean {
+  if (
+    signals.hiddenPostIds.includes(post.id) ||
+    (post.shared_post_id && signals.hiddenPostIds.includes(post.shared_post_id))
+  ) {
+    return true;
+  }
+
+  if (signals.snoozedAuthorIds.includes(post.user_id)) {
+    return true;
+  }
+
+  const source = normalizePostSource(post.source);
+  if (source && signals.sources.includes(source)) {
+    return true;
+  }
+
+  return (
+    signals.topics.length > 0 &&
+    extractHashtags(post.content).some(tag => signals.topics.includes(tag))
+  );
+}
@@ -0,0 +1,46 @@
+// src/utils/hashtags.ts
+// Hashtag parsing for post and comment text. Tags are stored normalized
+// (NFKC, lower case, no leading #) so #Café, #CAFÉ and #café are one tag.
+
+export const MAX_HASHTAG_LENGTH = 100;
+export const MAX_HASHTAGS_PER_TEXT = 30;
+
+// A # that doesn't follow a word character, &, or another # (so URL
+// fragments and HTML entities don't count), then letters, marks, digits or _
+const HASHTAG_PATTERN = /(?<![\p{L}\p{M}\p{N}_&#])#([\p{L}\p{M}\p{N}_]+)/gu;
+
+/**
+ * Normalize a tag as typed by a user or taken from a URL
+ * @returns null when the value isn't a usable hashtag
+ */
+export function normalizeHashtag(value: string): string | null {
+  const tag = value.trim().replace(/^#/, "").normalize("NFKC").toLowerCase();
+
+  if (
+    !tag ||
+    tag.length > MAX_HASHTAG_LENGTH ||
+    !/^[\p{L}\p{M}\p{N}_]+$/u.test(tag) ||
+    // Needs a letter, so "#1" or "#2024" aren't tags
+    !/\p{L}/u.test(tag)
+  ) {
+    return null;
+  }
+
+  return tag;
+}
+
+/**
+ * Distinct normalized hashtags in a text, in order of first appearance
+ */
+export function extractHashtags(text: string | null | undefined): string[] {
+  if (!text) return [];
+
+  const tags = new Set<string>();
+  for (const match of text.matchAll(HASHTAG_PATTERN)) {
+    const tag = normalizeHashtag(match[1]);
+    if (tag) tags.add(tag);
+    if (tags.size >= MAX_HASHTAGS_PER_TEXT) break;
+  }
+
+  return [...tags];
+}
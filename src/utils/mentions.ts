@@ -0,0 +1,50 @@
+// src/utils/mentions.ts
+// @mention parsing for post and comment text. Ranges are UTF-16 offsets into
+// the stored text, as String.prototype.slice counts them, so clients can
+// render a mention with text.slice(start, end).
+
+export const MAX_MENTIONS_PER_TEXT = 20;
+
+// Matches the username rule enforced at registration
+const MIN_USERNAME_LENGTH = 3;
+
+// An @ that doesn't follow a word character, @ or . (so email addresses
+// don't count), then the characters a username may contain
+const MENTION_PATTERN = /(?<![\p{L}\p{N}_@.])@([a-zA-Z0-9_.]+)/gu;
+
+/**
+ * A mention as it appears in text, before it is resolved to a user
+ */
+export interface MentionMatch {
+  username: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Every @username in a text, in order, capped at MAX_MENTIONS_PER_TEXT
+ * distinct usernames. A trailing dot ends a sentence rather than a name.
+ */
+export function extractMentions(
+  text: string | null | undefined
+): MentionMatch[] {
+  if (!text) return [];
+
+  const matches: MentionMatch[] = [];
+  const usernames = new Set<string>();
+
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const username = match[1].replace(/\.+$/, "");
+    if (username.length < MIN_USERNAME_LENGTH) continue;
+
+    if (!usernames.has(username)) {
+      if (usernames.size >= MAX_MENTIONS_PER_TEXT) break;
+      usernames.add(username);
+    }
+
+    const start = match.index!;
+    matches.push({ username, start, end: start + 1 + username.length });
+  }
+
+  return matches;
+}
@@ -0,0 +1,74 @@
+// src/utils/polls.ts
+// Poll limits, and what a viewer may see of a poll: counts are hidden until
+// the results visibility setting allows it, except from the post's author.
+import { UUID } from "crypto";
+import {
+  PollResultsVisibility,
+  PostPoll,
+  PostPollOption,
+  PostPollView,
+} from "../models/poll.model";
+
+export const MIN_POLL_OPTIONS = 2;
+export const MAX_POLL_OPTIONS = 10;
+export const MAX_POLL_OPTION_LENGTH = 100;
+
+export function isPollClosed(
+  poll: Pick<PostPoll, "closes_at">,
+  now = new Date()
+): boolean {
+  return (
+    poll.closes_at !== null &&
+    new Date(poll.closes_at).getTime() <= now.getTime()
+  );
+}
+
+/**
+ * Whether anyone at all may see the counts, e.g. in a broadcast
+ */
+export function arePollResultsPublic(
+  poll: Pick<PostPoll, "closes_at" | "results_visibility">,
+  now = new Date()
+): boolean {
+  return (
+    poll.results_visibility === PollResultsVisibility.ALWAYS ||
+    isPollClosed(poll, now)
+  );
+}
+
+/**
+ * Build the poll as one viewer sees it
+ */
+export function toPollView(
+  poll: PostPoll,
+  options: PostPollOption[],
+  viewer: { userId?: string; authorId: string; vote: UUID[] | null },
+  now = new Date()
+): PostPollView {
+  const resultsVisible =
+    arePollResultsPublic(poll, now) ||
+    viewer.userId === viewer.authorId ||
+    (poll.results_visibility === PollResultsVisibility.AFTER_VOTE &&
+      viewer.vote !== null);
+
+  return {
+    id: poll.id,
+    post_id: poll.post_id,
+    allows_multiple: poll.allows_multiple,
+    is_anonymous: poll.is_anonymous,
+    results_visibility: poll.results_visibility,
+    closes_at: poll.closes_at,
+    is_closed: isPollClosed(poll, now),
+    results_visible: resultsVisible,
+    voter_count: poll.voter_count,
+    options: [...options]
+      .sort((a, b) => a.position - b.position)
+      .map(option => ({
+        id: option.id,
+        text: option.text,
+        position: option.position,
+        vote_count: resultsVisible ? option.vote_count : null,
+      })),
+    user_vote: viewer.vote,
+  };
+}
@@ -0,0 +1,47 @@
+// src/utils/searchHighlights.ts
+// Search snippets come from Postgres ts_headline with each match wrapped in
+// control characters (see search_posts). They are turned into plain text
+// plus highlight ranges, so content is never returned as markup. Ranges are
+// UTF-16 offsets into the snippet, as with mention ranges.
+
+const HIGHLIGHT_START = "\u0002";
+const HIGHLIGHT_END = "\u0003";
+
+export interface SnippetHighlight {
+  start: number;
+  end: number;
+}
+
+export interface HighlightedSnippet {
+  text: string;
+  highlights: SnippetHighlight[];
+}
+
+/**
+ * Split a marked-up snippet into its text and the ranges of its matches.
+ * Unbalanced or empty markers are dropped.
+ */
+export function parseHighlightedSnippet(
+  snippet: string | null | undefined
+): HighlightedSnippet {
+  if (!snippet) return { text: "", highlights: [] };
+
+  let text = "";
+  const highlights: SnippetHighlight[] = [];
+  let openAt: number | null = null;
+
+  for (const char of snippet) {
+    if (char === HIGHLIGHT_START) {
+      openAt = text.length;
+    } else if (char === HIGHLIGHT_END) {
+      if (openAt !== null && text.length > openAt) {
+        highlights.push({ start: openAt, end: text.length });
+      }
+      openAt = null;
+    } else {
+      text += char;
+    }
+  }
+
+  return { text, highlights };
+}
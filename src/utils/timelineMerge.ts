@@ -0,0 +1,33 @@
+// src/utils/timelineMerge.ts
+// Merging of fan-out timelines read from Redis sorted sets, e.g. a user's
+// home timeline with the outboxes of friends too popular to fan out to.
+
+export interface TimelineEntry {
+  member: string;
+  score: number;
+}
+
+/**
+ * Merge timelines newest first, keeping each post once
+ * @returns up to limit post IDs
+ */
+export function mergeTimelines(
+  timelines: TimelineEntry[][],
+  limit: number
+): string[] {
+  const scores = new Map<string, number>();
+
+  for (const timeline of timelines) {
+    for (const { member, score } of timeline) {
+      const existing = scores.get(member);
+      if (existing === undefined || score > existing) {
+        scores.set(member, score);
+      }
+    }
+  }
+
+  return [...scores.entries()]
+    .sort(([idA, a], [idB, b]) => b - a || idA.localeCompare(idB))
+    .slice(0, Math.max(limit, 0))
+    .map(([member]) => member);
+}
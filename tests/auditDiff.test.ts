@@ -0,0 +1,50 @@
+// tests/auditDiff.test.ts
+import { describe, it, expect } from "@jest/globals";
+import { diffSnapshots, REDACTED_VALUE } from "../src/utils/auditDiff";
+
+describe("Audit diff", () => {
+  it("keeps only the fields that changed", () => {
+    expect(
+      diffSnapshots(
+        { id: "u1", role: "user", bio: "hi", updated_at: "2024-01-01" },
+        { id: "u1", role: "admin", bio: "hi", updated_at: "2024-02-01" }
+      )
+    ).toEqual({ before: { role: "user" }, after: { role: "admin" } });
+  });
+
+  it("records whole snapshots for creations and deletions", () => {
+    expect(diffSnapshots(null, { id: "p1", status: "pending" })).toEqual({
+      before: null,
+      after: { id: "p1", status: "pending" },
+    });
+    expect(diffSnapshots({ id: "p1" }, undefined)).toEqual({
+      before: { id: "p1" },
+      after: null,
+    });
+  });
+
+  it("returns null when nothing changed", () => {
+    expect(diffSnapshots(null, null)).toBeNull();
+    expect(diffSnapshots({ a: [1, 2] }, { a: [1, 2] })).toBeNull();
+    expect(
+      diffSnapshots(
+        { at: "2024-01-01T00:00:00.000Z" },
+        { at: new Date("2024-01-01T00:00:00Z") }
+      )
+    ).toBeNull();
+  });
+
+  it("never stores secrets", () => {
+    const changes = diffSnapshots(
+      { id: "u1", password_hash: "old" },
+      { id: "u1", password_hash: "new" }
+    );
+    // Both sides are redacted, so a password change shows as no diff
+    expect(changes).toBeNull();
+
+    expect(diffSnapshots(null, { id: "u1", password_hash: "x" })).toEqual({
+      before: null,
+      after: { id: "u1", password_hash: REDACTED_VALUE },
+    });
+  });
+});
@@ -0,0 +1,102 @@
+// tests/authenticate.test.ts
+import { describe, it, expect, jest, beforeEach } from "@jest/globals";
+import jwt from "jsonwebtoken";
+import { Request, Response } from "express";
+import { Socket } from "socket.io";
+
+jest.mock("../src/config/supabase", () => ({
+  supabase: {},
+  supabaseAdmin: {},
+}));
+jest.mock("../src/services/redis.service", () => ({
+  redisService: {},
+}));
+jest.mock("../src/services/userService", () => ({
+  UserService: { findUserById: jest.fn() },
+}));
+jest.mock("../src/services/accessTokenService", () => ({
+  AccessTokenService: { isAccessToken: () => false },
+}));
+jest.mock("../src/utils/logger", () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+import { authenticate } from "../src/middlewares/authenticate";
+import { socketAuthMiddleware } from "../src/socketio/middleware/authenticate";
+import { SessionService } from "../src/services/sessionService";
+import { UserService } from "../src/services/userService";
+
+const JWT_SECRET = process.env.JWT_SECRET || "your_jwt_secret_key_here";
+const user = { id: "user-1", email: "a@example.com", is_active: true };
+
+const signToken = (claims: object, issuedSecondsAgo = 0) =>
+  jwt.sign(
+    {
+      id: user.id,
+      email: user.email,
+      role: "user",
+      iat: Math.floor(Date.now() / 1000) - issuedSecondsAgo,
+      ...claims,
+    },
+    JWT_SECRET
+  );
+
+const runAuthenticate = async (token: string) => {
+  const req = { headers: { authorization: `Bearer ${token}` } } as Request;
+  const res: any = {};
+  res.status = jest.fn(() => res);
+  res.json = jest.fn(() => res);
+  const next = jest.fn();
+
+  await authenticate(req, res as Response, next);
+
+  return { req, res, next };
+};
+
+describe("authenticate", () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    (UserService.findUserById as jest.Mock<any>).mockResolvedValue(user);
+  });
+
+  it("accepts a token whose session is active", async () => {
+    jest.spyOn(SessionService, "isSessionActive").mockResolvedValue(true);
+
+    const { req, next } = await runAuthenticate(signToken({ sid: "s-1" }));
+
+    expect(next).toHaveBeenCalled();
+    expect(req.sessionId).toBe("s-1");
+  });
+
+  it("rejects a token whose session was revoked", async () => {
+    jest.spyOn(SessionService, "isSessionActive").mockResolvedValue(false);
+
+    const { res, next } = await runAuthenticate(signToken({ sid: "s-1" }));
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+
+  it("accepts a token without a session only briefly after issue", async () => {
+    const fresh = await runAuthenticate(signToken({}, 60));
+    expect(fresh.next).toHaveBeenCalled();
+
+    const old = await runAuthenticate(signToken({}, 2 * 60 * 60));
+    expect(old.next).not.toHaveBeenCalled();
+    expect(old.res.status).toHaveBeenCalledWith(401);
+  });
+
+  it("rejects an old token without a session on sockets", async () => {
+    const next = jest.fn();
+    const socket = {
+      id: "socket-1",
+      handshake: { auth: { token: signToken({}, 2 * 60 * 60) }, headers: {} },
+      data: {},
+    } as unknown as Socket;
+
+    await socketAuthMiddleware(socket, next);
+
+    expect(next).toHaveBeenCalledWith(expect.any(Error));
+    expect(socket.data.authenticated).toBeUndefined();
+  });
+});
@@ -0,0 +1,25 @@
+// tests/feedCursor.test.ts
+import { describe, it, expect } from "@jest/globals";
+import { decodeFeedCursor, encodeFeedCursor } from "../src/utils/feedCursor";
+
+describe("Feed cursor", () => {
+  const snapshotId = "3f2b8c1e-6a4d-4f7e-9b1a-2c5d8e0f1a2b";
+
+  it("round-trips through an opaque URL-safe string", () => {
+    const cursor = encodeFeedCursor({ snapshotId, offset: 20 });
+
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeFeedCursor(cursor)).toEqual({ snapshotId, offset: 20 });
+  });
+
+  it("rejects values it did not issue", () => {
+    const encode = (value: unknown) =>
+      Buffer.from(JSON.stringify(value)).toString("base64url");
+
+    expect(decodeFeedCursor("not a cursor")).toBeNull();
+    expect(decodeFeedCursor(encode({ s: "feed:*", o: 0 }))).toBeNull();
+    expect(decodeFeedCursor(encode({ s: snapshotId, o: -10 }))).toBeNull();
+    expect(decodeFeedCursor(encode({ s: snapshotId, o: 1.5 }))).toBeNull();
+    expect(decodeFeedCursor(encode([snapshotId, 0]))).toBeNull();
+  });
+});
@@ -0,0 +1,50 @@
+// tests/feedFeedback.test.ts
+import { describe, it, expect } from "@jest/globals";
+import { isExcludedByFeedback } from "../src/utils/feedFeedback";
+import { FeedFeedbackSignals } from "../src/models/feed-feedback.model";
+
+const signals = (
+  overrides: Partial<FeedFeedbackSignals> = {}
+): FeedFeedbackSignals => ({
+  hiddenPostIds: [],
+  snoozedAuthorIds: [],
+  topics: [],
+  sources: [],
+  hiddenAuthorCounts: {},
+  ...overrides,
+});
+
+const post = { id: "p1", user_id: "author", content: "Morning run #Fitness" };
+
+describe("Feed feedback", () => {
+  it("excludes hidden posts, shares of them, and snoozed authors", () => {
+    expect(isExcludedByFeedback(post, signals({ hiddenPostIds: ["p1"] }))).toBe(
+      true
+    );
+    expect(
+      isExcludedByFeedback(
+        { id: "p2", user_id: "sharer", shared_post_id: "p1" },
+        signals({ hiddenPostIds: ["p1"] })
+      )
+    ).toBe(true);
+    expect(
+      isExcludedByFeedback(post, signals({ snoozedAuthorIds: ["author"] }))
+    ).toBe(true);
+    expect(isExcludedByFeedback(post, signals())).toBe(false);
+  });
+
+  it("matches topics by normalized hashtag and sources ignoring case", () => {
+    expect(isExcludedByFeedback(post, signals({ topics: ["fitness"] }))).toBe(
+      true
+    );
+    expect(isExcludedByFeedback(post, signals({ topics: ["running"] }))).toBe(
+      false
+    );
+    expect(
+      isExcludedByFeedback(
+        { ...post, source: " DEV.to #JS " },
+        signals({ sources: ["dev.to #js"] })
+      )
+    ).toBe(true);
+  });
+});
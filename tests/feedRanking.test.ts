@@ -0,0 +1,222 @@
+// tests/feedRanking.test.ts
+import { describe, it, expect, jest } from "@jest/globals";
+
+jest.mock("../src/config/supabase", () => {
+  const client = jest
+    .requireActual<typeof import("./helpers/supabaseMock")>(
+      "./helpers/supabaseMock"
+    )
+    .createSupabaseMock();
+  return { supabase: client, supabaseAdmin: client };
+});
+jest.mock("../src/services/redis.service", () => ({
+  redisService: {
+    getBoostedPosts: jest.fn(async () => null),
+    setBoostedPosts: jest.fn(),
+  },
+}));
+jest.mock("../src/utils/logger", () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+import { supabase } from "../src/config/supabase";
+import { FeedRankingEngine } from "../src/services/feed/feedRanking.engine";
+import { BoostedPostsSource } from "../src/services/feed/feedRanking.sources";
+import {
+  CandidateSource,
+  FeedRankingContext,
+  RankingFeature,
+} from "../src/services/feed/feedRanking.types";
+import { SupabaseMock } from "./helpers/supabaseMock";
+
+const now = new Date("2024-06-01T12:00:00Z");
+
+const ctx: FeedRankingContext = {
+  userId: "viewer",
+  friendIds: ["friend"],
+  userLocation: { city: null, country: null },
+  seenBoosts: [],
+  now,
+};
+
+const post = (id: string, hoursAgo: number, userId = "someone") => ({
+  id,
+  user_id: userId,
+  created_at: new Date(now.getTime() - hoursAgo * 3600 * 1000).toISOString(),
+});
+
+const source = (name: string, posts: any[]): CandidateSource => ({
+  name,
+  fetch: async () => posts,
+});
+
+const newest: RankingFeature<void> = {
+  name: "Newest",
+  evaluate: ({ post }, context) => {
+    const hours =
+      (context.now.getTime() - new Date(post.created_at).getTime()) / 3600000;
+    return { score: 100 - hours, reason: `${hours}h old` };
+  },
+};
+
+describe("Feed ranking engine", () => {
+  it("merges sources into one list ordered by total score", async () => {
+    const engine = new FeedRankingEngine(
+      [
+        source("friends", [post("a", 5, "friend"), post("b", 1, "friend")]),
+        source("boosted", [post("c", 10), post("a", 5, "friend")]),
+      ],
+      [
+        newest,
+        {
+          name: "Boost",
+          evaluate: ({ sources }) => ({
+            score: sources.includes("boosted") ? 20 : 0,
+            reason: "boost",
+          }),
+        },
+      ]
+    );
+
+    const { posts, sourceCounts } = await engine.rank(ctx, {
+      candidatesPerSource: 10,
+    });
+
+    // a: 95 + 20, c: 90 + 20, b: 99
+    expect(posts.map(p => [p.post.id, p.feed_type, p.score])).toEqual([
+      ["a", "friends", 115],
+      ["c", "boosted", 110],
+      ["b", "friends", 99],
+    ]);
+    expect(sourceCounts).toEqual({ friends: 2, boosted: 2 });
+    expect(posts[0].explanation).toBeUndefined();
+  });
+
+  it("explains each score when asked", async () => {
+    const engine = new FeedRankingEngine(
+      [source("public", [post("a", 2)])],
+      [newest]
+    );
+
+    const { posts } = await engine.rank(ctx, {
+      candidatesPerSource: 10,
+      explain: true,
+    });
+
+    expect(posts[0].explanation).toEqual({
+      score: 98,
+      sources: ["public"],
+      features: [{ name: "Newest", score: 98, reason: "2h old" }],
+    });
+  });
+
+  it("passes prepared data to features and replaces plugins by name", async () => {
+    const engine = new FeedRankingEngine(
+      [source("public", [post("a", 0), post("b", 0)])],
+      [newest]
+    );
+
+    engine.registerFeature({
+      name: "Newest",
+      prepare: async (_, candidates) =>
+        new Map(candidates.map((c, i) => [c.post.id, i * 10])),
+      evaluate: ({ post }, _, scores: Map<string, number>) => ({
+        score: scores.get(post.id)!,
+        reason: "prepared",
+      }),
+    } as RankingFeature<Map<string, number>>);
+
+    const { posts } = await engine.rank(ctx, { candidatesPerSource: 10 });
+    expect(posts.map(p => [p.post.id, p.score])).toEqual([
+      ["b", 10],
+      ["a", 0],
+    ]);
+  });
+
+  it("leaves out sources and features that fail", async () => {
+    const engine = new FeedRankingEngine(
+      [
+        source("public", [post("a", 1)]),
+        {
+          name: "broken",
+          fetch: async () => {
+            throw new Error("down");
+          },
+        },
+      ],
+      [
+        newest,
+        {
+          name: "Flaky",
+          prepare: async () => {
+            throw new Error("down");
+          },
+          evaluate: () => ({ score: 1000, reason: "never" }),
+        },
+      ]
+    );
+
+    const { posts, sourceCounts } = await engine.rank(ctx, {
+      candidatesPerSource: 10,
+      explain: true,
+    });
+
+    expect(sourceCounts).toEqual({ public: 1, broken: 0 });
+    expect(posts[0].score).toBe(99);
+    expect(posts[0].explanation!.features.map(f => f.name)).toEqual(["Newest"]);
+  });
+
+  it("drops posts the viewer's feedback excludes from every source", async () => {
+    const engine = new FeedRankingEngine(
+      [
+        source("own", [post("mine", 1, "viewer")]),
+        source("friends", [post("a", 1, "friend"), post("b", 2, "friend")]),
+        source("public", [post("c", 3, "snoozed"), post("d", 4)]),
+      ],
+      [newest]
+    );
+
+    const { posts, sourceCounts } = await engine.rank(
+      {
+        ...ctx,
+        feedback: {
+          hiddenPostIds: ["a"],
+          snoozedAuthorIds: ["snoozed", "viewer"],
+          topics: [],
+          sources: [],
+          hiddenAuthorCounts: {},
+        },
+      },
+      { candidatesPerSource: 10 }
+    );
+
+    // The viewer's own posts are never excluded
+    expect(posts.map(p => p.post.id)).toEqual(["mine", "b", "d"]);
+    expect(sourceCounts).toEqual({ own: 1, friends: 1, public: 1 });
+  });
+});
+
+describe("BoostedPostsSource", () => {
+  it("leaves out boosts the viewer has already seen", async () => {
+    const db = supabase as unknown as SupabaseMock;
+    db.queue("posts", "select", {
+      data: [post("boost1", 1), post("boost2", 2)],
+    });
+
+    const posts = await new BoostedPostsSource().fetch(
+      {
+        ...ctx,
+        userLocation: { city: "Dhaka", country: "Bangladesh" },
+        seenBoosts: ["boost1"],
+      },
+      3
+    );
+
+    expect(posts.map(p => p.id)).toEqual(["boost2"]);
+    expect(db.queries("posts")[0].filters).toContainEqual([
+      "eq",
+      "post_boosts.country",
+      "Bangladesh",
+    ]);
+  });
+});
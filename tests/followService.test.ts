@@ -0,0 +1,316 @@
+// tests/followService.test.ts
+import { describe, it, expect, jest, beforeEach } from "@jest/globals";
+
+jest.mock("../src/config/supabase", () => {
+  const client = jest
+    .requireActual<typeof import("./helpers/supabaseMock")>(
+      "./helpers/supabaseMock"
+    )
+    .createSupabaseMock();
+  return { supabase: client, supabaseAdmin: client };
+});
+jest.mock("../src/services/redis.service", () => ({
+  redisService: {
+    keys: { userFollowing: (userId: string) => `following:${userId}` },
+    get: jest.fn(async () => null),
+    set: jest.fn(),
+    deleteKey: jest.fn(),
+    invalidateUserFeed: jest.fn(),
+    getTTL: () => ({ USER_FOLLOWING: 1800 }),
+  },
+}));
+jest.mock("../src/services/privacySettingsService", () => ({
+  PrivacySettingsService: { getUserPrivacySettings: jest.fn() },
+}));
+jest.mock("../src/services/notificationService", () => ({
+  NotificationService: { createNotification: jest.fn() },
+}));
+jest.mock("../src/utils/profileUtils", () => ({
+  getUserBasicProfile: jest.fn(async (id: string) => ({
+    id,
+    username: id,
+    first_name: "Some",
+    last_name: "One",
+  })),
+}));
+jest.mock("../src/utils/logger", () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+import { supabase } from "../src/config/supabase";
+import { FollowService } from "../src/services/followService";
+import { PrivacySettingsService } from "../src/services/privacySettingsService";
+import { NotificationService } from "../src/services/notificationService";
+import { redisService } from "../src/services/redis.service";
+import { FollowingPostsSource } from "../src/services/feed/feedRanking.sources";
+import { FeedRankingContext } from "../src/services/feed/feedRanking.types";
+import { FollowStatus } from "../src/models/follow.model";
+import { FriendshipStatus } from "../src/models/friendship.model";
+import { ReferenceType } from "../src/models/notification.model";
+import { PostVisibility } from "../src/models/post.model";
+import { SupabaseMock } from "./helpers/supabaseMock";
+
+const db = supabase as unknown as SupabaseMock;
+const getPrivacySettings =
+  PrivacySettingsService.getUserPrivacySettings as jest.Mock<any>;
+
+const VIEWER = "viewer";
+const TARGET = "target";
+
+const withProfileVisibility = (
+  profileVisibility: "public" | "friends" | "private"
+) =>
+  getPrivacySettings.mockResolvedValue({
+    settings: { baseSettings: { profileVisibility } },
+  });
+
+const withFriendship = (status: FriendshipStatus) =>
+  db.queue("friendships", "select", { data: { status } });
+
+const withFollow = (status: FollowStatus) =>
+  db.queue("follows", "select", {
+    data: { follower_id: VIEWER, followee_id: TARGET, status },
+  });
+
+describe("FollowService", () => {
+  beforeEach(() => {
+    db.reset();
+    jest.clearAllMocks();
+    db.queue("follows", "insert", query => ({ data: query.payload }));
+  });
+
+  describe("follow", () => {
+    it("follows a public profile straight away", async () => {
+      withProfileVisibility("public");
+
+      const follow = await FollowService.follow(VIEWER, TARGET);
+
+      expect(follow.status).toBe(FollowStatus.ACCEPTED);
+      expect(redisService.invalidateUserFeed).toHaveBeenCalledWith(VIEWER);
+      expect(NotificationService.createNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ reference_type: ReferenceType.FOLLOW })
+      );
+    });
+
+    it.each(["friends", "private"] as const)(
+      "asks a %s profile to approve the follow",
+      async visibility => {
+        withProfileVisibility(visibility);
+
+        const follow = await FollowService.follow(VIEWER, TARGET);
+
+        expect(follow.status).toBe(FollowStatus.PENDING);
+        expect(redisService.invalidateUserFeed).not.toHaveBeenCalled();
+        expect(NotificationService.createNotification).toHaveBeenCalledWith(
+          expect.objectContaining({
+            reference_type: ReferenceType.FOLLOW_REQUEST,
+          })
+        );
+      }
+    );
+
+    it("needs no approval between friends", async () => {
+      withProfileVisibility("private");
+      withFriendship(FriendshipStatus.ACCEPTED);
+
+      const follow = await FollowService.follow(VIEWER, TARGET);
+
+      expect(follow.status).toBe(FollowStatus.ACCEPTED);
+    });
+
+    it("refuses to follow across a block", async () => {
+      withProfileVisibility("public");
+      withFriendship(FriendshipStatus.BLOCKED);
+
+      await expect(FollowService.follow(VIEWER, TARGET)).rejects.toMatchObject({
+        statusCode: 403,
+      });
+      expect(db.queries("follows", "insert")).toHaveLength(0);
+    });
+
+    it("refuses a second request while one is pending", async () => {
+      withProfileVisibility("private");
+      withFollow(FollowStatus.PENDING);
+
+      await expect(FollowService.follow(VIEWER, TARGET)).rejects.toMatchObject({
+        statusCode: 409,
+      });
+      expect(db.queries("follows", "insert")).toHaveLength(0);
+    });
+
+    it("only accepts pending requests made to the user", async () => {
+      db.queue("follows", "update", { data: null });
+
+      await expect(
+        FollowService.acceptFollowRequest(TARGET, VIEWER)
+      ).rejects.toMatchObject({ statusCode: 404 });
+
+      expect(db.queries("follows", "update")[0].filters).toEqual(
+        expect.arrayContaining([
+          ["eq", "follower_id", VIEWER],
+          ["eq", "followee_id", TARGET],
+          ["eq", "status", FollowStatus.PENDING],
+        ])
+      );
+    });
+  });
+
+  describe("follower lists", () => {
+    const queueList = () =>
+      db.queue("follows", "select", {
+        data: [
+          {
+            created_at: "2026-10-19",
+            user: { id: "fan", username: "fan", is_verified: false },
+          },
+        ],
+        count: 1,
+      });
+
+    it("shows a user their own followers whatever their settings", async () => {
+      withProfileVisibility("private");
+      queueList();
+
+      const { users, total } = await FollowService.getFollowers(TARGET, TARGET);
+
+      expect(total).toBe(1);
+      expect(users[0]).toMatchObject({ id: "fan", followed_at: "2026-10-19" });
+      expect(getPrivacySettings).not.toHaveBeenCalled();
+    });
+
+    it("shows anyone the followers of a public profile", async () => {
+      withProfileVisibility("public");
+      db.queue("follows", "select", { data: null });
+      queueList();
+
+      const { total } = await FollowService.getFollowers(VIEWER, TARGET);
+
+      expect(total).toBe(1);
+    });
+
+    it("hides a non-public profile's lists from strangers", async () => {
+      withProfileVisibility("friends");
+
+      await expect(
+        FollowService.getFollowers(VIEWER, TARGET)
+      ).rejects.toMatchObject({ statusCode: 403 });
+      await expect(
+        FollowService.getFollowing(VIEWER, TARGET)
+      ).rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    it("shows a non-public profile's lists to friends and followers", async () => {
+      withProfileVisibility("private");
+      withFriendship(FriendshipStatus.ACCEPTED);
+      db.queue("follows", "select", { data: null });
+      queueList();
+
+      await expect(
+        FollowService.getFollowing(VIEWER, TARGET)
+      ).resolves.toMatchObject({ total: 1 });
+
+      withFollow(FollowStatus.ACCEPTED);
+      queueList();
+
+      await expect(
+        FollowService.getFollowers(VIEWER, TARGET)
+      ).resolves.toMatchObject({ total: 1 });
+    });
+
+    it("doesn't count a pending request as following", async () => {
+      withProfileVisibility("private");
+      withFollow(FollowStatus.PENDING);
+
+      await expect(
+        FollowService.getFollowers(VIEWER, TARGET)
+      ).rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    it("hides a user's lists from someone on the other side of a block", async () => {
+      withProfileVisibility("public");
+      withFriendship(FriendshipStatus.BLOCKED);
+
+      await expect(
+        FollowService.getFollowers(VIEWER, TARGET)
+      ).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe("friendship changes", () => {
+    it("makes new friends follow each other", async () => {
+      await FollowService.followEachOther("user-1", "user-2");
+
+      const [upsert] = db.queries("follows", "upsert");
+      expect(upsert.payload).toEqual([
+        expect.objectContaining({
+          follower_id: "user-1",
+          followee_id: "user-2",
+          status: FollowStatus.ACCEPTED,
+        }),
+        expect.objectContaining({
+          follower_id: "user-2",
+          followee_id: "user-1",
+          status: FollowStatus.ACCEPTED,
+        }),
+      ]);
+      expect(redisService.invalidateUserFeed).toHaveBeenCalledTimes(2);
+    });
+
+    it("removes follows both ways", async () => {
+      db.queue("follows", "delete", {
+        data: [{ follower_id: "user-1" }, { follower_id: "user-2" }],
+      });
+
+      await FollowService.removeFollowsBetween("user-1", "user-2");
+
+      const [removal] = db.queries("follows", "delete");
+      expect(removal.filters).toContainEqual([
+        "or",
+        "and(follower_id.eq.user-1,followee_id.eq.user-2),and(follower_id.eq.user-2,followee_id.eq.user-1)",
+      ]);
+      expect(redisService.deleteKey).toHaveBeenCalledWith("following:user-1");
+      expect(redisService.deleteKey).toHaveBeenCalledWith("following:user-2");
+    });
+  });
+});
+
+describe("FollowingPostsSource", () => {
+  const source = new FollowingPostsSource();
+  const ctx = (
+    overrides: Partial<FeedRankingContext> = {}
+  ): FeedRankingContext => ({
+    userId: VIEWER,
+    friendIds: ["friend"],
+    followingIds: ["friend", "creator"],
+    userLocation: {} as FeedRankingContext["userLocation"],
+    seenBoosts: [],
+    now: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    db.reset();
+  });
+
+  it("fetches public posts by followed users who aren't friends", async () => {
+    db.queue("posts", "select", { data: [{ id: "post-1" }] });
+
+    const posts = await source.fetch(ctx(), 10);
+
+    expect(posts).toEqual([{ id: "post-1" }]);
+    const [query] = db.queries("posts");
+    expect(query.filters).toContainEqual(["in", "user_id", ["creator"]]);
+    expect(query.filters).toContainEqual([
+      "eq",
+      "visibility",
+      PostVisibility.PUBLIC,
+    ]);
+  });
+
+  it("skips the query when every followed user is a friend", async () => {
+    const posts = await source.fetch(ctx({ followingIds: ["friend"] }), 10);
+
+    expect(posts).toEqual([]);
+    expect(db.queries("posts")).toHaveLength(0);
+  });
+});
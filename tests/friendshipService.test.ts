@@ -0,0 +1,122 @@
+// tests/friendshipService.test.ts
+import { describe, it, expect, jest, beforeEach } from "@jest/globals";
+
+jest.mock("../src/config/supabase", () => {
+  const client = jest
+    .requireActual<typeof import("./helpers/supabaseMock")>(
+      "./helpers/supabaseMock"
+    )
+    .createSupabaseMock();
+  return { supabase: client, supabaseAdmin: client };
+});
+jest.mock("../src/services/followService", () => ({
+  FollowService: {
+    followEachOther: jest.fn(),
+    removeFollowsBetween: jest.fn(),
+  },
+}));
+jest.mock("../src/services/feed", () => ({
+  FeedTimelineService: { resetHomeTimelines: jest.fn() },
+}));
+jest.mock("../src/services/notificationService", () => ({
+  NotificationService: { createNotification: jest.fn() },
+}));
+jest.mock("../src/utils/profileUtils", () => ({
+  getUserBasicProfile: jest.fn(async () => ({ username: "someone" })),
+  getMultipleUserProfiles: jest.fn(async () => []),
+}));
+jest.mock("../src/utils/logger", () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+import { supabase } from "../src/config/supabase";
+import { FriendshipService } from "../src/services/friendshipService";
+import { FollowService } from "../src/services/followService";
+import { FeedTimelineService } from "../src/services/feed";
+import { FriendshipStatus } from "../src/models/friendship.model";
+import { SupabaseMock } from "./helpers/supabaseMock";
+
+const db = supabase as unknown as SupabaseMock;
+
+const friendship = (status: FriendshipStatus) => ({
+  id: "friendship-1",
+  requester_id: "user-1",
+  addressee_id: "user-2",
+  status,
+});
+
+describe("FriendshipService graph changes", () => {
+  beforeEach(() => {
+    db.reset();
+    jest.clearAllMocks();
+  });
+
+  it("drops follows, friend caches and timelines when a user is blocked", async () => {
+    db.queue("friendships", "update", {
+      data: friendship(FriendshipStatus.BLOCKED),
+    });
+
+    await FriendshipService.updateFriendshipStatus(
+      "friendship-1",
+      FriendshipStatus.BLOCKED
+    );
+
+    expect(FollowService.removeFollowsBetween).toHaveBeenCalledWith(
+      "user-1",
+      "user-2"
+    );
+    expect(FeedTimelineService.resetHomeTimelines).toHaveBeenCalledWith([
+      "user-1",
+      "user-2",
+    ]);
+    expect(FollowService.followEachOther).not.toHaveBeenCalled();
+  });
+
+  it("makes friends follow each other when a request is accepted", async () => {
+    db.queue("friendships", "update", {
+      data: friendship(FriendshipStatus.ACCEPTED),
+    });
+
+    await FriendshipService.updateFriendshipStatus(
+      "friendship-1",
+      FriendshipStatus.ACCEPTED
+    );
+
+    expect(FollowService.followEachOther).toHaveBeenCalledWith(
+      "user-1",
+      "user-2"
+    );
+    expect(FeedTimelineService.resetHomeTimelines).toHaveBeenCalledWith([
+      "user-1",
+      "user-2",
+    ]);
+    expect(FollowService.removeFollowsBetween).not.toHaveBeenCalled();
+  });
+
+  it("drops follows when a friendship is removed", async () => {
+    db.queue("friendships", "delete", {
+      data: friendship(FriendshipStatus.ACCEPTED),
+    });
+
+    await FriendshipService.deleteFriendship("friendship-1");
+
+    expect(FollowService.removeFollowsBetween).toHaveBeenCalledWith(
+      "user-1",
+      "user-2"
+    );
+    expect(FeedTimelineService.resetHomeTimelines).toHaveBeenCalledWith([
+      "user-1",
+      "user-2",
+    ]);
+  });
+
+  it("keeps follows when a pending request is withdrawn", async () => {
+    db.queue("friendships", "delete", {
+      data: friendship(FriendshipStatus.PENDING),
+    });
+
+    await FriendshipService.deleteFriendship("friendship-1");
+
+    expect(FollowService.removeFollowsBetween).not.toHaveBeenCalled();
+  });
+});
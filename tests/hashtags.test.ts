@@ -0,0 +1,35 @@
+// tests/hashtags.test.ts
+import { describe, it, expect } from "@jest/globals";
+import { extractHashtags, normalizeHashtag } from "../src/utils/hashtags";
+
+describe("Hashtags", () => {
+  it("extracts distinct normalized tags in order", () => {
+    expect(
+      extractHashtags("Sunset at the #Beach! #beach #Travel_2024, #café")
+    ).toEqual(["beach", "travel_2024", "café"]);
+  });
+
+  it("ignores numbers, URL fragments and HTML entities", () => {
+    expect(
+      extractHashtags("Ticket #42 see https://example.com/page#section &#35;x")
+    ).toEqual([]);
+    expect(extractHashtags("##double and word#tag")).toEqual([]);
+    expect(extractHashtags(null)).toEqual([]);
+  });
+
+  it("handles non-Latin scripts", () => {
+    expect(extractHashtags("#東京 #नमस्ते #Привет")).toEqual([
+      "東京",
+      "नमस्ते",
+      "привет",
+    ]);
+  });
+
+  it("normalizes tags from user input", () => {
+    expect(normalizeHashtag("#Beach ")).toBe("beach");
+    expect(normalizeHashtag("ＢＥＡＣＨ")).toBe("beach");
+    expect(normalizeHashtag("no spaces")).toBeNull();
+    expect(normalizeHashtag("2024")).toBeNull();
+    expect(normalizeHashtag("a".repeat(101))).toBeNull();
+  });
+});
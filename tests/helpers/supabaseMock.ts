@@ -0,0 +1,139 @@
+// tests/helpers/supabaseMock.ts
+/**
+ * A stand-in for the Supabase client in service tests. Queries are recorded
+ * instead of sent, and resolve with results queued per table and operation
+ * (or per function for rpc), in order. Unqueued queries find nothing.
+ */
+
+export type QueryOperation =
+  "select" | "insert" | "update" | "upsert" | "delete" | "rpc";
+
+export interface QueryResult {
+  data?: any;
+  error?: { message: string; code?: string } | null;
+  count?: number | null;
+}
+
+export interface RecordedQuery {
+  table: string;
+  operation: QueryOperation;
+  payload?: any;
+  filters: [string, ...any[]][];
+  single: boolean;
+}
+
+const FILTER_METHODS = [
+  "eq",
+  "neq",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "in",
+  "is",
+  "or",
+  "not",
+  "match",
+  "order",
+  "range",
+  "limit",
+];
+
+export const createSupabaseMock = () => {
+  const queries: RecordedQuery[] = [];
+  const queued = new Map<
+    string,
+    (QueryResult | ((q: RecordedQuery) => QueryResult))[]
+  >();
+
+  const resolve = (query: RecordedQuery) => {
+    const next = queued.get(`${query.table}:${query.operation}`)?.shift();
+    const result =
+      typeof next === "function"
+        ? next(query)
+        : (next ?? { data: query.single ? null : [] });
+
+    return { data: null, error: null, count: null, ...result };
+  };
+
+  const builder = (query: RecordedQuery): any => {
+    const chain: any = {
+      then: (
+        onFulfilled: (value: any) => any,
+        onRejected?: (reason: any) => any
+      ) => {
+        queries.push(query);
+        return Promise.resolve(resolve(query)).then(onFulfilled, onRejected);
+      },
+    };
+
+    for (const operation of ["insert", "update", "upsert"] as const) {
+      chain[operation] = (payload: any) => {
+        query.operation = operation;
+        query.payload = payload;
+        return chain;
+      };
+    }
+    chain.delete = () => {
+      query.operation = "delete";
+      return chain;
+    };
+    // After a write, select() only picks the returned columns
+    chain.select = () => chain;
+    chain.single = chain.maybeSingle = () => {
+      query.single = true;
+      return chain;
+    };
+    for (const method of FILTER_METHODS) {
+      chain[method] = (...args: any[]) => {
+        query.filters.push([method, ...args]);
+        return chain;
+      };
+    }
+
+    return chain;
+  };
+
+  return {
+    from: (table: string) =>
+      builder({ table, operation: "select", filters: [], single: false }),
+    rpc: (fn: string, args?: any) =>
+      builder({
+        table: fn,
+        operation: "rpc",
+        payload: args,
+        filters: [],
+        single: false,
+      }),
+
+    /**
+     * Queue the result of the next matching query
+     */
+    queue(
+      table: string,
+      operation: QueryOperation,
+      result: QueryResult | ((query: RecordedQuery) => QueryResult)
+    ) {
+      const key = `${table}:${operation}`;
+      queued.set(key, [...(queued.get(key) || []), result]);
+    },
+
+    /**
+     * Queries sent so far, optionally only those on a table
+     */
+    queries(table?: string, operation?: QueryOperation): RecordedQuery[] {
+      return queries.filter(
+        query =>
+          (!table || query.table === table) &&
+          (!operation || query.operation === operation)
+      );
+    },
+
+    reset() {
+      queries.length = 0;
+      queued.clear();
+    },
+  };
+};
+
+export type SupabaseMock = ReturnType<typeof createSupabaseMock>;
@@ -0,0 +1,44 @@
+// tests/mentions.test.ts
+import { describe, it, expect } from "@jest/globals";
+import { extractMentions, MAX_MENTIONS_PER_TEXT } from "../src/utils/mentions";
+
+describe("Mentions", () => {
+  it("returns each mention with its range in the text", () => {
+    const text = "Thanks @alice and @bob_99. See you, @alice!";
+    const mentions = extractMentions(text);
+
+    expect(mentions).toEqual([
+      { username: "alice", start: 7, end: 13 },
+      { username: "bob_99", start: 18, end: 25 },
+      { username: "alice", start: 36, end: 42 },
+    ]);
+    expect(mentions.map(m => text.slice(m.start, m.end))).toEqual([
+      "@alice",
+      "@bob_99",
+      "@alice",
+    ]);
+  });
+
+  it("ignores email addresses and too-short names", () => {
+    expect(extractMentions("mail me at bob@example.com")).toEqual([]);
+    expect(extractMentions("@@alice @al")).toEqual([]);
+    expect(extractMentions(undefined)).toEqual([]);
+  });
+
+  it("counts ranges in UTF-16 units after emoji", () => {
+    const text = "🎉 @j.doe";
+    const [mention] = extractMentions(text);
+
+    expect(mention).toEqual({ username: "j.doe", start: 3, end: 9 });
+    expect(text.slice(mention.start, mention.end)).toBe("@j.doe");
+  });
+
+  it("caps the number of distinct usernames", () => {
+    const text = Array.from(
+      { length: MAX_MENTIONS_PER_TEXT + 5 },
+      (_, i) => `@user${i}`
+    ).join(" ");
+
+    expect(extractMentions(text)).toHaveLength(MAX_MENTIONS_PER_TEXT);
+  });
+});
@@ -0,0 +1,99 @@
+// tests/pollHandler.test.ts
+import { describe, it, expect, jest, beforeEach } from "@jest/globals";
+import { Server as SocketIOServer, Socket } from "socket.io";
+
+jest.mock("../src/config/supabase", () => ({
+  supabase: {},
+  supabaseAdmin: {},
+}));
+jest.mock("../src/socketio", () => ({ getIO: jest.fn() }));
+jest.mock("../src/services/postService", () => ({
+  PostService: { canUserViewPost: jest.fn() },
+}));
+jest.mock("../src/utils/logger", () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+import { pollHandler } from "../src/socketio/handlers/pollHandler";
+import { roomHandler } from "../src/socketio/handlers/roomHandler";
+import { PostService } from "../src/services/postService";
+
+const canUserViewPost = PostService.canUserViewPost as jest.Mock<any>;
+
+const createSocket = () => {
+  const handlers = new Map<string, (data: unknown) => Promise<void>>();
+  const socket = {
+    id: "socket-1",
+    data: { user: { id: "user-1" } },
+    rooms: new Set<string>(),
+    on: jest.fn((event: string, handler: any) => handlers.set(event, handler)),
+    join: jest.fn(),
+    leave: jest.fn(),
+    emit: jest.fn(),
+    to: jest.fn(() => ({ emit: jest.fn() })),
+  };
+
+  return {
+    socket,
+    trigger: (event: string, data: unknown) => handlers.get(event)!(data),
+  };
+};
+
+const io = {} as SocketIOServer;
+
+describe("poll subscriptions", () => {
+  beforeEach(() => {
+    canUserViewPost.mockReset();
+  });
+
+  it("joins the poll room of a post the user can see", async () => {
+    const { socket, trigger } = createSocket();
+    canUserViewPost.mockResolvedValue(true);
+    pollHandler(io, socket as unknown as Socket);
+
+    await trigger("poll:subscribe", { postId: "post-1" });
+
+    expect(canUserViewPost).toHaveBeenCalledWith("post-1", "user-1");
+    expect(socket.join).toHaveBeenCalledWith("poll:post-1");
+    expect(socket.emit).toHaveBeenCalledWith("poll:subscribed", {
+      postId: "post-1",
+    });
+  });
+
+  it("won't join the poll room of a post the user can't see", async () => {
+    const { socket, trigger } = createSocket();
+    canUserViewPost.mockResolvedValue(false);
+    pollHandler(io, socket as unknown as Socket);
+
+    await trigger("poll:subscribe", { postId: "post-1" });
+
+    expect(socket.join).not.toHaveBeenCalled();
+    expect(socket.emit).toHaveBeenCalledWith("poll:error", {
+      postId: "post-1",
+      error: "Post not found",
+    });
+  });
+
+  it("leaves the poll room on unsubscribe", async () => {
+    const { socket, trigger } = createSocket();
+    pollHandler(io, socket as unknown as Socket);
+
+    await trigger("poll:unsubscribe", { postId: "post-1" });
+
+    expect(socket.leave).toHaveBeenCalledWith("poll:post-1");
+  });
+
+  it("keeps poll rooms out of room:join", async () => {
+    const { socket, trigger } = createSocket();
+    roomHandler(io, socket as unknown as Socket);
+    socket.join.mockClear();
+
+    await trigger("room:join", { roomId: "poll:post-1" });
+
+    expect(socket.join).not.toHaveBeenCalled();
+    expect(socket.emit).toHaveBeenCalledWith("room:error", {
+      roomId: "poll:post-1",
+      error: "Failed to join room",
+    });
+  });
+});
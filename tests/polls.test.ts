@@ -0,0 +1,104 @@
+// tests/polls.test.ts
+import { UUID } from "crypto";
+import { describe, it, expect } from "@jest/globals";
+import { isPollClosed, toPollView } from "../src/utils/polls";
+import {
+  PollResultsVisibility,
+  PostPoll,
+  PostPollOption,
+} from "../src/models/poll.model";
+
+const now = new Date("2026-03-01T12:00:00Z");
+
+function makePoll(overrides: Partial<PostPoll> = {}): PostPoll {
+  return {
+    id: "poll-1" as UUID,
+    post_id: "post-1" as UUID,
+    allows_multiple: false,
+    is_anonymous: false,
+    results_visibility: PollResultsVisibility.ALWAYS,
+    closes_at: null,
+    voter_count: 3,
+    created_at: now,
+    ...overrides,
+  };
+}
+
+const options: PostPollOption[] = [
+  {
+    id: "b" as UUID,
+    poll_id: "poll-1" as UUID,
+    position: 1,
+    text: "No",
+    vote_count: 1,
+  },
+  {
+    id: "a" as UUID,
+    poll_id: "poll-1" as UUID,
+    position: 0,
+    text: "Yes",
+    vote_count: 2,
+  },
+];
+
+const counts = (view: ReturnType<typeof toPollView>) =>
+  view.options.map(option => option.vote_count);
+
+describe("Poll results", () => {
+  it("orders options and shows counts when results are always visible", () => {
+    const view = toPollView(
+      makePoll(),
+      options,
+      { userId: "viewer", authorId: "author", vote: null },
+      now
+    );
+
+    expect(view.options.map(option => option.text)).toEqual(["Yes", "No"]);
+    expect(counts(view)).toEqual([2, 1]);
+    expect(view.is_closed).toBe(false);
+  });
+
+  it("hides counts until the viewer votes", () => {
+    const poll = makePoll({
+      results_visibility: PollResultsVisibility.AFTER_VOTE,
+    });
+
+    expect(
+      counts(
+        toPollView(
+          poll,
+          options,
+          { userId: "viewer", authorId: "author", vote: null },
+          now
+        )
+      )
+    ).toEqual([null, null]);
+    expect(
+      counts(
+        toPollView(
+          poll,
+          options,
+          { userId: "viewer", authorId: "author", vote: ["a" as UUID] },
+          now
+        )
+      )
+    ).toEqual([2, 1]);
+  });
+
+  it("hides counts until close, except from the author", () => {
+    const poll = makePoll({
+      results_visibility: PollResultsVisibility.AFTER_CLOSE,
+      closes_at: "2026-03-02T00:00:00Z",
+    });
+    const voter = { userId: "viewer", authorId: "author", vote: ["a" as UUID] };
+
+    expect(counts(toPollView(poll, options, voter, now))).toEqual([null, null]);
+    expect(
+      counts(toPollView(poll, options, { ...voter, userId: "author" }, now))
+    ).toEqual([2, 1]);
+
+    const later = new Date("2026-03-02T00:00:00Z");
+    expect(isPollClosed(poll, later)).toBe(true);
+    expect(counts(toPollView(poll, options, voter, later))).toEqual([2, 1]);
+  });
+});
@@ -0,0 +1,90 @@
+// tests/postDraftService.test.ts
+import { describe, it, expect, jest, beforeEach } from "@jest/globals";
+
+jest.mock("../src/config/supabase", () => {
+  const client = jest
+    .requireActual<typeof import("./helpers/supabaseMock")>(
+      "./helpers/supabaseMock"
+    )
+    .createSupabaseMock();
+  return { supabase: client, supabaseAdmin: client };
+});
+jest.mock("../src/services/postService", () => ({
+  PostService: {
+    createPost: jest.fn(),
+    addPostMedia: jest.fn(),
+    invalidateRelevantFeeds: jest.fn(),
+  },
+}));
+jest.mock("../src/utils/logger", () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+import { supabase } from "../src/config/supabase";
+import { PostService } from "../src/services/postService";
+import { PostDraftService } from "../src/services/postDraftService";
+import { PostDraftStatus, PostVisibility } from "../src/models/post.model";
+import { SupabaseMock } from "./helpers/supabaseMock";
+
+const db = supabase as unknown as SupabaseMock;
+const createPost = PostService.createPost as jest.Mock<any>;
+const addPostMedia = PostService.addPostMedia as jest.Mock<any>;
+
+const draft = {
+  id: "draft-1",
+  user_id: "user-1",
+  content: "Later",
+  media: [{ media_url: "https://example.com/a.jpg", media_type: "image" }],
+  feeling: null,
+  visibility: PostVisibility.PUBLIC,
+  location: null,
+  status: PostDraftStatus.PUBLISHING,
+};
+
+describe("PostDraftService.publishDueDrafts", () => {
+  beforeEach(() => {
+    db.reset();
+    jest.clearAllMocks();
+    createPost.mockResolvedValue({ id: "post-1", user_id: "user-1" });
+
+    // The stale publish sweep, then claiming the due draft
+    db.queue("post_drafts", "update", { data: null });
+    db.queue("post_drafts", "update", { data: draft });
+    db.queue("post_drafts", "select", { data: [{ id: draft.id }] });
+  });
+
+  it("publishes a due draft", async () => {
+    await expect(PostDraftService.publishDueDrafts()).resolves.toBe(1);
+
+    const [, , published] = db.queries("post_drafts", "update");
+    expect(published.payload).toMatchObject({
+      status: PostDraftStatus.PUBLISHED,
+      post_id: "post-1",
+    });
+  });
+
+  it("keeps a draft published when finishing its post fails", async () => {
+    addPostMedia.mockRejectedValue(new Error("storage unavailable"));
+
+    await expect(PostDraftService.publishDueDrafts()).resolves.toBe(1);
+
+    const updates = db.queries("post_drafts", "update");
+    expect(updates).toHaveLength(3);
+    expect(updates[2].payload).toMatchObject({
+      status: PostDraftStatus.PUBLISHED,
+      post_id: "post-1",
+    });
+  });
+
+  it("marks a draft failed when its post can't be created", async () => {
+    createPost.mockRejectedValue(new Error("database unavailable"));
+
+    await expect(PostDraftService.publishDueDrafts()).resolves.toBe(0);
+
+    const [, , failed] = db.queries("post_drafts", "update");
+    expect(failed.payload).toMatchObject({
+      status: PostDraftStatus.FAILED,
+      error: "database unavailable",
+    });
+  });
+});
@@ -0,0 +1,82 @@
+// tests/postShares.test.ts
+import { describe, it, expect, jest, beforeEach } from "@jest/globals";
+
+jest.mock("../src/config/supabase", () => {
+  const client = jest
+    .requireActual<typeof import("./helpers/supabaseMock")>(
+      "./helpers/supabaseMock"
+    )
+    .createSupabaseMock();
+  return { supabase: client, supabaseAdmin: client };
+});
+jest.mock("../src/services/redis.service", () => ({
+  redisService: { getUserFriends: jest.fn(async () => []) },
+}));
+jest.mock("../src/socketio", () => ({ getIO: jest.fn() }));
+jest.mock("../src/utils/logger", () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+import { supabase } from "../src/config/supabase";
+import { PostService } from "../src/services/postService";
+import { PostShareType, PostVisibility } from "../src/models/post.model";
+import { SupabaseMock } from "./helpers/supabaseMock";
+
+const db = supabase as unknown as SupabaseMock;
+
+const USER_ID = "user-1";
+
+const quote = {
+  id: "quote-1",
+  user_id: USER_ID,
+  content: "Worth a read",
+  visibility: PostVisibility.PUBLIC,
+  shared_post_id: "original-1",
+  share_type: PostShareType.QUOTE,
+};
+
+describe("editing a quote", () => {
+  beforeEach(() => {
+    db.reset();
+    db.queue("posts", "select", { data: quote });
+    db.queue("posts", "select", {
+      data: [
+        {
+          id: "original-1",
+          user_id: "user-2",
+          visibility: PostVisibility.PUBLIC,
+        },
+      ],
+    });
+  });
+
+  it("won't turn it into a second reshare of the same post", async () => {
+    db.queue("posts", "select", { data: { id: "reshare-1" } });
+
+    await expect(
+      PostService.updatePost(quote.id, USER_ID, { content: "" })
+    ).rejects.toMatchObject({ statusCode: 409 });
+
+    const [, , check] = db.queries("posts", "select");
+    expect(check.filters).toEqual(
+      expect.arrayContaining([
+        ["eq", "shared_post_id", "original-1"],
+        ["eq", "share_type", PostShareType.RESHARE],
+        ["neq", "id", quote.id],
+      ])
+    );
+    expect(db.queries("posts", "update")).toHaveLength(0);
+  });
+
+  it("turns it into a reshare when there is none yet", async () => {
+    db.queue("posts", "update", query => ({
+      data: { ...quote, ...query.payload },
+    }));
+
+    const updated = await PostService.updatePost(quote.id, USER_ID, {
+      content: "",
+    });
+
+    expect(updated.share_type).toBe(PostShareType.RESHARE);
+  });
+});
@@ -0,0 +1,74 @@
+// tests/postStats.test.ts
+import { describe, it, expect, jest, beforeEach } from "@jest/globals";
+
+jest.mock("../src/config/supabase", () => {
+  const client = jest
+    .requireActual<typeof import("./helpers/supabaseMock")>(
+      "./helpers/supabaseMock"
+    )
+    .createSupabaseMock();
+  return { supabase: client, supabaseAdmin: client };
+});
+jest.mock("../src/services/redis.service", () => ({
+  redisService: { getUserFriends: jest.fn(async () => []) },
+}));
+jest.mock("../src/socketio", () => ({ getIO: jest.fn() }));
+jest.mock("../src/utils/logger", () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+import { supabase } from "../src/config/supabase";
+import { PostService } from "../src/services/postService";
+import { PostShareType, PostVisibility } from "../src/models/post.model";
+import { SupabaseMock } from "./helpers/supabaseMock";
+
+const db = supabase as unknown as SupabaseMock;
+
+const post = (id: string, userId: string, extra = {}) => ({
+  id,
+  user_id: userId,
+  content: "Hello",
+  visibility: PostVisibility.PUBLIC,
+  view_count: 12,
+  impression_count: 40,
+  ...extra,
+});
+
+describe("post view and impression counts", () => {
+  beforeEach(() => {
+    db.reset();
+  });
+
+  it("are only shown to the post's author", async () => {
+    db.queue("posts", "select", {
+      data: [post("mine", "user-1"), post("theirs", "user-2")],
+    });
+
+    const [mine, theirs] = await PostService.getPostsByIds(
+      ["mine", "theirs"],
+      "user-1"
+    );
+
+    expect(mine).toMatchObject({ view_count: 12, impression_count: 40 });
+    expect(theirs).not.toHaveProperty("view_count");
+    expect(theirs).not.toHaveProperty("impression_count");
+  });
+
+  it("are hidden on a shared post by someone else", async () => {
+    db.queue("posts", "select", {
+      data: [
+        post("quote", "user-1", {
+          shared_post_id: "original",
+          share_type: PostShareType.QUOTE,
+        }),
+      ],
+    });
+    db.queue("posts", "select", { data: [post("original", "user-2")] });
+
+    const [quote] = await PostService.getPostsByIds(["quote"], "user-1");
+
+    expect(quote).toHaveProperty("view_count", 12);
+    expect(quote.shared_post).toMatchObject({ id: "original" });
+    expect(quote.shared_post).not.toHaveProperty("view_count");
+  });
+});
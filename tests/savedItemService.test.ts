@@ -0,0 +1,209 @@
+// tests/savedItemService.test.ts
+import { describe, it, expect, jest, beforeEach } from "@jest/globals";
+
+jest.mock("../src/config/supabase", () => {
+  const client = jest
+    .requireActual<typeof import("./helpers/supabaseMock")>(
+      "./helpers/supabaseMock"
+    )
+    .createSupabaseMock();
+  return { supabase: client, supabaseAdmin: client };
+});
+jest.mock("../src/services/postService", () => ({
+  PostService: { getPostsByIds: jest.fn() },
+}));
+jest.mock("../src/utils/logger", () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+import { supabase } from "../src/config/supabase";
+import { PostService } from "../src/services/postService";
+import { SavedItemService } from "../src/services/savedItemService";
+import { ItemType } from "../src/models/saved-item.model";
+import { SupabaseMock } from "./helpers/supabaseMock";
+
+const db = supabase as unknown as SupabaseMock;
+const getPostsByIds = PostService.getPostsByIds as jest.Mock<any>;
+
+const USER_ID = "user-1";
+const POST_ID = "post-1";
+const COLLECTION_ID = "collection-1";
+
+const visiblePost = {
+  id: POST_ID,
+  user_id: "author-1",
+  content: "A post worth keeping",
+};
+
+describe("SavedItemService", () => {
+  beforeEach(() => {
+    db.reset();
+    getPostsByIds.mockReset();
+    getPostsByIds.mockResolvedValue([visiblePost]);
+  });
+
+  describe("saving and unsaving", () => {
+    it("saves a post the user can see", async () => {
+      db.queue("saved_items", "insert", query => ({
+        data: { id: "saved-1", ...query.payload, created_at: "2026-10-19" },
+      }));
+
+      const item = await SavedItemService.saveItem(
+        USER_ID,
+        ItemType.POST,
+        POST_ID
+      );
+
+      expect(item).toMatchObject({
+        item_id: POST_ID,
+        title: "A post worth keeping",
+        is_available: true,
+      });
+      expect(db.queries("saved_items", "insert")[0].payload).toMatchObject({
+        user_id: USER_ID,
+        item_type: ItemType.POST,
+        item_id: POST_ID,
+        collection_id: null,
+      });
+    });
+
+    it("rejects saving an item twice without a second row", async () => {
+      db.queue("saved_items", "insert", {
+        error: { message: "duplicate key", code: "23505" },
+      });
+
+      await expect(
+        SavedItemService.saveItem(USER_ID, ItemType.POST, POST_ID)
+      ).rejects.toMatchObject({ statusCode: 409 });
+      expect(db.queries("saved_items", "insert")).toHaveLength(1);
+    });
+
+    it("reports unsaving an item that isn't saved", async () => {
+      db.queue("saved_items", "delete", { data: [{ id: "saved-1" }] });
+      db.queue("saved_items", "delete", { data: [] });
+
+      await SavedItemService.unsaveItem(USER_ID, ItemType.POST, POST_ID);
+      await expect(
+        SavedItemService.unsaveItem(USER_ID, ItemType.POST, POST_ID)
+      ).rejects.toMatchObject({ statusCode: 404 });
+
+      for (const query of db.queries("saved_items", "delete")) {
+        expect(query.filters).toContainEqual(["eq", "user_id", USER_ID]);
+      }
+    });
+
+    it("won't save a post the user can't view", async () => {
+      getPostsByIds.mockResolvedValue([]);
+
+      await expect(
+        SavedItemService.saveItem(USER_ID, ItemType.POST, POST_ID)
+      ).rejects.toMatchObject({ statusCode: 404 });
+      expect(getPostsByIds).toHaveBeenCalledWith([POST_ID], USER_ID);
+      expect(db.queries("saved_items", "insert")).toHaveLength(0);
+    });
+
+    it("lists saved posts the user can no longer view as unavailable", async () => {
+      getPostsByIds.mockResolvedValue([]);
+      db.queue("saved_items", "select", {
+        data: [
+          {
+            id: "saved-1",
+            user_id: USER_ID,
+            item_id: POST_ID,
+            item_type: ItemType.POST,
+            collection_id: null,
+            created_at: "2026-10-19",
+          },
+        ],
+        count: 1,
+      });
+
+      const { items } = await SavedItemService.getSavedItems(USER_ID);
+
+      expect(items[0]).toMatchObject({
+        item_id: POST_ID,
+        is_available: false,
+        title: "This post is no longer available",
+      });
+    });
+  });
+
+  describe("collection ownership", () => {
+    it("won't save into another user's collection", async () => {
+      db.queue("save_collections", "select", { data: null });
+
+      await expect(
+        SavedItemService.saveItem(
+          USER_ID,
+          ItemType.POST,
+          POST_ID,
+          COLLECTION_ID
+        )
+      ).rejects.toMatchObject({ statusCode: 404 });
+
+      expect(db.queries("save_collections")[0].filters).toContainEqual([
+        "eq",
+        "user_id",
+        USER_ID,
+      ]);
+      expect(db.queries("saved_items", "insert")).toHaveLength(0);
+    });
+
+    it("won't move items into another user's collection", async () => {
+      db.queue("save_collections", "select", { data: null });
+
+      await expect(
+        SavedItemService.moveItems(USER_ID, ["saved-1"], COLLECTION_ID)
+      ).rejects.toMatchObject({ statusCode: 404 });
+      expect(db.queries("saved_items", "update")).toHaveLength(0);
+    });
+
+    it("only moves the user's own saved items", async () => {
+      db.queue("save_collections", "select", {
+        data: { id: COLLECTION_ID, user_id: USER_ID, name: "Recipes" },
+      });
+      db.queue("saved_items", "update", { data: [{ id: "saved-1" }] });
+
+      const moved = await SavedItemService.moveItems(
+        USER_ID,
+        ["saved-1", "someone-elses"],
+        COLLECTION_ID
+      );
+
+      expect(moved).toBe(1);
+      expect(db.queries("saved_items", "update")[0].filters).toContainEqual([
+        "eq",
+        "user_id",
+        USER_ID,
+      ]);
+    });
+
+    it("won't delete another user's collection", async () => {
+      db.queue("save_collections", "select", { data: null });
+
+      await expect(
+        SavedItemService.deleteCollection(USER_ID, COLLECTION_ID)
+      ).rejects.toMatchObject({ statusCode: 404 });
+      expect(db.queries("saved_items", "update")).toHaveLength(0);
+      expect(db.queries("save_collections", "delete")).toHaveLength(0);
+    });
+
+    it("keeps a deleted collection's items saved, unfiled", async () => {
+      db.queue("save_collections", "select", {
+        data: { id: COLLECTION_ID, user_id: USER_ID, name: "Recipes" },
+      });
+
+      await SavedItemService.deleteCollection(USER_ID, COLLECTION_ID);
+
+      const [unfile] = db.queries("saved_items", "update");
+      expect(unfile.payload).toEqual({ collection_id: null });
+      expect(unfile.filters).toContainEqual([
+        "eq",
+        "collection_id",
+        COLLECTION_ID,
+      ]);
+      expect(db.queries("saved_items", "delete")).toHaveLength(0);
+      expect(db.queries("save_collections", "delete")).toHaveLength(1);
+    });
+  });
+});
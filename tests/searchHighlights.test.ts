@@ -0,0 +1,34 @@
+// tests/searchHighlights.test.ts
+import { describe, it, expect } from "@jest/globals";
+import { parseHighlightedSnippet } from "../src/utils/searchHighlights";
+
+describe("Search highlights", () => {
+  it("returns plain text with the range of each match", () => {
+    const { text, highlights } = parseHighlightedSnippet(
+      "Best \u0002coffee\u0003 in town, \u0002coffee\u0003 again"
+    );
+
+    expect(text).toBe("Best coffee in town, coffee again");
+    expect(highlights.map(h => text.slice(h.start, h.end))).toEqual([
+      "coffee",
+      "coffee",
+    ]);
+  });
+
+  it("counts ranges in UTF-16 units after emoji", () => {
+    const { text, highlights } = parseHighlightedSnippet(
+      "☕🎉 \u0002brew\u0003"
+    );
+
+    expect(highlights).toEqual([{ start: 4, end: 8 }]);
+    expect(text.slice(4, 8)).toBe("brew");
+  });
+
+  it("drops unbalanced and empty markers", () => {
+    expect(parseHighlightedSnippet("a \u0003b\u0002\u0003 c\u0002d")).toEqual({
+      text: "a b cd",
+      highlights: [],
+    });
+    expect(parseHighlightedSnippet(null)).toEqual({ text: "", highlights: [] });
+  });
+});
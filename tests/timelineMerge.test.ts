@@ -0,0 +1,39 @@
+// tests/timelineMerge.test.ts
+import { describe, it, expect } from "@jest/globals";
+import { mergeTimelines } from "../src/utils/timelineMerge";
+
+describe("Timeline merge", () => {
+  it("interleaves timelines newest first", () => {
+    const home = [
+      { member: "a", score: 50 },
+      { member: "c", score: 30 },
+    ];
+    const outbox = [
+      { member: "b", score: 40 },
+      { member: "d", score: 10 },
+    ];
+
+    expect(mergeTimelines([home, outbox], 10)).toEqual(["a", "b", "c", "d"]);
+  });
+
+  it("keeps a post once when it is in several timelines", () => {
+    const home = [{ member: "a", score: 20 }];
+    const outbox = [
+      { member: "a", score: 20 },
+      { member: "b", score: 10 },
+    ];
+
+    expect(mergeTimelines([home, outbox], 10)).toEqual(["a", "b"]);
+  });
+
+  it("stops at the limit and breaks ties by id", () => {
+    const timeline = [
+      { member: "y", score: 5 },
+      { member: "x", score: 5 },
+      { member: "z", score: 1 },
+    ];
+
+    expect(mergeTimelines([timeline], 2)).toEqual(["x", "y"]);
+    expect(mergeTimelines([], 5)).toEqual([]);
+  });
+});
@@ -0,0 +1,52 @@
+// tests/totp.test.ts
+import { describe, it, expect } from "@jest/globals";
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateTotp,
+  generateTotpSecret,
+  verifyTotp,
+} from "../src/utils/totp";
+
+// RFC 6238 appendix B shared secret ("12345678901234567890") in base32
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+describe("TOTP utilities", () => {
+  it("round-trips base32 encoding", () => {
+    const bytes = Buffer.from("12345678901234567890");
+    expect(base32Encode(bytes)).toBe(RFC_SECRET);
+    expect(base32Decode(RFC_SECRET).toString()).toBe("12345678901234567890");
+    expect(base32Decode(RFC_SECRET.toLowerCase())).toEqual(bytes);
+  });
+
+  it("matches the RFC 6238 SHA1 test vectors (6 digit truncation)", () => {
+    expect(generateTotp(RFC_SECRET, 59 * 1000)).toBe("287082");
+    expect(generateTotp(RFC_SECRET, 1111111109 * 1000)).toBe("081804");
+    expect(generateTotp(RFC_SECRET, 1234567890 * 1000)).toBe("005924");
+  });
+
+  it("accepts codes within the drift window and rejects others", () => {
+    const now = 1234567890 * 1000;
+    const previousStepCode = generateTotp(RFC_SECRET, now - 30 * 1000);
+    const oldCode = generateTotp(RFC_SECRET, now - 5 * 30 * 1000);
+
+    expect(verifyTotp(RFC_SECRET, "005924", 1, now)).toBe(
+      Math.floor(1234567890 / 30)
+    );
+    expect(verifyTotp(RFC_SECRET, previousStepCode, 1, now)).not.toBeNull();
+    expect(verifyTotp(RFC_SECRET, oldCode, 1, now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "12345", 1, now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "abcdef", 1, now)).toBeNull();
+  });
+
+  it("generates secrets that authenticators can use", () => {
+    const secret = generateTotpSecret();
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(verifyTotp(secret, generateTotp(secret))).not.toBeNull();
+
+    const uri = buildOtpauthUri(secret, "jane@example.com", "Social Platform");
+    expect(uri.startsWith("otpauth://totp/Social%20Platform%3Ajane%40example.com?")).toBe(true);
+    expect(uri).toContain(`secret=${secret}`);
+  });
+});
@@ -0,0 +1,106 @@
+// tests/twoFactorLogin.test.ts
+import { describe, it, expect, jest, beforeEach } from "@jest/globals";
+import { Request, Response } from "express";
+
+jest.mock("../src/config/supabase", () => ({
+  supabase: {},
+  supabaseAdmin: {},
+}));
+jest.mock("../src/services/redis.service", () => ({
+  redisService: {
+    keys: {
+      twoFactorChallenge: (jti: string) => `2fa:challenge:${jti}`,
+      bruteForceAttempts: (scope: string, key: string) =>
+        `bruteforce:attempts:${scope}:${key}`,
+      bruteForceBlock: (scope: string, key: string) =>
+        `bruteforce:block:${scope}:${key}`,
+      accountLockout: (account: string) => `bruteforce:lockout:${account}`,
+    },
+    isReady: () => true,
+    increment: jest.fn(),
+    set: jest.fn(),
+    getRemainingTTL: jest.fn(),
+  },
+}));
+jest.mock("../src/services/privacySettingsService", () => ({
+  PrivacySettingsService: {},
+}));
+jest.mock("../src/services/userService", () => ({ UserService: {} }));
+jest.mock("../src/services/emailService", () => ({ EmailService: {} }));
+jest.mock("../src/utils/logger", () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+import { TwoFactorService } from "../src/services/twoFactorService";
+import { BruteForceScope } from "../src/services/bruteForceService";
+import { bruteForceProtection } from "../src/middlewares/bruteForceProtection";
+import { redisService } from "../src/services/redis.service";
+
+const mockRedis = redisService as unknown as {
+  increment: jest.Mock<any>;
+  set: jest.Mock<any>;
+  getRemainingTTL: jest.Mock<any>;
+};
+
+describe("two-factor login", () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    mockRedis.increment.mockReset();
+    mockRedis.getRemainingTTL.mockReset();
+  });
+
+  it("refuses to check codes when the attempt counter is unavailable", async () => {
+    const { challengeToken } = TwoFactorService.createLoginChallenge("user-1");
+    const verifyCode = jest.spyOn(TwoFactorService, "verifyCode");
+    mockRedis.increment.mockResolvedValue(null);
+
+    await expect(
+      TwoFactorService.verifyLoginChallenge(challengeToken, "123456")
+    ).rejects.toMatchObject({ statusCode: 503 });
+    expect(verifyCode).not.toHaveBeenCalled();
+  });
+
+  it("stops accepting codes for a challenge after too many attempts", async () => {
+    const { challengeToken } = TwoFactorService.createLoginChallenge("user-1");
+    mockRedis.increment.mockResolvedValue(6);
+
+    await expect(
+      TwoFactorService.verifyLoginChallenge(challengeToken, "123456")
+    ).rejects.toMatchObject({ statusCode: 429 });
+  });
+
+  it("reads the challenge's user only from a valid challenge", () => {
+    const { challengeToken } = TwoFactorService.createLoginChallenge("user-1");
+
+    expect(TwoFactorService.getChallengeUserId(challengeToken)).toBe("user-1");
+    expect(TwoFactorService.getChallengeUserId("not-a-token")).toBeUndefined();
+    expect(TwoFactorService.getChallengeUserId(undefined)).toBeUndefined();
+  });
+
+  it("rate limits verification per challenged account", async () => {
+    const { challengeToken } = TwoFactorService.createLoginChallenge("user-1");
+    mockRedis.getRemainingTTL.mockImplementation(async (key: any) =>
+      key === `bruteforce:block:two_factor:account:user-1` ? 120 : null
+    );
+
+    const req = {
+      body: { challengeToken, code: "123456" },
+      ip: "127.0.0.1",
+    } as Request;
+    const res: any = { locals: {} };
+    res.status = jest.fn(() => res);
+    res.json = jest.fn(() => res);
+    res.setHeader = jest.fn();
+    const next = jest.fn();
+
+    await bruteForceProtection(BruteForceScope.TWO_FACTOR)(
+      req,
+      res as Response,
+      next
+    );
+
+    expect(res.locals.bruteForce.account).toBe("user-1");
+    expect(res.status).toHaveBeenCalledWith(429);
+    expect(next).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,67 @@
+// tests/zip.test.ts
+import zlib from "zlib";
+import { describe, it, expect } from "@jest/globals";
+import { crc32, createZip } from "../src/utils/zip";
+
+/**
+ * Read every file back through the central directory, the way unzip tools do
+ */
+function readZip(archive: Buffer): Record<string, string> {
+  const endOffset = archive.length - 22;
+  expect(archive.readUInt32LE(endOffset)).toBe(0x06054b50);
+
+  const count = archive.readUInt16LE(endOffset + 10);
+  let cursor = archive.readUInt32LE(endOffset + 16);
+  const files: Record<string, string> = {};
+
+  for (let i = 0; i < count; i++) {
+    expect(archive.readUInt32LE(cursor)).toBe(0x02014b50);
+    const checksum = archive.readUInt32LE(cursor + 16);
+    const compressedSize = archive.readUInt32LE(cursor + 20);
+    const nameLength = archive.readUInt16LE(cursor + 28);
+    const localOffset = archive.readUInt32LE(cursor + 42);
+    const name = archive.toString(
+      "utf8",
+      cursor + 46,
+      cursor + 46 + nameLength
+    );
+
+    expect(archive.readUInt32LE(localOffset)).toBe(0x04034b50);
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26);
+    const data = zlib.inflateRawSync(
+      archive.subarray(dataStart, dataStart + compressedSize)
+    );
+    expect(crc32(data)).toBe(checksum);
+
+    files[name] = data.toString("utf8");
+    cursor += 46 + nameLength;
+  }
+
+  return files;
+}
+
+describe("ZIP writer", () => {
+  it("computes standard CRC-32 checksums", () => {
+    expect(crc32(Buffer.from("123456789"))).toBe(0xcbf43926);
+    expect(crc32(Buffer.alloc(0))).toBe(0);
+  });
+
+  it("round-trips files through the central directory", () => {
+    const posts = JSON.stringify([{ id: 1, content: "héllo" }], null, 2);
+    const archive = createZip([
+      { name: "posts.json", data: posts },
+      { name: "media/readme.txt", data: Buffer.from("binary ok") },
+    ]);
+
+    expect(readZip(archive)).toEqual({
+      "posts.json": posts,
+      "media/readme.txt": "binary ok",
+    });
+  });
+
+  it("writes a valid empty archive", () => {
+    const archive = createZip([]);
+    expect(archive.length).toBe(22);
+    expect(readZip(archive)).toEqual({});
+  });
+});